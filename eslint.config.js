@@ -20,4 +20,18 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // Scripts of exported lessons - loaded as they are, so plain ES5 without modules
+    files: ['src/export/player/*.js'],
+    extends: [js.configs.recommended],
+    languageOptions: {
+      ecmaVersion: 5,
+      sourceType: 'script',
+      globals: globals.browser,
+    },
+    rules: {
+      // ES5 has no catch without a binding
+      'no-unused-vars': ['error', { caughtErrors: 'none' }],
+    },
+  },
 ])
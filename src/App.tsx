@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { SetStateAction } from 'react';
 import { nanoid } from 'nanoid';
 import {
   DndContext,
@@ -13,9 +14,9 @@ import type {
   DragStartEvent,
   DragOverEvent,
 } from '@dnd-kit/core';
-import { arrayMove } from '@dnd-kit/sortable';
 import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import { TopBar } from './components/TopBar';
+import type { SaveStatus } from './components/TopBar';
 import { BlocksPalette } from './components/BlocksPalette';
 import { LessonCanvas } from './components/LessonCanvas';
 import { PropertiesPanel } from './components/PropertiesPanel';
@@ -23,63 +24,83 @@ import { PreviewToolbar, deviceConfigs } from './components/PreviewToolbar';
 import { PreviewStage } from './components/PreviewStage';
 import { ImageFillModal } from './components/ImageFillModal';
 import { ThemeEditor } from './components/ThemeEditor';
+import { RecoveryPrompt } from './components/RecoveryPrompt';
+import { LessonLibrary } from './components/LessonLibrary';
+import { QuestionBankManager } from './components/QuestionBankManager';
+import { ExportDialog } from './components/ExportDialog';
+import { QtiImportDialog } from './components/QtiImportDialog';
+import { PrintDialog } from './components/PrintDialog';
+import { XapiPanel } from './components/XapiPanel';
 import { useThemeSwitcher, useTheme } from './theme/ThemeProvider';
 import type { DeviceType } from './components/PreviewToolbar';
-import type { Block, BlockType, ColumnsBlock, Row, Cell, Resource, SectionTemplate } from './types';
+import type { Block, BlockType, ColumnsBlock, Row, Cell, SectionTemplate, LessonPageProps, QuestionBank, QuizBlock } from './types';
 import { createBlock, getPredefinedSections } from './types';
 import { 
   extractBlocksFromSections, 
   findBlockInSections, 
   migrateRowsToSections,
-  findBlockInRows,
-  findBlockLocationInRows,
-  findResourceLocation,
-  findCellInRows,
-  findCellLocationInRows,
   createNewRow,
   createNewConstructor,
-  isBlock,
-  isConstructor,
 } from './utils/sections';
+import { findBlock, findCell, findCellLocation, findResourceLocation, findRow } from './document/tree';
+import { cloneRow, cloneCell, cloneResource } from './document/ids';
+import { applyCommand, applyCommands, isColumnsRow, MAX_COLUMNS } from './document/commands';
+import type { DocumentCommand } from './document/commands';
+import {
+  loadLesson,
+  loadInitialLesson,
+  saveLesson,
+  loadDraft,
+  saveDraft,
+  deleteDraft,
+  createLessonRecord,
+  getLessonMetadata,
+  setLastOpenedLessonId,
+  isQuotaExceededError,
+  listQuestionBanks,
+  saveQuestionBank,
+  deleteQuestionBank,
+  listLessons,
+} from './utils/lessonStorage';
+import type { StoredLesson, LessonMetadata } from './utils/lessonStorage';
+import { writeClipboardContent, readClipboardContent } from './utils/clipboard';
+import type { ClipboardContent } from './utils/clipboard';
+import { createHistory, pushHistory, undoHistory, redoHistory, getRowsChangeKey } from './utils/history';
+import { collectQuizBlocks } from './utils/quiz';
+import { createRowGate } from './utils/rowGates';
+import { getAdjacentLessonId } from './utils/buttons';
+import { QuestionBankContext } from './quiz/questionBankContext';
 import './App.css';
 
+// Debounce delays for persistence: the recovery draft is written eagerly,
+// the autosaved copy once editing has settled
+const DRAFT_DELAY_MS = 300;
+const AUTOSAVE_DELAY_MS = 1500;
+
+// The undoable part of the editor state
+interface EditorDocument {
+  rows: Row[];
+  pageProps: LessonPageProps;
+}
+
+
 
 function App() {
   const { customThemes, updateCustomThemes } = useThemeSwitcher();
   const { theme, themeId } = useTheme();
   // Use rows as primary state (Row/Cell/Resource model)
-  const [rows, setRows] = useState<Row[]>([]);
+  // rows and pageProps live in an undo/redo history - all changes go through setRows/setPageProps
+  const [documentHistory, setDocumentHistory] = useState(() =>
+    createHistory<EditorDocument>({ rows: [], pageProps: {} })
+  );
+  const { rows, pageProps } = documentHistory.present;
+  // Coalesce key shared by every change made during one drag gesture
+  const historyGroupRef = useRef<string | null>(null);
   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
   const [selectedCellId, setSelectedCellId] = useState<string | null>(null);
   const [selectedRowId, setSelectedRowId] = useState<string | null>(null); // Track selected row for insertion
   const [isPageSelected, setIsPageSelected] = useState(false); // Track if page is selected
   const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
-  // Page properties - theme-specific background settings
-  const [pageProps, setPageProps] = useState<{
-    themes?: {
-      plain?: {
-        backgroundColor?: string;
-        backgroundColorOpacity?: number;
-        backgroundImage?: string;
-        backgroundImageOpacity?: number;
-        maxRowWidth?: number;
-      };
-      neon?: {
-        backgroundColor?: string;
-        backgroundColorOpacity?: number;
-        backgroundImage?: string;
-        backgroundImageOpacity?: number;
-        maxRowWidth?: number;
-      };
-      [key: string]: {
-        backgroundColor?: string;
-        backgroundColorOpacity?: number;
-        backgroundImage?: string;
-        backgroundImageOpacity?: number;
-        maxRowWidth?: number;
-      } | undefined;
-    };
-  }>({});
   const [editingBlockId, setEditingBlockId] = useState<string | null>(null);
   const [isPreview, setIsPreview] = useState(false);
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -88,6 +109,254 @@ function App() {
   const [isRightSidebarOpen, setIsRightSidebarOpen] = useState(false);
   const [showStructureStrokes, setShowStructureStrokes] = useState(false);
 
+  // Persistence state
+  const [currentLesson, setCurrentLesson] = useState<LessonMetadata | null>(null);
+  // Lesson picked in the library - null opens the last used lesson on startup
+  const [requestedLessonId, setRequestedLessonId] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isLessonLoaded, setIsLessonLoaded] = useState(false);
+  const [pendingRecovery, setPendingRecovery] = useState<StoredLesson | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Question banks live outside the lesson (shared ones are used by several lessons)
+  const [questionBanks, setQuestionBanks] = useState<QuestionBank[]>([]);
+  const [isQuestionBankManagerOpen, setIsQuestionBankManagerOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isPrintDialogOpen, setIsPrintDialogOpen] = useState(false);
+  const [isQtiImportOpen, setIsQtiImportOpen] = useState(false);
+  const [isXapiPanelOpen, setIsXapiPanelOpen] = useState(false);
+  // State exactly as loaded from storage - unchanged references mean there is nothing to persist
+  const loadedLessonRef = useRef<{ rows: Row[]; pageProps: LessonPageProps; lesson: LessonMetadata } | null>(null);
+  // Latest snapshot waiting for autosave, flushed when the page is hidden or another lesson is opened
+  const pendingSaveRef = useRef<StoredLesson | null>(null);
+
+  // Load the requested lesson (and any newer crash-recovery draft)
+  useEffect(() => {
+    let isCancelled = false;
+
+    const lessonPromise = requestedLessonId
+      ? loadLesson(requestedLessonId).then((lesson) => lesson ?? loadInitialLesson())
+      : loadInitialLesson();
+
+    lessonPromise
+      .then(async (savedLesson) => {
+        const draft = await loadDraft(savedLesson.id);
+        if (isCancelled) return;
+
+        const metadata = getLessonMetadata(savedLesson);
+        loadedLessonRef.current = { rows: savedLesson.rows, pageProps: savedLesson.pageProps, lesson: metadata };
+        setCurrentLesson(metadata);
+        setDocumentHistory(createHistory({ rows: savedLesson.rows, pageProps: savedLesson.pageProps }));
+        setSelectedBlockId(null);
+        setSelectedCellId(null);
+        setSelectedRowId(null);
+        setEditingBlockId(null);
+        setIsPageSelected(false);
+        setSaveStatus('idle');
+        setSaveError(null);
+        setLastOpenedLessonId(savedLesson.id);
+        // A draft newer than the saved lesson means the last session ended before autosave
+        setPendingRecovery(draft && draft.updatedAt > savedLesson.updatedAt ? draft : null);
+      })
+      .catch((error) => {
+        console.error('Failed to load lesson:', error);
+        // Keep editing possible - autosave will report the storage error
+        if (!isCancelled) setCurrentLesson((prev) => prev ?? getLessonMetadata(createLessonRecord()));
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLessonLoaded(true);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [requestedLessonId]);
+
+  // Load the question banks once - edits go through handleSaveQuestionBank
+  useEffect(() => {
+    listQuestionBanks()
+      .then(setQuestionBanks)
+      .catch((error) => console.error('Failed to load question banks:', error));
+  }, []);
+
+  const handleSaveQuestionBank = async (bank: QuestionBank) => {
+    setQuestionBanks((prev) =>
+      [...prev.filter((b) => b.id !== bank.id), bank].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    await saveQuestionBank(bank);
+  };
+
+  const handleDeleteQuestionBank = async (bankId: string) => {
+    await deleteQuestionBank(bankId);
+    setQuestionBanks((prev) => prev.filter((bank) => bank.id !== bankId));
+  };
+
+  // Debounced draft + autosave whenever the lesson changes
+  useEffect(() => {
+    if (!isLessonLoaded || pendingRecovery || !currentLesson) return;
+    const loaded = loadedLessonRef.current;
+    if (loaded && loaded.rows === rows && loaded.pageProps === pageProps && loaded.lesson === currentLesson) {
+      return;
+    }
+
+    const snapshot: StoredLesson = {
+      ...currentLesson,
+      // Empty state rows are transient insertion placeholders - don't persist them
+      rows: rows.filter((row) => !row.isEmptyState),
+      pageProps,
+      updatedAt: Date.now(),
+    };
+    pendingSaveRef.current = snapshot;
+    setSaveStatus('saving');
+
+    const handlePersistError = (error: unknown) => {
+      console.error('Failed to save lesson:', error);
+      setSaveStatus('error');
+      setSaveError(
+        isQuotaExceededError(error)
+          ? 'Browser storage is full. Remove large images or free up space, then keep editing to retry.'
+          : 'Your changes could not be saved to browser storage.'
+      );
+    };
+
+    const draftTimeout = setTimeout(() => {
+      saveDraft(snapshot).catch(handlePersistError);
+    }, DRAFT_DELAY_MS);
+
+    const autosaveTimeout = setTimeout(() => {
+      saveLesson(snapshot)
+        .then(() => {
+          if (pendingSaveRef.current === snapshot) pendingSaveRef.current = null;
+          setSaveStatus('saved');
+          setSaveError(null);
+          return deleteDraft(snapshot.id);
+        })
+        .catch(handlePersistError);
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(draftTimeout);
+      clearTimeout(autosaveTimeout);
+    };
+  }, [rows, pageProps, currentLesson, isLessonLoaded, pendingRecovery]);
+
+  // Flush a pending autosave when the tab is hidden or closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (pendingSaveRef.current) {
+        saveDraft(pendingSaveRef.current).catch(() => {});
+        saveLesson(pendingSaveRef.current).catch(() => {});
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  // Commit a pending autosave immediately (before the library lists lessons or another lesson opens)
+  const flushPendingSave = async () => {
+    const snapshot = pendingSaveRef.current;
+    if (!snapshot) return;
+    pendingSaveRef.current = null;
+    try {
+      await saveLesson(snapshot);
+      await deleteDraft(snapshot.id);
+    } catch (error) {
+      console.error('Failed to save lesson:', error);
+    }
+  };
+
+  const handleOpenLibrary = async () => {
+    await flushPendingSave();
+    setIsLibraryOpen(true);
+  };
+
+  const handleOpenLesson = async (lessonId: string) => {
+    setIsLibraryOpen(false);
+    if (lessonId === currentLesson?.id) return;
+    await flushPendingSave();
+    setIsLessonLoaded(false); // Stops autosave until the new lesson has loaded
+    setRequestedLessonId(lessonId);
+  };
+
+  // Next/previous page buttons in the preview open the neighbouring lesson, staying in preview
+  const handleNavigateLesson = async (direction: 'next' | 'previous') => {
+    if (!currentLesson) return;
+    try {
+      const lessons = (await listLessons()).filter((lesson) => !lesson.archived);
+      const lessonId = getAdjacentLessonId(lessons, currentLesson.id, direction);
+      if (lessonId) await handleOpenLesson(lessonId);
+    } catch (error) {
+      console.error('Failed to open the next lesson:', error);
+    }
+  };
+
+  const handleRestoreDraft = () => {
+    if (!pendingRecovery) return;
+    // Restored state differs from the loaded lesson, so autosave commits it
+    setCurrentLesson(getLessonMetadata(pendingRecovery));
+    setDocumentHistory(createHistory({ rows: pendingRecovery.rows, pageProps: pendingRecovery.pageProps }));
+    setPendingRecovery(null);
+  };
+
+  const handleDiscardDraft = () => {
+    if (!pendingRecovery) return;
+    setPendingRecovery(null);
+    deleteDraft(pendingRecovery.id).catch((error) => {
+      console.error('Failed to discard draft:', error);
+    });
+  };
+
+  // Record a rows change in the undo history (same signature as a useState setter)
+  const setRows = (update: SetStateAction<Row[]>) => {
+    const groupKey = historyGroupRef.current;
+    const time = Date.now();
+    setDocumentHistory((history) => {
+      const prevRows = history.present.rows;
+      const nextRows = typeof update === 'function' ? update(prevRows) : update;
+      return pushHistory(history, nextRows === prevRows ? history.present : { ...history.present, rows: nextRows }, {
+        key: groupKey ?? getRowsChangeKey(prevRows, nextRows),
+        time,
+        coalesceMs: groupKey ? Infinity : undefined, // A drag is one step however long it takes
+      });
+    });
+  };
+
+  const setPageProps = (nextPageProps: LessonPageProps) => {
+    const time = Date.now();
+    setDocumentHistory((history) =>
+      pushHistory(history, { ...history.present, pageProps: nextPageProps }, { key: 'page', time })
+    );
+  };
+
+  const handleUndo = () => setDocumentHistory(undoHistory);
+  const handleRedo = () => setDocumentHistory(redoHistory);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo - not in preview, where the
+  // lesson can't be edited and a change would go unseen
+  useEffect(() => {
+    if (isPreview) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+
+      // Text inputs and rich text editors keep their own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.closest('input, textarea, select'))) return;
+
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        setDocumentHistory(redoHistory);
+      } else {
+        setDocumentHistory(undoHistory);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPreview]);
+
   // Derive sections from rows for backward compatibility (rendering, PreviewStage, etc.)
   const sections = migrateRowsToSections(rows);
   const blocks = extractBlocksFromSections(sections);
@@ -96,7 +365,7 @@ function App() {
   // This is used for insertion logic but doesn't affect row selection state
   const getSelectedBlockRowId = (): string | null => {
     if (selectedBlockId) {
-      const location = findBlockLocationInRows(rows, selectedBlockId);
+      const location = findResourceLocation(rows, selectedBlockId);
       return location ? location.rowId : null;
   }
   return null;
@@ -113,7 +382,7 @@ function App() {
     const MAX_RETRIES = 20; // Max 1 second of retries (20 * 50ms)
 
     const scrollToNewRow = () => {
-      const location = findBlockLocationInRows(rows, newlyInsertedBlockId);
+      const location = findResourceLocation(rows, newlyInsertedBlockId);
       if (!location) {
         // Retry if location not found yet
         if (retryCount < MAX_RETRIES) {
@@ -183,104 +452,21 @@ function App() {
   );
 
   const selectedBlock =
-    selectedBlockId ? findBlockInRows(rows, selectedBlockId) : null;
+    selectedBlockId ? findBlock(rows, selectedBlockId) : null;
 
-  const handleUpdateBlock = (updatedBlock: Block) => {
-    const updateBlockInRows = (rowsToUpdate: Row[]): Row[] => {
-      return rowsToUpdate.map((row) => {
-        const updatedCells = row.cells.map((cell) => {
-          const updatedResources = cell.resources.map((resource) => {
-            if (isBlock(resource) && resource.id === updatedBlock.id) {
-              return updatedBlock;
-            }
-            if (isConstructor(resource)) {
-              // Recursively update nested constructors
-              return updateBlockInRows([resource])[0];
-            }
-            return resource;
-          });
-          return { ...cell, resources: updatedResources };
-        });
-        return { ...row, cells: updatedCells };
-      });
-    };
+  // Apply document commands to the rows (recorded in the undo history like any other change)
+  const dispatch = (...commands: DocumentCommand[]) => {
+    setRows((prev) => applyCommands(prev, commands));
+  };
 
-    setRows(updateBlockInRows(rows));
+  const handleUpdateBlock = (updatedBlock: Block) => {
+    dispatch({ type: 'updateBlock', block: updatedBlock });
   };
 
   const handleDeleteBlock = () => {
-    if (!selectedBlockId) return;
-    
-    const location = findBlockLocationInRows(rows, selectedBlockId);
-    if (!location) return;
+    if (!selectedBlockId || !findBlock(rows, selectedBlockId)) return;
 
-    const deleteBlockFromRows = (rowsToUpdate: Row[]): Row[] => {
-      return rowsToUpdate.map((row) => {
-        if (row.id !== location.rowId) {
-          // Recursively check nested constructors
-          const updatedCells = row.cells.map((cell) => {
-            const updatedResources = cell.resources
-              .filter((resource) => {
-                if (isBlock(resource)) {
-                  return resource.id !== selectedBlockId;
-                }
-                if (isConstructor(resource)) {
-                  // Recursively delete from nested constructors
-                  const nestedLocation = findBlockLocationInRows([resource], selectedBlockId);
-                  if (nestedLocation) {
-                    const updatedNested = deleteBlockFromRows([resource])[0];
-                    // If constructor becomes empty, remove it
-                    return updatedNested.cells.some(c => c.resources.length > 0);
-                  }
-                  return true;
-                }
-                return true;
-              })
-              .map((resource) => {
-                if (isConstructor(resource)) {
-                  return deleteBlockFromRows([resource])[0];
-                }
-                return resource;
-              });
-            return { ...cell, resources: updatedResources };
-          });
-          return { ...row, cells: updatedCells };
-        }
-        
-        // This is the row containing the block to delete
-        return {
-          ...row,
-          cells: row.cells.map((cell) => {
-            if (cell.id !== location.cellId) return cell;
-            return {
-              ...cell,
-              resources: cell.resources.filter((resource) => {
-                if (isBlock(resource)) {
-                  return resource.id !== selectedBlockId;
-                }
-                if (isConstructor(resource)) {
-                  // Recursively delete from nested constructors
-                  const nestedLocation = findBlockLocationInRows([resource], selectedBlockId);
-                  if (nestedLocation) {
-                    const updatedNested = deleteBlockFromRows([resource])[0];
-                    return updatedNested.cells.some(c => c.resources.length > 0);
-                  }
-                  return true;
-                }
-                return true;
-              }).map((resource) => {
-                if (isConstructor(resource)) {
-                  return deleteBlockFromRows([resource])[0];
-                }
-                return resource;
-              }),
-            };
-          }),
-        };
-      });
-    };
-
-    setRows(deleteBlockFromRows(rows));
+    dispatch({ type: 'removeResource', resourceId: selectedBlockId });
     setSelectedBlockId(null);
     setEditingBlockId(null);
   };
@@ -288,101 +474,31 @@ function App() {
   const handleDuplicateBlock = () => {
     if (!selectedBlockId) return;
     
-    const blockToDuplicate = findBlockInRows(rows, selectedBlockId);
+    const blockToDuplicate = findBlock(rows, selectedBlockId);
     if (!blockToDuplicate) return;
 
-    const location = findBlockLocationInRows(rows, selectedBlockId);
+    const location = findResourceLocation(rows, selectedBlockId);
     if (!location) return;
 
-    // Create a new block with same properties but new ID
-    const duplicatedBlock = { ...blockToDuplicate, id: crypto.randomUUID() };
-
-    setRows((prev) =>
-      prev.map((row) => {
-        if (row.id !== location.rowId) return row;
-        return {
-          ...row,
-          cells: row.cells.map((cell) => {
-            if (cell.id !== location.cellId) return cell;
-            const newResources = [...cell.resources];
-            newResources.splice(location.index + 1, 0, duplicatedBlock);
-            return { ...cell, resources: newResources };
-          }),
-        };
-      })
-    );
+    // Copy the block with fresh IDs (including any rows it owns, e.g. a columns block)
+    const duplicatedBlock = cloneResource(blockToDuplicate);
+
+    dispatch({
+      type: 'insertResource',
+      cellId: location.cellId,
+      resources: [duplicatedBlock],
+      index: location.index + 1,
+    });
     
     setSelectedBlockId(duplicatedBlock.id);
-      setEditingBlockId(null);
+    setEditingBlockId(null);
   };
 
   const handleDeleteCell = () => {
     if (!selectedCellId) return;
-    
-    const location = findCellLocationInRows(rows, selectedCellId);
-    if (!location) return;
 
-    // Find the row to check if it's a columns block
-    const row = rows.find(r => r.id === location.rowId);
-    const isColumnsBlock = row?.props?.isColumnsBlock === true;
-
-    setRows((prev) =>
-      prev.map((row) => {
-        if (row.id !== location.rowId) {
-          // Recursively check nested constructors
-          return {
-            ...row,
-            cells: row.cells.map((cell) => ({
-              ...cell,
-              resources: cell.resources.map((resource) => {
-                if (isConstructor(resource)) {
-                  const nestedLocation = findCellLocationInRows([resource], selectedCellId);
-                  if (nestedLocation) {
-                    const updatedNested = {
-                      ...resource,
-                      cells: resource.cells.filter((_, idx) => idx !== nestedLocation.cellIndex),
-                    };
-                    return updatedNested.cells.length > 0 ? updatedNested : null;
-                  }
-                }
-                return resource;
-              }).filter(Boolean) as Resource[],
-            })),
-          };
-        }
-        
-        // This is the row containing the cell to delete
-        if (isColumnsBlock) {
-          // For columns blocks, merge the deleted cell's resources into the remaining cells
-          // and update the columns count
-          const newCells = row.cells.filter((_, idx) => idx !== location.cellIndex);
-          const deletedCell = row.cells[location.cellIndex];
-          
-          // If there are remaining cells, merge deleted cell's resources into the first remaining cell
-          if (newCells.length > 0 && deletedCell) {
-            newCells[0].resources.push(...deletedCell.resources);
-          }
-          
-          const newColumns = Math.max(1, newCells.length); // Minimum 1 column
-          
-          return {
-            ...row,
-            cells: newCells,
-            props: {
-              ...row.props,
-              columns: newColumns,
-            },
-          };
-        }
-        
-        // Regular rows - just remove the cell
-        return {
-          ...row,
-          cells: row.cells.filter((_, idx) => idx !== location.cellIndex),
-        };
-      }).filter((row) => row.cells.length > 0) // Remove rows with no cells
-    );
-    
+    // Columns rows merge the removed column's content into the first remaining column
+    dispatch({ type: 'removeCell', cellId: selectedCellId });
     setSelectedCellId(null);
   };
 
@@ -400,116 +516,43 @@ function App() {
     // Row is already selected via selectedRowId, PropertiesPanel will find it
   };
 
+  const handleToggleRowGate = () => {
+    if (!selectedRowId) return;
+    const row = findRow(rows, selectedRowId);
+    if (!row) return;
+    const gate = row.props?.gate ? undefined : createRowGate();
+    dispatch({ type: 'updateRow', row: { ...row, props: { ...row.props, gate } } });
+  };
+
   const handleUpdateCell = (updatedCell: Cell) => {
-    setRows((prev) => {
-      const updateCellInRow = (row: Row): Row => {
-        // Check if this row contains the cell
-        const cellIndex = row.cells.findIndex(c => c.id === updatedCell.id);
-        if (cellIndex !== -1) {
-          return {
-            ...row,
-            cells: row.cells.map((cell, idx) => idx === cellIndex ? updatedCell : cell),
-          };
-        }
-        // Recursively check nested constructors
-        return {
-          ...row,
-          cells: row.cells.map((cell) => ({
-            ...cell,
-            resources: cell.resources.map((resource) => {
-              if (isConstructor(resource)) {
-                return updateCellInRow(resource);
-              }
-              return resource;
-            }),
-          })),
-        };
-      };
-      return prev.map(updateCellInRow);
-    });
+    dispatch({ type: 'updateCell', cell: updatedCell });
   };
 
   const handleDuplicateCell = () => {
     if (!selectedCellId) return;
     
-    const cellToDuplicate = findCellInRows(rows, selectedCellId);
+    const cellToDuplicate = findCell(rows, selectedCellId);
     if (!cellToDuplicate) return;
 
-    const location = findCellLocationInRows(rows, selectedCellId);
+    const location = findCellLocation(rows, selectedCellId);
     if (!location) return;
 
-    // Find the row to check if it's a columns block
-    const row = rows.find(r => r.id === location.rowId);
-    const isColumnsBlock = row?.props?.isColumnsBlock === true;
-    const currentColumns = (row?.props?.columns as number) || row?.cells.length || 2;
-
-    // For columns blocks, check if we've reached max columns (4) or min columns (1)
-    if (isColumnsBlock) {
-      if (currentColumns >= 4) {
-        // Don't allow duplicating beyond 4 columns
-        return;
-      }
-      if (currentColumns <= 1) {
-        // Don't allow duplicating if already at 1 column (can't go below 1)
-        // Actually, allow duplicating from 1 to 2
-      }
-    }
+    // Don't allow duplicating beyond the maximum number of columns
+    const row = findRow(rows, location.rowId);
+    if (row && isColumnsRow(row) && row.cells.length >= MAX_COLUMNS) return;
 
-    // Create a new cell with same properties but new ID and duplicated resources
-    const duplicatedCell: Cell = {
-      id: crypto.randomUUID(),
-      resources: cellToDuplicate.resources.map((resource) => {
-        if (isBlock(resource)) {
-          return { ...resource, id: crypto.randomUUID() };
-        }
-        // For constructors, recursively duplicate
-        if (isConstructor(resource)) {
-            return {
-            ...resource,
-            id: crypto.randomUUID(),
-            cells: resource.cells.map((cell) => ({
-              ...cell,
-              id: crypto.randomUUID(),
-              resources: cell.resources.map((r) => 
-                isBlock(r) ? { ...r, id: crypto.randomUUID() } : r
-              ),
-            })),
-          };
-        }
-        return resource;
-      }),
-    };
+    // Copy the cell with fresh IDs for everything inside it
+    const duplicatedCell = cloneCell(cellToDuplicate);
 
-    setRows((prev) =>
-      prev.map((row) => {
-        if (row.id !== location.rowId) return row;
-        const newCells = [...row.cells];
-        newCells.splice(location.cellIndex + 1, 0, duplicatedCell);
-        
-        // If it's a columns block, update the columns count
-        if (isColumnsBlock) {
-          const newColumns = Math.min(newCells.length, 4); // Cap at 4
-            return {
-            ...row,
-            cells: newCells,
-            props: {
-              ...row.props,
-              columns: newColumns,
-              },
-            };
-          }
-        
-        return { ...row, cells: newCells };
-      })
-    );
-    
+    // Columns rows also get their column count updated
+    dispatch({ type: 'insertCell', rowId: location.rowId, cell: duplicatedCell, index: location.cellIndex + 1 });
     setSelectedCellId(duplicatedCell.id);
   };
 
   const handleDeleteRow = () => {
     if (!selectedRowId) return;
     
-    setRows((prev) => prev.filter((row) => row.id !== selectedRowId));
+    dispatch({ type: 'removeRow', rowId: selectedRowId });
     setSelectedRowId(null);
     setSelectedCellId(null);
     setSelectedBlockId(null);
@@ -524,41 +567,10 @@ function App() {
     const selectedRowIndex = rows.findIndex((row) => row.id === selectedRowId);
     if (selectedRowIndex === -1) return;
 
-    // Create a new row with same properties but new IDs
-    const duplicatedRow: Row = {
-      id: crypto.randomUUID(),
-      cells: rowToDuplicate.cells.map((cell) => ({
-        id: crypto.randomUUID(),
-        resources: cell.resources.map((resource) => {
-          if (isBlock(resource)) {
-            return { ...resource, id: crypto.randomUUID() };
-          }
-          // For constructors, recursively duplicate
-          if (isConstructor(resource)) {
-            return {
-              ...resource,
-              id: crypto.randomUUID(),
-              cells: resource.cells.map((nestedCell) => ({
-                ...nestedCell,
-                id: crypto.randomUUID(),
-                resources: nestedCell.resources.map((r) =>
-                  isBlock(r) ? { ...r, id: crypto.randomUUID() } : r
-                ),
-              })),
-            };
-          }
-          return resource;
-        }),
-      })),
-      props: rowToDuplicate.props ? { ...rowToDuplicate.props } : undefined,
-    };
+    // Copy the row with fresh IDs for everything inside it
+    const duplicatedRow = cloneRow(rowToDuplicate);
 
-    setRows((prev) => {
-      const newRows = [...prev];
-      newRows.splice(selectedRowIndex + 1, 0, duplicatedRow);
-      return newRows;
-    });
-    
+    dispatch({ type: 'insertRow', row: duplicatedRow, index: selectedRowIndex + 1 });
     setSelectedRowId(duplicatedRow.id);
   };
 
@@ -598,11 +610,7 @@ function App() {
       isEmptyState: true,
     };
 
-    setRows((prev) => {
-      const newRows = [...prev];
-      newRows.splice(selectedRowIndex + 1, 0, newEmptyStateRow);
-      return newRows;
-    });
+    dispatch({ type: 'insertRow', row: newEmptyStateRow, index: selectedRowIndex + 1 });
     
     // Deselect previous row and select new empty state row
     setSelectedRowId(newEmptyStateRow.id);
@@ -618,32 +626,39 @@ function App() {
     }, 100);
   };
 
+  // If a Row is selected OR if a block is selected (use its parent row), insert the new row
+  // below it - otherwise append at the end
+  const insertRowBelowSelection = (newRow: Row) => {
+    const rowIdForInsertion = selectedRowId || getSelectedBlockRowId();
+    const selectedRowIndex = rowIdForInsertion ? rows.findIndex(r => r.id === rowIdForInsertion) : -1;
+    dispatch({
+      type: 'insertRow',
+      row: newRow,
+      index: selectedRowIndex !== -1 ? selectedRowIndex + 1 : undefined,
+    });
+  };
+
+  // Imported quizzes go below the selection in their original order, one row each
+  const handleImportQuizzes = (quizzes: QuizBlock[]) => {
+    const rowIdForInsertion = selectedRowId || getSelectedBlockRowId();
+    const selectedRowIndex = rowIdForInsertion ? rows.findIndex(r => r.id === rowIdForInsertion) : -1;
+    dispatch(
+      ...quizzes.map((quiz, index): DocumentCommand => {
+        const newRow = createNewRow(theme, themeId);
+        newRow.cells[0].resources = [quiz];
+        return { type: 'insertRow', row: newRow, index: selectedRowIndex !== -1 ? selectedRowIndex + 1 + index : undefined };
+      })
+    );
+    setSelectedBlockId(quizzes[0].id);
+    setEditingBlockId(null);
+    setNewlyInsertedBlockId(quizzes[0].id); // Trigger scroll effect
+  };
+
   const handleInsertSection = (section: SectionTemplate) => {
     // Create a row with one cell containing all the section's blocks
     const newRow = section.createSection();
+    insertRowBelowSelection(newRow);
 
-    // If a Row is selected OR if a block is selected (use its parent row), insert new row below it
-    const rowIdForInsertion = selectedRowId || getSelectedBlockRowId();
-    if (rowIdForInsertion) {
-      const selectedRowIndex = rows.findIndex(r => r.id === rowIdForInsertion);
-      if (selectedRowIndex !== -1) {
-        setRows((prev) => {
-          const newRows = [...prev];
-          newRows.splice(selectedRowIndex + 1, 0, newRow);
-          return newRows;
-        });
-        
-        // Select the row and clear all other selections
-        setSelectedRowId(newRow.id);
-        setSelectedBlockId(null);
-        setSelectedCellId(null);
-        setEditingBlockId(null);
-        return;
-      }
-    }
-
-    // If no rows exist or no row is selected, append at the end
-    setRows((prev) => [...prev, newRow]);
     // Select the row and clear all other selections
     setSelectedRowId(newRow.id);
     setSelectedBlockId(null);
@@ -665,26 +680,7 @@ function App() {
         },
       };
 
-      // If a Row is selected OR if a block is selected (use its parent row), insert new row below it
-      const rowIdForInsertion = selectedRowId || getSelectedBlockRowId();
-      if (rowIdForInsertion) {
-        const selectedRowIndex = rows.findIndex(r => r.id === rowIdForInsertion);
-        if (selectedRowIndex !== -1) {
-          setRows((prev) => {
-            const newRows = [...prev];
-            newRows.splice(selectedRowIndex + 1, 0, newRow);
-            return newRows;
-          });
-          
-          setSelectedRowId(newRow.id);
-          setSelectedBlockId(null);
-          setEditingBlockId(null);
-          return;
-        }
-      }
-
-      // If no rows exist or no row is selected, append at the end
-      setRows((prev) => [...prev, newRow]);
+      insertRowBelowSelection(newRow);
       setSelectedRowId(newRow.id);
       setSelectedBlockId(null);
       setEditingBlockId(null);
@@ -696,26 +692,7 @@ function App() {
     const newRow = createNewRow(theme, themeId);
     newRow.cells[0].resources = [newBlock];
 
-    // If a Row is selected OR if a block is selected (use its parent row), insert new row below it
-    const rowIdForInsertion = selectedRowId || getSelectedBlockRowId();
-    if (rowIdForInsertion) {
-      const selectedRowIndex = rows.findIndex(r => r.id === rowIdForInsertion);
-      if (selectedRowIndex !== -1) {
-        setRows((prev) => {
-          const newRows = [...prev];
-          newRows.splice(selectedRowIndex + 1, 0, newRow);
-          return newRows;
-        });
-
-    setSelectedBlockId(newBlock.id);
-    setEditingBlockId(null);
-        setNewlyInsertedBlockId(newBlock.id); // Trigger scroll effect
-        return;
-      }
-    }
-
-    // If no rows exist or no row is selected, append at the end
-    setRows((prev) => [...prev, newRow]);
+    insertRowBelowSelection(newRow);
     setSelectedBlockId(newBlock.id);
     setEditingBlockId(null);
     setNewlyInsertedBlockId(newBlock.id); // Trigger scroll effect
@@ -723,6 +700,12 @@ function App() {
 
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string);
+    historyGroupRef.current = `drag:${event.active.id}:${Date.now()}`;
+  };
+
+  const handleDragCancel = () => {
+    setActiveId(null);
+    historyGroupRef.current = null;
   };
 
   const handleDragOver = (event: DragOverEvent) => {
@@ -736,68 +719,25 @@ function App() {
     if (activeData?.source !== 'palette' && !activeData?.containerId?.startsWith('columns:')) {
       // Use functional update to get current state
       setRows((prev) => {
-        const activeLocation = findBlockLocationInRows(prev, active.id as string);
-        const overLocation = findBlockLocationInRows(prev, over.id as string);
-        
-        // Only reorder if both blocks are in the same row and cell
-      if (activeLocation && overLocation && 
-            activeLocation.rowId === overLocation.rowId &&
-            activeLocation.cellId === overLocation.cellId) {
-          return prev.map((row) => {
-            if (row.id !== activeLocation.rowId) return row;
-            return {
-              ...row,
-              cells: row.cells.map((cell) => {
-                if (cell.id !== activeLocation.cellId) return cell;
-                const newResources = [...cell.resources];
-                // Only reorder blocks, not constructors
-                const blockIndices = newResources
-                  .map((r, i) => isBlock(r) ? i : -1)
-                  .filter(i => i !== -1);
-                const activeBlockIndex = blockIndices.indexOf(activeLocation.index);
-                const overBlockIndex = blockIndices.indexOf(overLocation.index);
-                if (activeBlockIndex !== -1 && overBlockIndex !== -1) {
-                  const blocks = blockIndices.map(i => newResources[i] as Block);
-                  const reorderedBlocks = arrayMove(blocks, activeBlockIndex, overBlockIndex);
-                  blockIndices.forEach((originalIndex, i) => {
-                    newResources[originalIndex] = reorderedBlocks[i];
-                  });
-                }
-                return { ...cell, resources: newResources };
-              }),
-            };
-          });
-        }
-        return prev; // No change if not same cell
+        const activeId = active.id as string;
+        const overId = over.id as string;
+        if (!findBlock(prev, activeId) || !findBlock(prev, overId)) return prev;
+
+        const activeLocation = findResourceLocation(prev, activeId);
+        const overLocation = findResourceLocation(prev, overId);
+        // Moves between cells happen on drop
+        if (!activeLocation || !overLocation || activeLocation.cellId !== overLocation.cellId) return prev;
+
+        return applyCommand(prev, {
+          type: 'moveResource',
+          resourceId: activeId,
+          cellId: overLocation.cellId,
+          index: overLocation.index,
+        });
       });
     }
   };
 
-  // Helper function to clean up empty cells and rows
-  const cleanupEmptyCellsAndRows = (rowsToClean: Row[]): Row[] => {
-    return rowsToClean
-      .map((row) => {
-        // Don't clean up columns block rows - they must maintain their cell structure
-        if (row.props?.isColumnsBlock === true) {
-          return row;
-        }
-        
-        // Remove empty cells (cells with no resources)
-        const nonEmptyCells = row.cells.filter((cell) => cell.resources.length > 0);
-        
-        // If row has no cells left, return null to filter it out
-        if (nonEmptyCells.length === 0) {
-          return null;
-        }
-        
-        return {
-          ...row,
-          cells: nonEmptyCells,
-        };
-      })
-      .filter((row): row is Row => row !== null);
-  };
-
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -807,6 +747,23 @@ function App() {
 
     const activeData = active.data.current;
     const overData = over.data.current;
+    const overId = over.id as string;
+
+    // Cell drop zones use `cell:<cellId>` IDs
+    const overCellId = overId.startsWith('cell:') ? overId.replace('cell:', '') : null;
+    const isOverCell = !!overCellId && !!findCell(rows, overCellId);
+    // Location of the block the item was dropped on, if any
+    const overBlockLocation = findBlock(rows, overId) ? findResourceLocation(rows, overId) : null;
+    // Column drop zones name a columns block and a column - resolve them to the column's cell
+    const getColumnCellId = (): string | null => {
+      if (!overData?.containerId?.startsWith('columns:')) return null;
+      const columnsBlock = findBlock(rows, overData.columnsBlockId as string);
+      if (!columnsBlock || columnsBlock.type !== 'columns') return null;
+      return columnsBlock.row.cells[overData.columnIndex as number]?.id ?? null;
+    };
+    // Fallback drop target: the first cell of the last row
+    const lastRow = rows[rows.length - 1];
+    const fallbackCellId = lastRow && lastRow.cells.length > 0 ? lastRow.cells[0].id : null;
 
     // Handle dropping sections from palette
     if (activeData?.source === 'palette-section') {
@@ -816,10 +773,11 @@ function App() {
       
       if (section) {
         const newRow = section.createSection();
+        const sectionResources = newRow.cells[0].resources;
         
         // Rule A: Dropped outside any existing Section/Cell
         if (over.id === 'empty-canvas') {
-          setRows([newRow]);
+          dispatch({ type: 'insertRow', row: newRow });
           setSelectedRowId(newRow.id);
           setSelectedBlockId(null);
           setSelectedCellId(null);
@@ -828,89 +786,24 @@ function App() {
         }
 
         // Rule B1: Dropped directly on a cell - append to cell's resources
-        if (typeof over.id === 'string' && over.id.startsWith('cell:')) {
-          const cellId = over.id.replace('cell:', '');
-          const cellLocation = findCellLocationInRows(rows, cellId);
-          if (cellLocation) {
-            // Helper function to recursively update nested rows (including columns blocks)
-            const updateCellInRows = (rowsToUpdate: Row[]): Row[] => {
-              return rowsToUpdate.map((row) => {
-                if (row.id === cellLocation.rowId) {
-                  // Found the target row
-                  return {
-                    ...row,
-                    cells: row.cells.map((cell, cellIndex) => {
-                      if (cellIndex === cellLocation.cellIndex) {
-                        return { ...cell, resources: [...cell.resources, ...newRow.cells[0].resources] };
-                      }
-                      return cell;
-                    }),
-                  };
-                }
-                // Check nested resources (columns blocks and constructors)
-                return {
-                  ...row,
-                  cells: row.cells.map((cell) => ({
-                    ...cell,
-                    resources: cell.resources.map((resource) => {
-                      if (isBlock(resource) && resource.type === 'columns') {
-                        const columnsBlock = resource as ColumnsBlock;
-                        const nestedLocation = findCellLocationInRows([columnsBlock.row], cellId);
-                        if (nestedLocation) {
-                          // Update the nested columns block's row
-                          const updatedRow = {
-                            ...columnsBlock.row,
-                            cells: columnsBlock.row.cells.map((cell, cellIndex) => {
-                              if (cellIndex === nestedLocation.cellIndex) {
-                                return { ...cell, resources: [...cell.resources, ...newRow.cells[0].resources] };
-                              }
-                              return cell;
-                            }),
-                          };
-                          return {
-                            ...columnsBlock,
-                            row: updatedRow,
-                          };
-                        }
-                      } else if (isConstructor(resource)) {
-                        // Recursively check nested constructors
-                        const nestedRows = updateCellInRows([resource]);
-                        return nestedRows[0] || resource;
-                      }
-                      return resource;
-                    }),
-                  })),
-                };
-              });
-            };
-
-            setRows((prev) => updateCellInRows(prev));
-            setSelectedRowId(cellLocation.rowId);
-            setSelectedBlockId(null);
-            setSelectedCellId(null);
-            setEditingBlockId(null);
-            return;
-          }
+        if (overCellId && isOverCell) {
+          dispatch({ type: 'insertResource', cellId: overCellId, resources: sectionResources });
+          setSelectedRowId(findCellLocation(rows, overCellId)?.rowId ?? null);
+          setSelectedBlockId(null);
+          setSelectedCellId(null);
+          setEditingBlockId(null);
+          return;
         }
 
         // Rule B2: Dropped on an existing block - insert into target Cell's resources
-        const overLocation = findBlockLocationInRows(rows, over.id as string);
-        if (overLocation) {
-          setRows((prev) =>
-            prev.map((row) => {
-              if (row.id !== overLocation.rowId) return row;
-              return {
-                ...row,
-                cells: row.cells.map((cell) => {
-                  if (cell.id !== overLocation.cellId) return cell;
-                  const newResources = [...cell.resources];
-                  newResources.splice(overLocation.index, 0, ...newRow.cells[0].resources);
-                  return { ...cell, resources: newResources };
-                }),
-              };
-            })
-          );
-          setSelectedRowId(overLocation.rowId);
+        if (overBlockLocation) {
+          dispatch({
+            type: 'insertResource',
+            cellId: overBlockLocation.cellId,
+            resources: sectionResources,
+            index: overBlockLocation.index,
+          });
+          setSelectedRowId(overBlockLocation.rowId);
           setSelectedBlockId(null);
           setSelectedCellId(null);
           setEditingBlockId(null);
@@ -918,28 +811,10 @@ function App() {
         }
 
         // Fallback: append to last row's first cell or create new row
-        if (rows.length > 0 && rows[rows.length - 1].cells.length > 0) {
-          setRows((prev) =>
-            prev.map((row, index) => {
-              if (index === prev.length - 1 && row.cells.length > 0) {
-                return {
-                  ...row,
-                  cells: row.cells.map((cell, cellIndex) => {
-                    if (cellIndex === 0) {
-                      return {
-                        ...cell,
-                        resources: [...cell.resources, ...newRow.cells[0].resources],
-                      };
-                    }
-                    return cell;
-                  }),
-                };
-              }
-              return row;
-            })
-          );
+        if (fallbackCellId) {
+          dispatch({ type: 'insertResource', cellId: fallbackCellId, resources: sectionResources });
         } else {
-          setRows((prev) => [...prev, newRow]);
+          dispatch({ type: 'insertRow', row: newRow });
         }
         setSelectedRowId(newRow.id);
         setSelectedBlockId(null);
@@ -959,49 +834,23 @@ function App() {
         const newConstructor = createNewConstructor(2); // Default 2 columns
         
         if (over.id === 'empty-canvas') {
-          setRows([newConstructor]);
+          dispatch({ type: 'insertRow', row: newConstructor });
           return;
         }
         
-        // Find where to insert
-        const overLocation = findResourceLocation(rows, over.id as string);
+        // Insert after the resource it was dropped on, else append to last row's first cell
+        const overLocation = findResourceLocation(rows, overId);
         if (overLocation) {
-          setRows((prev) =>
-            prev.map((row) => {
-              if (row.id !== overLocation.rowId) return row;
-              return {
-                ...row,
-                cells: row.cells.map((cell) => {
-                  if (cell.id !== overLocation.cellId) return cell;
-                  const newResources = [...cell.resources];
-                  newResources.splice(overLocation.index + 1, 0, newConstructor);
-                  return { ...cell, resources: newResources };
-                }),
-              };
-            })
-          );
-        } else {
-          // Append to last row's first cell
-          setRows((prev) => {
-            if (prev.length === 0) return [newConstructor];
-            return prev.map((row, index) => {
-              if (index === prev.length - 1 && row.cells.length > 0) {
-                return {
-                  ...row,
-                  cells: row.cells.map((cell, cellIndex) => {
-                    if (cellIndex === 0) {
-                      return {
-                        ...cell,
-                        resources: [...cell.resources, newConstructor],
-                      };
-                    }
-                    return cell;
-                  }),
-                };
-              }
-              return row;
-            });
+          dispatch({
+            type: 'insertResource',
+            cellId: overLocation.cellId,
+            resources: [newConstructor],
+            index: overLocation.index + 1,
           });
+        } else if (fallbackCellId) {
+          dispatch({ type: 'insertResource', cellId: fallbackCellId, resources: [newConstructor] });
+        } else if (rows.length === 0) {
+          dispatch({ type: 'insertRow', row: newConstructor });
         }
         return;
       }
@@ -1014,161 +863,46 @@ function App() {
         // Create new Section: new Row + new Cell + new Resource
         const newRow = createNewRow(theme, themeId);
         newRow.cells[0].resources = [newBlock];
-        setRows([newRow]);
+        dispatch({ type: 'insertRow', row: newRow });
         setSelectedBlockId(newBlock.id);
         return;
       }
 
       // Check if dropped into a column (columns block within a row)
-      if (overData?.containerId?.startsWith('columns:')) {
-        const columnsBlockId = overData.columnsBlockId as string;
-        const columnIndex = overData.columnIndex as number;
-        
-        // Helper to find and update columns block in resources
-        const findAndUpdateColumns = (resources: Resource[]): Resource[] => {
-          return resources.map(resource => {
-            if (isBlock(resource) && resource.id === columnsBlockId && resource.type === 'columns') {
-              const columnsBlock = { ...resource } as ColumnsBlock;
-                  const newChildren = [...columnsBlock.children];
-                  newChildren[columnIndex] = [...newChildren[columnIndex], newBlock];
-                  return { ...columnsBlock, children: newChildren };
-                }
-            if (isConstructor(resource)) {
-              return {
-                ...resource,
-                cells: resource.cells.map(cell => ({
-                  ...cell,
-                  resources: findAndUpdateColumns(cell.resources),
-                })),
-              };
-            }
-            return resource;
-              });
-            };
-
-        setRows((prev) =>
-          prev.map((row) => ({
-            ...row,
-            cells: row.cells.map((cell) => ({
-              ...cell,
-              resources: findAndUpdateColumns(cell.resources),
-            })),
-          }))
-        );
+      const columnCellId = getColumnCellId();
+      if (columnCellId) {
+        dispatch({ type: 'insertResource', cellId: columnCellId, resources: [newBlock] });
         setSelectedBlockId(newBlock.id);
         return;
       }
 
       // Rule B1: Dropped directly on a cell - append to cell's resources
-      if (typeof over.id === 'string' && over.id.startsWith('cell:')) {
-        const cellId = over.id.replace('cell:', '');
-        const cellLocation = findCellLocationInRows(rows, cellId);
-        if (cellLocation) {
-          // Helper function to recursively update nested rows (including columns blocks)
-          const updateCellInRows = (rowsToUpdate: Row[]): Row[] => {
-            return rowsToUpdate.map((row) => {
-              if (row.id === cellLocation.rowId) {
-                // Found the target row
-                return {
-                  ...row,
-                  cells: row.cells.map((cell, cellIndex) => {
-                    if (cellIndex === cellLocation.cellIndex) {
-                      return { ...cell, resources: [...cell.resources, newBlock] };
-                    }
-                    return cell;
-                  }),
-                };
-              }
-              // Check nested resources (columns blocks and constructors)
-              return {
-                ...row,
-                cells: row.cells.map((cell) => ({
-                  ...cell,
-                  resources: cell.resources.map((resource) => {
-                    if (isBlock(resource) && resource.type === 'columns') {
-                      const columnsBlock = resource as ColumnsBlock;
-                      const nestedLocation = findCellLocationInRows([columnsBlock.row], cellId);
-                      if (nestedLocation) {
-                        // Update the nested columns block's row
-                        const updatedRow = {
-                          ...columnsBlock.row,
-                          cells: columnsBlock.row.cells.map((cell, cellIndex) => {
-                            if (cellIndex === nestedLocation.cellIndex) {
-                              return { ...cell, resources: [...cell.resources, newBlock] };
-                            }
-                            return cell;
-                          }),
-                        };
-                        return {
-                          ...columnsBlock,
-                          row: updatedRow,
-                        };
-                      }
-                    } else if (isConstructor(resource)) {
-                      // Recursively check nested constructors
-                      const nestedRows = updateCellInRows([resource]);
-                      return nestedRows[0] || resource;
-                    }
-                    return resource;
-                  }),
-                })),
-              };
-            });
-          };
-
-          setRows((prev) => updateCellInRows(prev));
-          setSelectedBlockId(newBlock.id);
-          return;
-        }
+      if (overCellId && isOverCell) {
+        dispatch({ type: 'insertResource', cellId: overCellId, resources: [newBlock] });
+        setSelectedBlockId(newBlock.id);
+        return;
       }
 
       // Rule B2: Dropped on an existing block - insert into target Cell's resources (vertical flow)
       // Do NOT create new Rows/Cells
-      const overLocation = findBlockLocationInRows(rows, over.id as string);
-      if (overLocation) {
-        setRows((prev) =>
-          prev.map((row) => {
-            if (row.id !== overLocation.rowId) return row;
-            return {
-              ...row,
-              cells: row.cells.map((cell) => {
-                if (cell.id !== overLocation.cellId) return cell;
-                const newResources = [...cell.resources];
-                newResources.splice(overLocation.index, 0, newBlock);
-                return { ...cell, resources: newResources };
-              }),
-            };
-          })
-        );
+      if (overBlockLocation) {
+        dispatch({
+          type: 'insertResource',
+          cellId: overBlockLocation.cellId,
+          resources: [newBlock],
+          index: overBlockLocation.index,
+        });
         setSelectedBlockId(newBlock.id);
         return;
       }
 
       // Fallback: append to last row's first cell or create new row
-      if (rows.length > 0 && rows[rows.length - 1].cells.length > 0) {
-        setRows((prev) =>
-          prev.map((row, index) => {
-            if (index === prev.length - 1 && row.cells.length > 0) {
-                return {
-                ...row,
-                cells: row.cells.map((cell, cellIndex) => {
-                  if (cellIndex === 0) {
-                    return {
-                      ...cell,
-                      resources: [...cell.resources, newBlock],
-                    };
-                  }
-                  return cell;
-                }),
-              };
-            }
-            return row;
-            })
-          );
-        } else {
+      if (fallbackCellId) {
+        dispatch({ type: 'insertResource', cellId: fallbackCellId, resources: [newBlock] });
+      } else {
         const newRow = createNewRow(theme, themeId);
         newRow.cells[0].resources = [newBlock];
-        setRows((prev) => (prev.length > 0 ? [...prev, newRow] : [newRow]));
+        dispatch({ type: 'insertRow', row: newRow });
       }
       setSelectedBlockId(newBlock.id);
       return;
@@ -1176,352 +910,46 @@ function App() {
 
     // Handle moving existing blocks within rows
     const activeBlockId = active.id as string;
-    const activeLocation = findBlockLocationInRows(rows, activeBlockId);
+    const activeLocation = findBlock(rows, activeBlockId) ? findResourceLocation(rows, activeBlockId) : null;
+    if (!activeLocation) return;
     
-    // Check if dropping directly on a cell
-    if (typeof over.id === 'string' && over.id.startsWith('cell:')) {
-      const cellId = over.id.replace('cell:', '');
-      const cellLocation = findCellLocationInRows(rows, cellId);
-      if (cellLocation && activeLocation) {
-        // Move block to the target cell
-        const blockToMove = findBlockInRows(rows, activeBlockId);
-        if (!blockToMove) return;
-
-        // Remove from source
-        let updatedRows = rows.map((row) => {
-          if (row.id !== activeLocation.rowId) return row;
-          return {
-            ...row,
-            cells: row.cells.map((cell) => {
-              if (cell.id !== activeLocation.cellId) return cell;
-              return {
-                ...cell,
-                resources: cell.resources.filter((resource) => {
-                  if (isBlock(resource)) {
-                    return resource.id !== activeBlockId;
-                  }
-                  return true;
-                }),
-              };
-            }),
-          };
-        });
-
-        // Add to target cell
-        updatedRows = updatedRows.map((row) => {
-          if (row.id !== cellLocation.rowId) return row;
-          return {
-            ...row,
-            cells: row.cells.map((cell, cellIndex) => {
-              if (cellIndex !== cellLocation.cellIndex) return cell;
-              return {
-                ...cell,
-                resources: [...cell.resources, blockToMove],
-              };
-            }),
-          };
-        });
-
-        setRows(cleanupEmptyCellsAndRows(updatedRows));
-        setSelectedBlockId(activeBlockId);
-        return;
-      }
-    }
-
-    const overLocation = findBlockLocationInRows(rows, over.id as string);
-    
-    // Handle reordering within the same cell (handled by handleDragOver, but ensure it's set)
-    // IMPORTANT: If blocks are in the same cell, we should NOT add the block again
-    if (activeLocation && overLocation && 
-        activeLocation.rowId === overLocation.rowId &&
-        activeLocation.cellId === overLocation.cellId) {
-      // Already handled by handleDragOver - just select the block and return
-      // Do NOT add the block again as it would cause duplication
+    // Check if dropping directly on a cell - move block to the end of the target cell
+    if (overCellId && isOverCell) {
+      dispatch(
+        { type: 'moveResource', resourceId: activeBlockId, cellId: overCellId },
+        { type: 'removeEmptyCells' }
+      );
       setSelectedBlockId(activeBlockId);
       return;
     }
 
-    // If overLocation is null, it means we're not dropping on a block, so don't proceed with block-to-block movement
-    if (!overLocation) {
-      return;
-    }
-
-    // Handle moving blocks between rows or cells
-    const blockToMove = findBlockInRows(rows, activeBlockId);
-    if (!blockToMove || !activeLocation) return;
-
-    // Check if dropping into a columns block
-    if (overData?.containerId?.startsWith('columns:')) {
-      const columnsBlockId = overData.columnsBlockId as string;
-      const columnIndex = overData.columnIndex as number;
-      
-      // Remove from source (using the removeBlockFromRows helper pattern)
-      const removeBlockFromRows = (rowsToUpdate: Row[]): Row[] => {
-        return rowsToUpdate.map((row) => {
-          if (row.id !== activeLocation.rowId) {
-            // Recursively check nested constructors
-          return {
-              ...row,
-              cells: row.cells.map((cell) => {
-                return {
-                  ...cell,
-                  resources: cell.resources
-                    .filter((resource) => {
-                      if (isBlock(resource)) {
-                        return resource.id !== activeBlockId;
-                      }
-                      if (isConstructor(resource)) {
-                        return true;
-                      }
-                      return true;
-                    })
-                    .map((resource) => {
-                      if (isConstructor(resource)) {
-                        return removeBlockFromRows([resource])[0];
-                      }
-                      return resource;
-                    }),
-                };
-              }),
-            };
-          }
-          
-          return {
-            ...row,
-            cells: row.cells.map((cell) => {
-              if (cell.id !== activeLocation.cellId) return cell;
-              return {
-                ...cell,
-                resources: cell.resources.filter((resource) => {
-                  if (isBlock(resource)) {
-                    return resource.id !== activeBlockId;
-                  }
-                  return true;
-                }),
-              };
-            }),
-          };
-        });
-      };
-
-      let rowsAfterRemove = removeBlockFromRows(rows);
-      
-      // Clean up empty cells and rows
-      rowsAfterRemove = cleanupEmptyCellsAndRows(rowsAfterRemove);
-
-      // Helper to find and update columns block in resources
-      const findAndUpdateColumns = (resources: Resource[]): Resource[] => {
-        return resources.map(resource => {
-          if (isBlock(resource) && resource.id === columnsBlockId && resource.type === 'columns') {
-            const columnsBlock = { ...resource } as ColumnsBlock;
-              const newChildren = [...columnsBlock.children];
-              newChildren[columnIndex] = [...newChildren[columnIndex], blockToMove];
-              return { ...columnsBlock, children: newChildren };
-            }
-          if (isConstructor(resource)) {
-            return {
-              ...resource,
-              cells: resource.cells.map(cell => ({
-                ...cell,
-                resources: findAndUpdateColumns(cell.resources),
-              })),
-            };
-          }
-          return resource;
-          });
-        };
-
-      // Add to columns block
-      setRows(
-        rowsAfterRemove.map((row) => ({
-          ...row,
-          cells: row.cells.map((cell) => ({
-            ...cell,
-            resources: findAndUpdateColumns(cell.resources),
-          })),
-        }))
-      );
-      
-      setSelectedBlockId(activeBlockId);
+    // If we're not dropping on a block, there is nothing to move to
+    if (!overBlockLocation) {
       return;
     }
 
-    // Handle moving to a different row or cell
-    if (overLocation) {
-      // Remove from source
-      const removeBlockFromRows = (rowsToUpdate: Row[]): Row[] => {
-        return rowsToUpdate.map((row) => {
-          if (row.id !== activeLocation.rowId) {
-            // Recursively check nested constructors
-          return {
-              ...row,
-              cells: row.cells.map((cell) => {
-                return {
-                  ...cell,
-                  resources: cell.resources
-                    .filter((resource) => {
-                      if (isBlock(resource)) {
-                        return resource.id !== activeBlockId;
-                      }
-                      if (isConstructor(resource)) {
-                        return true; // Keep constructor, will filter inside
-                      }
-                      return true;
-                    })
-                    .map((resource) => {
-                      if (isConstructor(resource)) {
-                        return removeBlockFromRows([resource])[0];
-                      }
-                      return resource;
-                    }),
-                };
-              }),
-            };
-          }
-          
-          // This is the source row
-          return {
-            ...row,
-            cells: row.cells.map((cell) => {
-              if (cell.id !== activeLocation.cellId) return cell;
-              return {
-                ...cell,
-                resources: cell.resources.filter((resource) => {
-                  if (isBlock(resource)) {
-                    return resource.id !== activeBlockId;
-                  }
-                  if (isConstructor(resource)) {
-                    // Recursively remove from nested constructors
-                    const nestedLocation = findBlockLocationInRows([resource], activeBlockId);
-                    if (nestedLocation) {
-                      const updatedNested = removeBlockFromRows([resource])[0];
-                      return updatedNested.cells.some(c => c.resources.length > 0);
-                    }
-                    return true;
-                  }
-                  return true;
-                }).map((resource) => {
-                  if (isConstructor(resource)) {
-                    return removeBlockFromRows([resource])[0];
-                  }
-                  return resource;
-                }),
-              };
-            }),
-          };
-        });
-      };
-
-      let rowsAfterRemove = removeBlockFromRows(rows);
-      
-      // Clean up empty cells and rows
-      rowsAfterRemove = cleanupEmptyCellsAndRows(rowsAfterRemove);
-
-      // Add to destination
-      // IMPORTANT: Check if block is already in the destination to prevent duplication
-      setRows((prev) => {
-        // Check if block already exists in destination (shouldn't happen, but safety check)
-        const blockAlreadyExists = prev.some(row => 
-          row.id === overLocation.rowId && 
-          row.cells.some(cell => 
-            cell.id === overLocation.cellId && 
-            cell.resources.some(r => isBlock(r) && r.id === activeBlockId)
-          )
-        );
-        
-        if (blockAlreadyExists) {
-          // Block already in destination, don't add again
-          return prev;
-        }
-        
-        return rowsAfterRemove.map((row) => {
-          if (row.id !== overLocation.rowId) return row;
-          return {
-            ...row,
-            cells: row.cells.map((cell) => {
-              if (cell.id !== overLocation.cellId) return cell;
-              const newResources = [...cell.resources];
-              newResources.splice(overLocation.index, 0, blockToMove);
-              return { ...cell, resources: newResources };
-            }),
-          };
-        });
-      });
-      
+    // Handle reordering within the same cell (handled by handleDragOver, but ensure it's set)
+    // IMPORTANT: If blocks are in the same cell, we should NOT add the block again
+    if (activeLocation.cellId === overBlockLocation.cellId) {
+      // Already handled by handleDragOver - just select the block and return
       setSelectedBlockId(activeBlockId);
       return;
     }
 
-    // Fallback: if dropped on empty canvas, move to last row
-    if (over.id === 'empty-canvas' && rows.length > 0) {
-      if (rows[rows.length - 1].cells.length > 0) {
-        // Remove from source
-        const removeBlockFromRows = (rowsToUpdate: Row[]): Row[] => {
-          return rowsToUpdate.map((row) => {
-            if (row.id !== activeLocation.rowId) {
-            return {
-                ...row,
-                cells: row.cells.map((cell) => {
-                  return {
-                    ...cell,
-                    resources: cell.resources
-                      .filter((resource) => {
-                        if (isBlock(resource)) {
-                          return resource.id !== activeBlockId;
-                        }
-                        return true;
-                      }),
-                  };
-                }),
-              };
-            }
-            
-            return {
-              ...row,
-              cells: row.cells.map((cell) => {
-                if (cell.id !== activeLocation.cellId) return cell;
-                return {
-                  ...cell,
-                resources: cell.resources.filter((resource) => {
-                  if (isBlock(resource)) {
-                    return resource.id !== activeBlockId;
-                  }
-                  return true;
-                }),
-                };
-              }),
-            };
-          });
-        };
-
-        let rowsAfterRemove = removeBlockFromRows(rows);
-        
-        // Clean up empty cells and rows
-        rowsAfterRemove = cleanupEmptyCellsAndRows(rowsAfterRemove);
-
-        // Add to last row's first cell
-        setRows(
-          rowsAfterRemove.map((row, index) => {
-            if (index === rowsAfterRemove.length - 1 && row.cells.length > 0) {
-            return {
-                ...row,
-                cells: row.cells.map((cell, cellIndex) => {
-                  if (cellIndex === 0) {
-                    return {
-                      ...cell,
-                      resources: [...cell.resources, blockToMove],
-                    };
-                  }
-                  return cell;
-                }),
-              };
-            }
-            return row;
-          })
-        );
-        setSelectedBlockId(activeBlockId);
-      }
-    }
+    // Move into a columns block's column, or to the dropped-on block's position in another cell
+    const columnCellId = getColumnCellId();
+    dispatch(
+      columnCellId
+        ? { type: 'moveResource', resourceId: activeBlockId, cellId: columnCellId }
+        : {
+            type: 'moveResource',
+            resourceId: activeBlockId,
+            cellId: overBlockLocation.cellId,
+            index: overBlockLocation.index,
+          },
+      { type: 'removeEmptyCells' }
+    );
+    setSelectedBlockId(activeBlockId);
   };
 
   // Keyboard support: Delete key removes selected block, Escape exits edit mode
@@ -1551,143 +979,367 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [selectedBlockId, editingBlockId, isPreview, handleDeleteBlock]);
 
+  // Content for copy/cut: the selected block, otherwise the selected cell, otherwise the selected row
+  const getSelectedClipboardContent = (): ClipboardContent | null => {
+    if (selectedBlockId) {
+      const block = findBlock(rows, selectedBlockId);
+      return block ? { kind: 'block', block } : null;
+    }
+    if (selectedCellId) {
+      const cell = findCell(rows, selectedCellId);
+      return cell ? { kind: 'cell', cell } : null;
+    }
+    if (selectedRowId) {
+      const row = findRow(rows, selectedRowId);
+      return row && !row.isEmptyState ? { kind: 'row', row } : null;
+    }
+    return null;
+  };
+
+  const handleCutSelection = () => {
+    if (selectedBlockId) handleDeleteBlock();
+    else if (selectedCellId) handleDeleteCell();
+    else if (selectedRowId) handleDeleteRow();
+  };
+
+  // Paste at the selection with fresh IDs: blocks go after the selected block (or at the end of the
+  // selected cell), cells after the selected cell, and anything else into a new row below the selection
+  const handlePasteContent = (content: ClipboardContent) => {
+    if (content.kind === 'block') {
+      const block = cloneResource(content.block) as Block;
+      const blockLocation = selectedBlockId ? findResourceLocation(rows, selectedBlockId) : null;
+
+      if (blockLocation) {
+        dispatch({ type: 'insertResource', cellId: blockLocation.cellId, resources: [block], index: blockLocation.index + 1 });
+      } else if (selectedCellId && findCell(rows, selectedCellId)) {
+        dispatch({ type: 'insertResource', cellId: selectedCellId, resources: [block] });
+      } else {
+        const newRow = createNewRow(theme, themeId);
+        newRow.cells[0].resources = [block];
+        insertRowBelowSelection(newRow);
+      }
+      setSelectedBlockId(block.id);
+      setEditingBlockId(null);
+      setNewlyInsertedBlockId(block.id); // Trigger scroll effect
+      return;
+    }
+
+    if (content.kind === 'cell') {
+      const cell = cloneCell(content.cell);
+      const cellLocation = selectedCellId ? findCellLocation(rows, selectedCellId) : null;
+      const targetRow = cellLocation ? findRow(rows, cellLocation.rowId) : null;
+
+      if (cellLocation && targetRow && !(isColumnsRow(targetRow) && targetRow.cells.length >= MAX_COLUMNS)) {
+        dispatch({ type: 'insertCell', rowId: cellLocation.rowId, cell, index: cellLocation.cellIndex + 1 });
+      } else {
+        insertRowBelowSelection({ id: nanoid(), cells: [cell] });
+      }
+      setSelectedCellId(cell.id);
+      setSelectedBlockId(null);
+      setEditingBlockId(null);
+      return;
+    }
+
+    const row = cloneRow(content.row);
+    insertRowBelowSelection(row);
+    setSelectedRowId(row.id);
+    setSelectedBlockId(null);
+    setSelectedCellId(null);
+    setEditingBlockId(null);
+  };
+
+  // The clipboard handlers of the current render - the document listeners below are added once
+  // and call whichever handlers are current
+  const clipboardHandlersRef = useRef<{
+    isEnabled: boolean;
+    getContent: () => ClipboardContent | null;
+    cut: () => void;
+    paste: (content: ClipboardContent) => void;
+  } | null>(null);
+  useEffect(() => {
+    clipboardHandlersRef.current = {
+      isEnabled: !isPreview && !editingBlockId,
+      getContent: getSelectedClipboardContent,
+      cut: handleCutSelection,
+      paste: handlePasteContent,
+    };
+  });
+
+  // Clipboard support: Ctrl/Cmd+C/X/V on the selected block, cell or row. Text editing,
+  // form fields and text selections keep the browser's own clipboard behavior.
+  useEffect(() => {
+    const isEditingText = () => {
+      const activeElement = document.activeElement as HTMLElement | null;
+      return (
+        activeElement?.tagName === 'INPUT' ||
+        activeElement?.tagName === 'TEXTAREA' ||
+        !!activeElement?.isContentEditable ||
+        !!activeElement?.closest('.ProseMirror')
+      );
+    };
+    const getHandlers = () => {
+      const handlers = clipboardHandlersRef.current;
+      return handlers?.isEnabled && !isEditingText() ? handlers : null;
+    };
+
+    const handleCopyOrCut = (e: ClipboardEvent) => {
+      const handlers = getHandlers();
+      if (!handlers || !e.clipboardData) return;
+      if (!window.getSelection()?.isCollapsed) return; // Copying selected text
+
+      const content = handlers.getContent();
+      if (!content) return;
+
+      e.preventDefault();
+      writeClipboardContent(e.clipboardData, content);
+      if (e.type === 'cut') handlers.cut();
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const handlers = getHandlers();
+      if (!handlers || !e.clipboardData) return;
+
+      const content = readClipboardContent(e.clipboardData);
+      if (!content) return;
+
+      e.preventDefault();
+      handlers.paste(content);
+    };
+
+    document.addEventListener('copy', handleCopyOrCut);
+    document.addEventListener('cut', handleCopyOrCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopyOrCut);
+      document.removeEventListener('cut', handleCopyOrCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
   return (
-    <DndContext
-      sensors={sensors}
-      collisionDetection={closestCenter}
-      onDragStart={handleDragStart}
-      onDragOver={handleDragOver}
-      onDragEnd={handleDragEnd}
+    <QuestionBankContext.Provider
+      value={{
+        banks: questionBanks,
+        lessonId: currentLesson?.id ?? null,
+        saveBank: handleSaveQuestionBank,
+        deleteBank: handleDeleteQuestionBank,
+      }}
     >
-      <div className="app">
-        {isPreview ? (
-          <>
-            <PreviewToolbar
-              onBack={() => setIsPreview(false)}
-              selectedDevice={selectedDevice}
-              onDeviceChange={setSelectedDevice}
-            />
-            <div className="preview-container">
-              <PreviewStage
-                rows={rows}
-                blocks={blocks}
-                deviceType={selectedDevice}
-                deviceConfig={deviceConfigs[selectedDevice]}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDragEnd={(event) => {
+          handleDragEnd(event);
+          historyGroupRef.current = null; // Changes made by the drop itself still belong to the drag
+        }}
+        onDragCancel={handleDragCancel}
+      >
+        <div className="app">
+          {isPreview ? (
+            <>
+              <PreviewToolbar
+                onBack={() => setIsPreview(false)}
+                selectedDevice={selectedDevice}
+                onDeviceChange={setSelectedDevice}
+                onPrint={() => setIsPrintDialogOpen(true)}
+                isXapiPanelOpen={isXapiPanelOpen}
+                onToggleXapiPanel={() => setIsXapiPanelOpen(!isXapiPanelOpen)}
               />
-            </div>
-          </>
-        ) : (
-          <>
-            <TopBar
-              isPreview={isPreview}
-              onTogglePreview={() => setIsPreview(!isPreview)}
-                      isRightSidebarOpen={isRightSidebarOpen}
-                      onToggleRightSidebar={() => setIsRightSidebarOpen(!isRightSidebarOpen)}
-                      showStructureStrokes={showStructureStrokes}
-                      onToggleStructureStrokes={() => setShowStructureStrokes(!showStructureStrokes)}
-                      onOpenThemeEditor={() => setIsThemeEditorOpen(true)}
-            />
-            <ThemeEditor
-              isOpen={isThemeEditorOpen}
-              onClose={() => setIsThemeEditorOpen(false)}
-              onThemeUpdate={updateCustomThemes}
-              customThemes={customThemes}
-            />
-            <div className="app-content">
-              <aside className="sidebar sidebar-left">
-                <BlocksPalette onInsertBlock={handleInsertBlock} onInsertSection={handleInsertSection} />
-              </aside>
-              <main className={`main-content${!isRightSidebarOpen ? ' main-content-full' : ''}`}>
-                <LessonCanvas
-                  sections={sections}
+              <div className="preview-container">
+                <PreviewStage
                   rows={rows}
-                  selectedBlockId={selectedBlockId}
-                  selectedCellId={selectedCellId}
-                  selectedRowId={selectedRowId}
-                  editingBlockId={editingBlockId}
-                  pageProps={pageProps}
-                  onSelectBlock={(blockId) => {
-                    setSelectedBlockId(blockId);
-                    setIsPageSelected(false); // Clear page selection when selecting block
-                  }}
-                  onSelectCell={(cellId) => {
-                    setSelectedCellId(cellId);
-                    setIsPageSelected(false); // Clear page selection when selecting cell
-                  }}
-                  onSelectRow={(rowId) => {
-                    setSelectedRowId(rowId);
-                    setIsPageSelected(false); // Clear page selection when selecting row
-                  }}
-                  onSelectPage={setIsPageSelected}
-                  onEditBlock={(blockId) => {
-                    const block = findBlockInSections(sections, blockId);
-                    if (block?.type === 'image') {
-                      setImageModalBlockId(blockId);
-                    } else {
-                      setEditingBlockId(blockId);
-                    }
-                  }}
-                  onStopEditing={() => setEditingBlockId(null)}
-                  onUpdateBlock={handleUpdateBlock}
-                  onDeleteBlock={handleDeleteBlock}
-                  onDuplicateBlock={handleDuplicateBlock}
-                  onDeleteCell={handleDeleteCell}
-                  onDuplicateCell={handleDuplicateCell}
-                  onEditCell={handleEditCell}
-                  onEditRow={handleEditRow}
-                  onDeleteRow={handleDeleteRow}
-                  onDuplicateRow={handleDuplicateRow}
-                  onAddEmptyStateRow={handleAddEmptyStateRow}
-                  isPreview={isPreview}
-                  activeId={activeId}
-                  allBlocks={blocks}
-                  showStructureStrokes={showStructureStrokes}
+                  blocks={blocks}
+                  deviceType={selectedDevice}
+                  deviceConfig={deviceConfigs[selectedDevice]}
+                  onNavigateLesson={handleNavigateLesson}
+                  lessonId={currentLesson?.id}
+                  lessonTitle={currentLesson?.title}
                 />
-              </main>
-              {isRightSidebarOpen && (
-              <aside className="sidebar sidebar-right">
-                <PropertiesPanel
-                  selectedBlock={selectedBlock}
-                  selectedRow={selectedRowId ? rows.find(r => r.id === selectedRowId) || null : null}
-                  selectedCell={selectedCellId ? findCellInRows(rows, selectedCellId) : null}
-                  isPageSelected={isPageSelected}
-                  pageProps={pageProps}
-                  onUpdatePageProps={(props) => {
-                    if (props) {
-                      setPageProps(props);
-                    }
-                  }}
-                  onUpdateBlock={handleUpdateBlock}
-                  onUpdateRow={(updatedRow) => {
-                    setRows((prev) =>
-                      prev.map((row) => (row.id === updatedRow.id ? updatedRow : row))
-                    );
-                  }}
-                  onUpdateCell={handleUpdateCell}
-                  onDeleteBlock={handleDeleteBlock}
-                />
-              </aside>
-              )}
-      </div>
-          </>
+                {isXapiPanelOpen && <XapiPanel onClose={() => setIsXapiPanelOpen(false)} />}
+              </div>
+            </>
+          ) : (
+            <>
+              <TopBar
+                isPreview={isPreview}
+                onTogglePreview={() => setIsPreview(!isPreview)}
+                        isRightSidebarOpen={isRightSidebarOpen}
+                        onToggleRightSidebar={() => setIsRightSidebarOpen(!isRightSidebarOpen)}
+                        showStructureStrokes={showStructureStrokes}
+                        onToggleStructureStrokes={() => setShowStructureStrokes(!showStructureStrokes)}
+                        onOpenThemeEditor={() => setIsThemeEditorOpen(true)}
+                onOpenExport={() => setIsExportDialogOpen(true)}
+                onOpenQtiImport={() => setIsQtiImportOpen(true)}
+                lessonTitle={currentLesson?.title}
+                onOpenLibrary={handleOpenLibrary}
+                canUndo={documentHistory.past.length > 0}
+                canRedo={documentHistory.future.length > 0}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                saveStatus={saveStatus}
+                saveError={saveError}
+              />
+              <ThemeEditor
+                isOpen={isThemeEditorOpen}
+                onClose={() => setIsThemeEditorOpen(false)}
+                onThemeUpdate={updateCustomThemes}
+                customThemes={customThemes}
+              />
+              <div className="app-content">
+                <aside className="sidebar sidebar-left">
+                  <BlocksPalette onInsertBlock={handleInsertBlock} onInsertSection={handleInsertSection} />
+                </aside>
+                <main className={`main-content${!isRightSidebarOpen ? ' main-content-full' : ''}`}>
+                  <LessonCanvas
+                    sections={sections}
+                    rows={rows}
+                    selectedBlockId={selectedBlockId}
+                    selectedCellId={selectedCellId}
+                    selectedRowId={selectedRowId}
+                    editingBlockId={editingBlockId}
+                    pageProps={pageProps}
+                    onSelectBlock={(blockId) => {
+                      setSelectedBlockId(blockId);
+                      setIsPageSelected(false); // Clear page selection when selecting block
+                    }}
+                    onSelectCell={(cellId) => {
+                      setSelectedCellId(cellId);
+                      setIsPageSelected(false); // Clear page selection when selecting cell
+                    }}
+                    onSelectRow={(rowId) => {
+                      setSelectedRowId(rowId);
+                      setIsPageSelected(false); // Clear page selection when selecting row
+                    }}
+                    onSelectPage={setIsPageSelected}
+                    onEditBlock={(blockId) => {
+                      const block = findBlockInSections(sections, blockId);
+                      if (block?.type === 'image') {
+                        setImageModalBlockId(blockId);
+                      } else {
+                        setEditingBlockId(blockId);
+                      }
+                    }}
+                    onStopEditing={() => setEditingBlockId(null)}
+                    onUpdateBlock={handleUpdateBlock}
+                    onDeleteBlock={handleDeleteBlock}
+                    onDuplicateBlock={handleDuplicateBlock}
+                    onDeleteCell={handleDeleteCell}
+                    onDuplicateCell={handleDuplicateCell}
+                    onEditCell={handleEditCell}
+                    onEditRow={handleEditRow}
+                    onToggleRowGate={handleToggleRowGate}
+                    onDeleteRow={handleDeleteRow}
+                    onDuplicateRow={handleDuplicateRow}
+                    onAddEmptyStateRow={handleAddEmptyStateRow}
+                    isPreview={isPreview}
+                    activeId={activeId}
+                    allBlocks={blocks}
+                    showStructureStrokes={showStructureStrokes}
+                  />
+                </main>
+                {isRightSidebarOpen && (
+                <aside className="sidebar sidebar-right">
+                  <PropertiesPanel
+                    selectedBlock={selectedBlock}
+                    selectedRow={selectedRowId ? rows.find(r => r.id === selectedRowId) || null : null}
+                    selectedCell={selectedCellId ? findCell(rows, selectedCellId) : null}
+                    isPageSelected={isPageSelected}
+                    pageProps={pageProps}
+                    onUpdatePageProps={(props) => {
+                      if (props) {
+                        setPageProps(props);
+                      }
+                    }}
+                    onUpdateBlock={handleUpdateBlock}
+                    onUpdateRow={(updatedRow) => {
+                      dispatch({ type: 'updateRow', row: updatedRow });
+                    }}
+                    onUpdateCell={handleUpdateCell}
+                    onDeleteBlock={handleDeleteBlock}
+                    onManageQuestionBanks={() => setIsQuestionBankManagerOpen(true)}
+                    lessonRows={rows}
+                  />
+                </aside>
+                )}
+        </div>
+            </>
+          )}
+        </div>
+
+        {/* Lesson library */}
+        {isLibraryOpen && (
+          <LessonLibrary
+            currentLessonId={currentLesson?.id ?? null}
+            onOpenLesson={handleOpenLesson}
+            onUpdateCurrentLesson={(updates) => {
+              setCurrentLesson((prev) => (prev ? { ...prev, ...updates } : prev));
+            }}
+            onClose={() => setIsLibraryOpen(false)}
+          />
         )}
-      </div>
-
-      {/* Image Fill Modal */}
-      {imageModalBlockId && (() => {
-        const imageBlock = findBlockInSections(sections, imageModalBlockId);
-        if (imageBlock && imageBlock.type === 'image') {
-          return (
-            <ImageFillModal
-              block={imageBlock}
-              onUpdate={(updates) => handleUpdateBlock({ ...imageBlock, ...updates })}
-              onClose={() => setImageModalBlockId(null)}
-            />
-          );
-        }
-        return null;
-      })()}
-    </DndContext>
+
+        {/* Question banks */}
+        {isQuestionBankManagerOpen && (
+          <QuestionBankManager
+            lessonQuizzes={collectQuizBlocks(rows)}
+            onClose={() => setIsQuestionBankManagerOpen(false)}
+          />
+        )}
+
+        {/* Export */}
+        {isExportDialogOpen && (
+          <ExportDialog
+            rows={rows}
+            pageProps={pageProps}
+            lessonTitle={currentLesson?.title ?? ''}
+            questionBanks={questionBanks}
+            onClose={() => setIsExportDialogOpen(false)}
+          />
+        )}
+
+        {/* Print */}
+        {isPrintDialogOpen && (
+          <PrintDialog
+            rows={rows}
+            pageProps={pageProps}
+            lessonTitle={currentLesson?.title ?? ''}
+            questionBanks={questionBanks}
+            onClose={() => setIsPrintDialogOpen(false)}
+          />
+        )}
+
+        {/* QTI import */}
+        {isQtiImportOpen && (
+          <QtiImportDialog onImport={handleImportQuizzes} onClose={() => setIsQtiImportOpen(false)} />
+        )}
+
+        {/* Crash recovery prompt */}
+        {pendingRecovery && (
+          <RecoveryPrompt
+            savedAt={pendingRecovery.updatedAt}
+            onRestore={handleRestoreDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
+        {/* Image Fill Modal */}
+        {imageModalBlockId && (() => {
+          const imageBlock = findBlockInSections(sections, imageModalBlockId);
+          if (imageBlock && imageBlock.type === 'image') {
+            return (
+              <ImageFillModal
+                block={imageBlock}
+                onUpdate={(updates) => handleUpdateBlock({ ...imageBlock, ...updates })}
+                onClose={() => setImageModalBlockId(null)}
+              />
+            );
+          }
+          return null;
+        })()}
+      </DndContext>
+    </QuestionBankContext.Provider>
   );
 }
 
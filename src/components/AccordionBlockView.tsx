@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { AccordionBlock } from '../types';
+import { getDefaultOpenPanels, getPanelTitle } from '../utils/panels';
+import { PanelCell } from './PanelCell';
+import type { PanelCellProps } from './PanelCell';
+
+interface AccordionBlockViewProps extends Omit<PanelCellProps, 'cell' | 'rowId'> {
+  block: AccordionBlock;
+}
+
+export function AccordionBlockView({ block, ...panelProps }: AccordionBlockViewProps) {
+  // Authors start with every panel open so each one can take dropped content
+  const [openPanels, setOpenPanels] = useState<number[]>(() =>
+    panelProps.isPreview ? getDefaultOpenPanels(block) : block.row.cells.map((_, index) => index)
+  );
+
+  const togglePanel = (index: number) => {
+    if (openPanels.includes(index)) {
+      setOpenPanels(openPanels.filter((i) => i !== index));
+    } else {
+      setOpenPanels(block.allowMultipleOpen ? [...openPanels, index] : [index]);
+    }
+  };
+
+  return (
+    <div className="block-view accordion-block-view">
+      {block.row.cells.map((cell, index) => {
+        const isOpen = openPanels.includes(index);
+        const headerId = `accordion-${block.id}-header-${index}`;
+        const panelId = `accordion-${block.id}-panel-${index}`;
+        return (
+          <div key={cell.id} className={`accordion-panel ${isOpen ? 'is-open' : ''}`}>
+            <h3 className="accordion-panel-heading">
+              <button
+                type="button"
+                id={headerId}
+                className="accordion-panel-toggle"
+                aria-expanded={isOpen}
+                aria-controls={panelId}
+                onClick={() => togglePanel(index)}
+              >
+                <span>{getPanelTitle(block, index)}</span>
+                <ChevronDown size={18} aria-hidden="true" className="accordion-panel-chevron" />
+              </button>
+            </h3>
+            <div
+              id={panelId}
+              role="region"
+              aria-labelledby={headerId}
+              className="accordion-panel-content"
+              hidden={!isOpen}
+            >
+              <PanelCell {...panelProps} cell={cell} rowId={block.row.id} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useRef, useState } from 'react';
+import { ChevronDown, Pause, Play, Volume2, VolumeX } from 'lucide-react';
+import type { AudioBlock } from '../types';
+import { RichTextEditor } from './RichTextEditor';
+import { useTheme } from '../theme/ThemeProvider';
+import { formatMediaTime } from '../utils/media';
+import { usePreviewTracking } from '../preview/previewTracking';
+
+interface AudioBlockViewProps {
+  block: AudioBlock;
+  isEditing: boolean;
+  isPreview: boolean;
+  onUpdate: (updates: Partial<AudioBlock>) => void;
+}
+
+// Transcripts left empty by the editor still contain an empty paragraph
+function hasTranscript(transcript: string): boolean {
+  return transcript.replace(/<[^>]*>/g, '').trim().length > 0;
+}
+
+export function AudioBlockView({ block, isEditing, isPreview, onUpdate }: AudioBlockViewProps) {
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const tracking = usePreviewTracking();
+  const label = block.title || 'Audio';
+
+  return (
+    <div
+      className="block-view audio-block-view"
+      style={{
+        fontFamily: 'var(--font-sans)',
+        color: 'var(--color-text)',
+      }}
+    >
+      {block.audioUrl ? (
+        <AudioPlayer src={block.audioUrl} label={label} onPlay={(time) => tracking?.mediaPlayed(block, time)} />
+      ) : (
+        <div
+          className="block-audio-placeholder"
+          style={{
+            padding: 'var(--spacing-xl)',
+            borderRadius: 'var(--radius-md)',
+            border: `1px solid var(--color-border)`,
+            color: 'var(--color-muted-text)',
+          }}
+        >
+          {isPreview ? 'No audio provided' : 'No audio yet - upload a file or add a URL in the properties panel'}
+        </div>
+      )}
+
+      {/* Transcript - edited inline with the rich text editor, expandable when reading */}
+      {isEditing && !isPreview ? (
+        <div className="audio-transcript-editor">
+          <span className="audio-transcript-label">Transcript</span>
+          <div
+            className="rich-text-editor-container"
+            onMouseDown={(e) => {
+              // Prevent drag when clicking on editor
+              e.stopPropagation();
+            }}
+          >
+            <RichTextEditor
+              content={block.transcript || ''}
+              isEditable={true}
+              onUpdate={(html) => onUpdate({ transcript: html })}
+            />
+          </div>
+        </div>
+      ) : hasTranscript(block.transcript) ? (
+        <div className="audio-transcript">
+          <button
+            type="button"
+            className="audio-transcript-toggle"
+            aria-expanded={isTranscriptOpen}
+            aria-controls={`audio-transcript-${block.id}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsTranscriptOpen(!isTranscriptOpen);
+            }}
+          >
+            <ChevronDown
+              size={16}
+              style={{ transform: isTranscriptOpen ? 'rotate(180deg)' : undefined, transition: 'transform 0.15s' }}
+            />
+            {isTranscriptOpen ? 'Hide transcript' : 'Show transcript'}
+          </button>
+          {isTranscriptOpen && (
+            <div
+              id={`audio-transcript-${block.id}`}
+              className="audio-transcript-body rich-text-readonly"
+              dangerouslySetInnerHTML={{ __html: block.transcript }}
+            />
+          )}
+        </div>
+      ) : (
+        !isPreview && (
+          <p className="audio-transcript-hint">Double-click to add a transcript</p>
+        )
+      )}
+    </div>
+  );
+}
+
+interface AudioPlayerProps {
+  src: string;
+  label: string;
+  onPlay?: (time: number) => void; // Playback started at `time` seconds
+}
+
+// Player with theme-colored controls around a hidden <audio> element
+function AudioPlayer({ src, label, onPlay }: AudioPlayerProps) {
+  const theme = useTheme();
+  const accent = theme.colors.accent;
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Audio playback failed:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const toggleMute = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.muted = !audio.muted;
+    setIsMuted(audio.muted);
+  };
+
+  const handleSeek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+
+  return (
+    <div
+      className="audio-player"
+      role="group"
+      aria-label={label}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()} // Don't start a block drag from the controls
+      style={{
+        border: `1px solid ${accent}`,
+        borderRadius: 'var(--radius-md)',
+        background: 'var(--color-surface)',
+      }}
+    >
+      <audio
+        ref={audioRef}
+        key={src} // Reload when the source changes
+        src={src}
+        preload="metadata"
+        onPlay={(e) => {
+          setIsPlaying(true);
+          onPlay?.(e.currentTarget.currentTime);
+        }}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        onDurationChange={(e) => setDuration(e.currentTarget.duration)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+      <button
+        type="button"
+        className="audio-player-play"
+        onClick={togglePlay}
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+        style={{ background: accent }}
+      >
+        {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+      </button>
+      <input
+        type="range"
+        className="audio-player-seek"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={Math.min(currentTime, duration || 0)}
+        onChange={(e) => handleSeek(Number(e.target.value))}
+        aria-label="Seek"
+        aria-valuetext={`${formatMediaTime(currentTime)} of ${formatMediaTime(duration)}`}
+        style={{
+          accentColor: accent,
+          background: `linear-gradient(to right, ${accent} ${progress}%, var(--color-border) ${progress}%)`,
+        }}
+      />
+      <span className="audio-player-time" style={{ color: 'var(--color-muted-text)' }}>
+        {formatMediaTime(currentTime)} / {formatMediaTime(duration)}
+      </span>
+      <button
+        type="button"
+        className="audio-player-mute"
+        onClick={toggleMute}
+        aria-label={isMuted ? 'Unmute' : 'Mute'}
+        aria-pressed={isMuted}
+        style={{ color: accent }}
+      >
+        {isMuted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+      </button>
+    </div>
+  );
+}
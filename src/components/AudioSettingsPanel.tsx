@@ -0,0 +1,90 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Upload } from 'lucide-react';
+import type { AudioBlock } from '../types';
+import { readFileAsDataUrl } from '../utils/media';
+
+interface AudioSettingsPanelProps {
+  block: AudioBlock;
+  onUpdate: (updates: Partial<AudioBlock>) => void;
+}
+
+export function AudioSettingsPanel({ block, onUpdate }: AudioSettingsPanelProps) {
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isUploadedAudio = block.audioUrl.startsWith('data:');
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    if (!file.type.startsWith('audio/')) {
+      setError(`"${file.name}" is not an audio file.`);
+      return;
+    }
+
+    try {
+      onUpdate({ audioUrl: await readFileAsDataUrl(file) });
+      setError(null);
+    } catch (uploadError) {
+      console.error('Failed to read audio file:', uploadError);
+      setError(`Could not read "${file.name}".`);
+    }
+  };
+
+  return (
+    <div className="media-settings-panel">
+      {error && (
+        <div className="media-settings-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="property-group">
+        <label htmlFor="audio-url">Audio</label>
+        <input
+          id="audio-url"
+          type="text"
+          value={isUploadedAudio ? '' : block.audioUrl}
+          onChange={(e) => onUpdate({ audioUrl: e.target.value })}
+          className="property-input"
+          placeholder={isUploadedAudio ? 'Uploaded file' : 'https://example.com/narration.mp3'}
+        />
+        <div className="media-settings-actions">
+          <button type="button" className="media-settings-button" onClick={() => audioInputRef.current?.click()}>
+            <Upload size={14} />
+            Upload audio
+          </button>
+          {block.audioUrl && (
+            <button type="button" className="media-settings-button" onClick={() => onUpdate({ audioUrl: '' })}>
+              Remove
+            </button>
+          )}
+        </div>
+        <input
+          ref={audioInputRef}
+          type="file"
+          accept="audio/*"
+          style={{ display: 'none' }}
+          onChange={handleFileSelect}
+        />
+      </div>
+
+      <div className="property-group">
+        <label>Transcript</label>
+        <span className="media-settings-hint">
+          Double-click the block on the canvas to edit its transcript. Learners can expand it below the player.
+        </span>
+        {block.transcript && (
+          <div className="media-settings-actions">
+            <button type="button" className="media-settings-button" onClick={() => onUpdate({ transcript: '' })}>
+              Remove transcript
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,14 @@ const blockLabels: Record<BlockType, string> = {
   quiz: 'Quiz',
   columns: 'Columns',
   button: 'Button',
+  video: 'Video',
+  audio: 'Audio',
+  'labeled-graphic': 'Labeled Graphic',
+  'question-draw': 'Random Draw',
+  flashcards: 'Flashcards',
+  table: 'Table',
+  accordion: 'Accordion',
+  tabs: 'Tabs',
 };
 
 export function BlockCardHeader({ 
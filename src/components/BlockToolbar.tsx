@@ -43,7 +43,7 @@ const SpeechIcon = () => (
 
 interface BlockToolbarProps {
   blockContainerRef: React.RefObject<HTMLElement>;
-  blockType: 'text' | 'header' | 'image' | 'quiz' | 'button';
+  blockType: 'text' | 'header' | 'image' | 'quiz' | 'button' | 'video' | 'audio' | 'labeled-graphic' | 'question-draw' | 'flashcards' | 'table' | 'accordion' | 'tabs';
   onDelete: () => void;
   onDuplicate: () => void;
   onDragStart: (e: React.MouseEvent) => void;
@@ -200,10 +200,26 @@ export function BlockToolbar({
         return 'Header';
       case 'image':
         return 'Image';
+      case 'video':
+        return 'Video';
+      case 'audio':
+        return 'Audio';
+      case 'labeled-graphic':
+        return 'Labeled Graphic';
+      case 'question-draw':
+        return 'Random Draw';
+      case 'flashcards':
+        return 'Flashcards';
+      case 'table':
+        return 'Table';
       case 'quiz':
         return 'Quiz';
       case 'button':
         return 'Button';
+      case 'accordion':
+        return 'Accordion';
+      case 'tabs':
+        return 'Tabs';
       default:
         return '';
     }
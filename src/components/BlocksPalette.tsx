@@ -185,8 +185,16 @@ export function BlocksPalette({ onInsertBlock, onInsertSection }: BlocksPaletteP
             <DraggableBlockType type="text" label="Text" icon="📝" onInsert={onInsertBlock} />
             <DraggableBlockType type="header" label="Header" icon="📝" onInsert={onInsertBlock} />
             <DraggableBlockType type="image" label="Image" icon="🖼️" onInsert={onInsertBlock} />
+            <DraggableBlockType type="video" label="Video" icon="🎬" onInsert={onInsertBlock} />
+            <DraggableBlockType type="audio" label="Audio" icon="🎧" onInsert={onInsertBlock} />
+            <DraggableBlockType type="table" label="Table" icon="📋" onInsert={onInsertBlock} />
+            <DraggableBlockType type="labeled-graphic" label="Labeled Graphic" icon="📍" onInsert={onInsertBlock} />
+            <DraggableBlockType type="question-draw" label="Random Draw" icon="🎲" onInsert={onInsertBlock} />
             <DraggableBlockType type="quiz" label="Quiz" icon="❓" onInsert={onInsertBlock} />
+            <DraggableBlockType type="flashcards" label="Flashcards" icon="🃏" onInsert={onInsertBlock} />
             <DraggableBlockType type="columns" label="Columns" icon="📊" onInsert={onInsertBlock} />
+            <DraggableBlockType type="accordion" label="Accordion" icon="📑" onInsert={onInsertBlock} />
+            <DraggableBlockType type="tabs" label="Tabs" icon="🗂️" onInsert={onInsertBlock} />
             <DraggableBlockType type="button" label="Button" icon="🔘" onInsert={onInsertBlock} />
           </div>
         </>
@@ -1,5 +1,8 @@
-import type { ButtonBlock } from '../types';
-import { useTheme } from '../theme/ThemeProvider';
+import type { ReactNode } from 'react';
+import type { ButtonBlock, ButtonIcon } from '../types';
+import { usePreviewActions } from '../preview/previewActions';
+import { usePreviewTracking } from '../preview/previewTracking';
+import { getButtonActionUrl } from '../utils/buttons';
 
 interface ButtonBlockViewProps {
   block: ButtonBlock;
@@ -7,6 +10,7 @@ interface ButtonBlockViewProps {
   isEditing?: boolean;
   isPreview: boolean;
   onUpdate: (updates: Partial<ButtonBlock>) => void;
+  onClick?: () => void; // Action of the button in the preview, instead of its own action
 }
 
 // Arrow icon SVG component - using the provided arrow icon
@@ -16,44 +20,85 @@ const ArrowIcon = () => (
   </svg>
 );
 
-export function ButtonBlockView({ block, isSelected, isEditing = false, isPreview, onUpdate }: ButtonBlockViewProps) {
-  const theme = useTheme();
-  // Use primary color from theme (theme-dependent), fallback to #326CF6
-  const primaryColor = theme.colors.accent || '#326CF6';
+const ExternalIcon = () => (
+  <svg aria-hidden="true" viewBox="0 0 24 24" fill="none" width="16" height="16">
+    <path fill="currentColor" d="M14 3h7v7h-2V6.414l-8.293 8.293-1.414-1.414L17.586 5H14V3ZM5 7a1 1 0 0 1 1-1h5V4H6a3 3 0 0 0-3 3v11a3 3 0 0 0 3 3h11a3 3 0 0 0 3-3v-5h-2v5a1 1 0 0 1-1 1H6a1 1 0 0 1-1-1V7Z"></path>
+  </svg>
+);
+
+const DownloadIcon = () => (
+  <svg aria-hidden="true" viewBox="0 0 24 24" fill="none" width="16" height="16">
+    <path fill="currentColor" d="M13 3v10.586l3.293-3.293 1.414 1.414L12 17.414l-5.707-5.707 1.414-1.414L11 13.586V3h2ZM4 19h16v2H4v-2Z"></path>
+  </svg>
+);
+
+const CheckIcon = () => (
+  <svg aria-hidden="true" viewBox="0 0 24 24" fill="none" width="16" height="16">
+    <path fill="currentColor" d="m20.707 6.707-11 11L9 18.414l-.707-.707-5-5 1.414-1.414L9 15.586 19.293 5.293l1.414 1.414Z"></path>
+  </svg>
+);
+
+const BUTTON_ICONS: Record<ButtonIcon, ReactNode> = {
+  none: null,
+  arrow: <ArrowIcon />,
+  external: <ExternalIcon />,
+  download: <DownloadIcon />,
+  check: <CheckIcon />,
+};
+
+export function ButtonBlockView({ block, isEditing = false, isPreview, onUpdate, onClick }: ButtonBlockViewProps) {
+  const previewActions = usePreviewActions();
+  const tracking = usePreviewTracking();
 
   if (isPreview || !isEditing) {
-    // Read-only view - actual button element
+    // Read-only view - actual button element, styled from theme tokens
+    const action = block.action ?? { type: 'none' };
+    const linkUrl = getButtonActionUrl(action);
+    const className = [
+      'button-block',
+      `button-block-${block.variant ?? 'primary'}`,
+      `button-block-${block.size ?? 'large'}`,
+      block.fullWidth ? 'button-block-full-width' : '',
+    ].filter(Boolean).join(' ');
+    const content = (
+      <>
+        <span>{block.label || 'Write a continuation'}</span>
+        {BUTTON_ICONS[block.icon ?? 'arrow']}
+      </>
+    );
+
     return (
       <div className="block-view button-block-view" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', width: '100%' }}>
-        <button
-          className="button-block"
-          type="button"
-          style={{
-            width: '400px',
-            height: '60px',
-            backgroundColor: primaryColor,
-            borderRadius: '4px',
-            border: 'none',
-            color: '#ffffff',
-            fontSize: '16px',
-            fontWeight: 500,
-            cursor: 'pointer',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            gap: '8px',
-            padding: '0 16px',
-            boxSizing: 'border-box',
-          }}
-          onClick={(e) => {
-            e.preventDefault();
-            e.stopPropagation();
-            // Initially does nothing
-          }}
-        >
-          <span>{block.label || 'Write a continuation'}</span>
-          <ArrowIcon />
-        </button>
+        {isPreview && !onClick && action.type === 'url' && linkUrl ? (
+          <a
+            className={className}
+            href={linkUrl}
+            target="_blank" // Opening the link in place would leave the editor
+            rel="noopener noreferrer"
+            onClick={(e) => {
+              e.stopPropagation();
+              tracking?.buttonClicked(block);
+            }}
+          >
+            {content}
+            <span className="visually-hidden"> (opens in a new tab)</span>
+          </a>
+        ) : (
+          <button
+            className={className}
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              if (!isPreview) return;
+              tracking?.buttonClicked(block);
+              if (onClick) onClick();
+              else previewActions?.runAction(action);
+            }}
+          >
+            {content}
+          </button>
+        )}
       </div>
     );
   }
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import type { ButtonActionType, ButtonBlock, ButtonIcon, ButtonSize, ButtonVariant, Row } from '../types';
+import {
+  BUTTON_ACTION_LABELS,
+  BUTTON_ICON_LABELS,
+  BUTTON_SIZE_LABELS,
+  BUTTON_VARIANT_LABELS,
+  createButtonAction,
+  getButtonActionRowId,
+  getRowLabel,
+  isButtonUrlAllowed,
+} from '../utils/buttons';
+
+// What an address has to start with, while it is still being typed
+const URL_PREFIXES = ['https://', 'http://', 'mailto:', 'tel:'];
+
+interface ButtonSettingsProps {
+  block: ButtonBlock;
+  rows: Row[]; // Rows of the lesson, offered as targets of jumps and reveals
+  onUpdate: (updates: Partial<ButtonBlock>) => void;
+}
+
+// Label, action and look of a button
+export function ButtonSettings({ block, rows, onUpdate }: ButtonSettingsProps) {
+  const action = block.action ?? { type: 'none' };
+  const targetRowId = getButtonActionRowId(action);
+  const targetRows = rows.filter((row) => !row.isEmptyState);
+  const hiddenRows = targetRows.filter((row) => row.props?.hiddenUntilRevealed);
+  // A URL that may not be opened is kept here, unsaved, until it is corrected
+  const [urlDraft, setUrlDraft] = useState<{ blockId: string; url: string } | null>(null);
+  const url = action.type === 'url' ? (urlDraft?.blockId === block.id ? urlDraft.url : action.url) : '';
+  const isUrlInvalid =
+    url !== '' &&
+    !isButtonUrlAllowed(url) &&
+    !URL_PREFIXES.some((prefix) => prefix.startsWith(url.toLowerCase()));
+
+  return (
+    <div className="media-settings-panel">
+      <div className="property-group">
+        <label htmlFor="button-label">Label</label>
+        <input
+          id="button-label"
+          type="text"
+          value={block.label || ''}
+          onChange={(e) => onUpdate({ label: e.target.value })}
+          className="property-input"
+          placeholder="Write a continuation"
+        />
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="button-action">Action</label>
+        <select
+          id="button-action"
+          value={action.type}
+          onChange={(e) => onUpdate({ action: createButtonAction(e.target.value as ButtonActionType, action) })}
+          className="property-select"
+        >
+          {(Object.keys(BUTTON_ACTION_LABELS) as ButtonActionType[]).map((type) => (
+            <option key={type} value={type}>
+              {BUTTON_ACTION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+
+        {action.type === 'url' && (
+          <>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => {
+                const nextUrl = e.target.value.trim();
+                if (nextUrl === '' || isButtonUrlAllowed(nextUrl)) {
+                  setUrlDraft(null);
+                  onUpdate({ action: { ...action, url: nextUrl } });
+                } else {
+                  setUrlDraft({ blockId: block.id, url: nextUrl });
+                }
+              }}
+              className="property-input"
+              placeholder="https://"
+              aria-label="Link URL"
+              aria-invalid={isUrlInvalid}
+            />
+            {isUrlInvalid && (
+              <span className="media-settings-error" role="alert">
+                Links must start with https://, http://, mailto: or tel: - this one is not saved.
+              </span>
+            )}
+            <label className="media-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={action.openInNewTab}
+                onChange={(e) => onUpdate({ action: { ...action, openInNewTab: e.target.checked } })}
+              />
+              Open in a new tab
+            </label>
+          </>
+        )}
+
+        {(action.type === 'anchor' || action.type === 'reveal-row') && (
+          <select
+            value={targetRowId ?? ''}
+            onChange={(e) => onUpdate({ action: { ...action, rowId: e.target.value || null } })}
+            className="property-select"
+            aria-label={action.type === 'anchor' ? 'Row to jump to' : 'Row to reveal'}
+          >
+            <option value="">Choose a row…</option>
+            {(action.type === 'anchor' ? targetRows : hiddenRows).map((row) => (
+              <option key={row.id} value={row.id}>
+                {getRowLabel(row, targetRows.indexOf(row))}
+              </option>
+            ))}
+          </select>
+        )}
+        {targetRowId && !targetRows.some((row) => row.id === targetRowId) && (
+          <span className="media-settings-error" role="alert">
+            The row this button points to has been deleted.
+          </span>
+        )}
+
+        <span className="media-settings-hint">
+          {action.type === 'reveal-row'
+            ? hiddenRows.length === 0
+              ? 'No rows are hidden yet. Select a row and set it to "Hidden until revealed".'
+              : 'The row stays out of the lesson until the button is clicked.'
+            : action.type === 'next-page' || action.type === 'previous-page'
+              ? 'Lessons are pages in title order - number their titles to set the order.'
+              : action.type === 'submit-quizzes'
+                ? 'Quizzes that have not been answered yet are left open.'
+                : 'Buttons run their action in the preview.'}
+        </span>
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="button-variant">Style</label>
+        <select
+          id="button-variant"
+          value={block.variant ?? 'primary'}
+          onChange={(e) => onUpdate({ variant: e.target.value as ButtonVariant })}
+          className="property-select"
+        >
+          {(Object.keys(BUTTON_VARIANT_LABELS) as ButtonVariant[]).map((variant) => (
+            <option key={variant} value={variant}>
+              {BUTTON_VARIANT_LABELS[variant]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="button-size">Size</label>
+        <select
+          id="button-size"
+          value={block.size ?? 'large'}
+          onChange={(e) => onUpdate({ size: e.target.value as ButtonSize })}
+          className="property-select"
+        >
+          {(Object.keys(BUTTON_SIZE_LABELS) as ButtonSize[]).map((size) => (
+            <option key={size} value={size}>
+              {BUTTON_SIZE_LABELS[size]}
+            </option>
+          ))}
+        </select>
+        <label className="media-settings-checkbox">
+          <input
+            type="checkbox"
+            checked={!!block.fullWidth}
+            onChange={(e) => onUpdate({ fullWidth: e.target.checked })}
+          />
+          Full width
+        </label>
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="button-icon">Icon</label>
+        <select
+          id="button-icon"
+          value={block.icon ?? 'arrow'}
+          onChange={(e) => onUpdate({ icon: e.target.value as ButtonIcon })}
+          className="property-select"
+        >
+          {(Object.keys(BUTTON_ICON_LABELS) as ButtonIcon[]).map((icon) => (
+            <option key={icon} value={icon}>
+              {BUTTON_ICON_LABELS[icon]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
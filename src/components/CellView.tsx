@@ -1,11 +1,12 @@
 import React, { useRef } from 'react';
 import { useDroppable } from '@dnd-kit/core';
-import type { Cell, Resource, Block, ThemeSpecificCellProps } from '../types';
+import type { Cell, Resource, Block } from '../types';
 import { isBlock, isConstructor } from '../utils/sections';
 import { RowView } from './RowView';
 import { CellToolbar } from './CellToolbar';
 import { EmptyStateRow } from './EmptyStateRow';
 import { useThemeSwitcher, useTheme } from '../theme/ThemeProvider';
+import { getCellThemeProps } from '../theme/containerProps';
 
 interface CellViewProps {
   cell: Cell;
@@ -29,50 +30,6 @@ interface CellViewProps {
   isColumnsBlock?: boolean; // True if this cell is in a columns block row
 }
 
-// Helper function to get theme-specific cell properties with fallback to legacy props and theme defaults
-function getCellThemeProps(cell: Cell, themeId: string, theme: any): ThemeSpecificCellProps {
-  // Try to get theme-specific props (works for 'plain', 'neon', and any custom theme ID)
-  const themeProps = cell.props?.themes?.[themeId];
-  const defaultBackground = theme?.cellBackground || { backgroundColor: undefined, backgroundColorOpacity: 1, backgroundImage: undefined, backgroundImageOpacity: 1 };
-  
-  // If theme-specific props exist, merge with theme defaults for missing background properties
-  if (themeProps) {
-    return {
-      ...themeProps,
-      // Use theme defaults if background properties are not set in theme-specific props
-      backgroundColor: themeProps.backgroundColor ?? defaultBackground.backgroundColor,
-      backgroundColorOpacity: themeProps.backgroundColorOpacity ?? defaultBackground.backgroundColorOpacity ?? 1,
-      backgroundImage: themeProps.backgroundImage ?? defaultBackground.backgroundImage,
-      backgroundImageOpacity: themeProps.backgroundImageOpacity ?? defaultBackground.backgroundImageOpacity ?? 1,
-    };
-  }
-  
-  // Fallback to legacy props for backward compatibility
-  const legacyProps = {
-    verticalAlign: cell.props?.verticalAlign,
-    padding: cell.props?.padding,
-    backgroundColor: cell.props?.backgroundColor,
-    backgroundColorOpacity: cell.props?.backgroundColorOpacity,
-    backgroundImage: cell.props?.backgroundImage,
-    backgroundImageOpacity: cell.props?.backgroundImageOpacity,
-    border: cell.props?.border,
-    borderRadius: cell.props?.borderRadius,
-  };
-  
-  // If no custom background is set, use theme defaults
-  if (!legacyProps.backgroundColor && !legacyProps.backgroundImage) {
-    return {
-      ...legacyProps,
-      backgroundColor: defaultBackground.backgroundColor,
-      backgroundColorOpacity: defaultBackground.backgroundColorOpacity,
-      backgroundImage: defaultBackground.backgroundImage,
-      backgroundImageOpacity: defaultBackground.backgroundImageOpacity,
-    };
-  }
-  
-  return legacyProps;
-}
-
 export function CellView({
   cell,
   selectedBlockId,
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { PackageOpen } from 'lucide-react';
+import type { LessonPageProps, QuestionBank, Row } from '../types';
+import { useTheme, useThemeSwitcher } from '../theme/ThemeProvider';
+import { getLessonQuestionBanks } from '../utils/questionBanks';
+import { downloadScormPackage } from '../export/scorm';
+import { downloadWebsite } from '../export/website';
+import { downloadQtiPackage, getQtiExportIssues } from '../qti/qtiExport';
+import { QtiIssueList } from './QtiIssueList';
+
+interface ExportDialogProps {
+  rows: Row[];
+  pageProps: LessonPageProps;
+  lessonTitle: string;
+  questionBanks: QuestionBank[];
+  onClose: () => void;
+}
+
+type ExportFormat = 'scorm-2004' | 'scorm-1.2' | 'website' | 'qti';
+
+// Export the lesson, as edited and in the active theme, as a package for an LMS, a website or its quizzes for other tools
+export function ExportDialog({ rows, pageProps, lessonTitle, questionBanks, onClose }: ExportDialogProps) {
+  const theme = useTheme();
+  const { themeId } = useThemeSwitcher();
+  const [format, setFormat] = useState<ExportFormat>('scorm-2004');
+  const [masteryScore, setMasteryScore] = useState<number | null>(80);
+  const [includeTestLms, setIncludeTestLms] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isScorm = format === 'scorm-2004' || format === 'scorm-1.2';
+  const source = { title: lessonTitle, rows, pageProps, theme, themeId, banks: getLessonQuestionBanks(rows, questionBanks) };
+
+  const handleExport = () => {
+    try {
+      if (format === 'website') {
+        downloadWebsite(source);
+      } else if (format === 'qti') {
+        downloadQtiPackage(source);
+      } else {
+        downloadScormPackage(source, { version: format === 'scorm-1.2' ? '1.2' : '2004', masteryScore, includeTestLms });
+      }
+      onClose();
+    } catch (exportError) {
+      console.error('Failed to export lesson:', exportError);
+      setError(format === 'website' ? 'The website could not be created.' : 'The package could not be created.');
+    }
+  };
+
+  return (
+    <div className="theme-editor-overlay" onClick={onClose}>
+      <div className="theme-editor-container export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="theme-editor-header">
+          <button className="theme-editor-exit" onClick={onClose}>
+            ← Back to editor
+          </button>
+          <div className="theme-editor-title">
+            <PackageOpen size={18} />
+            <h2>Export lesson</h2>
+          </div>
+        </div>
+        <div className="theme-editor-content export-dialog-content">
+          {error && <div className="lesson-library-error" role="alert">{error}</div>}
+          <div className="property-group">
+            <label htmlFor="export-format">Format</label>
+            <select
+              id="export-format"
+              className="property-select"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              <option value="scorm-2004">SCORM 2004 (4th edition)</option>
+              <option value="scorm-1.2">SCORM 1.2</option>
+              <option value="website">Website</option>
+              <option value="qti">QTI 2.1 (quizzes only)</option>
+            </select>
+            {format === 'website' && (
+              <span className="media-settings-hint">
+                index.html and an assets folder, for any web server. Answers are not saved or reported.
+              </span>
+            )}
+            {format === 'qti' && (
+              <span className="media-settings-hint">
+                The lesson's quizzes as assessment items and a test, for other assessment tools. Feedback and attempt
+                limits are not included.
+              </span>
+            )}
+          </div>
+          {format === 'qti' && <QtiIssueList issues={getQtiExportIssues(source)} />}
+          {isScorm && (
+            <>
+              <div className="property-group">
+                <label htmlFor="export-mastery-score">Passing score (%)</label>
+                <input
+                  id="export-mastery-score"
+                  type="number"
+                  className="property-input"
+                  min={0}
+                  max={100}
+                  value={masteryScore ?? ''}
+                  placeholder="None"
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setMasteryScore(value === '' ? null : Math.min(100, Math.max(0, Math.round(Number(value)))));
+                  }}
+                />
+                <span className="media-settings-hint">
+                  Share of quizzes answered correctly to pass. Leave empty to only report completion.
+                </span>
+              </div>
+              <div className="property-group">
+                <label className="media-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={includeTestLms}
+                    onChange={(e) => setIncludeTestLms(e.target.checked)}
+                  />
+                  Include a test LMS
+                </label>
+                <span className="media-settings-hint">
+                  Only used when the package is opened outside an LMS - open index.html to try the lesson and see what it reports.
+                </span>
+              </div>
+            </>
+          )}
+          <div className="export-dialog-actions">
+            <button type="button" className="lesson-library-button lesson-library-button-primary" onClick={handleExport}>
+              {format === 'website' ? 'Download website' : 'Download package'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Check, RotateCcw, Shuffle, X } from 'lucide-react';
+import type { FlashcardBlock, FlashcardSide } from '../types';
+import { useQuizSession } from '../quiz/quizSession';
+import type { FlashcardRating } from '../utils/flashcards';
+import { dealFlashcards, getMissedFlashcards, hasFlashcardText, reshuffleFlashcards } from '../utils/flashcards';
+import { FlashcardDeckEditor } from './FlashcardDeckEditor';
+
+interface FlashcardBlockViewProps {
+  block: FlashcardBlock;
+  isEditing: boolean;
+  isPreview: boolean;
+  onUpdate: (updates: Partial<FlashcardBlock>) => void;
+}
+
+export function FlashcardBlockView({ block, isEditing, isPreview, onUpdate }: FlashcardBlockViewProps) {
+  if (isPreview) {
+    return (
+      <div className="block-view flashcard-block-view">
+        {block.cards.length > 0 ? (
+          <FlashcardStudy block={block} />
+        ) : (
+          <div className="flashcard-placeholder">No cards in this deck</div>
+        )}
+      </div>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <div className="block-view flashcard-block-view">
+        <FlashcardDeckEditor block={block} onUpdate={onUpdate} />
+      </div>
+    );
+  }
+
+  // On the canvas the deck shows its first card
+  const firstCard = block.cards[0];
+  return (
+    <div className="block-view flashcard-block-view">
+      {firstCard ? (
+        <div className="flashcard">
+          <FlashcardFace side={firstCard.front} className="flashcard-face" />
+        </div>
+      ) : (
+        <div className="flashcard-placeholder">No cards yet</div>
+      )}
+      <p className="flashcard-deck-hint">
+        {block.cards.length === 1 ? '1 card' : `${block.cards.length} cards`} - double-click to edit the cards
+      </p>
+    </div>
+  );
+}
+
+interface FlashcardFaceProps {
+  side: FlashcardSide;
+  className: string;
+  isHidden?: boolean; // The face turned away from the learner
+}
+
+function FlashcardFace({ side, className, isHidden = false }: FlashcardFaceProps) {
+  return (
+    <div className={className} aria-hidden={isHidden || undefined}>
+      {side.imageUrl && <img src={side.imageUrl} alt={side.altText || ''} className="flashcard-image" />}
+      {hasFlashcardText(side.body) && (
+        <div className="flashcard-body rich-text-readonly" dangerouslySetInnerHTML={{ __html: side.body }} />
+      )}
+    </div>
+  );
+}
+
+interface FlashcardStudyProps {
+  block: FlashcardBlock;
+}
+
+// One card at a time - flip it, rate yourself, and see a summary once the round is done
+function FlashcardStudy({ block }: FlashcardStudyProps) {
+  const { seed } = useQuizSession();
+  const [roundIds, setRoundIds] = useState(() => dealFlashcards(block, seed));
+  const [shuffleCount, setShuffleCount] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [ratings, setRatings] = useState<Record<string, FlashcardRating>>({});
+
+  const cards = roundIds
+    .map((id) => block.cards.find((card) => card.id === id))
+    .filter((card) => card !== undefined);
+  const card = cards[position];
+
+  const startRound = (ids: string[]) => {
+    setRoundIds(ids);
+    setPosition(0);
+    setIsFlipped(false);
+    setRatings({});
+  };
+
+  const handleShuffle = () => {
+    startRound(reshuffleFlashcards(roundIds, seed, block.id, shuffleCount + 1));
+    setShuffleCount(shuffleCount + 1);
+  };
+
+  const handleRate = (rating: FlashcardRating) => {
+    if (!card) return;
+    setRatings({ ...ratings, [card.id]: rating });
+    setPosition(position + 1);
+    setIsFlipped(false);
+  };
+
+  if (!card) {
+    const missedIds = getMissedFlashcards(cards.map((c) => c.id), ratings);
+    const knownCount = cards.length - missedIds.length;
+    return (
+      <div className="flashcard-summary" role="status">
+        <p className="flashcard-summary-score">
+          You knew {knownCount} of {cards.length} {cards.length === 1 ? 'card' : 'cards'}
+        </p>
+        <div className="flashcard-actions">
+          {missedIds.length > 0 && (
+            <button type="button" className="flashcard-button flashcard-button-primary" onClick={() => startRound(missedIds)}>
+              <RotateCcw size={16} aria-hidden="true" />
+              Study the {missedIds.length} missed again
+            </button>
+          )}
+          <button type="button" className="flashcard-button" onClick={() => startRound(dealFlashcards(block, seed))}>
+            Start over
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flashcard-study">
+      <div className="flashcard-progress">
+        <span aria-live="polite">
+          Card {position + 1} of {cards.length}
+        </span>
+        {cards.length > 1 && (
+          <button type="button" className="flashcard-link-button" onClick={handleShuffle}>
+            <Shuffle size={14} aria-hidden="true" />
+            Shuffle
+          </button>
+        )}
+      </div>
+
+      {/* Clicking the card flips it - the button below does the same for keyboard users */}
+      <div className={`flashcard flashcard-flippable ${isFlipped ? 'is-flipped' : ''}`} onClick={() => setIsFlipped(!isFlipped)}>
+        <div className="flashcard-inner">
+          <FlashcardFace key={`${card.id}-front`} side={card.front} className="flashcard-face flashcard-front" isHidden={isFlipped} />
+          <FlashcardFace key={`${card.id}-back`} side={card.back} className="flashcard-face flashcard-back" isHidden={!isFlipped} />
+        </div>
+      </div>
+
+      <div className="flashcard-actions">
+        {isFlipped ? (
+          <>
+            <button type="button" className="flashcard-button flashcard-button-primary" onClick={() => handleRate('known')}>
+              <Check size={16} aria-hidden="true" />
+              I knew it
+            </button>
+            <button type="button" className="flashcard-button" onClick={() => handleRate('unknown')}>
+              <X size={16} aria-hidden="true" />
+              I didn't
+            </button>
+            <button type="button" className="flashcard-link-button" onClick={() => setIsFlipped(false)}>
+              Show front
+            </button>
+          </>
+        ) : (
+          <button type="button" className="flashcard-button flashcard-button-primary" onClick={() => setIsFlipped(true)}>
+            Flip card
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
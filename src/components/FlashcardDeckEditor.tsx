@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { ChevronLeft, ChevronRight, ImagePlus, Plus, Trash2, X } from 'lucide-react';
+import type { Flashcard, FlashcardBlock, FlashcardSide } from '../types';
+import { RichTextEditor } from './RichTextEditor';
+import { readFileAsDataUrl } from '../utils/media';
+import { createFlashcard, hasSideContent } from '../utils/flashcards';
+
+interface FlashcardDeckEditorProps {
+  block: FlashcardBlock;
+  onUpdate: (updates: Partial<FlashcardBlock>) => void;
+}
+
+type FlashcardSideKey = 'front' | 'back';
+
+// Inline editor for the cards of a deck, one card at a time with both sides side by side
+export function FlashcardDeckEditor({ block, onUpdate }: FlashcardDeckEditorProps) {
+  const [cardIndex, setCardIndex] = useState(0);
+  const index = Math.min(cardIndex, block.cards.length - 1);
+  const card = block.cards[index];
+
+  const updateCard = (cardId: string, updates: Partial<Flashcard>) => {
+    onUpdate({ cards: block.cards.map((c) => (c.id === cardId ? { ...c, ...updates } : c)) });
+  };
+
+  const handleAddCard = () => {
+    onUpdate({ cards: [...block.cards.slice(0, index + 1), createFlashcard(), ...block.cards.slice(index + 1)] });
+    setCardIndex(index + 1);
+  };
+
+  const handleDeleteCard = () => {
+    if (!card) return;
+    onUpdate({ cards: block.cards.filter((c) => c.id !== card.id) });
+    setCardIndex(Math.max(0, index - 1));
+  };
+
+  return (
+    <div
+      className="flashcard-editor"
+      onMouseDown={(e) => e.stopPropagation()} // Don't start a block drag while editing the cards
+    >
+      <div className="flashcard-editor-toolbar">
+        <button
+          type="button"
+          className="flashcard-editor-icon-button"
+          onClick={() => setCardIndex(index - 1)}
+          disabled={index <= 0}
+          aria-label="Previous card"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        <span className="flashcard-editor-position">
+          {card ? `Card ${index + 1} of ${block.cards.length}` : 'No cards'}
+        </span>
+        <button
+          type="button"
+          className="flashcard-editor-icon-button"
+          onClick={() => setCardIndex(index + 1)}
+          disabled={index >= block.cards.length - 1}
+          aria-label="Next card"
+        >
+          <ChevronRight size={16} />
+        </button>
+        <button type="button" className="flashcard-editor-button" onClick={handleAddCard}>
+          <Plus size={14} />
+          Add card
+        </button>
+        {card && (
+          <button
+            type="button"
+            className="flashcard-editor-icon-button"
+            onClick={handleDeleteCard}
+            title="Delete card"
+            aria-label={`Delete card ${index + 1}`}
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {card && (
+        <div className="flashcard-editor-sides">
+          {(['front', 'back'] as FlashcardSideKey[]).map((sideKey) => (
+            <FlashcardSideEditor
+              key={`${card.id}-${sideKey}`} // Remount the rich text editor for each card
+              label={sideKey === 'front' ? 'Front' : 'Back'}
+              side={card[sideKey]}
+              onChange={(updates) => updateCard(card.id, { [sideKey]: { ...card[sideKey], ...updates } })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface FlashcardSideEditorProps {
+  label: string;
+  side: FlashcardSide;
+  onChange: (updates: Partial<FlashcardSide>) => void;
+}
+
+function FlashcardSideEditor({ label, side, onChange }: FlashcardSideEditorProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImageSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError(`"${file.name}" is not an image.`);
+      return;
+    }
+
+    try {
+      onChange({ imageUrl: await readFileAsDataUrl(file) });
+      setError(null);
+    } catch (uploadError) {
+      console.error('Failed to read image file:', uploadError);
+      setError(`Could not read "${file.name}".`);
+    }
+  };
+
+  return (
+    <div className="flashcard-editor-side">
+      <span className="flashcard-editor-label">{label}</span>
+      {side.imageUrl ? (
+        <div className="flashcard-editor-image">
+          <img src={side.imageUrl} alt={side.altText || ''} />
+          <button
+            type="button"
+            className="flashcard-editor-icon-button"
+            onClick={() => onChange({ imageUrl: undefined, altText: undefined })}
+            aria-label={`Remove ${label.toLowerCase()} image`}
+          >
+            <X size={14} />
+          </button>
+          <input
+            type="text"
+            value={side.altText || ''}
+            onChange={(e) => onChange({ altText: e.target.value })}
+            className="property-input"
+            placeholder="Describe the image"
+            aria-label={`${label} image description`}
+          />
+        </div>
+      ) : (
+        <button type="button" className="flashcard-editor-button" onClick={() => imageInputRef.current?.click()}>
+          <ImagePlus size={14} />
+          Add image
+        </button>
+      )}
+      <input ref={imageInputRef} type="file" accept="image/*" onChange={handleImageSelect} style={{ display: 'none' }} />
+      {error && (
+        <span className="media-settings-error" role="alert">
+          {error}
+        </span>
+      )}
+      <div className="rich-text-editor-container">
+        <RichTextEditor content={side.body} isEditable={true} onUpdate={(html) => onChange({ body: html })} />
+      </div>
+      {!hasSideContent(side) && <span className="flashcard-editor-hint">This side is empty</span>}
+    </div>
+  );
+}
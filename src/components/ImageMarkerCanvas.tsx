@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImagePoint, MarkedImage } from '../types';
+import type { Rect, Size } from '../utils/imageGeometry';
+import {
+  boxPointToImage,
+  getObjectFit,
+  getObjectPosition,
+  getRenderedImageRect,
+  imagePointToBox,
+  isInsideBox,
+} from '../utils/imageGeometry';
+
+export interface ImageMarkerLayout {
+  rect: Rect; // Where the image is drawn in the box
+  toBox: (point: ImagePoint) => { left: number; top: number } | null; // null when cropped away
+  sizeToBox: (size: Size) => Size; // Image percent to pixels
+  beginDrag: (e: React.PointerEvent, onMove: (point: ImagePoint) => void) => void;
+}
+
+interface ImageMarkerCanvasProps {
+  image: MarkedImage;
+  className?: string;
+  onImageClick?: (point: ImagePoint) => void; // Click on the image itself, not on a marker
+  children: (layout: ImageMarkerLayout) => React.ReactNode;
+}
+
+// An image in the same 16:9 box as ImageBlockView with an overlay for markers. Markers are
+// positioned from image percentages, so they stay on their spot in every fit mode and size.
+export function ImageMarkerCanvas({ image, className, onImageClick, children }: ImageMarkerCanvasProps) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState<Size>({ width: 0, height: 0 });
+  const [natural, setNatural] = useState<{ url: string; size: Size } | null>(null);
+
+  useEffect(() => {
+    const element = boxRef.current;
+    if (!element) return;
+    // contentRect is unaffected by the preview's scale transform, like the marker positions
+    const observer = new ResizeObserver(([entry]) => {
+      setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const rect = getRenderedImageRect(
+    box,
+    natural?.url === image.imageUrl ? natural.size : null,
+    image.imageType,
+    image.imagePosition
+  );
+
+  // Image point under the pointer - client coordinates include any scale transform, so go
+  // through fractions of the overlay (which covers the box)
+  const pointFromClient = (overlay: Element | null, clientX: number, clientY: number): ImagePoint => {
+    const bounds = overlay?.getBoundingClientRect();
+    if (!bounds || bounds.width === 0 || bounds.height === 0) return { x: 0, y: 0 };
+    const left = ((clientX - bounds.left) / bounds.width) * box.width;
+    const top = ((clientY - bounds.top) / bounds.height) * box.height;
+    return boxPointToImage(left, top, rect);
+  };
+
+  const layout: ImageMarkerLayout = {
+    rect,
+    toBox: (point) => {
+      const position = imagePointToBox(point, rect);
+      return isInsideBox(position, box) ? position : null;
+    },
+    sizeToBox: (size) => ({
+      width: (size.width / 100) * rect.width,
+      height: (size.height / 100) * rect.height,
+    }),
+    beginDrag: (e, onMove) => {
+      e.preventDefault();
+      e.stopPropagation(); // Don't start a block drag
+      const target = e.currentTarget as HTMLElement;
+      const overlay = target.closest('.image-marker-canvas-overlay');
+      target.setPointerCapture(e.pointerId);
+      const handleMove = (event: PointerEvent) => onMove(pointFromClient(overlay, event.clientX, event.clientY));
+      const handleUp = () => {
+        target.removeEventListener('pointermove', handleMove);
+        target.removeEventListener('pointerup', handleUp);
+        target.removeEventListener('pointercancel', handleUp);
+      };
+      target.addEventListener('pointermove', handleMove);
+      target.addEventListener('pointerup', handleUp);
+      target.addEventListener('pointercancel', handleUp);
+    },
+  };
+
+  return (
+    <div ref={boxRef} className={`image-marker-canvas ${className || ''}`}>
+      <div className="image-marker-canvas-image">
+        <img
+          key={image.imageUrl} // Measure again when the image changes
+          src={image.imageUrl}
+          alt={image.altText || ''}
+          draggable={false}
+          style={{
+            objectFit: getObjectFit(image.imageType),
+            objectPosition: getObjectPosition(image.imagePosition),
+          }}
+          onLoad={(e) =>
+            setNatural({
+              url: image.imageUrl,
+              size: { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight },
+            })
+          }
+        />
+      </div>
+      <div
+        className={`image-marker-canvas-overlay ${onImageClick ? 'is-clickable' : ''}`}
+        onClick={(e) => {
+          if (!onImageClick || e.target !== e.currentTarget) return;
+          e.stopPropagation();
+          onImageClick(pointFromClient(e.currentTarget, e.clientX, e.clientY));
+        }}
+      >
+        {box.width > 0 && children(layout)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { nanoid } from 'nanoid';
+import { X } from 'lucide-react';
+import type { GraphicMarker, ImagePoint, LabeledGraphicBlock } from '../types';
+import { ImageMarkerCanvas } from './ImageMarkerCanvas';
+import type { ImageMarkerLayout } from './ImageMarkerCanvas';
+import { getArrowKeyPoint } from '../utils/imageGeometry';
+
+interface LabeledGraphicBlockViewProps {
+  block: LabeledGraphicBlock;
+  isEditing: boolean;
+  isPreview: boolean;
+  onUpdate: (updates: Partial<LabeledGraphicBlock>) => void;
+}
+
+export function LabeledGraphicBlockView({ block, isEditing, isPreview, onUpdate }: LabeledGraphicBlockViewProps) {
+  const [activeMarkerId, setActiveMarkerId] = useState<string | null>(null);
+  const isAuthoring = isEditing && !isPreview;
+
+  const updateMarker = (markerId: string, updates: Partial<GraphicMarker>) => {
+    onUpdate({
+      markers: block.markers.map((marker) => (marker.id === markerId ? { ...marker, ...updates } : marker)),
+    });
+  };
+
+  const handleAddMarker = (point: ImagePoint) => {
+    const marker: GraphicMarker = { id: nanoid(), ...point, title: '', content: '' };
+    onUpdate({ markers: [...block.markers, marker] });
+    setActiveMarkerId(marker.id);
+  };
+
+  const handleDeleteMarker = (markerId: string) => {
+    onUpdate({ markers: block.markers.filter((marker) => marker.id !== markerId) });
+    if (activeMarkerId === markerId) setActiveMarkerId(null);
+  };
+
+  const renderPopover = (marker: GraphicMarker, index: number, position: { left: number; top: number }, layout: ImageMarkerLayout) => {
+    // Open towards the middle of the image so the popover stays on it
+    const opensAbove = position.top > layout.rect.y + layout.rect.height / 2;
+    const alignsRight = position.left > layout.rect.x + layout.rect.width * 0.66;
+    const alignsLeft = position.left < layout.rect.x + layout.rect.width * 0.33;
+    return (
+      <div
+        id={`labeled-graphic-popover-${marker.id}`}
+        className="labeled-graphic-popover"
+        role="dialog"
+        aria-label={marker.title || `Marker ${index + 1}`}
+        style={{
+          left: position.left,
+          top: position.top,
+          transform: `translate(${alignsLeft ? '-16px' : alignsRight ? 'calc(-100% + 16px)' : '-50%'}, ${opensAbove ? 'calc(-100% - 24px)' : '24px'})`,
+          borderRadius: 'var(--radius-md)',
+          background: 'var(--color-surface)',
+          color: 'var(--color-text)',
+          border: '1px solid var(--color-border)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          className="labeled-graphic-popover-close"
+          onClick={() => setActiveMarkerId(null)}
+          aria-label="Close"
+        >
+          <X size={14} />
+        </button>
+        {marker.title && <strong className="labeled-graphic-popover-title">{marker.title}</strong>}
+        {marker.content ? (
+          <p className="labeled-graphic-popover-content">{marker.content}</p>
+        ) : (
+          !marker.title && <em className="empty-field">No content</em>
+        )}
+      </div>
+    );
+  };
+
+  const renderMarkers = (layout: ImageMarkerLayout) =>
+    block.markers.map((marker, index) => {
+      const position = layout.toBox(marker);
+      if (!position) return null; // Cropped away by the fit mode
+      const isActive = activeMarkerId === marker.id;
+      const label = `Marker ${index + 1}${marker.title ? `: ${marker.title}` : ''}`;
+
+      return (
+        <React.Fragment key={marker.id}>
+          <button
+            type="button"
+            className={`labeled-graphic-marker ${isActive ? 'is-active' : ''} ${isAuthoring ? 'is-movable' : ''}`}
+            style={{
+              left: position.left,
+              top: position.top,
+              background: 'var(--color-accent)',
+            }}
+            aria-label={isAuthoring ? `${label} - drag or use the arrow keys to move it` : label}
+            aria-expanded={isAuthoring ? undefined : isActive}
+            aria-controls={isAuthoring || !isActive ? undefined : `labeled-graphic-popover-${marker.id}`}
+            onPointerDown={(e) => {
+              if (isAuthoring) {
+                setActiveMarkerId(marker.id);
+                layout.beginDrag(e, (point) => updateMarker(marker.id, point));
+              } else {
+                e.stopPropagation(); // Don't start a block drag
+              }
+            }}
+            onClick={(e) => {
+              e.stopPropagation();
+              setActiveMarkerId(isActive && !isAuthoring ? null : marker.id);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setActiveMarkerId(null);
+                return;
+              }
+              if (!isAuthoring) return;
+              const point = getArrowKeyPoint(e.key, e.shiftKey, marker);
+              if (point) {
+                e.preventDefault();
+                updateMarker(marker.id, point);
+              }
+            }}
+          >
+            {index + 1}
+          </button>
+          {isActive && !isAuthoring && renderPopover(marker, index, position, layout)}
+        </React.Fragment>
+      );
+    });
+
+  return (
+    <div
+      className="block-view labeled-graphic-block-view"
+      style={{
+        fontFamily: 'var(--font-sans)',
+        color: 'var(--color-text)',
+      }}
+    >
+      {block.imageUrl ? (
+        <ImageMarkerCanvas
+          image={block}
+          onImageClick={isAuthoring ? handleAddMarker : () => setActiveMarkerId(null)}
+        >
+          {renderMarkers}
+        </ImageMarkerCanvas>
+      ) : (
+        <div
+          className="block-image-placeholder"
+          style={{
+            padding: 'var(--spacing-xl)',
+            borderRadius: 'var(--radius-md)',
+            border: `1px solid var(--color-border)`,
+            color: 'var(--color-muted-text)',
+          }}
+        >
+          {isPreview ? 'No image provided' : 'No image yet - upload one or add a URL in the properties panel'}
+        </div>
+      )}
+
+      {isAuthoring ? (
+        <div className="block-edit-field labeled-graphic-editor">
+          <p className="quiz-edit-hint">
+            Click the image to add a marker. Drag markers, or select one and use the arrow keys, to move them.
+          </p>
+          {block.markers.map((marker, index) => (
+            <div
+              key={marker.id}
+              className={`labeled-graphic-marker-settings ${activeMarkerId === marker.id ? 'is-active' : ''}`}
+              onFocus={() => setActiveMarkerId(marker.id)}
+            >
+              <div className="block-option-edit-row">
+                <span className="labeled-graphic-marker-number">{index + 1}</span>
+                <input
+                  type="text"
+                  value={marker.title}
+                  onChange={(e) => updateMarker(marker.id, { title: e.target.value })}
+                  className="block-edit-input block-option-input"
+                  placeholder="Title"
+                  aria-label={`Marker ${index + 1} title`}
+                />
+                <button
+                  type="button"
+                  className="block-option-delete"
+                  onClick={() => handleDeleteMarker(marker.id)}
+                  aria-label={`Delete marker ${index + 1}`}
+                >
+                  ×
+                </button>
+              </div>
+              <textarea
+                value={marker.content}
+                onChange={(e) => updateMarker(marker.id, { content: e.target.value })}
+                className="block-edit-textarea labeled-graphic-marker-content"
+                placeholder="Text shown when the marker is opened"
+                aria-label={`Marker ${index + 1} text`}
+                rows={2}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        !isPreview && block.imageUrl && block.markers.length === 0 && (
+          <p className="audio-transcript-hint">Double-click to add markers</p>
+        )
+      )}
+    </div>
+  );
+}
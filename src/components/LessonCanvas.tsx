@@ -13,8 +13,16 @@ import type { Editor } from '@tiptap/react';
 import type { Block, Section, Row, Resource } from '../types';
 import { TextBlockView } from './TextBlockView';
 import { ImageBlockView } from './ImageBlockView';
+import { VideoBlockView } from './VideoBlockView';
+import { AudioBlockView } from './AudioBlockView';
+import { LabeledGraphicBlockView } from './LabeledGraphicBlockView';
+import { QuestionDrawBlockView } from './QuestionDrawBlockView';
 import { QuizBlockView } from './QuizBlockView';
 import { ColumnsBlockView } from './ColumnsBlockView';
+import { AccordionBlockView } from './AccordionBlockView';
+import { TabsBlockView } from './TabsBlockView';
+import { FlashcardBlockView } from './FlashcardBlockView';
+import { TableBlockView } from './TableBlockView';
 import { ButtonBlockView } from './ButtonBlockView';
 import { BlockCardHeader } from './BlockCardHeader';
 import { BlockToolbar } from './BlockToolbar';
@@ -61,6 +69,7 @@ interface LessonCanvasProps {
   onDuplicateCell?: () => void;
   onEditCell?: () => void;
   onEditRow?: () => void;
+  onToggleRowGate?: () => void;
   onDeleteRow?: () => void;
   onDuplicateRow?: () => void;
   onAddEmptyStateRow?: () => void;
@@ -87,6 +96,9 @@ interface SortableBlockItemProps {
   activeId?: string | null;
   allBlocks?: Block[];
   showStructureStrokes?: boolean;
+  selectedCellId?: string | null;
+  onSelectCell?: (cellId: string | null) => void;
+  renderResource?: (resource: Resource) => React.ReactNode; // Renders the content of container panels
 }
 
 function SortableBlockItem({
@@ -106,6 +118,9 @@ function SortableBlockItem({
   activeId,
   allBlocks = [],
   showStructureStrokes = false,
+  selectedCellId,
+  onSelectCell,
+  renderResource,
 }: SortableBlockItemProps) {
   const {
     attributes,
@@ -164,6 +179,51 @@ function SortableBlockItem({
             onUpdate={handleUpdate}
           />
         );
+      case 'video':
+        return (
+          <VideoBlockView
+            block={block}
+            isPreview={isPreview}
+          />
+        );
+      case 'audio':
+        return (
+          <AudioBlockView
+            block={block}
+            isEditing={isEditing}
+            isPreview={isPreview}
+            onUpdate={handleUpdate}
+          />
+        );
+      case 'labeled-graphic':
+        return (
+          <LabeledGraphicBlockView
+            block={block}
+            isEditing={isEditing}
+            isPreview={isPreview}
+            onUpdate={handleUpdate}
+          />
+        );
+      case 'question-draw':
+        return <QuestionDrawBlockView block={block} isPreview={isPreview} />;
+      case 'table':
+        return (
+          <TableBlockView
+            block={block}
+            isEditing={isEditing}
+            isPreview={isPreview}
+            onUpdate={handleUpdate}
+          />
+        );
+      case 'flashcards':
+        return (
+          <FlashcardBlockView
+            block={block}
+            isEditing={isEditing}
+            isPreview={isPreview}
+            onUpdate={handleUpdate}
+          />
+        );
       case 'quiz':
         return (
           <QuizBlockView
@@ -199,6 +259,27 @@ function SortableBlockItem({
             onUpdate={handleUpdate}
           />
         );
+      case 'accordion':
+      case 'tabs': {
+        if (!renderResource) return null;
+        const panelProps = {
+          isPreview,
+          selectedBlockId,
+          selectedCellId,
+          editingBlockId,
+          onSelectBlock,
+          onSelectCell,
+          onEditBlock,
+          onUpdateBlock,
+          renderResource,
+          activeId,
+          allBlocks,
+          showStructureStrokes,
+        };
+        return block.type === 'accordion'
+          ? <AccordionBlockView block={block} {...panelProps} />
+          : <TabsBlockView block={block} {...panelProps} />;
+      }
       default:
         return null;
     }
@@ -240,7 +321,7 @@ function SortableBlockItem({
 
   const isTextBlock = block.type === 'text' || block.type === 'header';
   const isColumnsBlock = block.type === 'columns';
-  const isImageOrQuizBlock = block.type === 'image' || block.type === 'quiz';
+  const isImageOrQuizBlock = block.type === 'image' || block.type === 'quiz' || block.type === 'video' || block.type === 'audio' || block.type === 'labeled-graphic' || block.type === 'question-draw' || block.type === 'flashcards' || block.type === 'table' || block.type === 'accordion' || block.type === 'tabs';
 
   // Enable drag on the entire card when selected (not editing) and not in preview
   // When editing, disable drag to allow text editing
@@ -362,7 +443,7 @@ function SortableBlockItem({
         onDoubleClick={handleBlockDoubleClick}
         {...cardDragListeners}
       >
-      {(block.type === 'text' || block.type === 'header' || block.type === 'image' || block.type === 'quiz' || block.type === 'button') && isSelected && !isEditing && !isPreview && !isDragging && (
+      {(block.type === 'text' || block.type === 'header' || block.type === 'image' || block.type === 'quiz' || block.type === 'button' || block.type === 'video' || block.type === 'audio' || block.type === 'labeled-graphic' || block.type === 'question-draw' || block.type === 'flashcards' || block.type === 'table' || block.type === 'accordion' || block.type === 'tabs') && isSelected && !isEditing && !isPreview && !isDragging && (
         <BlockToolbar
           blockContainerRef={blockContentRef}
           blockType={block.type}
@@ -552,6 +633,7 @@ export function LessonCanvas({
   onDuplicateCell,
   onEditCell,
   onEditRow,
+  onToggleRowGate,
   onDeleteRow,
   onDuplicateRow,
   onAddEmptyStateRow,
@@ -610,6 +692,9 @@ export function LessonCanvas({
           activeId={activeId}
           allBlocks={allBlocksList}
           showStructureStrokes={showStructureStrokes}
+          selectedCellId={selectedCellId}
+          onSelectCell={onSelectCell}
+          renderResource={renderResource}
         />
       );
     }
@@ -656,6 +741,7 @@ export function LessonCanvas({
               onDuplicateCell={onDuplicateCell}
               onEditCell={onEditCell}
               onEditRow={onEditRow}
+              onToggleRowGate={onToggleRowGate}
               onDeleteRow={onDeleteRow}
               onDuplicateRow={onDuplicateRow}
               onAddEmptyStateRow={onAddEmptyStateRow}
@@ -675,8 +761,16 @@ export function LessonCanvas({
                 {activeId === 'palette-text' && '📝 Text'}
                 {activeId === 'palette-header' && '📝 Header'}
                 {activeId === 'palette-image' && '🖼️ Image'}
+                {activeId === 'palette-video' && '🎬 Video'}
+                {activeId === 'palette-audio' && '🎧 Audio'}
+                {activeId === 'palette-labeled-graphic' && '📍 Labeled Graphic'}
+                {activeId === 'palette-question-draw' && '🎲 Random Draw'}
+                {activeId === 'palette-flashcards' && '🃏 Flashcards'}
+                {activeId === 'palette-table' && '📋 Table'}
                 {activeId === 'palette-quiz' && '❓ Quiz'}
                 {activeId === 'palette-columns' && '📊 Columns'}
+                {activeId === 'palette-accordion' && '📑 Accordion'}
+                {activeId === 'palette-tabs' && '🗂️ Tabs'}
               </div>
             ) : (
               (() => {
@@ -693,9 +787,23 @@ export function LessonCanvas({
                             return <TextBlockView block={block} isSelected={false} isEditing={false} isPreview={false} onUpdate={() => {}} />;
                           case 'image':
                             return <ImageBlockView block={block} isSelected={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'video':
+                            return <VideoBlockView block={block} isPreview={false} />;
+                          case 'audio':
+                            return <AudioBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'labeled-graphic':
+                            return <LabeledGraphicBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'question-draw':
+                            return <QuestionDrawBlockView block={block} isPreview={false} />;
+                          case 'flashcards':
+                            return <FlashcardBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'table':
+                            return <TableBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
                           case 'quiz':
                             return <QuizBlockView block={block} isSelected={false} isPreview={false} onUpdate={() => {}} />;
                           case 'columns':
+                          case 'accordion':
+                          case 'tabs':
                             return <div className="canvas-block dragging columns-drag-preview"></div>;
                           case 'button':
                             return <ButtonBlockView block={block} isSelected={false} isEditing={false} isPreview={false} onUpdate={() => {}} />;
@@ -805,8 +913,16 @@ export function LessonCanvas({
                 {activeId === 'palette-text' && '📝 Text'}
                 {activeId === 'palette-header' && '📝 Header'}
                 {activeId === 'palette-image' && '🖼️ Image'}
+                {activeId === 'palette-video' && '🎬 Video'}
+                {activeId === 'palette-audio' && '🎧 Audio'}
+                {activeId === 'palette-labeled-graphic' && '📍 Labeled Graphic'}
+                {activeId === 'palette-question-draw' && '🎲 Random Draw'}
+                {activeId === 'palette-flashcards' && '🃏 Flashcards'}
+                {activeId === 'palette-table' && '📋 Table'}
                 {activeId === 'palette-quiz' && '❓ Quiz'}
                 {activeId === 'palette-columns' && '📊 Columns'}
+                {activeId === 'palette-accordion' && '📑 Accordion'}
+                {activeId === 'palette-tabs' && '🗂️ Tabs'}
               </div>
             ) : (
               (() => {
@@ -823,9 +939,23 @@ export function LessonCanvas({
                             return <TextBlockView block={block} isSelected={false} isEditing={false} isPreview={false} onUpdate={() => {}} />;
                           case 'image':
                             return <ImageBlockView block={block} isSelected={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'video':
+                            return <VideoBlockView block={block} isPreview={false} />;
+                          case 'audio':
+                            return <AudioBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'labeled-graphic':
+                            return <LabeledGraphicBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'question-draw':
+                            return <QuestionDrawBlockView block={block} isPreview={false} />;
+                          case 'flashcards':
+                            return <FlashcardBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
+                          case 'table':
+                            return <TableBlockView block={block} isEditing={false} isPreview={false} onUpdate={() => {}} />;
                           case 'quiz':
                             return <QuizBlockView block={block} isSelected={false} isPreview={false} onUpdate={() => {}} />;
                           case 'columns':
+                          case 'accordion':
+                          case 'tabs':
                             return <div className="canvas-block dragging columns-drag-preview"></div>;
                           case 'button':
                             return <ButtonBlockView block={block} isSelected={false} isEditing={false} isPreview={false} onUpdate={() => {}} />;
@@ -0,0 +1,365 @@
+import { useEffect, useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { Archive, ArchiveRestore, Copy, Download, Library, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { PreviewStage } from './PreviewStage';
+import { deviceConfigs } from './PreviewToolbar';
+import {
+  listLessons,
+  saveLesson,
+  deleteLesson,
+  createLessonRecord,
+  DEFAULT_LESSON_TITLE,
+} from '../utils/lessonStorage';
+import type { StoredLesson, LessonMetadata } from '../utils/lessonStorage';
+import { getLessonTemplates } from '../utils/lessonTemplates';
+import type { LessonTemplate } from '../utils/lessonTemplates';
+import { parseLessonFile, downloadLessonFile, LESSON_FILE_EXTENSION } from '../utils/lessonFile';
+import { useQuestionBanks } from '../quiz/questionBankContext';
+import { copyLessonQuestionBanks } from '../utils/questionBanks';
+import { cloneLessonRows } from '../document/ids';
+
+interface LessonLibraryProps {
+  currentLessonId: string | null;
+  onOpenLesson: (lessonId: string) => void;
+  // Edits to the open lesson go through the editor so its autosave stays the single writer
+  onUpdateCurrentLesson: (updates: Partial<Pick<LessonMetadata, 'title' | 'archived'>>) => void;
+  onClose: () => void;
+}
+
+type LibraryView = 'active' | 'archived';
+
+export function LessonLibrary({ currentLessonId, onOpenLesson, onUpdateCurrentLesson, onClose }: LessonLibraryProps) {
+  const [lessons, setLessons] = useState<StoredLesson[] | null>(null);
+  const [view, setView] = useState<LibraryView>('active');
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  const [renamingLessonId, setRenamingLessonId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { banks, saveBank, deleteBank } = useQuestionBanks();
+
+  const templates = getLessonTemplates();
+
+  // Load the library once when opened - the editor flushes its autosave before opening it
+  useEffect(() => {
+    let isCancelled = false;
+
+    listLessons()
+      .then((storedLessons) => {
+        if (!isCancelled) setLessons(storedLessons);
+      })
+      .catch((loadError) => {
+        console.error('Failed to load lesson library:', loadError);
+        if (!isCancelled) {
+          setLessons([]);
+          setError('The lesson library could not be loaded from browser storage.');
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  // Write a lesson and reflect it in the list (replacing or prepending by ID)
+  const storeLesson = async (lesson: StoredLesson) => {
+    try {
+      await saveLesson(lesson);
+      setLessons((prev) => {
+        const others = (prev || []).filter((l) => l.id !== lesson.id);
+        return [lesson, ...others].sort((a, b) => b.updatedAt - a.updatedAt);
+      });
+      return true;
+    } catch (saveError) {
+      console.error('Failed to save lesson:', saveError);
+      setError('The lesson could not be saved to browser storage.');
+      return false;
+    }
+  };
+
+  const handleCreateLesson = async (template?: LessonTemplate) => {
+    const lesson = createLessonRecord(
+      template ? template.name : DEFAULT_LESSON_TITLE,
+      template ? template.createRows() : []
+    );
+    if (await storeLesson(lesson)) {
+      onOpenLesson(lesson.id);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = parseLessonFile(await file.text());
+      const fallbackTitle = file.name.replace(LESSON_FILE_EXTENSION, '').replace(/\.json$/i, '');
+      const lesson = createLessonRecord(imported.title || fallbackTitle, imported.rows, imported.pageProps);
+      // The file's banks become banks of the new lesson (shared ones are kept if already here)
+      const copied = copyLessonQuestionBanks(
+        lesson.rows,
+        imported.questionBanks,
+        lesson.id,
+        new Set(banks.map((bank) => bank.id))
+      );
+      await Promise.all(copied.banks.map(saveBank));
+      if (await storeLesson({ ...lesson, rows: copied.rows })) {
+        setView('active');
+        setError(null);
+      }
+    } catch (importError) {
+      console.error('Failed to import lesson:', importError);
+      setError(
+        `Could not import "${file.name}": ${importError instanceof Error ? importError.message : 'unknown error'}`
+      );
+    }
+  };
+
+  const handleDuplicateLesson = async (lesson: StoredLesson) => {
+    const now = Date.now();
+    const id = nanoid();
+    const copied = copyLessonQuestionBanks(lesson.rows, banks, id, new Set(banks.map((bank) => bank.id)));
+    try {
+      await Promise.all(copied.banks.map(saveBank));
+    } catch (saveError) {
+      console.error('Failed to copy question banks:', saveError);
+      setError('The question banks of the lesson could not be copied.');
+      return;
+    }
+    await storeLesson({
+      ...lesson,
+      id,
+      rows: cloneLessonRows(copied.rows), // Progress, results and tracking are keyed by these IDs
+      title: `${lesson.title} (copy)`,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  };
+
+  const updateLesson = async (lesson: StoredLesson, updates: Partial<Pick<LessonMetadata, 'title' | 'archived'>>) => {
+    if (lesson.id === currentLessonId) {
+      onUpdateCurrentLesson(updates);
+      setLessons((prev) =>
+        (prev || []).map((l) => (l.id === lesson.id ? { ...l, ...updates } : l))
+      );
+      return;
+    }
+    await storeLesson({ ...lesson, ...updates, updatedAt: Date.now() });
+  };
+
+  const startRename = (lesson: StoredLesson) => {
+    setRenamingLessonId(lesson.id);
+    setRenameValue(lesson.title);
+  };
+
+  const commitRename = (lesson: StoredLesson) => {
+    setRenamingLessonId(null);
+    const title = renameValue.trim();
+    if (!title || title === lesson.title) return;
+    updateLesson(lesson, { title });
+  };
+
+  const handleDeleteLesson = async (lesson: StoredLesson) => {
+    if (!window.confirm(`Delete "${lesson.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteLesson(lesson.id);
+      await Promise.all(banks.filter((bank) => bank.lessonId === lesson.id).map((bank) => deleteBank(bank.id)));
+      setLessons((prev) => (prev || []).filter((l) => l.id !== lesson.id));
+    } catch (deleteError) {
+      console.error('Failed to delete lesson:', deleteError);
+      setError('The lesson could not be deleted.');
+    }
+  };
+
+  const visibleLessons = (lessons || []).filter((lesson) =>
+    view === 'archived' ? lesson.archived : !lesson.archived
+  );
+  const archivedCount = (lessons || []).filter((lesson) => lesson.archived).length;
+
+  return (
+    <div className="theme-editor-overlay" onClick={onClose}>
+      <div className="theme-editor-container lesson-library" onClick={(e) => e.stopPropagation()}>
+        <div className="theme-editor-header">
+          <button className="theme-editor-exit" onClick={onClose}>
+            ← Back to editor
+          </button>
+          <div className="theme-editor-title">
+            <Library size={18} />
+            <h2>Lessons</h2>
+          </div>
+          <div className="theme-toggle" role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={view === 'active'}
+              className={`theme-option ${view === 'active' ? 'active' : ''}`}
+              onClick={() => setView('active')}
+            >
+              All lessons
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={view === 'archived'}
+              className={`theme-option ${view === 'archived' ? 'active' : ''}`}
+              onClick={() => setView('archived')}
+            >
+              Archived{archivedCount > 0 ? ` (${archivedCount})` : ''}
+            </button>
+          </div>
+        </div>
+        <div className="theme-editor-content">
+          {error && (
+            <div className="lesson-library-error" role="alert">
+              {error}
+            </div>
+          )}
+
+          {view === 'active' && (
+            <div className="lesson-library-create">
+              <button
+                type="button"
+                className="lesson-library-button lesson-library-button-primary"
+                onClick={() => handleCreateLesson()}
+              >
+                <Plus size={16} />
+                Blank lesson
+              </button>
+              <button
+                type="button"
+                className="lesson-library-button"
+                onClick={() => setIsTemplatePickerOpen(!isTemplatePickerOpen)}
+                aria-expanded={isTemplatePickerOpen}
+              >
+                From template
+              </button>
+              <button
+                type="button"
+                className="lesson-library-button"
+                onClick={() => importInputRef.current?.click()}
+              >
+                <Upload size={16} />
+                Import
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={`${LESSON_FILE_EXTENSION},.json,application/json`}
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportFile(file);
+                  e.target.value = ''; // Allow importing the same file again
+                }}
+              />
+            </div>
+          )}
+
+          {view === 'active' && isTemplatePickerOpen && (
+            <div className="lesson-library-templates">
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className="lesson-library-template"
+                  onClick={() => handleCreateLesson(template)}
+                >
+                  <span className="lesson-library-template-name">{template.name}</span>
+                  <span className="lesson-library-template-description">{template.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {lessons === null ? (
+            <p className="theme-editor-subtitle">Loading lessons…</p>
+          ) : visibleLessons.length === 0 ? (
+            <p className="theme-editor-subtitle">
+              {view === 'archived' ? 'No archived lessons.' : 'No lessons yet. Create one to get started.'}
+            </p>
+          ) : (
+            <div className="lesson-library-grid">
+              {visibleLessons.map((lesson) => {
+                const isCurrent = lesson.id === currentLessonId;
+                return (
+                  <div
+                    key={lesson.id}
+                    className={`lesson-library-card${isCurrent ? ' lesson-library-card-current' : ''}`}
+                  >
+                    {/* Rendered at desktop size and scaled down by PreviewStage to fit the card */}
+                    <div
+                      className="lesson-library-thumbnail"
+                      onClick={() => onOpenLesson(lesson.id)}
+                      aria-hidden="true"
+                    >
+                      <PreviewStage
+                        rows={lesson.rows}
+                        deviceType="desktop"
+                        deviceConfig={deviceConfigs.desktop}
+                      />
+                    </div>
+                    <div className="lesson-library-card-info">
+                      {renamingLessonId === lesson.id ? (
+                        <input
+                          className="lesson-library-rename-input"
+                          value={renameValue}
+                          autoFocus
+                          aria-label="Lesson title"
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={() => commitRename(lesson)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename(lesson);
+                            if (e.key === 'Escape') setRenamingLessonId(null);
+                          }}
+                        />
+                      ) : (
+                        <button
+                          type="button"
+                          className="lesson-library-card-title"
+                          title={`Open ${lesson.title}`}
+                          onClick={() => onOpenLesson(lesson.id)}
+                        >
+                          {lesson.title}
+                        </button>
+                      )}
+                      <span className="lesson-library-card-meta">
+                        {isCurrent ? 'Open now' : `Edited ${new Date(lesson.updatedAt).toLocaleDateString()}`}
+                      </span>
+                    </div>
+                    <div className="lesson-library-card-actions">
+                      <button type="button" onClick={() => startRename(lesson)} title="Rename" aria-label="Rename">
+                        <Pencil size={14} />
+                      </button>
+                      <button type="button" onClick={() => handleDuplicateLesson(lesson)} title="Duplicate" aria-label="Duplicate">
+                        <Copy size={14} />
+                      </button>
+                      <button type="button" onClick={() => downloadLessonFile(lesson, banks)} title="Export" aria-label="Export">
+                        <Download size={14} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateLesson(lesson, { archived: !lesson.archived })}
+                        title={lesson.archived ? 'Restore from archive' : 'Archive'}
+                        aria-label={lesson.archived ? 'Restore from archive' : 'Archive'}
+                      >
+                        {lesson.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteLesson(lesson)}
+                        disabled={isCurrent}
+                        title={isCurrent ? 'Open another lesson before deleting this one' : 'Delete'}
+                        aria-label="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Upload } from 'lucide-react';
+import type { ImageBlock, MarkedImage } from '../types';
+import { readFileAsDataUrl } from '../utils/media';
+
+interface MarkedImageSettingsProps {
+  image: MarkedImage;
+  onUpdate: (updates: Partial<MarkedImage>) => void;
+}
+
+const POSITION_OPTIONS: Array<{ value: NonNullable<ImageBlock['imagePosition']>; label: string }> = [
+  { value: 'center', label: 'Center' },
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+  { value: 'top-left', label: 'Top Left' },
+  { value: 'top-right', label: 'Top Right' },
+  { value: 'bottom-left', label: 'Bottom Left' },
+  { value: 'bottom-right', label: 'Bottom Right' },
+];
+
+// Image source and fit settings for blocks with markers (hotspot questions, labeled graphics)
+export function MarkedImageSettings({ image, onUpdate }: MarkedImageSettingsProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isUploadedImage = image.imageUrl.startsWith('data:');
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError(`"${file.name}" is not an image file.`);
+      return;
+    }
+
+    try {
+      onUpdate({ imageUrl: await readFileAsDataUrl(file) });
+      setError(null);
+    } catch (uploadError) {
+      console.error('Failed to read image file:', uploadError);
+      setError(`Could not read "${file.name}".`);
+    }
+  };
+
+  return (
+    <div className="media-settings-panel">
+      {error && (
+        <div className="media-settings-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="property-group">
+        <label htmlFor="marked-image-url">Image</label>
+        <input
+          id="marked-image-url"
+          type="text"
+          value={isUploadedImage ? '' : image.imageUrl}
+          onChange={(e) => onUpdate({ imageUrl: e.target.value })}
+          className="property-input"
+          placeholder={isUploadedImage ? 'Uploaded image' : 'https://example.com/diagram.png'}
+        />
+        <div className="media-settings-actions">
+          <button type="button" className="media-settings-button" onClick={() => imageInputRef.current?.click()}>
+            <Upload size={14} />
+            Upload image
+          </button>
+          {image.imageUrl && (
+            <button type="button" className="media-settings-button" onClick={() => onUpdate({ imageUrl: '' })}>
+              Remove
+            </button>
+          )}
+        </div>
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/*"
+          style={{ display: 'none' }}
+          onChange={handleFileSelect}
+        />
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="marked-image-type">Fit</label>
+        <select
+          id="marked-image-type"
+          value={image.imageType || 'fill'}
+          onChange={(e) => onUpdate({ imageType: e.target.value as MarkedImage['imageType'] })}
+          className="property-select"
+        >
+          <option value="fill">Fill</option>
+          <option value="fit">Fit</option>
+          <option value="stretch">Stretch</option>
+        </select>
+      </div>
+
+      {image.imageType !== 'stretch' && (
+        <div className="property-group">
+          <label htmlFor="marked-image-position">Position</label>
+          <select
+            id="marked-image-position"
+            value={image.imagePosition || 'center'}
+            onChange={(e) => onUpdate({ imagePosition: e.target.value as MarkedImage['imagePosition'] })}
+            className="property-select"
+          >
+            {POSITION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="property-group">
+        <label htmlFor="marked-image-alt">Alt text</label>
+        <input
+          id="marked-image-alt"
+          type="text"
+          value={image.altText || ''}
+          onChange={(e) => onUpdate({ altText: e.target.value })}
+          className="property-input"
+          placeholder="Describe the image"
+        />
+        <span className="media-settings-hint">
+          Markers stay on the same spot of the image in every fit mode and on every device.
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import type { Block, Cell, Resource } from '../types';
+import { CellView } from './CellView';
+
+export interface PanelCellProps {
+  cell: Cell;
+  rowId: string; // The row of the accordion or tabs block that holds the cell
+  isPreview: boolean;
+  selectedBlockId: string | null;
+  selectedCellId?: string | null;
+  editingBlockId: string | null;
+  onSelectBlock: (blockId: string | null) => void;
+  onSelectCell?: (cellId: string | null) => void;
+  onEditBlock: (blockId: string) => void;
+  onUpdateBlock: (block: Block) => void;
+  renderResource: (resource: Resource) => React.ReactNode;
+  activeId?: string | null;
+  allBlocks?: Block[];
+  showStructureStrokes?: boolean;
+}
+
+// Content of an accordion or tabs panel - a drop target on the canvas like a column
+export function PanelCell({ cell, rowId, isPreview, ...cellProps }: PanelCellProps) {
+  // Learners see nothing in a panel left empty
+  if (isPreview && cell.resources.length === 0) return null;
+
+  return <CellView {...cellProps} cell={cell} rowId={rowId} isPreview={isPreview} isColumnsBlock={true} />;
+}
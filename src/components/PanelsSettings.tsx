@@ -0,0 +1,125 @@
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import type { ContainerPanel, PanelsBlock } from '../types';
+import { addPanel, getPanelTitle, movePanel, removePanel } from '../utils/panels';
+
+interface PanelsSettingsProps {
+  block: PanelsBlock;
+  onUpdate: (updates: Partial<PanelsBlock>) => void;
+}
+
+// Panel titles, order and open state of an accordion or tabs block
+export function PanelsSettings({ block, onUpdate }: PanelsSettingsProps) {
+  const panelCount = block.row.cells.length;
+  const noun = block.type === 'tabs' ? 'tab' : 'panel';
+
+  const updatePanel = (index: number, updates: Partial<ContainerPanel>) => {
+    const panels = block.row.cells.map((_, i) => block.panels[i] ?? { title: '' });
+    panels[index] = { ...panels[index], ...updates };
+    onUpdate({ panels });
+  };
+
+  return (
+    <div className="media-settings-panel">
+      <div className="property-group">
+        <label>{block.type === 'tabs' ? 'Tabs' : 'Panels'}</label>
+        {block.row.cells.map((cell, index) => (
+          <div key={cell.id} className="media-settings-track">
+            <div className="media-settings-row">
+              <input
+                type="text"
+                value={block.panels[index]?.title ?? ''}
+                onChange={(e) => updatePanel(index, { title: e.target.value })}
+                className="property-input"
+                aria-label={`Title of ${noun} ${index + 1}`}
+                placeholder={getPanelTitle({ ...block, panels: [] }, index)}
+              />
+              <button
+                type="button"
+                className="media-settings-icon-button"
+                onClick={() => onUpdate(movePanel(block, index, -1))}
+                disabled={index === 0}
+                title={`Move ${noun} up`}
+                aria-label={`Move ${getPanelTitle(block, index)} up`}
+              >
+                <ChevronUp size={14} />
+              </button>
+              <button
+                type="button"
+                className="media-settings-icon-button"
+                onClick={() => onUpdate(movePanel(block, index, 1))}
+                disabled={index === panelCount - 1}
+                title={`Move ${noun} down`}
+                aria-label={`Move ${getPanelTitle(block, index)} down`}
+              >
+                <ChevronDown size={14} />
+              </button>
+              <button
+                type="button"
+                className="media-settings-icon-button"
+                onClick={() => onUpdate(removePanel(block, index))}
+                disabled={panelCount <= 1}
+                title={`Remove ${noun} and its content`}
+                aria-label={`Remove ${getPanelTitle(block, index)}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {block.type === 'accordion' && (
+              <label className="media-settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={!!block.panels[index]?.isOpenByDefault}
+                  onChange={(e) => updatePanel(index, { isOpenByDefault: e.target.checked })}
+                />
+                Open by default
+              </label>
+            )}
+          </div>
+        ))}
+        <div className="media-settings-actions">
+          <button type="button" className="media-settings-button" onClick={() => onUpdate(addPanel(block))}>
+            <Plus size={14} />
+            Add {noun}
+          </button>
+        </div>
+        <span className="media-settings-hint">
+          Drag blocks from the palette into a {noun} on the canvas to fill it.
+        </span>
+      </div>
+
+      {block.type === 'accordion' && (
+        <div className="property-group">
+          <label className="media-settings-checkbox">
+            <input
+              type="checkbox"
+              checked={block.allowMultipleOpen}
+              onChange={(e) => onUpdate({ allowMultipleOpen: e.target.checked })}
+            />
+            Allow multiple panels open
+          </label>
+          {!block.allowMultipleOpen && block.panels.filter((panel) => panel.isOpenByDefault).length > 1 && (
+            <span className="media-settings-hint">Only the first panel marked open by default starts open.</span>
+          )}
+        </div>
+      )}
+
+      {block.type === 'tabs' && (
+        <div className="property-group">
+          <label htmlFor="tabs-default">Tab shown first</label>
+          <select
+            id="tabs-default"
+            value={Math.min(block.defaultPanelIndex, panelCount - 1)}
+            onChange={(e) => onUpdate({ defaultPanelIndex: Number(e.target.value) })}
+            className="property-select"
+          >
+            {block.row.cells.map((cell, index) => (
+              <option key={cell.id} value={index}>
+                {getPanelTitle(block, index)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,394 @@
-import { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import type { DeviceType } from './PreviewToolbar';
 import { deviceConfigs } from './PreviewToolbar';
-import type { Block, Resource, Row } from '../types';
+import type { Block, ButtonAction, QuestionBank, QuestionDrawBlock, Resource, Row } from '../types';
 import { TextBlockView } from './TextBlockView';
 import { ImageBlockView } from './ImageBlockView';
+import { VideoBlockView } from './VideoBlockView';
+import { AudioBlockView } from './AudioBlockView';
+import { LabeledGraphicBlockView } from './LabeledGraphicBlockView';
+import { QuestionDrawBlockView } from './QuestionDrawBlockView';
 import { QuizBlockView } from './QuizBlockView';
 import { ColumnsBlockView } from './ColumnsBlockView';
+import { AccordionBlockView } from './AccordionBlockView';
+import { TabsBlockView } from './TabsBlockView';
+import { FlashcardBlockView } from './FlashcardBlockView';
+import { TableBlockView } from './TableBlockView';
+import { ButtonBlockView } from './ButtonBlockView';
 import { RowView } from './RowView';
 import { isBlock } from '../utils/sections';
+import { collectQuizBlocks } from '../utils/quiz';
+import { QuizSessionProvider } from '../quiz/QuizSessionProvider';
+import { useQuizSession } from '../quiz/quizSession';
+import { useQuestionBanks } from '../quiz/questionBankContext';
+import { PreviewActionsContext } from '../preview/previewActions';
+import { PreviewDeviceContext } from '../preview/previewDevice';
+import { PreviewTrackingContext } from '../preview/previewTracking';
+import { useXapi } from '../xapi/xapiContext';
+import { getXapiActor } from '../xapi/lrs';
+import { createLessonTracker } from '../xapi/lessonTracker';
+import { collectQuestionDrawBlocks, drawQuestions } from '../utils/questionBanks';
+import { normalizeSeed } from '../utils/random';
+import { getButtonActionUrl } from '../utils/buttons';
+import { DEFAULT_CONTINUE_LABEL, getGateQuizIds, isGateSatisfied } from '../utils/rowGates';
 
 interface PreviewStageProps {
   blocks?: Block[]; // For backward compatibility
   rows?: Row[]; // New: Use rows for proper structure
   deviceType: DeviceType;
   deviceConfig: typeof deviceConfigs[DeviceType];
+  onNavigateLesson?: (direction: 'next' | 'previous') => void; // Next/previous page buttons
+  lessonId?: string; // Identifies the lesson in xAPI statements - none are sent without it
+  lessonTitle?: string;
 }
 
-export function PreviewStage({ blocks, rows, deviceType, deviceConfig }: PreviewStageProps) {
+// Read-only view of a block in the preview
+function renderPreviewBlock(block: Block, allBlocks: Block[] = []): React.ReactNode {
+  switch (block.type) {
+    case 'text':
+    case 'header':
+      return (
+        <TextBlockView
+          block={block}
+          isSelected={false}
+          isEditing={false}
+          isPreview={true}
+          onUpdate={() => {}}
+        />
+      );
+    case 'image':
+      return (
+        <ImageBlockView
+          block={block}
+          isSelected={false}
+          isPreview={true}
+          onUpdate={() => {}}
+        />
+      );
+    case 'video':
+      return <VideoBlockView block={block} isPreview={true} />;
+    case 'audio':
+      return <AudioBlockView block={block} isEditing={false} isPreview={true} onUpdate={() => {}} />;
+    case 'labeled-graphic':
+      return <LabeledGraphicBlockView block={block} isEditing={false} isPreview={true} onUpdate={() => {}} />;
+    case 'question-draw':
+      return <QuestionDrawBlockView block={block} isPreview={true} />;
+    case 'table':
+      return <TableBlockView block={block} isEditing={false} isPreview={true} onUpdate={() => {}} />;
+    case 'flashcards':
+      return <FlashcardBlockView block={block} isEditing={false} isPreview={true} onUpdate={() => {}} />;
+    case 'button':
+      return <ButtonBlockView block={block} isSelected={false} isPreview={true} onUpdate={() => {}} />;
+    case 'quiz':
+      return (
+        <QuizBlockView
+          block={block}
+          isSelected={false}
+          isEditing={false}
+          isPreview={true}
+          onUpdate={() => {}}
+        />
+      );
+    case 'columns':
+      return (
+        <ColumnsBlockView
+          block={block}
+          isSelected={false}
+          isPreview={true}
+          selectedBlockId={null}
+          selectedCellId={null}
+          editingBlockId={null}
+          onSelectBlock={() => {}}
+          onSelectCell={() => {}}
+          onEditBlock={() => {}}
+          onUpdateBlock={() => {}}
+          renderResource={renderPreviewResource}
+          activeId={undefined}
+          allBlocks={allBlocks}
+          showStructureStrokes={false}
+        />
+      );
+    case 'accordion':
+    case 'tabs': {
+      const panelProps = {
+        isPreview: true,
+        selectedBlockId: null,
+        selectedCellId: null,
+        editingBlockId: null,
+        onSelectBlock: () => {},
+        onSelectCell: () => {},
+        onEditBlock: () => {},
+        onUpdateBlock: () => {},
+        renderResource: renderPreviewResource,
+        allBlocks,
+        showStructureStrokes: false,
+      };
+      return block.type === 'accordion'
+        ? <AccordionBlockView block={block} {...panelProps} />
+        : <TabsBlockView block={block} {...panelProps} />;
+    }
+    default:
+      return null;
+  }
+}
+
+function renderPreviewResource(resource: Resource): React.ReactNode {
+  return isBlock(resource) ? renderPreviewBlock(resource) : null;
+}
+
+// Every quiz of the session - the lesson's own and the questions drawn for its seed
+function getSessionQuizIds(quizIds: string[], draws: QuestionDrawBlock[], banks: QuestionBank[], seed: string): string[] {
+  return [
+    ...quizIds,
+    ...draws.flatMap((draw) => drawQuestions(draw, banks, seed).map((question) => question.id)),
+  ];
+}
+
+interface QuizScoreTallyProps {
+  quizIds: string[];
+  draws: QuestionDrawBlock[];
+}
+
+// Lesson-level score across every quiz in the preview, with the seed of the session so
+// authors can replay exactly what a learner saw
+function QuizScoreTally({ quizIds, draws }: QuizScoreTallyProps) {
+  const { results, seed, reset } = useQuizSession();
+  const { banks } = useQuestionBanks();
+  const [seedInput, setSeedInput] = useState('');
+  const allQuizIds = getSessionQuizIds(quizIds, draws, banks, seed);
+  const answered = allQuizIds.filter((id) => results[id]?.isFinal).length;
+  const correct = allQuizIds.filter((id) => results[id]?.isFinal && results[id].isCorrect).length;
+
+  const handleReplaySeed = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextSeed = normalizeSeed(seedInput);
+    if (!nextSeed) return;
+    reset(nextSeed);
+    setSeedInput('');
+  };
+
+  return (
+    <div className="preview-quiz-score">
+      <span role="status">
+        Score: <strong>{correct} / {allQuizIds.length}</strong>
+        <span className="preview-quiz-score-answered"> · {answered} of {allQuizIds.length} answered</span>
+      </span>
+      <form className="preview-quiz-seed" onSubmit={handleReplaySeed}>
+        <span className="preview-quiz-score-answered">
+          Seed <strong className="preview-quiz-seed-value">{seed}</strong>
+        </span>
+        <input
+          type="text"
+          className="preview-quiz-seed-input"
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          placeholder="Seed"
+          aria-label="Seed to replay"
+        />
+        <button type="submit" className="preview-quiz-score-reset" disabled={!normalizeSeed(seedInput)}>
+          Replay
+        </button>
+      </form>
+      {Object.keys(results).length > 0 && (
+        <button type="button" className="preview-quiz-score-reset" onClick={() => reset()}>
+          Restart
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface QuizSessionContentProps {
+  children: React.ReactNode;
+}
+
+// Remounts the lesson when the quiz session restarts so every answer is cleared
+function QuizSessionContent({ children }: QuizSessionContentProps) {
+  const { sessionKey } = useQuizSession();
+  return <React.Fragment key={sessionKey}>{children}</React.Fragment>;
+}
+
+interface LessonTrackingProps {
+  lessonId?: string;
+  lessonTitle: string;
+  quizIds: string[];
+  draws: QuestionDrawBlock[];
+  children: React.ReactNode;
+}
+
+// Sends xAPI statements while xAPI is turned on. Remounted with the quiz session, so every
+// session is a new registration; it is completed once every quiz is finished.
+function LessonTracking({ lessonId, lessonTitle, quizIds, draws, children }: LessonTrackingProps) {
+  const { settings, send } = useXapi();
+  const { results, seed } = useQuizSession();
+  const { banks } = useQuestionBanks();
+  const tracker = useMemo(
+    () => settings.isEnabled && lessonId
+      ? createLessonTracker({
+        lesson: { id: lessonId, title: lessonTitle },
+        actor: getXapiActor(settings),
+        activityBaseIri: settings.activityBaseIri,
+        send,
+      })
+      : undefined,
+    [settings, lessonId, lessonTitle, send]
+  );
+  const allQuizIds = getSessionQuizIds(quizIds, draws, banks, seed);
+  const correct = allQuizIds.filter((id) => results[id]?.isFinal && results[id].isCorrect).length;
+  const isComplete = allQuizIds.every((id) => results[id]?.isFinal);
+
+  useEffect(() => {
+    tracker?.launched();
+  }, [tracker]);
+
+  useEffect(() => {
+    if (isComplete) tracker?.completed(correct, allQuizIds.length);
+  }, [tracker, isComplete, correct, allQuizIds.length]);
+
+  return <PreviewTrackingContext.Provider value={tracker}>{children}</PreviewTrackingContext.Provider>;
+}
+
+interface PreviewRowsProps {
+  rows: Row[];
+  onNavigateLesson?: (direction: 'next' | 'previous') => void;
+}
+
+// Scroll the preview to a row, if it is shown
+function scrollToRow(rowId: string) {
+  document
+    .querySelector(`.preview-lesson-content [data-row-id="${CSS.escape(rowId)}"]`)
+    ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+}
+
+// The lesson rows, running button actions, leaving out rows hidden until revealed and holding
+// back everything after a knowledge-check gate until it is passed
+function PreviewRows({ rows, onNavigateLesson }: PreviewRowsProps) {
+  const { results, seed, submitAll } = useQuizSession();
+  const { banks } = useQuestionBanks();
+  // Gates whose continue button the learner has pressed, and rows revealed by buttons -
+  // both cleared with the session
+  const [continuedGateIds, setContinuedGateIds] = useState<string[]>([]);
+  const [revealedRowIds, setRevealedRowIds] = useState<string[]>([]);
+  const [revealedScrollTargetId, setRevealedScrollTargetId] = useState<string | null>(null);
+
+  // A revealed row can only be scrolled to once it has rendered
+  useEffect(() => {
+    if (revealedScrollTargetId) scrollToRow(revealedScrollTargetId);
+  }, [revealedScrollTargetId]);
+
+  const runAction = (action: ButtonAction) => {
+    switch (action.type) {
+      case 'url': {
+        const url = getButtonActionUrl(action);
+        // Always a new tab - opening the link in place would leave the editor
+        if (url) window.open(url, '_blank', 'noopener');
+        break;
+      }
+      case 'anchor':
+        if (action.rowId) scrollToRow(action.rowId);
+        break;
+      case 'next-page':
+        onNavigateLesson?.('next');
+        break;
+      case 'previous-page':
+        onNavigateLesson?.('previous');
+        break;
+      case 'submit-quizzes':
+        submitAll();
+        break;
+      case 'reveal-row': {
+        const { rowId } = action;
+        if (!rowId) break;
+        if (revealedRowIds.includes(rowId)) {
+          scrollToRow(rowId);
+        } else {
+          setRevealedRowIds((ids) => [...ids, rowId]);
+          setRevealedScrollTargetId(rowId);
+        }
+        break;
+      }
+    }
+  };
+
+  const visibleRows = rows.filter((row) => !row.props?.hiddenUntilRevealed || revealedRowIds.includes(row.id));
+
+  // The first gate that is still closed locks every row after it
+  const blockingIndex = visibleRows.findIndex((row) => {
+    const gate = row.props?.gate;
+    if (!gate) return false;
+    const isPassed = isGateSatisfied(gate, getGateQuizIds(row, banks, seed), results);
+    return !isPassed || (gate.continueButton && !continuedGateIds.includes(row.id));
+  });
+  const blockingRow = blockingIndex === -1 ? null : visibleRows[blockingIndex];
+  const blockingGate = blockingRow?.props?.gate;
+  const isBlockingGatePassed = !!blockingRow && !!blockingGate &&
+    isGateSatisfied(blockingGate, getGateQuizIds(blockingRow, banks, seed), results);
+
+  return (
+    <PreviewActionsContext.Provider value={{ runAction }}>
+      {visibleRows.map((row, index) => {
+        const isLocked = blockingIndex !== -1 && index > blockingIndex;
+        if (isLocked && blockingGate?.lockStyle !== 'blur') return null;
+
+        const rowView = (
+          <RowView
+            row={row}
+            selectedBlockId={null}
+            selectedCellId={null}
+            selectedRowId={null}
+            editingBlockId={null}
+            isPreview={true}
+            onSelectBlock={() => {}}
+            onSelectCell={() => {}}
+            onSelectRow={() => {}}
+            onEditBlock={() => {}}
+            onUpdateBlock={() => {}}
+            onDeleteCell={() => {}}
+            onDuplicateCell={() => {}}
+            onDeleteRow={() => {}}
+            onDuplicateRow={() => {}}
+            onAddEmptyStateRow={() => {}}
+            renderResource={renderPreviewResource}
+            activeId={undefined}
+            allBlocks={[]}
+            showStructureStrokes={false}
+          />
+        );
+
+        return (
+          <React.Fragment key={row.id}>
+            {isLocked ? (
+              <div className="preview-row-locked" inert aria-hidden="true">
+                {rowView}
+              </div>
+            ) : rowView}
+            {index === blockingIndex && blockingGate && index < visibleRows.length - 1 && (
+              <div className="preview-row-gate">
+                {isBlockingGatePassed ? (
+                  <ButtonBlockView
+                    block={{ id: `${row.id}:continue`, type: 'button', title: '', label: blockingGate.continueLabel || DEFAULT_CONTINUE_LABEL }}
+                    isSelected={false}
+                    isPreview
+                    onUpdate={() => {}}
+                    onClick={() => setContinuedGateIds((ids) => [...ids, row.id])}
+                  />
+                ) : (
+                  <p className="preview-row-gate-notice" role="status">
+                    {blockingGate.attemptsToUnlock
+                      ? `Answer the questions above correctly, or try ${blockingGate.attemptsToUnlock} ${blockingGate.attemptsToUnlock === 1 ? 'time' : 'times'}, to continue.`
+                      : 'Answer the questions above correctly to continue.'}
+                  </p>
+                )}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </PreviewActionsContext.Provider>
+  );
+}
+
+export function PreviewStage({ blocks, rows, deviceType, deviceConfig, onNavigateLesson, lessonId, lessonTitle = '' }: PreviewStageProps) {
   const stageRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
 
@@ -46,248 +418,53 @@ export function PreviewStage({ blocks, rows, deviceType, deviceConfig }: Preview
     return () => window.removeEventListener('resize', updateScale);
   }, [deviceConfig.width, deviceConfig.height]);
 
+  const quizIds = (rows && rows.length > 0
+    ? collectQuizBlocks(rows)
+    : (blocks || []).filter((block) => block.type === 'quiz')
+  ).map((quiz) => quiz.id);
+  const draws = rows && rows.length > 0
+    ? collectQuestionDrawBlocks(rows)
+    : (blocks || []).filter((block): block is QuestionDrawBlock => block.type === 'question-draw');
+
   return (
-    <div ref={stageRef} className="preview-stage">
-      <div
-        className="preview-device-frame"
-        style={{
-          width: `${deviceConfig.width}px`,
-          minHeight: `${deviceConfig.height}px`,
-          transform: `scale(${scale})`,
-          transformOrigin: 'top center',
-        }}
-      >
-        <div className="preview-content-wrapper" style={{ width: `${deviceConfig.width}px` }}>
-          {rows && rows.length > 0 ? (
-            <div className="preview-lesson-content">
-              {rows.map((row) => (
-                <RowView
-                  key={row.id}
-                  row={row}
-                  selectedBlockId={null}
-                  selectedCellId={null}
-                  selectedRowId={null}
-                  editingBlockId={null}
-                  isPreview={true}
-                  onSelectBlock={() => {}}
-                  onSelectCell={() => {}}
-                  onSelectRow={() => {}}
-                  onEditBlock={() => {}}
-                  onUpdateBlock={() => {}}
-                  onDeleteCell={() => {}}
-                  onDuplicateCell={() => {}}
-                  onDeleteRow={() => {}}
-                  onDuplicateRow={() => {}}
-                  onAddEmptyStateRow={() => {}}
-                  renderResource={(resource) => {
-                    if (isBlock(resource)) {
-                      switch (resource.type) {
-                        case 'text':
-                        case 'header':
-                          return (
-                            <TextBlockView
-                              block={resource}
-                              isSelected={false}
-                              isEditing={false}
-                              isPreview={true}
-                              onUpdate={() => {}}
-                            />
-                          );
-                        case 'image':
-                          return (
-                            <ImageBlockView
-                              block={resource}
-                              isSelected={false}
-                              isPreview={true}
-                              onUpdate={() => {}}
-                            />
-                          );
-                        case 'quiz':
-                          return (
-                            <QuizBlockView
-                              block={resource}
-                              isSelected={false}
-                              isEditing={false}
-                              isPreview={true}
-                              onUpdate={() => {}}
-                            />
-                          );
-                        case 'columns':
-                          return (
-                            <ColumnsBlockView
-                              block={resource}
-                              isSelected={false}
-                              isPreview={true}
-                              selectedBlockId={null}
-                              selectedCellId={null}
-                              editingBlockId={null}
-                              onSelectBlock={() => {}}
-                              onSelectCell={() => {}}
-                              onEditBlock={() => {}}
-                              onUpdateBlock={() => {}}
-                              renderResource={(nestedResource) => {
-                                if (isBlock(nestedResource)) {
-                                  switch (nestedResource.type) {
-                                    case 'text':
-                                    case 'header':
-                                      return (
-                                        <TextBlockView
-                                          block={nestedResource}
-                                          isSelected={false}
-                                          isEditing={false}
-                                          isPreview={true}
-                                          onUpdate={() => {}}
-                                        />
-                                      );
-                                    case 'image':
-                                      return (
-                                        <ImageBlockView
-                                          block={nestedResource}
-                                          isSelected={false}
-                                          isPreview={true}
-                                          onUpdate={() => {}}
-                                        />
-                                      );
-                                    case 'quiz':
-                                      return (
-                                        <QuizBlockView
-                                          block={nestedResource}
-                                          isSelected={false}
-                                          isEditing={false}
-                                          isPreview={true}
-                                          onUpdate={() => {}}
-                                        />
-                                      );
-                                    default:
-                                      return null;
-                                  }
-                                }
-                                return null;
-                              }}
-                              activeId={undefined}
-                              allBlocks={[]}
-                              showStructureStrokes={false}
-                            />
-                          );
-                        default:
-                          return null;
-                      }
-                    }
-                    return null;
-                  }}
-                  activeId={undefined}
-                  allBlocks={[]}
-                  showStructureStrokes={false}
-                />
-              ))}
+    <QuizSessionProvider>
+      <PreviewDeviceContext.Provider value={deviceType}>
+        <div ref={stageRef} className="preview-stage">
+          <div
+            className="preview-device-frame"
+            style={{
+              width: `${deviceConfig.width}px`,
+              minHeight: `${deviceConfig.height}px`,
+              transform: `scale(${scale})`,
+              transformOrigin: 'top center',
+            }}
+          >
+            <div className="preview-content-wrapper" style={{ width: `${deviceConfig.width}px` }}>
+              {(quizIds.length > 0 || draws.length > 0) && <QuizScoreTally quizIds={quizIds} draws={draws} />}
+              <QuizSessionContent>
+                <LessonTracking lessonId={lessonId} lessonTitle={lessonTitle} quizIds={quizIds} draws={draws}>
+                  {rows && rows.length > 0 ? (
+                    <div className="preview-lesson-content">
+                      <PreviewRows rows={rows} onNavigateLesson={onNavigateLesson} />
+                    </div>
+                  ) : blocks && blocks.length > 0 ? (
+                    <div className="preview-lesson-content">
+                      {blocks.map((block) => (
+                        <React.Fragment key={block.id}>{renderPreviewBlock(block, blocks)}</React.Fragment>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="preview-empty-state">
+                      <p>No content to preview</p>
+                    </div>
+                  )}
+                </LessonTracking>
+              </QuizSessionContent>
             </div>
-          ) : blocks && blocks.length > 0 ? (
-            <div className="preview-lesson-content">
-              {blocks.map((block) => {
-                switch (block.type) {
-                  case 'text':
-                  case 'header':
-                    return (
-                      <TextBlockView
-                        key={block.id}
-                        block={block}
-                        isSelected={false}
-                        isEditing={false}
-                        isPreview={true}
-                        onUpdate={() => {}}
-                      />
-                    );
-                  case 'image':
-                    return (
-                      <ImageBlockView
-                        key={block.id}
-                        block={block}
-                        isSelected={false}
-                        isPreview={true}
-                        onUpdate={() => {}}
-                      />
-                    );
-                  case 'quiz':
-                    return (
-                      <QuizBlockView
-                        key={block.id}
-                        block={block}
-                        isSelected={false}
-                        isPreview={true}
-                        onUpdate={() => {}}
-                      />
-                    );
-                  case 'columns':
-                    return (
-                      <ColumnsBlockView
-                        key={block.id}
-                        block={block}
-                        isSelected={false}
-                        isPreview={true}
-                        selectedBlockId={null}
-                        selectedCellId={null}
-                        editingBlockId={null}
-                        onSelectBlock={() => {}}
-                        onSelectCell={() => {}}
-                        onEditBlock={() => {}}
-                        onUpdateBlock={() => {}}
-                        renderResource={(resource) => {
-                          if (isBlock(resource)) {
-                            switch (resource.type) {
-                              case 'text':
-                              case 'header':
-                                return (
-                                  <TextBlockView
-                                    block={resource}
-                                    isSelected={false}
-                                    isEditing={false}
-                                    isPreview={true}
-                                    onUpdate={() => {}}
-                                  />
-                                );
-                              case 'image':
-                                return (
-                                  <ImageBlockView
-                                    block={resource}
-                                    isSelected={false}
-                                    isPreview={true}
-                                    onUpdate={() => {}}
-                                  />
-                                );
-                              case 'quiz':
-                                return (
-                                  <QuizBlockView
-                                    block={resource}
-                                    isSelected={false}
-                                    isEditing={false}
-                                    isPreview={true}
-                                    onUpdate={() => {}}
-                                  />
-                                );
-                              default:
-                                return null;
-                            }
-                          }
-                          return null;
-                        }}
-                        activeId={undefined}
-                        allBlocks={blocks}
-                        showStructureStrokes={false}
-                      />
-                    );
-                  default:
-                    return null;
-                }
-              })}
-            </div>
-          ) : (
-            <div className="preview-empty-state">
-              <p>No content to preview</p>
-            </div>
-          )}
+          </div>
         </div>
-      </div>
-    </div>
+      </PreviewDeviceContext.Provider>
+    </QuizSessionProvider>
   );
 }
 
@@ -1,4 +1,4 @@
-import { ChevronLeft, Monitor, Tablet, Smartphone } from 'lucide-react';
+import { Activity, ChevronLeft, Monitor, Printer, Tablet, Smartphone } from 'lucide-react';
 
 export type DeviceType = 'desktop' | 'tablet-portrait' | 'tablet-landscape' | 'phone-portrait' | 'phone-landscape';
 
@@ -6,6 +6,9 @@ interface PreviewToolbarProps {
   onBack: () => void;
   selectedDevice: DeviceType;
   onDeviceChange: (device: DeviceType) => void;
+  onPrint: () => void;
+  isXapiPanelOpen: boolean;
+  onToggleXapiPanel: () => void;
 }
 
 const deviceConfigs: Record<DeviceType, { width: number; height: number; icon: React.ReactNode; label: string }> = {
@@ -41,7 +44,7 @@ const deviceConfigs: Record<DeviceType, { width: number; height: number; icon: R
   },
 };
 
-export function PreviewToolbar({ onBack, selectedDevice, onDeviceChange }: PreviewToolbarProps) {
+export function PreviewToolbar({ onBack, selectedDevice, onDeviceChange, onPrint, isXapiPanelOpen, onToggleXapiPanel }: PreviewToolbarProps) {
   return (
     <div className="preview-toolbar">
       <div className="preview-toolbar-left">
@@ -74,6 +77,25 @@ export function PreviewToolbar({ onBack, selectedDevice, onDeviceChange }: Previ
             );
           })}
         </div>
+        <button
+          type="button"
+          className="preview-print-button"
+          onClick={onPrint}
+          title="Print / Save as PDF"
+        >
+          <Printer size={16} />
+          Print / Save as PDF
+        </button>
+        <button
+          type="button"
+          className={`preview-xapi-button ${isXapiPanelOpen ? 'active' : ''}`}
+          onClick={onToggleXapiPanel}
+          aria-pressed={isXapiPanelOpen}
+          title="xAPI statements"
+        >
+          <Activity size={16} />
+          xAPI
+        </button>
         <button
           type="button"
           className="preview-edit-button"
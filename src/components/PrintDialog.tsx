@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Printer } from 'lucide-react';
+import type { LessonPageProps, QuestionBank, Row } from '../types';
+import { useTheme, useThemeSwitcher } from '../theme/ThemeProvider';
+import { getLessonQuestionBanks } from '../utils/questionBanks';
+import { printLesson } from '../export/print';
+
+interface PrintDialogProps {
+  rows: Row[];
+  pageProps: LessonPageProps;
+  lessonTitle: string;
+  questionBanks: QuestionBank[];
+  onClose: () => void;
+}
+
+// Print the lesson, in the active theme, or save it as a PDF from the browser's print dialog
+export function PrintDialog({ rows, pageProps, lessonTitle, questionBanks, onClose }: PrintDialogProps) {
+  const theme = useTheme();
+  const { themeId } = useThemeSwitcher();
+  const [includeAnswerKey, setIncludeAnswerKey] = useState(true);
+  const [includeBackgroundImages, setIncludeBackgroundImages] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePrint = () => {
+    const source = { title: lessonTitle, rows, pageProps, theme, themeId, banks: getLessonQuestionBanks(rows, questionBanks) };
+    try {
+      printLesson(source, { includeAnswerKey, includeBackgroundImages });
+      onClose();
+    } catch (printError) {
+      console.error('Failed to print lesson:', printError);
+      setError('The lesson could not be prepared for printing.');
+    }
+  };
+
+  return (
+    <div className="theme-editor-overlay" onClick={onClose}>
+      <div className="theme-editor-container export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="theme-editor-header">
+          <button className="theme-editor-exit" onClick={onClose}>
+            ← Back to preview
+          </button>
+          <div className="theme-editor-title">
+            <Printer size={18} />
+            <h2>Print lesson</h2>
+          </div>
+        </div>
+        <div className="theme-editor-content export-dialog-content">
+          {error && <div className="lesson-library-error" role="alert">{error}</div>}
+          <div className="property-group">
+            <label className="media-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={includeAnswerKey}
+                onChange={(e) => setIncludeAnswerKey(e.target.checked)}
+              />
+              Answer key
+            </label>
+            <span className="media-settings-hint">
+              Numbers the questions and lists their answers on pages of their own at the end.
+            </span>
+          </div>
+          <div className="property-group">
+            <label className="media-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={includeBackgroundImages}
+                onChange={(e) => setIncludeBackgroundImages(e.target.checked)}
+              />
+              Background images
+            </label>
+            <span className="media-settings-hint">
+              Page, row and cell backgrounds. Leave off to save ink and keep text easy to read.
+            </span>
+          </div>
+          <p className="media-settings-hint">
+            Rows are kept on one page - change that for a row under Printing in its properties. To get a PDF, choose
+            "Save as PDF" as the printer.
+          </p>
+          <div className="export-dialog-actions">
+            <button type="button" className="lesson-library-button lesson-library-button-primary" onClick={handlePrint}>
+              Print
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
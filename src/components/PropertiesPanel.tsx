@@ -1,5 +1,15 @@
-import type { Block, TextBlock, HeaderBlock, ImageBlock, QuizBlock, ColumnsBlock, ButtonBlock, Row, Cell, ThemeSpecificCellProps, ThemeSpecificRowProps } from '../types';
+import type { Block, TextBlock, HeaderBlock, ImageBlock, QuizBlock, QuizType, ColumnsBlock, Row, Cell, ThemeSpecificCellProps, ThemeSpecificRowProps, RowPageBreak } from '../types';
+import { QUIZ_TYPES, QUIZ_TYPE_LABELS, getQuizTypeUpdates, getCorrectOptionUpdates } from '../utils/quiz';
 import { ImageFillPanel } from './ImageFillPanel';
+import { VideoSettingsPanel } from './VideoSettingsPanel';
+import { AudioSettingsPanel } from './AudioSettingsPanel';
+import { MarkedImageSettings } from './MarkedImageSettings';
+import { QuizAnswerSettings } from './QuizAnswerSettings';
+import { QuestionDrawSettings } from './QuestionDrawSettings';
+import { RowGateSettings } from './RowGateSettings';
+import { ButtonSettings } from './ButtonSettings';
+import { PanelsSettings } from './PanelsSettings';
+import { TableSettings } from './TableSettings';
 import { nanoid } from 'nanoid';
 import { useTheme, useThemeSwitcher } from '../theme/ThemeProvider';
 import type { ThemeId } from '../theme/ThemeProvider';
@@ -20,6 +30,14 @@ import { SegmentedTextControl } from './ui/SegmentedTextControl';
 import { StylePopover } from './StylePopover';
 import { curatedStyles } from '../styles/curatedStyles';
 
+// Quiz content edited inline on the canvas rather than in the panel
+const QUIZ_EDITOR_LABELS: Record<'matching' | 'ordering' | 'cloze' | 'hotspot', string> = {
+  matching: 'Pairs and distractors',
+  ordering: 'Steps',
+  cloze: 'Text and blanks',
+  hotspot: 'Regions',
+};
+
 interface PropertiesPanelProps {
   selectedBlock: Block | null;
   selectedRow?: Row | null;
@@ -32,21 +50,21 @@ interface PropertiesPanelProps {
         backgroundColorOpacity?: number;
         backgroundImage?: string;
         backgroundImageOpacity?: number;
-        maxRowWidth?: number;
+        maxRowWidth?: number | null;
       };
       neon?: {
         backgroundColor?: string;
         backgroundColorOpacity?: number;
         backgroundImage?: string;
         backgroundImageOpacity?: number;
-        maxRowWidth?: number;
+        maxRowWidth?: number | null;
       };
       [key: string]: {
         backgroundColor?: string;
         backgroundColorOpacity?: number;
         backgroundImage?: string;
         backgroundImageOpacity?: number;
-        maxRowWidth?: number;
+        maxRowWidth?: number | null;
       } | undefined;
     };
   };
@@ -55,6 +73,8 @@ interface PropertiesPanelProps {
   onUpdateRow?: (row: Row) => void;
   onUpdateCell?: (cell: Cell) => void;
   onDeleteBlock: () => void;
+  onManageQuestionBanks?: () => void;
+  lessonRows?: Row[]; // Top-level rows of the lesson, for settings that point at a row
 }
 
 // Helper function to get theme-specific cell properties with fallback to legacy props and theme defaults
@@ -167,6 +187,8 @@ export function PropertiesPanel({
   onUpdateRow,
   onUpdateCell,
   onDeleteBlock,
+  onManageQuestionBanks,
+  lessonRows = [],
 }: PropertiesPanelProps) {
   const { themeId } = useThemeSwitcher();
   const theme = useTheme(); // Call useTheme at the top level, before any conditional returns
@@ -1281,6 +1303,44 @@ export function PropertiesPanel({
             </PropertyRow>
           </PanelSection>
           
+          <PanelSection title="Visibility">
+            <PropertyRow label="Show">
+              <SegmentedTextControl
+                value={selectedRow.props?.hiddenUntilRevealed ? 'revealed' : 'always'}
+                segments={[
+                  { value: 'always', label: 'Always' },
+                  { value: 'revealed', label: 'On reveal' },
+                ]}
+                onChange={(value) =>
+                  handleUpdateRow({ props: { ...selectedRow.props, hiddenUntilRevealed: value === 'revealed' || undefined } })
+                }
+              />
+            </PropertyRow>
+          </PanelSection>
+
+          <PanelSection title="Printing">
+            <PropertyRow label="Page break">
+              <SegmentedTextControl
+                value={selectedRow.props?.pageBreak ?? 'avoid'}
+                segments={[
+                  { value: 'avoid', label: 'Keep' },
+                  { value: 'allow', label: 'Allow' },
+                  { value: 'before', label: 'New page' },
+                ]}
+                onChange={(value) =>
+                  handleUpdateRow({
+                    props: { ...selectedRow.props, pageBreak: value === 'avoid' ? undefined : (value as RowPageBreak) },
+                  })
+                }
+              />
+            </PropertyRow>
+          </PanelSection>
+
+          <RowGateSettings
+            row={selectedRow}
+            onUpdateGate={(gate) => handleUpdateRow({ props: { ...selectedRow.props, gate } })}
+          />
+          
           <PanelSection title="Effects" />
           
           <PanelSection title="Advanced style" />
@@ -2384,40 +2444,96 @@ export function PropertiesPanel({
           />
         )}
 
-        {selectedBlock.type === 'button' && (
+        {selectedBlock.type === 'video' && (
+          <VideoSettingsPanel
+            block={selectedBlock}
+            onUpdate={handleUpdate}
+          />
+        )}
+
+        {selectedBlock.type === 'audio' && (
+          <AudioSettingsPanel
+            block={selectedBlock}
+            onUpdate={handleUpdate}
+          />
+        )}
+
+        {selectedBlock.type === 'question-draw' && (
+          <QuestionDrawSettings
+            block={selectedBlock}
+            onUpdate={handleUpdate}
+            onManageBanks={onManageQuestionBanks}
+          />
+        )}
+
+        {selectedBlock.type === 'labeled-graphic' && (
+          <>
+            <MarkedImageSettings image={selectedBlock} onUpdate={handleUpdate} />
+            <div className="property-group">
+              <label>Markers</label>
+              <span className="media-settings-hint">
+                Double-click the graphic on the canvas to add, move and edit its markers.
+              </span>
+            </div>
+          </>
+        )}
+
+        {selectedBlock.type === 'table' && (
+          <TableSettings
+            block={selectedBlock}
+            onUpdate={handleUpdate}
+          />
+        )}
+
+        {selectedBlock.type === 'flashcards' && (
           <div className="property-group">
-            <label htmlFor="button-label">Label</label>
-            <input
-              id="button-label"
-              type="text"
-              value={(selectedBlock as ButtonBlock).label || ''}
-              onChange={(e) =>
-                handleUpdate({
-                  label: e.target.value,
-                } as Partial<ButtonBlock>)
-              }
-              className="property-input"
-              placeholder="Write a continuation"
-            />
+            <label>Cards</label>
+            <span className="media-settings-hint">
+              {selectedBlock.cards.length === 1 ? '1 card' : `${selectedBlock.cards.length} cards`} - double-click the deck on the canvas to write its cards.
+            </span>
+            <label className="media-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={selectedBlock.shuffleOnStart}
+                onChange={(e) => handleUpdate({ shuffleOnStart: e.target.checked })}
+              />
+              Shuffle the deck for each learner
+            </label>
           </div>
         )}
 
+        {selectedBlock.type === 'button' && (
+          <ButtonSettings
+            block={selectedBlock}
+            rows={lessonRows}
+            onUpdate={handleUpdate}
+          />
+        )}
+
+        {(selectedBlock.type === 'accordion' || selectedBlock.type === 'tabs') && (
+          <PanelsSettings
+            block={selectedBlock}
+            onUpdate={handleUpdate}
+          />
+        )}
+
         {selectedBlock.type === 'quiz' && (
           <>
             <div className="property-group">
               <label htmlFor="quiz-type">Quiz Type</label>
               <select
                 id="quiz-type"
-                value={(selectedBlock as QuizBlock).quizType || 'multiple-choice'}
+                value={selectedBlock.quizType}
                 onChange={(e) =>
-                  handleUpdate({
-                    quizType: e.target.value as 'multiple-choice' | 'other',
-                  } as Partial<QuizBlock>)
+                  handleUpdate(getQuizTypeUpdates(selectedBlock, e.target.value as QuizType))
                 }
                 className="property-select"
               >
-                <option value="multiple-choice">Multiple Choice</option>
-                <option value="other">Other</option>
+                {QUIZ_TYPES.map((quizType) => (
+                  <option key={quizType} value={quizType}>
+                    {QUIZ_TYPE_LABELS[quizType]}
+                  </option>
+                ))}
               </select>
             </div>
             <div className="property-group">
@@ -2434,29 +2550,24 @@ export function PropertiesPanel({
                 rows={3}
               />
             </div>
-            {(selectedBlock as QuizBlock).quizType === 'multiple-choice' && (
+            {(selectedBlock.quizType === 'multiple-choice' || selectedBlock.quizType === 'multiple-select') && (
               <div className="property-group">
                 <label>Options</label>
-                {(selectedBlock as QuizBlock).options.map((option, index) => (
+                {selectedBlock.options.map((option, index) => (
                   <div key={index} className="option-row">
                     <input
-                      type="radio"
+                      type={selectedBlock.quizType === 'multiple-select' ? 'checkbox' : 'radio'}
                       name="correct"
-                      checked={(selectedBlock as QuizBlock).correctIndex === index}
-                      onChange={() =>
-                        handleUpdate({
-                          correctIndex: index,
-                        } as Partial<QuizBlock>)
-                      }
+                      checked={selectedBlock.correctIndices.includes(index)}
+                      onChange={() => handleUpdate(getCorrectOptionUpdates(selectedBlock, index))}
                       className="option-radio"
+                      aria-label={`Option ${index + 1} is correct`}
                     />
                     <input
                       type="text"
                       value={option}
                       onChange={(e) => {
-                        const newOptions = [
-                          ...(selectedBlock as QuizBlock).options,
-                        ];
+                        const newOptions = [...selectedBlock.options];
                         newOptions[index] = e.target.value;
                         handleUpdate({ options: newOptions } as Partial<QuizBlock>);
                       }}
@@ -2467,6 +2578,73 @@ export function PropertiesPanel({
                 ))}
               </div>
             )}
+            {selectedBlock.quizType === 'true-false' && (
+              <div className="property-group">
+                <label htmlFor="quiz-true-false">Correct Answer</label>
+                <select
+                  id="quiz-true-false"
+                  value={selectedBlock.trueFalseAnswer ? 'true' : 'false'}
+                  onChange={(e) =>
+                    handleUpdate({ trueFalseAnswer: e.target.value === 'true' } as Partial<QuizBlock>)
+                  }
+                  className="property-select"
+                >
+                  <option value="true">True</option>
+                  <option value="false">False</option>
+                </select>
+              </div>
+            )}
+            {selectedBlock.quizType === 'short-answer' && (
+              <div className="property-group">
+                <label htmlFor="quiz-accepted-answers">Accepted Answers</label>
+                <textarea
+                  id="quiz-accepted-answers"
+                  value={selectedBlock.acceptedAnswers.join('\n')}
+                  onChange={(e) =>
+                    handleUpdate({ acceptedAnswers: e.target.value.split('\n') } as Partial<QuizBlock>)
+                  }
+                  className="property-textarea"
+                  placeholder="One answer per line - use * to match any text"
+                  rows={4}
+                />
+                <label className="media-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={!!selectedBlock.caseSensitive}
+                    onChange={(e) => handleUpdate({ caseSensitive: e.target.checked } as Partial<QuizBlock>)}
+                  />
+                  Case sensitive
+                </label>
+                <label className="media-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={selectedBlock.ignoreExtraWhitespace ?? true}
+                    onChange={(e) => handleUpdate({ ignoreExtraWhitespace: e.target.checked } as Partial<QuizBlock>)}
+                  />
+                  Ignore extra spaces
+                </label>
+              </div>
+            )}
+            {selectedBlock.quizType === 'hotspot' && (
+              <MarkedImageSettings
+                image={selectedBlock.hotspotImage}
+                onUpdate={(updates) =>
+                  handleUpdate({ hotspotImage: { ...selectedBlock.hotspotImage, ...updates } } as Partial<QuizBlock>)
+                }
+              />
+            )}
+            {(selectedBlock.quizType === 'matching' || selectedBlock.quizType === 'ordering' || selectedBlock.quizType === 'cloze' || selectedBlock.quizType === 'hotspot') && (
+              <div className="property-group">
+                <label>{QUIZ_EDITOR_LABELS[selectedBlock.quizType]}</label>
+                <span className="media-settings-hint">
+                  Double-click the quiz on the canvas to edit its {QUIZ_EDITOR_LABELS[selectedBlock.quizType].toLowerCase()}.
+                </span>
+              </div>
+            )}
+            <QuizAnswerSettings
+              block={selectedBlock}
+              onUpdate={handleUpdate}
+            />
           </>
         )}
 
@@ -0,0 +1,96 @@
+import { useRef, useState } from 'react';
+import { FileInput, Upload } from 'lucide-react';
+import type { QuizBlock } from '../types';
+import type { QtiImportResult } from '../qti/qtiImport';
+import { importQtiFile } from '../qti/qtiImport';
+import { QtiIssueList } from './QtiIssueList';
+
+interface QtiImportDialogProps {
+  onImport: (quizzes: QuizBlock[]) => void; // Added to the lesson, one row per quiz
+  onClose: () => void;
+}
+
+// Bring quizzes from other assessment tools into the lesson as QTI 2.1 items
+export function QtiImportDialog({ onImport, onClose }: QtiImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<QtiImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    try {
+      setResult(await importQtiFile(file));
+      setError(null);
+    } catch (importError) {
+      console.error('Failed to read QTI file:', importError);
+      setError(`Could not read "${file.name}": ${importError instanceof Error ? importError.message : 'unknown error'}`);
+    }
+  };
+
+  const quizCount = result?.quizzes.length ?? 0;
+
+  return (
+    <div className="theme-editor-overlay" onClick={onClose}>
+      <div className="theme-editor-container export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="theme-editor-header">
+          <button className="theme-editor-exit" onClick={onClose}>
+            ← Back to editor
+          </button>
+          <div className="theme-editor-title">
+            <FileInput size={18} />
+            <h2>Import QTI quizzes</h2>
+          </div>
+        </div>
+        <div className="theme-editor-content export-dialog-content">
+          {error && <div className="lesson-library-error" role="alert">{error}</div>}
+          <div className="property-group">
+            <button type="button" className="lesson-library-button" onClick={() => fileInputRef.current?.click()}>
+              <Upload size={16} />
+              {fileName ? 'Choose another file' : 'Choose file'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,.xml,application/zip,application/xml,text/xml"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = ''; // Allow reading the same file again
+              }}
+            />
+            <span className="media-settings-hint">
+              A QTI 2.1 package (.zip) or item (.xml). Choice, text entry and order interactions become quizzes.
+            </span>
+          </div>
+          {result && (
+            <>
+              <p className="export-dialog-summary" role="status">
+                {quizCount === 0
+                  ? `No quizzes could be made from "${fileName}".`
+                  : `${quizCount} ${quizCount === 1 ? 'quiz' : 'quizzes'} ready to add below the selection.`}
+              </p>
+              <QtiIssueList issues={result.issues} />
+            </>
+          )}
+          <div className="export-dialog-actions">
+            <button
+              type="button"
+              className="lesson-library-button lesson-library-button-primary"
+              disabled={quizCount === 0}
+              onClick={() => {
+                if (!result) return;
+                onImport(result.quizzes);
+                onClose();
+              }}
+            >
+              {quizCount > 1 ? `Add ${quizCount} quizzes` : 'Add quiz'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
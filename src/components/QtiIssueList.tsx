@@ -0,0 +1,24 @@
+import type { QtiIssue } from '../qti/qti';
+
+interface QtiIssueListProps {
+  issues: QtiIssue[];
+}
+
+// Questions a QTI import or export left out or changed, each with the reason
+export function QtiIssueList({ issues }: QtiIssueListProps) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="qti-issues">
+      <p className="qti-issues-title">
+        {issues.length === 1 ? '1 question needs attention' : `${issues.length} questions need attention`}
+      </p>
+      <ul>
+        {issues.map((issue, index) => (
+          <li key={index}>
+            <strong>{issue.title}</strong> - {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
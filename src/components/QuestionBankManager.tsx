@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { nanoid } from 'nanoid';
+import { ChevronDown, ChevronRight, Copy, Layers, Plus, Trash2 } from 'lucide-react';
+import type { QuestionBank, QuizBlock } from '../types';
+import { createBlock } from '../types';
+import { useQuestionBanks } from '../quiz/questionBankContext';
+import { createQuestionBank } from '../utils/questionBanks';
+import { QUIZ_TYPE_LABELS } from '../utils/quiz';
+import { QuizBlockView } from './QuizBlockView';
+import { QuizAnswerSettings } from './QuizAnswerSettings';
+import { MarkedImageSettings } from './MarkedImageSettings';
+
+interface QuestionBankManagerProps {
+  lessonQuizzes: QuizBlock[]; // Quizzes of the open lesson, offered for copying into a bank
+  onClose: () => void;
+}
+
+// Create and edit the question banks that random draws pick from
+export function QuestionBankManager({ lessonQuizzes, onClose }: QuestionBankManagerProps) {
+  const { banks, lessonId, saveBank, deleteBank } = useQuestionBanks();
+  const lessonBanks = banks.filter((bank) => bank.lessonId !== null && bank.lessonId === lessonId);
+  const sharedBanks = banks.filter((bank) => bank.lessonId === null);
+  const [selectedBankId, setSelectedBankId] = useState<string | null>(() => (lessonBanks[0] ?? sharedBanks[0])?.id ?? null);
+  const [expandedQuestionId, setExpandedQuestionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedBank = banks.find((bank) => bank.id === selectedBankId) ?? null;
+
+  const storeBank = async (bank: QuestionBank) => {
+    try {
+      await saveBank({ ...bank, updatedAt: Date.now() });
+      setError(null);
+    } catch (saveError) {
+      console.error('Failed to save question bank:', saveError);
+      setError('The question bank could not be saved to browser storage.');
+    }
+  };
+
+  const handleCreateBank = async () => {
+    const bank = createQuestionBank(undefined, lessonId);
+    await storeBank(bank);
+    setSelectedBankId(bank.id);
+  };
+
+  const handleDeleteBank = async (bank: QuestionBank) => {
+    if (!window.confirm(`Delete "${bank.name}"? Random draws that use it will show no questions.`)) return;
+    try {
+      await deleteBank(bank.id);
+      setSelectedBankId(null);
+    } catch (deleteError) {
+      console.error('Failed to delete question bank:', deleteError);
+      setError('The question bank could not be deleted.');
+    }
+  };
+
+  const updateQuestion = (bank: QuestionBank, questionId: string, updates: Partial<QuizBlock>) => {
+    storeBank({
+      ...bank,
+      questions: bank.questions.map((question) => (question.id === questionId ? { ...question, ...updates } : question)),
+    });
+  };
+
+  const handleAddQuestion = (bank: QuestionBank) => {
+    const question = createBlock('quiz') as QuizBlock;
+    storeBank({ ...bank, questions: [...bank.questions, question] });
+    setExpandedQuestionId(question.id);
+  };
+
+  const handleCopyLessonQuizzes = (bank: QuestionBank) => {
+    const copies = lessonQuizzes.map((quiz) => ({ ...quiz, id: nanoid() }));
+    storeBank({ ...bank, questions: [...bank.questions, ...copies] });
+  };
+
+  const renderBankButton = (bank: QuestionBank) => (
+    <button
+      key={bank.id}
+      type="button"
+      className={`question-bank-list-item ${bank.id === selectedBankId ? 'is-selected' : ''}`}
+      aria-current={bank.id === selectedBankId}
+      onClick={() => {
+        setSelectedBankId(bank.id);
+        setExpandedQuestionId(null);
+      }}
+    >
+      <span className="question-bank-list-name">{bank.name}</span>
+      <span className="question-bank-list-count">{bank.questions.length}</span>
+    </button>
+  );
+
+  return (
+    <div className="theme-editor-overlay" onClick={onClose}>
+      <div className="theme-editor-container question-bank-manager" onClick={(e) => e.stopPropagation()}>
+        <div className="theme-editor-header">
+          <button className="theme-editor-exit" onClick={onClose}>
+            ← Back to editor
+          </button>
+          <div className="theme-editor-title">
+            <Layers size={18} />
+            <h2>Question banks</h2>
+          </div>
+        </div>
+        <div className="theme-editor-content question-bank-manager-content">
+          <nav className="question-bank-list" aria-label="Question banks">
+            <button
+              type="button"
+              className="lesson-library-button lesson-library-button-primary"
+              onClick={handleCreateBank}
+            >
+              <Plus size={16} />
+              New bank
+            </button>
+            <h3 className="question-bank-list-heading">This lesson</h3>
+            {lessonBanks.length > 0 ? lessonBanks.map(renderBankButton) : (
+              <p className="question-bank-list-empty">No banks yet</p>
+            )}
+            <h3 className="question-bank-list-heading">Shared</h3>
+            {sharedBanks.length > 0 ? sharedBanks.map(renderBankButton) : (
+              <p className="question-bank-list-empty">No shared banks</p>
+            )}
+          </nav>
+
+          <div className="question-bank-editor">
+            {error && (
+              <div className="lesson-library-error" role="alert">
+                {error}
+              </div>
+            )}
+            {!selectedBank ? (
+              <p className="theme-editor-subtitle">
+                Select a bank, or create one. Random draw blocks pick their questions from a bank.
+              </p>
+            ) : (
+              <>
+                <div className="question-bank-settings">
+                  <div className="property-group">
+                    <label htmlFor="question-bank-name">Name</label>
+                    <input
+                      id="question-bank-name"
+                      type="text"
+                      value={selectedBank.name}
+                      onChange={(e) => storeBank({ ...selectedBank, name: e.target.value })}
+                      className="property-input"
+                    />
+                  </div>
+                  <div className="property-group">
+                    <label htmlFor="question-bank-scope">Available to</label>
+                    <select
+                      id="question-bank-scope"
+                      value={selectedBank.lessonId === null ? 'shared' : 'lesson'}
+                      onChange={(e) =>
+                        storeBank({ ...selectedBank, lessonId: e.target.value === 'shared' ? null : lessonId })
+                      }
+                      className="property-select"
+                    >
+                      <option value="lesson" disabled={lessonId === null}>This lesson</option>
+                      <option value="shared">All lessons</option>
+                    </select>
+                  </div>
+                  <button
+                    type="button"
+                    className="lesson-library-button question-bank-delete"
+                    onClick={() => handleDeleteBank(selectedBank)}
+                  >
+                    <Trash2 size={14} />
+                    Delete bank
+                  </button>
+                </div>
+
+                <ol className="question-bank-questions">
+                  {selectedBank.questions.map((question, index) => {
+                    const isExpanded = expandedQuestionId === question.id;
+                    return (
+                      <li key={question.id} className="question-bank-question">
+                        <div className="question-bank-question-header">
+                          <button
+                            type="button"
+                            className="question-bank-question-toggle"
+                            aria-expanded={isExpanded}
+                            onClick={() => setExpandedQuestionId(isExpanded ? null : question.id)}
+                          >
+                            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            <span className="question-bank-question-number">{index + 1}.</span>
+                            <span className="question-bank-question-text">
+                              {question.question || <em className="empty-field">No question</em>}
+                            </span>
+                            <span className="question-bank-question-type">{QUIZ_TYPE_LABELS[question.quizType]}</span>
+                          </button>
+                          <button
+                            type="button"
+                            className="block-option-delete"
+                            onClick={() =>
+                              storeBank({
+                                ...selectedBank,
+                                questions: selectedBank.questions.filter((q) => q.id !== question.id),
+                              })
+                            }
+                            aria-label={`Delete question ${index + 1}`}
+                          >
+                            ×
+                          </button>
+                        </div>
+                        {isExpanded && (
+                          <div className="question-bank-question-editor">
+                            <QuizBlockView
+                              block={question}
+                              isSelected
+                              isEditing
+                              isPreview={false}
+                              onUpdate={(updates) => updateQuestion(selectedBank, question.id, updates)}
+                            />
+                            <div className="question-bank-question-settings">
+                              {question.quizType === 'hotspot' && (
+                                <MarkedImageSettings
+                                  image={question.hotspotImage}
+                                  onUpdate={(updates) =>
+                                    updateQuestion(selectedBank, question.id, {
+                                      hotspotImage: { ...question.hotspotImage, ...updates },
+                                    })
+                                  }
+                                />
+                              )}
+                              <QuizAnswerSettings
+                                block={question}
+                                onUpdate={(updates) => updateQuestion(selectedBank, question.id, updates)}
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+                {selectedBank.questions.length === 0 && (
+                  <p className="theme-editor-subtitle">This bank has no questions yet.</p>
+                )}
+
+                <div className="lesson-library-create">
+                  <button type="button" className="lesson-library-button" onClick={() => handleAddQuestion(selectedBank)}>
+                    <Plus size={16} />
+                    Add question
+                  </button>
+                  {lessonQuizzes.length > 0 && (
+                    <button
+                      type="button"
+                      className="lesson-library-button"
+                      onClick={() => handleCopyLessonQuizzes(selectedBank)}
+                    >
+                      <Copy size={16} />
+                      Copy {lessonQuizzes.length} {lessonQuizzes.length === 1 ? 'quiz' : 'quizzes'} from this lesson
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { QuestionBank, QuestionDrawBlock } from '../types';
+import { useQuestionBanks } from '../quiz/questionBankContext';
+import { useQuizSession } from '../quiz/quizSession';
+import { drawQuestions } from '../utils/questionBanks';
+import { QuizBlockView } from './QuizBlockView';
+
+interface QuestionDrawBlockViewProps {
+  block: QuestionDrawBlock;
+  isPreview: boolean;
+}
+
+export function QuestionDrawBlockView({ block, isPreview }: QuestionDrawBlockViewProps) {
+  const { banks } = useQuestionBanks();
+  const bank = banks.find((b) => b.id === block.bankId);
+
+  if (isPreview && bank) {
+    return <DrawnQuestions block={block} banks={banks} />;
+  }
+
+  const drawCount = bank ? Math.min(block.drawCount, bank.questions.length) : block.drawCount;
+
+  return (
+    <div
+      className="block-view question-draw-block-view"
+      style={{
+        padding: 'var(--spacing-lg)',
+        borderRadius: 'var(--radius-md)',
+        border: '1px dashed var(--color-border)',
+        fontFamily: 'var(--font-sans)',
+        color: 'var(--color-text)',
+      }}
+    >
+      <strong className="question-draw-title">
+        Random draw: {drawCount} {drawCount === 1 ? 'question' : 'questions'}
+      </strong>
+      <p className="question-draw-description" style={{ color: 'var(--color-muted-text)' }}>
+        {bank
+          ? `From "${bank.name}" (${bank.questions.length} ${bank.questions.length === 1 ? 'question' : 'questions'})`
+          : isPreview
+            ? 'No question bank'
+            : 'Choose a question bank in the properties panel'}
+      </p>
+    </div>
+  );
+}
+
+interface DrawnQuestionsProps {
+  block: QuestionDrawBlock;
+  banks: QuestionBank[];
+}
+
+// The questions drawn for this preview session
+function DrawnQuestions({ block, banks }: DrawnQuestionsProps) {
+  const { seed } = useQuizSession();
+  const questions = drawQuestions(block, banks, seed);
+
+  return (
+    <div className="question-draw-questions">
+      {questions.map((question) => (
+        <QuizBlockView key={question.id} block={question} isSelected={false} isPreview onUpdate={() => {}} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { Layers } from 'lucide-react';
+import type { QuestionDrawBlock } from '../types';
+import { useQuestionBanks } from '../quiz/questionBankContext';
+
+interface QuestionDrawSettingsProps {
+  block: QuestionDrawBlock;
+  onUpdate: (updates: Partial<QuestionDrawBlock>) => void;
+  onManageBanks?: () => void;
+}
+
+// Bank and question count of a random draw
+export function QuestionDrawSettings({ block, onUpdate, onManageBanks }: QuestionDrawSettingsProps) {
+  const { banks, lessonId } = useQuestionBanks();
+  const lessonBanks = banks.filter((bank) => bank.lessonId !== null && bank.lessonId === lessonId);
+  const sharedBanks = banks.filter((bank) => bank.lessonId === null);
+  const selectedBank = banks.find((bank) => bank.id === block.bankId);
+  // A bank of another lesson (e.g. after duplicating) is still listed while it is in use
+  const otherBank = selectedBank && !lessonBanks.includes(selectedBank) && !sharedBanks.includes(selectedBank)
+    ? selectedBank
+    : null;
+
+  return (
+    <div className="media-settings-panel">
+      <div className="property-group">
+        <label htmlFor="question-draw-bank">Question bank</label>
+        <select
+          id="question-draw-bank"
+          value={selectedBank ? selectedBank.id : ''}
+          onChange={(e) => onUpdate({ bankId: e.target.value || null })}
+          className="property-select"
+        >
+          <option value="">Choose a bank…</option>
+          {lessonBanks.length > 0 && (
+            <optgroup label="This lesson">
+              {lessonBanks.map((bank) => (
+                <option key={bank.id} value={bank.id}>
+                  {bank.name} ({bank.questions.length})
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {sharedBanks.length > 0 && (
+            <optgroup label="Shared">
+              {sharedBanks.map((bank) => (
+                <option key={bank.id} value={bank.id}>
+                  {bank.name} ({bank.questions.length})
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {otherBank && (
+            <option value={otherBank.id}>
+              {otherBank.name} ({otherBank.questions.length})
+            </option>
+          )}
+        </select>
+        {block.bankId && !selectedBank && (
+          <span className="media-settings-error" role="alert">
+            The bank this draw used has been deleted.
+          </span>
+        )}
+        {onManageBanks && (
+          <div className="media-settings-actions">
+            <button type="button" className="media-settings-button" onClick={onManageBanks}>
+              <Layers size={14} />
+              Manage question banks
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="question-draw-count">Questions to draw</label>
+        <input
+          id="question-draw-count"
+          type="number"
+          min={1}
+          max={selectedBank ? Math.max(selectedBank.questions.length, 1) : undefined}
+          step={1}
+          value={block.drawCount}
+          onChange={(e) => {
+            const drawCount = Math.floor(Number(e.target.value));
+            if (Number.isFinite(drawCount) && drawCount > 0) onUpdate({ drawCount });
+          }}
+          className="property-input"
+        />
+        <span className="media-settings-hint">
+          {selectedBank && block.drawCount > selectedBank.questions.length
+            ? `The bank only has ${selectedBank.questions.length} questions - all of them are used.`
+            : 'Each learner gets a different random set. Options are shuffled for questions that ask for it.'}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import type { QuizBlock } from '../types';
+
+interface QuizAnswerSettingsProps {
+  block: QuizBlock;
+  onUpdate: (updates: Partial<QuizBlock>) => void;
+}
+
+// How learners answer a question - option shuffling, attempts and feedback. Shared by the
+// properties panel and the question bank editor.
+export function QuizAnswerSettings({ block, onUpdate }: QuizAnswerSettingsProps) {
+  const canShuffleOptions = block.quizType === 'multiple-choice' || block.quizType === 'multiple-select';
+
+  return (
+    <>
+      {canShuffleOptions && (
+        <div className="property-group">
+          <label>Option order</label>
+          <label className="media-settings-checkbox">
+            <input
+              type="checkbox"
+              checked={!!block.shuffleOptions}
+              onChange={(e) => onUpdate({ shuffleOptions: e.target.checked })}
+            />
+            Shuffle options
+          </label>
+          {block.shuffleOptions && (
+            <label className="media-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={!!block.keepLastOptionInPlace}
+                onChange={(e) => onUpdate({ keepLastOptionInPlace: e.target.checked })}
+              />
+              Keep the last option in place
+            </label>
+          )}
+          {block.shuffleOptions && (
+            <span className="media-settings-hint">
+              Use this for options such as "All of the above".
+            </span>
+          )}
+        </div>
+      )}
+      <div className="property-group">
+        <label htmlFor="quiz-max-attempts">Attempts allowed</label>
+        <input
+          id="quiz-max-attempts"
+          type="number"
+          min={0}
+          step={1}
+          value={block.maxAttempts || ''}
+          onChange={(e) => {
+            const maxAttempts = Math.floor(Number(e.target.value));
+            onUpdate({
+              maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : undefined,
+            });
+          }}
+          className="property-input"
+          placeholder="Unlimited"
+        />
+      </div>
+      <div className="property-group">
+        <label htmlFor="quiz-correct-feedback">Correct feedback</label>
+        <textarea
+          id="quiz-correct-feedback"
+          value={block.correctFeedback || ''}
+          onChange={(e) => onUpdate({ correctFeedback: e.target.value })}
+          className="property-textarea"
+          placeholder="Correct!"
+          rows={2}
+        />
+      </div>
+      <div className="property-group">
+        <label htmlFor="quiz-incorrect-feedback">Incorrect feedback</label>
+        <textarea
+          id="quiz-incorrect-feedback"
+          value={block.incorrectFeedback || ''}
+          onChange={(e) => onUpdate({ incorrectFeedback: e.target.value })}
+          className="property-textarea"
+          placeholder="Not quite."
+          rows={2}
+        />
+      </div>
+    </>
+  );
+}
@@ -1,4 +1,32 @@
-import type { QuizBlock } from '../types';
+import { useEffect, useState } from 'react';
+import { nanoid } from 'nanoid';
+import type { ImagePoint, QuizBlock, QuizMatchPair, QuizType } from '../types';
+import {
+  QUIZ_TYPES,
+  QUIZ_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  getQuizTypeUpdates,
+  getCorrectOptionUpdates,
+  getDeleteOptionUpdates,
+  getQuizChoices,
+  getCorrectChoiceIndices,
+  getChoiceOrder,
+  getShuffledAnswerOrder,
+  getClozeBlanks,
+  isChoiceQuiz,
+  isQuizAnswerCorrect,
+  hasAttemptsLeft,
+  moveAnswerItem,
+} from '../utils/quiz';
+import { useQuizSession } from '../quiz/quizSession';
+import { usePreviewTracking } from '../preview/previewTracking';
+import { createRandom } from '../utils/random';
+import { QuizOrderAnswer } from './QuizOrderAnswer';
+import { QuizClozeEditor } from './QuizClozeEditor';
+import { QuizClozeAnswer } from './QuizClozeAnswer';
+import { QuizHotspotEditor } from './QuizHotspotEditor';
+import { QuizHotspotAnswer } from './QuizHotspotAnswer';
+import { ImageMarkerCanvas } from './ImageMarkerCanvas';
 
 interface QuizBlockViewProps {
   block: QuizBlock;
@@ -9,10 +37,19 @@ interface QuizBlockViewProps {
 }
 
 export function QuizBlockView({ block, isSelected, isEditing = false, isPreview, onUpdate }: QuizBlockViewProps) {
-  if (isPreview || !isEditing) {
-    // Read-only view
-    const isMultipleChoice = block.quizType === 'multiple-choice';
-    
+  if (isPreview) {
+    // Learners answer in preview
+    return <QuizAnswerView block={block} />;
+  }
+
+  if (!isEditing) {
+    // Read-only view - shows authors which answers are correct
+    const isChoice = isChoiceQuiz(block);
+    const isMultipleSelect = block.quizType === 'multiple-select';
+    const options = getQuizChoices(block);
+    const correctIndices = getCorrectChoiceIndices(block);
+    const isCorrect = (index: number) => correctIndices.includes(index);
+
     return (
       <div className="block-view quiz-block-view">
         <div className="block-question">
@@ -22,27 +59,86 @@ export function QuizBlockView({ block, isSelected, isEditing = false, isPreview,
             <em className="empty-field">No question</em>
           )}
         </div>
-        <div className={`block-options ${isMultipleChoice ? 'multiple-choice' : ''}`}>
-          {block.options.map((option, index) => (
-            <div
-              key={index}
-              className={`block-option ${isMultipleChoice ? 'multiple-choice-option' : ''} ${
-                index === block.correctIndex ? 'correct' : ''
-              }`}
-            >
-              {isMultipleChoice && (
+        {isMultipleSelect && <p className="quiz-instructions">Select all that apply.</p>}
+        {isChoice ? (
+          <div className="block-options multiple-choice">
+            {options.map((option, index) => (
+              <div
+                key={index}
+                className={`block-option multiple-choice-option ${isCorrect(index) ? 'correct' : ''}`}
+              >
                 <input
-                  type="radio"
+                  type={isMultipleSelect ? 'checkbox' : 'radio'}
                   name={`quiz-${block.id}`}
                   checked={false}
                   readOnly
-                  className="quiz-radio-button"
+                  className={isMultipleSelect ? 'quiz-radio-button quiz-checkbox-button' : 'quiz-radio-button'}
                 />
-              )}
-              <span className="option-text">{option || <em className="empty-field">Empty option</em>}</span>
-            </div>
-          ))}
-        </div>
+                <span className="option-text">{option || <em className="empty-field">Empty option</em>}</span>
+              </div>
+            ))}
+          </div>
+        ) : block.quizType === 'matching' ? (
+          <ul className="quiz-match-summary">
+            {block.matchPairs.map((pair) => (
+              <li key={pair.id}>
+                <span>{pair.prompt || <em className="empty-field">Empty prompt</em>}</span>
+                <span aria-hidden="true">→</span>
+                <span className="correct">{pair.match || <em className="empty-field">Empty answer</em>}</span>
+              </li>
+            ))}
+            {block.matchDistractors.map((distractor) => (
+              <li key={distractor.id} className="quiz-match-summary-distractor">
+                <span>{distractor.text || <em className="empty-field">Empty distractor</em>}</span>
+                <span>(distractor)</span>
+              </li>
+            ))}
+          </ul>
+        ) : block.quizType === 'cloze' ? (
+          block.clozeText ? (
+            <div className="quiz-cloze-text rich-text-readonly" dangerouslySetInnerHTML={{ __html: block.clozeText }} />
+          ) : (
+            <em className="empty-field">No text yet - double-click to write it and add blanks</em>
+          )
+        ) : block.quizType === 'hotspot' ? (
+          block.hotspotImage.imageUrl ? (
+            <ImageMarkerCanvas image={block.hotspotImage}>
+              {(layout) =>
+                block.hotspots.map((hotspot) => {
+                  const position = layout.toBox(hotspot);
+                  if (!position) return null;
+                  const size = layout.sizeToBox(hotspot);
+                  return (
+                    <div
+                      key={hotspot.id}
+                      className={`quiz-hotspot-region ${hotspot.isCorrect ? 'is-answer' : ''}`}
+                      style={{ left: position.left, top: position.top, width: size.width, height: size.height }}
+                      title={hotspot.label || undefined}
+                    />
+                  );
+                })
+              }
+            </ImageMarkerCanvas>
+          ) : (
+            <em className="empty-field">No image yet - add one in the properties panel</em>
+          )
+        ) : block.quizType === 'ordering' ? (
+          <ol className="quiz-order-summary">
+            {block.orderItems.map((item) => (
+              <li key={item.id}>{item.text || <em className="empty-field">Empty step</em>}</li>
+            ))}
+          </ol>
+        ) : (
+          <div className="block-options">
+            <input
+              type="text"
+              className="quiz-short-answer-input"
+              placeholder="Type your answer"
+              aria-label="Your answer"
+              readOnly
+            />
+          </div>
+        )}
       </div>
     );
   }
@@ -55,14 +151,7 @@ export function QuizBlockView({ block, isSelected, isEditing = false, isPreview,
 
   const handleDeleteOption = (index: number) => {
     if (block.options.length <= 1) return; // Keep at least one option
-    const newOptions = block.options.filter((_, i) => i !== index);
-    const newCorrectIndex = 
-      block.correctIndex === index 
-        ? 0 // If deleted option was correct, set first option as correct
-        : block.correctIndex > index 
-          ? block.correctIndex - 1 // Adjust correct index if needed
-          : block.correctIndex;
-    onUpdate({ options: newOptions, correctIndex: newCorrectIndex });
+    onUpdate(getDeleteOptionUpdates(block, index));
   };
 
   const handleOptionChange = (index: number, value: string) => {
@@ -71,8 +160,66 @@ export function QuizBlockView({ block, isSelected, isEditing = false, isPreview,
     onUpdate({ options: newOptions });
   };
 
+  const handleOptionFeedbackChange = (index: number, value: string) => {
+    const optionFeedback = block.options.map((_, i) => block.optionFeedback?.[i] ?? '');
+    optionFeedback[index] = value;
+    onUpdate({ optionFeedback });
+  };
+
+  const handlePairChange = (pairId: string, updates: Partial<QuizMatchPair>) => {
+    onUpdate({
+      matchPairs: block.matchPairs.map((pair) => (pair.id === pairId ? { ...pair, ...updates } : pair)),
+    });
+  };
+
+  const handleMoveStep = (itemId: string, offset: -1 | 1) => {
+    const order = moveAnswerItem(block.orderItems.map((item) => item.id), itemId, offset);
+    onUpdate({ orderItems: order.map((id) => block.orderItems.find((item) => item.id === id)!) });
+  };
+
+  const handleAcceptedAnswerChange = (index: number, value: string) => {
+    const acceptedAnswers = [...block.acceptedAnswers];
+    acceptedAnswers[index] = value;
+    onUpdate({ acceptedAnswers });
+  };
+
+  const renderCorrectToggle = (isCorrect: boolean, onClick: () => void, label: string) => (
+    <button
+      type="button"
+      className={`quiz-edit-radio ${block.quizType === 'multiple-select' ? 'quiz-edit-checkbox' : ''} ${isCorrect ? 'selected' : ''}`}
+      onClick={onClick}
+      aria-label={label}
+      aria-pressed={isCorrect}
+    >
+      {isCorrect ? (
+        <svg className="quiz-radio-check" width="12" height="12" viewBox="0 0 12 12" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M10 3L4.5 8.5L2 6" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+      ) : (
+        <svg className="quiz-radio-x" width="12" height="12" viewBox="0 0 12 12" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M3 3L9 9M9 3L3 9" stroke="#999" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+      )}
+    </button>
+  );
+
   return (
     <div className="block-view quiz-block-view quiz-block-edit">
+      <div className="block-edit-field">
+        <label className="block-edit-label" htmlFor={`quiz-type-${block.id}`}>TYPE</label>
+        <select
+          id={`quiz-type-${block.id}`}
+          value={block.quizType}
+          onChange={(e) => onUpdate(getQuizTypeUpdates(block, e.target.value as QuizType))}
+          className="block-edit-select"
+        >
+          {QUIZ_TYPES.map((quizType) => (
+            <option key={quizType} value={quizType}>
+              {QUIZ_TYPE_LABELS[quizType]}
+            </option>
+          ))}
+        </select>
+      </div>
       <div className="block-edit-field">
         <label className="block-edit-label">QUESTION</label>
         <textarea
@@ -83,57 +230,513 @@ export function QuizBlockView({ block, isSelected, isEditing = false, isPreview,
           rows={3}
         />
       </div>
-      <div className="block-edit-field">
-        <label className="block-edit-label">OPTIONS</label>
-        <div className="block-options-edit">
-          {block.options.map((option, index) => (
-            <div key={index} className="block-option-edit-row">
-              <button
-                type="button"
-                className={`quiz-edit-radio ${block.correctIndex === index ? 'selected' : ''}`}
-                onClick={() => onUpdate({ correctIndex: index })}
-                aria-label={`Mark option ${index + 1} as correct`}
-              >
-                {block.correctIndex === index ? (
-                  <svg className="quiz-radio-check" width="12" height="12" viewBox="0 0 12 12" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <path d="M10 3L4.5 8.5L2 6" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                  </svg>
-                ) : (
-                  <svg className="quiz-radio-x" width="12" height="12" viewBox="0 0 12 12" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <path d="M3 3L9 9M9 3L3 9" stroke="#999" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-                  </svg>
+
+      {(block.quizType === 'multiple-choice' || block.quizType === 'multiple-select') && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">
+            {block.quizType === 'multiple-select' ? 'OPTIONS - MARK EVERY CORRECT ANSWER' : 'OPTIONS'}
+          </label>
+          <div className="block-options-edit">
+            {block.options.map((option, index) => (
+              <div key={index} className="block-option-edit-group">
+                <div className="block-option-edit-row">
+                  {renderCorrectToggle(
+                    block.correctIndices.includes(index),
+                    () => onUpdate(getCorrectOptionUpdates(block, index)),
+                    `Mark option ${index + 1} as correct`
+                  )}
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    className="block-edit-input block-option-input"
+                    placeholder={`Option ${index + 1}`}
+                  />
+                  {block.options.length > 1 && (
+                    <button
+                      type="button"
+                      className="block-option-delete"
+                      onClick={() => handleDeleteOption(index)}
+                      aria-label={`Delete option ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={block.optionFeedback?.[index] ?? ''}
+                  onChange={(e) => handleOptionFeedbackChange(index, e.target.value)}
+                  className="block-edit-input quiz-option-feedback-input"
+                  placeholder="Feedback when chosen (optional)"
+                  aria-label={`Feedback for option ${index + 1}`}
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="block-add-option-button"
+            onClick={handleAddOption}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            </svg>
+            <span>Add option</span>
+          </button>
+        </div>
+      )}
+
+      {block.quizType === 'true-false' && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">CORRECT ANSWER</label>
+          <div className="block-options-edit">
+            {TRUE_FALSE_OPTIONS.map((option, index) => {
+              const value = index === 0;
+              return (
+                <div key={option} className="block-option-edit-row">
+                  {renderCorrectToggle(
+                    block.trueFalseAnswer === value,
+                    () => onUpdate({ trueFalseAnswer: value }),
+                    `Mark ${option} as correct`
+                  )}
+                  <span className="block-option-static">{option}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {block.quizType === 'matching' && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">PAIRS</label>
+          <div className="block-options-edit">
+            {block.matchPairs.map((pair, index) => (
+              <div key={pair.id} className="block-option-edit-row">
+                <input
+                  type="text"
+                  value={pair.prompt}
+                  onChange={(e) => handlePairChange(pair.id, { prompt: e.target.value })}
+                  className="block-edit-input block-option-input"
+                  placeholder={`Prompt ${index + 1}`}
+                />
+                <span className="quiz-edit-pair-arrow" aria-hidden="true">→</span>
+                <input
+                  type="text"
+                  value={pair.match}
+                  onChange={(e) => handlePairChange(pair.id, { match: e.target.value })}
+                  className="block-edit-input block-option-input"
+                  placeholder={`Answer ${index + 1}`}
+                />
+                {block.matchPairs.length > 1 && (
+                  <button
+                    type="button"
+                    className="block-option-delete"
+                    onClick={() => onUpdate({ matchPairs: block.matchPairs.filter((p) => p.id !== pair.id) })}
+                    aria-label={`Delete pair ${index + 1}`}
+                  >
+                    ×
+                  </button>
                 )}
-              </button>
-              <input
-                type="text"
-                value={option}
-                onChange={(e) => handleOptionChange(index, e.target.value)}
-                className="block-edit-input block-option-input"
-                placeholder={`Option ${index + 1}`}
-              />
-              {block.options.length > 1 && (
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="block-add-option-button"
+            onClick={() => onUpdate({ matchPairs: [...block.matchPairs, { id: nanoid(), prompt: '', match: '' }] })}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            </svg>
+            <span>Add pair</span>
+          </button>
+
+          <label className="block-edit-label quiz-edit-sublabel">DISTRACTORS</label>
+          <div className="block-options-edit">
+            {block.matchDistractors.map((distractor, index) => (
+              <div key={distractor.id} className="block-option-edit-row">
+                <input
+                  type="text"
+                  value={distractor.text}
+                  onChange={(e) => onUpdate({
+                    matchDistractors: block.matchDistractors.map((item) =>
+                      item.id === distractor.id ? { ...item, text: e.target.value } : item
+                    ),
+                  })}
+                  className="block-edit-input block-option-input"
+                  placeholder={`Distractor ${index + 1}`}
+                />
                 <button
                   type="button"
                   className="block-option-delete"
-                  onClick={() => handleDeleteOption(index)}
-                  aria-label={`Delete option ${index + 1}`}
+                  onClick={() => onUpdate({
+                    matchDistractors: block.matchDistractors.filter((item) => item.id !== distractor.id),
+                  })}
+                  aria-label={`Delete distractor ${index + 1}`}
                 >
                   ×
                 </button>
-              )}
-            </div>
-          ))}
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="block-add-option-button"
+            onClick={() => onUpdate({ matchDistractors: [...block.matchDistractors, { id: nanoid(), text: '' }] })}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            </svg>
+            <span>Add distractor</span>
+          </button>
+          <p className="quiz-edit-hint">Distractors are extra answers that match no prompt.</p>
+        </div>
+      )}
+
+      {block.quizType === 'ordering' && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">STEPS - IN THE CORRECT ORDER</label>
+          <div className="block-options-edit">
+            {block.orderItems.map((item, index) => (
+              <div key={item.id} className="block-option-edit-row">
+                <span className="quiz-edit-step-number">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={item.text}
+                  onChange={(e) => onUpdate({
+                    orderItems: block.orderItems.map((step) =>
+                      step.id === item.id ? { ...step, text: e.target.value } : step
+                    ),
+                  })}
+                  className="block-edit-input block-option-input"
+                  placeholder={`Step ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  className="block-option-delete"
+                  onClick={() => handleMoveStep(item.id, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move step ${index + 1} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="block-option-delete"
+                  onClick={() => handleMoveStep(item.id, 1)}
+                  disabled={index === block.orderItems.length - 1}
+                  aria-label={`Move step ${index + 1} down`}
+                >
+                  ↓
+                </button>
+                {block.orderItems.length > 2 && (
+                  <button
+                    type="button"
+                    className="block-option-delete"
+                    onClick={() => onUpdate({ orderItems: block.orderItems.filter((step) => step.id !== item.id) })}
+                    aria-label={`Delete step ${index + 1}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="block-add-option-button"
+            onClick={() => onUpdate({ orderItems: [...block.orderItems, { id: nanoid(), text: '' }] })}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            </svg>
+            <span>Add step</span>
+          </button>
+          <p className="quiz-edit-hint">Learners see the steps shuffled.</p>
+        </div>
+      )}
+
+      {block.quizType === 'cloze' && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">TEXT WITH BLANKS</label>
+          <QuizClozeEditor block={block} onUpdate={onUpdate} />
+        </div>
+      )}
+
+      {block.quizType === 'hotspot' && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">REGIONS</label>
+          <QuizHotspotEditor block={block} onUpdate={onUpdate} />
+        </div>
+      )}
+
+      {block.quizType === 'short-answer' && (
+        <div className="block-edit-field">
+          <label className="block-edit-label">ACCEPTED ANSWERS</label>
+          <div className="block-options-edit">
+            {block.acceptedAnswers.map((answer, index) => (
+              <div key={index} className="block-option-edit-row">
+                <input
+                  type="text"
+                  value={answer}
+                  onChange={(e) => handleAcceptedAnswerChange(index, e.target.value)}
+                  className="block-edit-input block-option-input"
+                  placeholder={`Accepted answer ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  className="block-option-delete"
+                  onClick={() => onUpdate({ acceptedAnswers: block.acceptedAnswers.filter((_, i) => i !== index) })}
+                  aria-label={`Delete accepted answer ${index + 1}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="block-add-option-button"
+            onClick={() => onUpdate({ acceptedAnswers: [...block.acceptedAnswers, ''] })}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            </svg>
+            <span>Add accepted answer</span>
+          </button>
+          <p className="quiz-edit-hint">Use * to match any text, e.g. "*photosynthesis*".</p>
+          <label className="quiz-edit-checkbox-label">
+            <input
+              type="checkbox"
+              checked={!!block.caseSensitive}
+              onChange={(e) => onUpdate({ caseSensitive: e.target.checked })}
+            />
+            Case sensitive
+          </label>
+          <label className="quiz-edit-checkbox-label">
+            <input
+              type="checkbox"
+              checked={block.ignoreExtraWhitespace ?? true}
+              onChange={(e) => onUpdate({ ignoreExtraWhitespace: e.target.checked })}
+            />
+            Ignore extra spaces
+          </label>
         </div>
-        <button
-          type="button"
-          className="block-add-option-button"
-          onClick={handleAddOption}
+      )}
+    </div>
+  );
+}
+
+interface QuizAnswerViewProps {
+  block: QuizBlock;
+}
+
+// Learner view - answer, submit, read the feedback and retry while attempts are left
+function QuizAnswerView({ block }: QuizAnswerViewProps) {
+  const { results, seed, recordAttempt, registerSubmit } = useQuizSession();
+  const tracking = usePreviewTracking();
+  const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
+  const [text, setText] = useState('');
+  // Shuffles come from the session seed, so replaying a seed shows the same order
+  const [order, setOrder] = useState(() => getShuffledAnswerOrder(block, createRandom(seed, `${block.id}:order`)));
+  const [choiceOrder] = useState(() => getChoiceOrder(block, createRandom(seed, `${block.id}:options`)));
+  const [blanks, setBlanks] = useState<Record<string, string>>({});
+  const [point, setPoint] = useState<ImagePoint | null>(null);
+  const [isShowingFeedback, setIsShowingFeedback] = useState(false);
+
+  const result = results[block.id];
+  const attempts = result?.attempts ?? 0;
+  const isLocked = isShowingFeedback || !!result?.isFinal;
+  const isShortAnswer = block.quizType === 'short-answer';
+  const isMultipleSelect = block.quizType === 'multiple-select';
+  const isChoice = isChoiceQuiz(block);
+  const choices = getQuizChoices(block);
+  const correctIndices = getCorrectChoiceIndices(block);
+  // Correct answers are only revealed once the learner can no longer retry
+  const isRevealingAnswer = !!result?.isFinal && !result.isCorrect;
+  const clozeBlanks = getClozeBlanks(block);
+  const canSubmit = !isLocked && (
+    isShortAnswer ? text.trim() !== ''
+      : isChoice ? selectedIndices.length > 0
+      : block.quizType === 'cloze' ? clozeBlanks.length > 0 && clozeBlanks.every((blank) => (blanks[blank.id] ?? '').trim() !== '')
+      : block.quizType === 'hotspot' ? point !== null
+      : order.length > 0
+  );
+  const questionId = `quiz-question-${block.id}`;
+
+  const handleSelect = (index: number) => {
+    if (isLocked) return;
+    if (isMultipleSelect) {
+      setSelectedIndices(
+        selectedIndices.includes(index)
+          ? selectedIndices.filter((i) => i !== index)
+          : [...selectedIndices, index]
+      );
+    } else {
+      setSelectedIndices([index]);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    const answer = { selectedIndices, text, order, blanks, point };
+    const isCorrect = isQuizAnswerCorrect(block, answer);
+    recordAttempt(block.id, isCorrect, hasAttemptsLeft(block, attempts + 1));
+    tracking?.quizAnswered(block, answer, isCorrect);
+    setIsShowingFeedback(true);
+  };
+
+  // Let "submit all quizzes" buttons submit the current answer (re-registered on every render)
+  useEffect(() => registerSubmit(block.id, handleSubmit));
+
+  // Ordering, matching, cloze and hotspot answers are kept so learners can adjust them
+  const handleRetry = () => {
+    setIsShowingFeedback(false);
+    setSelectedIndices([]);
+    setText('');
+  };
+
+  const getOptionState = (index: number): string => {
+    const isSelected = selectedIndices.includes(index);
+    if (isShowingFeedback && isSelected) return correctIndices.includes(index) ? 'is-correct' : 'is-incorrect';
+    if (isRevealingAnswer && correctIndices.includes(index)) return 'is-answer';
+    return '';
+  };
+
+  const attemptsLeft = block.maxAttempts ? Math.max(block.maxAttempts - attempts, 0) : null;
+  const feedbackMessage = result?.isCorrect
+    ? block.correctFeedback || 'Correct!'
+    : block.incorrectFeedback || 'Not quite.';
+
+  return (
+    <div className="block-view quiz-block-view quiz-answer-view">
+      <div className="block-question" id={questionId}>
+        {block.question ? (
+          <div dangerouslySetInnerHTML={{ __html: block.question }} />
+        ) : (
+          <em className="empty-field">No question</em>
+        )}
+      </div>
+      {isMultipleSelect && <p className="quiz-instructions">Select all that apply.</p>}
+      {block.quizType === 'ordering' && (
+        <p className="quiz-instructions">Drag the items, or use the arrow buttons, to put them in order.</p>
+      )}
+      {block.quizType === 'matching' && (
+        <p className="quiz-instructions">Drag each answer, or use the arrow buttons, to line it up with its prompt.</p>
+      )}
+      {block.quizType === 'hotspot' && (
+        <p className="quiz-instructions">Click the image to mark your answer.</p>
+      )}
+
+      {block.quizType === 'hotspot' ? (
+        <QuizHotspotAnswer
+          block={block}
+          point={point}
+          isCorrect={!!result?.isCorrect}
+          isLocked={isLocked}
+          isShowingFeedback={isShowingFeedback}
+          isRevealingAnswer={isRevealingAnswer}
+          onChange={setPoint}
+        />
+      ) : block.quizType === 'cloze' ? (
+        <QuizClozeAnswer
+          block={block}
+          values={blanks}
+          isLocked={isLocked}
+          isShowingFeedback={isShowingFeedback}
+          isRevealingAnswer={isRevealingAnswer}
+          onChange={(blankId, value) => setBlanks({ ...blanks, [blankId]: value })}
+        />
+      ) : !isChoice && !isShortAnswer ? (
+        <QuizOrderAnswer
+          block={block}
+          order={order}
+          isLocked={isLocked}
+          isShowingFeedback={isShowingFeedback}
+          isRevealingAnswer={isRevealingAnswer}
+          labelledBy={questionId}
+          onChange={setOrder}
+        />
+      ) : isShortAnswer ? (
+        <div className="block-options">
+          <input
+            type="text"
+            className={`quiz-short-answer-input ${isShowingFeedback ? (result?.isCorrect ? 'is-correct' : 'is-incorrect') : ''}`}
+            placeholder="Type your answer"
+            aria-labelledby={questionId}
+            value={text}
+            disabled={isLocked}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSubmit();
+            }}
+          />
+          {isRevealingAnswer && block.acceptedAnswers.some((answer) => answer.trim() !== '') && (
+            <p className="quiz-answer-reveal">
+              Accepted answer: {block.acceptedAnswers.find((answer) => answer.trim() !== '')}
+            </p>
+          )}
+        </div>
+      ) : (
+        <div
+          className="block-options multiple-choice"
+          role={isMultipleSelect ? 'group' : 'radiogroup'}
+          aria-labelledby={questionId}
         >
-          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-            <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
-          </svg>
-          <span>Add option</span>
-        </button>
+          {choiceOrder.map((index) => {
+            const option = choices[index];
+            const feedback = isShowingFeedback && selectedIndices.includes(index) && block.quizType !== 'true-false'
+              ? block.optionFeedback?.[index]
+              : undefined;
+            return (
+              <div key={index} className="quiz-answer-option">
+                <label className={`block-option multiple-choice-option ${getOptionState(index)}`}>
+                  <input
+                    type={isMultipleSelect ? 'checkbox' : 'radio'}
+                    name={`quiz-${block.id}`}
+                    checked={selectedIndices.includes(index)}
+                    disabled={isLocked}
+                    onChange={() => handleSelect(index)}
+                    className={isMultipleSelect ? 'quiz-radio-button quiz-checkbox-button' : 'quiz-radio-button'}
+                  />
+                  <span className="option-text">{option || <em className="empty-field">Empty option</em>}</span>
+                </label>
+                {feedback && (
+                  <p className={`quiz-option-feedback ${correctIndices.includes(index) ? 'is-correct' : 'is-incorrect'}`}>
+                    {feedback}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isShowingFeedback && result && (
+        <div className={`quiz-feedback ${result.isCorrect ? 'is-correct' : 'is-incorrect'}`} role="status">
+          {feedbackMessage}
+          {!result.isFinal && attemptsLeft !== null && (
+            <span className="quiz-attempts-left">
+              {' '}{attemptsLeft} {attemptsLeft === 1 ? 'attempt' : 'attempts'} left.
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="quiz-actions">
+        {isShowingFeedback && result && !result.isFinal ? (
+          <button type="button" className="quiz-submit-button" onClick={handleRetry}>
+            Try again
+          </button>
+        ) : (
+          !result?.isFinal && (
+            <button type="button" className="quiz-submit-button" onClick={handleSubmit} disabled={!canSubmit}>
+              Submit
+            </button>
+          )
+        )}
       </div>
     </div>
   );
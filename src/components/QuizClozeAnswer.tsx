@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import type { QuizBlock, QuizClozeBlank } from '../types';
+import { getClozeBlanks, isClozeBlankCorrect } from '../utils/quiz';
+
+interface QuizClozeAnswerProps {
+  block: QuizBlock; // A cloze question
+  values: Record<string, string>; // Learner's value per blank ID
+  isLocked: boolean;
+  isShowingFeedback: boolean;
+  isRevealingAnswer: boolean;
+  onChange: (blankId: string, value: string) => void;
+}
+
+// Formatting kept from the cloze text - anything else is rendered as its contents only
+const ALLOWED_TAGS = ['p', 'span', 'strong', 'em', 'u', 's', 'sub', 'sup', 'a', 'br', 'ul', 'ol', 'li', 'code'];
+
+// Inline style attribute to a React style object (e.g. the FontSize mark's font-size)
+function parseStyle(style: string | null): React.CSSProperties | undefined {
+  if (!style) return undefined;
+  const result: Record<string, string> = {};
+  for (const declaration of style.split(';')) {
+    const [property, ...value] = declaration.split(':');
+    if (!property.trim() || value.length === 0) continue;
+    const name = property.trim().replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+    result[name] = value.join(':').trim();
+  }
+  return result;
+}
+
+// Learner view of a cloze question - the text with an input or dropdown in place of each blank
+export function QuizClozeAnswer({
+  block,
+  values,
+  isLocked,
+  isShowingFeedback,
+  isRevealingAnswer,
+  onChange,
+}: QuizClozeAnswerProps) {
+  const parsed = useMemo(
+    () => new DOMParser().parseFromString(block.clozeText, 'text/html'),
+    [block.clozeText]
+  );
+  const blanks = getClozeBlanks(block);
+
+  const renderBlank = (blank: QuizClozeBlank) => {
+    const index = blanks.indexOf(blank);
+    const value = values[blank.id] ?? '';
+    const isCorrect = isClozeBlankCorrect(block, blank, value);
+    const state = isShowingFeedback ? (isCorrect ? 'is-correct' : 'is-incorrect') : '';
+    const label = `Blank ${index + 1} of ${blanks.length}`;
+    const answer = blank.mode === 'dropdown'
+      ? blank.choices[blank.correctChoiceIndex]
+      : blank.acceptedAnswers.find((pattern) => pattern.trim() !== '');
+
+    return (
+      <span className="cloze-blank">
+        {blank.mode === 'dropdown' ? (
+          <select
+            className={`cloze-blank-select ${state}`}
+            value={value}
+            disabled={isLocked}
+            onChange={(e) => onChange(blank.id, e.target.value)}
+            aria-label={label}
+          >
+            <option value="">Choose…</option>
+            {blank.choices.map((choice, choiceIndex) => (
+              <option key={choiceIndex} value={String(choiceIndex)}>
+                {choice}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            className={`cloze-blank-input ${state}`}
+            value={value}
+            disabled={isLocked}
+            size={Math.max(answer?.length ?? 0, 6)}
+            onChange={(e) => onChange(blank.id, e.target.value)}
+            aria-label={label}
+          />
+        )}
+        {isRevealingAnswer && !isCorrect && answer && (
+          <span className="quiz-answer-reveal cloze-blank-reveal"> ({answer})</span>
+        )}
+      </span>
+    );
+  };
+
+  // Blanks split by other formatting appear as several spans - only the first gets a control
+  const renderedBlankIds = new Set<string>();
+
+  const renderNode = (node: Node, key: string): React.ReactNode => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent;
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const element = node as Element;
+    const blankId = element.getAttribute('data-cloze-blank');
+    if (blankId) {
+      const blank = blanks.find((b) => b.id === blankId);
+      if (!blank) return element.textContent; // Marked text without blank data reads as text
+      if (renderedBlankIds.has(blankId)) return null;
+      renderedBlankIds.add(blankId);
+      return <React.Fragment key={key}>{renderBlank(blank)}</React.Fragment>;
+    }
+
+    const children = Array.from(element.childNodes).map((child, index) => renderNode(child, `${key}-${index}`));
+    const tag = element.tagName.toLowerCase();
+    if (!ALLOWED_TAGS.includes(tag)) return <React.Fragment key={key}>{children}</React.Fragment>;
+    if (tag === 'br') return <br key={key} />;
+
+    const props: Record<string, unknown> = {
+      key,
+      className: element.getAttribute('class') || undefined,
+      style: parseStyle(element.getAttribute('style')),
+    };
+    if (tag === 'a') {
+      props.href = element.getAttribute('href') || undefined;
+      props.target = '_blank';
+      props.rel = 'noopener noreferrer';
+    }
+    return React.createElement(tag, props, children.length > 0 ? children : undefined);
+  };
+
+  return (
+    <div className="quiz-cloze-text rich-text-readonly">
+      {Array.from(parsed.body.childNodes).map((node, index) => renderNode(node, String(index)))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import type { Editor } from '@tiptap/react';
+import type { QuizBlock, QuizClozeBlank } from '../types';
+import { RichTextEditor } from './RichTextEditor';
+import { createClozeBlank, getClozeBlankIds, getClozeBlanks } from '../utils/quiz';
+
+interface QuizClozeEditorProps {
+  block: QuizBlock;
+  onUpdate: (updates: Partial<QuizBlock>) => void;
+}
+
+// The words a blank was made from, as they appear in the cloze text
+function getBlankText(clozeText: string, blankId: string): string {
+  const parsed = new DOMParser().parseFromString(clozeText, 'text/html');
+  return Array.from(parsed.querySelectorAll(`[data-cloze-blank="${CSS.escape(blankId)}"]`))
+    .map((element) => element.textContent || '')
+    .join('');
+}
+
+// Inline editor for cloze text - authors select words and turn them into blanks, then set
+// each blank's accepted answers or dropdown choices
+export function QuizClozeEditor({ block, onUpdate }: QuizClozeEditorProps) {
+  const editorRef = useRef<Editor | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const blanks = getClozeBlanks(block);
+
+  // Blank data whose mark no longer exists in `clozeText` is dropped with every blank change
+  const keepMarkedBlanks = (clozeText: string, extra: QuizClozeBlank[] = []) => {
+    const ids = getClozeBlankIds(clozeText);
+    return [...block.clozeBlanks.filter((blank) => ids.includes(blank.id)), ...extra];
+  };
+
+  const handleMakeBlank = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const { from, to, empty } = editor.state.selection;
+    if (empty) {
+      setHint('Select the words to turn into a blank first.');
+      return;
+    }
+
+    const blankId = nanoid();
+    const answer = editor.state.doc.textBetween(from, to, ' ');
+    editor.chain().focus().setClozeBlank(blankId).run();
+    // After the editor's own update, so this one (with the new blank) wins
+    const clozeText = editor.getHTML();
+    onUpdate({ clozeText, clozeBlanks: keepMarkedBlanks(clozeText, [createClozeBlank(blankId, answer)]) });
+    setHint(null);
+  };
+
+  const handleRemoveBlank = (blankId: string) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.chain().unsetClozeBlank(blankId).run();
+    const clozeText = editor.getHTML();
+    onUpdate({ clozeText, clozeBlanks: keepMarkedBlanks(clozeText) });
+  };
+
+  const updateBlank = (blankId: string, updates: Partial<QuizClozeBlank>) => {
+    onUpdate({
+      clozeBlanks: block.clozeBlanks.map((blank) => (blank.id === blankId ? { ...blank, ...updates } : blank)),
+    });
+  };
+
+  const handleModeChange = (blank: QuizClozeBlank, mode: QuizClozeBlank['mode']) => {
+    // A new dropdown starts with the marked words as its correct choice
+    if (mode === 'dropdown' && blank.choices.length === 0) {
+      updateBlank(blank.id, { mode, choices: [getBlankText(block.clozeText, blank.id), ''], correctChoiceIndex: 0 });
+    } else {
+      updateBlank(blank.id, { mode });
+    }
+  };
+
+  return (
+    <div className="quiz-cloze-editor">
+      <div
+        className="rich-text-editor-container quiz-cloze-text-editor"
+        onMouseDown={(e) => {
+          // Prevent drag when clicking on editor
+          e.stopPropagation();
+        }}
+      >
+        <RichTextEditor
+          content={block.clozeText || ''}
+          isEditable={true}
+          onUpdate={(html) => onUpdate({ clozeText: html })}
+          editorRef={editorRef}
+        />
+      </div>
+      <button
+        type="button"
+        className="block-add-option-button"
+        onMouseDown={(e) => e.preventDefault()} // Keep the editor's selection
+        onClick={handleMakeBlank}
+      >
+        <span className="cloze-blank-mark">___</span>
+        <span>Make blank from selection</span>
+      </button>
+      {hint && <p className="quiz-edit-hint">{hint}</p>}
+
+      {blanks.map((blank, index) => (
+        <div key={blank.id} className="quiz-cloze-blank-settings">
+          <div className="block-option-edit-row">
+            <span className="quiz-cloze-blank-title">
+              Blank {index + 1}: <span className="cloze-blank-mark">{getBlankText(block.clozeText, blank.id)}</span>
+            </span>
+            <select
+              value={blank.mode}
+              onChange={(e) => handleModeChange(blank, e.target.value as QuizClozeBlank['mode'])}
+              className="block-edit-select quiz-cloze-mode-select"
+              aria-label={`Blank ${index + 1} answer type`}
+            >
+              <option value="text">Typed answer</option>
+              <option value="dropdown">Dropdown</option>
+            </select>
+            <button
+              type="button"
+              className="block-option-delete"
+              onClick={() => handleRemoveBlank(blank.id)}
+              aria-label={`Remove blank ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+
+          {blank.mode === 'text' ? (
+            <textarea
+              value={blank.acceptedAnswers.join('\n')}
+              onChange={(e) => updateBlank(blank.id, { acceptedAnswers: e.target.value.split('\n') })}
+              className="block-edit-textarea quiz-cloze-answers"
+              placeholder="Accepted answers, one per line - use * to match any text"
+              aria-label={`Blank ${index + 1} accepted answers`}
+              rows={2}
+            />
+          ) : (
+            <div className="block-options-edit">
+              {blank.choices.map((choice, choiceIndex) => (
+                <div key={choiceIndex} className="block-option-edit-row">
+                  <input
+                    type="radio"
+                    name={`cloze-${blank.id}-correct`}
+                    checked={blank.correctChoiceIndex === choiceIndex}
+                    onChange={() => updateBlank(blank.id, { correctChoiceIndex: choiceIndex })}
+                    aria-label={`Choice ${choiceIndex + 1} is correct`}
+                  />
+                  <input
+                    type="text"
+                    value={choice}
+                    onChange={(e) =>
+                      updateBlank(blank.id, {
+                        choices: blank.choices.map((c, i) => (i === choiceIndex ? e.target.value : c)),
+                      })
+                    }
+                    className="block-edit-input block-option-input"
+                    placeholder={`Choice ${choiceIndex + 1}`}
+                  />
+                  {blank.choices.length > 2 && (
+                    <button
+                      type="button"
+                      className="block-option-delete"
+                      onClick={() =>
+                        updateBlank(blank.id, {
+                          choices: blank.choices.filter((_, i) => i !== choiceIndex),
+                          correctChoiceIndex:
+                            blank.correctChoiceIndex > choiceIndex
+                              ? blank.correctChoiceIndex - 1
+                              : blank.correctChoiceIndex === choiceIndex ? 0 : blank.correctChoiceIndex,
+                        })
+                      }
+                      aria-label={`Delete choice ${choiceIndex + 1}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                className="block-add-option-button"
+                onClick={() => updateBlank(blank.id, { choices: [...blank.choices, ''] })}
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M8 3V13M3 8H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                </svg>
+                <span>Add choice</span>
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {blanks.length === 0 && (
+        <p className="quiz-edit-hint">Write the text, then select words and make them into blanks.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useRef } from 'react';
+import type { ImagePoint, QuizBlock } from '../types';
+import { ImageMarkerCanvas } from './ImageMarkerCanvas';
+import type { ImageMarkerLayout } from './ImageMarkerCanvas';
+import { getArrowKeyPoint } from '../utils/imageGeometry';
+
+interface QuizHotspotAnswerProps {
+  block: QuizBlock; // A hotspot question
+  point: ImagePoint | null; // Where the learner clicked
+  isCorrect: boolean;
+  isLocked: boolean;
+  isShowingFeedback: boolean;
+  isRevealingAnswer: boolean;
+  onChange: (point: ImagePoint) => void;
+}
+
+// Learner view of a hotspot question - click the image to place a pin. Keyboard users place
+// the pin in the middle with a button and move it with the arrow keys.
+export function QuizHotspotAnswer({
+  block,
+  point,
+  isCorrect,
+  isLocked,
+  isShowingFeedback,
+  isRevealingAnswer,
+  onChange,
+}: QuizHotspotAnswerProps) {
+  const pinRef = useRef<HTMLButtonElement>(null);
+
+  const renderOverlay = (layout: ImageMarkerLayout) => {
+    const pinPosition = point ? layout.toBox(point) : null;
+    return (
+      <>
+        {isRevealingAnswer &&
+          block.hotspots
+            .filter((hotspot) => hotspot.isCorrect)
+            .map((hotspot) => {
+              const position = layout.toBox(hotspot);
+              if (!position) return null;
+              const size = layout.sizeToBox(hotspot);
+              return (
+                <div
+                  key={hotspot.id}
+                  className="quiz-hotspot-region is-answer"
+                  style={{ left: position.left, top: position.top, width: size.width, height: size.height }}
+                  aria-hidden="true"
+                />
+              );
+            })}
+        {point && pinPosition && (
+          <button
+            ref={pinRef}
+            type="button"
+            className={`quiz-hotspot-pin ${isShowingFeedback ? (isCorrect ? 'is-correct' : 'is-incorrect') : ''}`}
+            style={{ left: pinPosition.left, top: pinPosition.top }}
+            aria-label={`Your answer at ${Math.round(point.x)}% across, ${Math.round(point.y)}% down - use the arrow keys to move it`}
+            disabled={isLocked}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              const next = getArrowKeyPoint(e.key, e.shiftKey, point);
+              if (next) {
+                e.preventDefault();
+                onChange(next);
+              }
+            }}
+          />
+        )}
+      </>
+    );
+  };
+
+  if (!block.hotspotImage.imageUrl) {
+    return <em className="empty-field">No image</em>;
+  }
+
+  return (
+    <div className="quiz-hotspot-answer">
+      <ImageMarkerCanvas image={block.hotspotImage} onImageClick={isLocked ? undefined : onChange}>
+        {renderOverlay}
+      </ImageMarkerCanvas>
+      {!point && !isLocked && (
+        <button
+          type="button"
+          className="quiz-hotspot-keyboard-button"
+          onClick={() => {
+            onChange({ x: 50, y: 50 });
+            requestAnimationFrame(() => pinRef.current?.focus());
+          }}
+        >
+          Place a marker with the keyboard
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { nanoid } from 'nanoid';
+import type { ImagePoint, QuizBlock, QuizHotspot } from '../types';
+import { ImageMarkerCanvas } from './ImageMarkerCanvas';
+import type { ImageMarkerLayout } from './ImageMarkerCanvas';
+import { getArrowKeyPoint } from '../utils/imageGeometry';
+
+interface QuizHotspotEditorProps {
+  block: QuizBlock;
+  onUpdate: (updates: Partial<QuizBlock>) => void;
+}
+
+// Size of a new region, in image percent
+const DEFAULT_HOTSPOT_SIZE = 15;
+
+// Parse a region size input - sizes stay between 1% and 100% of the image
+function parseSize(value: string, fallback: number): number {
+  const size = Number(value);
+  return Number.isFinite(size) && size > 0 ? Math.min(size, 100) : fallback;
+}
+
+// Inline editor for hotspot regions - click the image to add one, drag or use the arrow keys to move it
+export function QuizHotspotEditor({ block, onUpdate }: QuizHotspotEditorProps) {
+  const [activeHotspotId, setActiveHotspotId] = useState<string | null>(null);
+
+  const updateHotspot = (hotspotId: string, updates: Partial<QuizHotspot>) => {
+    onUpdate({
+      hotspots: block.hotspots.map((hotspot) => (hotspot.id === hotspotId ? { ...hotspot, ...updates } : hotspot)),
+    });
+  };
+
+  const handleAddHotspot = (point: ImagePoint) => {
+    const hotspot: QuizHotspot = {
+      id: nanoid(),
+      ...point,
+      width: DEFAULT_HOTSPOT_SIZE,
+      height: DEFAULT_HOTSPOT_SIZE,
+      label: '',
+      isCorrect: !block.hotspots.some((h) => h.isCorrect), // The first region is the answer
+    };
+    onUpdate({ hotspots: [...block.hotspots, hotspot] });
+    setActiveHotspotId(hotspot.id);
+  };
+
+  const renderRegions = (layout: ImageMarkerLayout) =>
+    block.hotspots.map((hotspot, index) => {
+      const position = layout.toBox(hotspot);
+      if (!position) return null; // Cropped away by the fit mode
+      const size = layout.sizeToBox(hotspot);
+      return (
+        <button
+          key={hotspot.id}
+          type="button"
+          className={`quiz-hotspot-region is-movable ${hotspot.isCorrect ? 'is-answer' : ''} ${activeHotspotId === hotspot.id ? 'is-active' : ''}`}
+          style={{ left: position.left, top: position.top, width: size.width, height: size.height }}
+          aria-label={`Region ${index + 1}${hotspot.label ? `: ${hotspot.label}` : ''}${hotspot.isCorrect ? ' (correct)' : ''} - drag or use the arrow keys to move it`}
+          onPointerDown={(e) => {
+            setActiveHotspotId(hotspot.id);
+            layout.beginDrag(e, (point) => updateHotspot(hotspot.id, point));
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => {
+            const point = getArrowKeyPoint(e.key, e.shiftKey, hotspot);
+            if (point) {
+              e.preventDefault();
+              updateHotspot(hotspot.id, point);
+            }
+          }}
+        >
+          {index + 1}
+        </button>
+      );
+    });
+
+  if (!block.hotspotImage.imageUrl) {
+    return <p className="quiz-edit-hint">Add an image in the properties panel, then click it to mark the regions.</p>;
+  }
+
+  return (
+    <div className="quiz-hotspot-editor">
+      <ImageMarkerCanvas image={block.hotspotImage} onImageClick={handleAddHotspot}>
+        {renderRegions}
+      </ImageMarkerCanvas>
+      <p className="quiz-edit-hint">
+        Click the image to add a region. Learners answer correctly by clicking inside any correct region.
+      </p>
+      <div className="block-options-edit">
+        {block.hotspots.map((hotspot, index) => (
+          <div
+            key={hotspot.id}
+            className={`block-option-edit-row quiz-hotspot-settings ${activeHotspotId === hotspot.id ? 'is-active' : ''}`}
+            onFocus={() => setActiveHotspotId(hotspot.id)}
+          >
+            <span className="quiz-edit-step-number">{index + 1}.</span>
+            <input
+              type="text"
+              value={hotspot.label}
+              onChange={(e) => updateHotspot(hotspot.id, { label: e.target.value })}
+              className="block-edit-input block-option-input"
+              placeholder={`Region ${index + 1} label`}
+            />
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={Math.round(hotspot.width)}
+              onChange={(e) => updateHotspot(hotspot.id, { width: parseSize(e.target.value, hotspot.width) })}
+              className="block-edit-input quiz-hotspot-size"
+              aria-label={`Region ${index + 1} width in percent of the image`}
+            />
+            <span aria-hidden="true">×</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={Math.round(hotspot.height)}
+              onChange={(e) => updateHotspot(hotspot.id, { height: parseSize(e.target.value, hotspot.height) })}
+              className="block-edit-input quiz-hotspot-size"
+              aria-label={`Region ${index + 1} height in percent of the image`}
+            />
+            <label className="quiz-edit-checkbox-label">
+              <input
+                type="checkbox"
+                checked={hotspot.isCorrect}
+                onChange={(e) => updateHotspot(hotspot.id, { isCorrect: e.target.checked })}
+              />
+              Correct
+            </label>
+            <button
+              type="button"
+              className="block-option-delete"
+              onClick={() => onUpdate({ hotspots: block.hotspots.filter((h) => h.id !== hotspot.id) })}
+              aria-label={`Delete region ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
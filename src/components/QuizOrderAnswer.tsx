@@ -0,0 +1,167 @@
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { ChevronDown, ChevronUp, GripVertical } from 'lucide-react';
+import type { QuizBlock, QuizListItem } from '../types';
+import { getMatchChoices, moveAnswerItem } from '../utils/quiz';
+
+interface QuizOrderAnswerProps {
+  block: QuizBlock; // A matching or ordering question
+  order: string[]; // Item IDs in the learner's order
+  isLocked: boolean;
+  isShowingFeedback: boolean;
+  isRevealingAnswer: boolean;
+  labelledBy: string;
+  onChange: (order: string[]) => void;
+}
+
+// Drag-and-drop answer for ordering and matching questions. Learners sort the items (or, when
+// matching, the answers next to the fixed prompts); every item also has move up/down buttons,
+// and the keyboard sensor lets the drag handle be moved with Space and the arrow keys.
+export function QuizOrderAnswer({
+  block,
+  order,
+  isLocked,
+  isShowingFeedback,
+  isRevealingAnswer,
+  labelledBy,
+  onChange,
+}: QuizOrderAnswerProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const isMatching = block.quizType === 'matching';
+  const items = isMatching ? getMatchChoices(block) : block.orderItems;
+  const orderedItems = order
+    .map((id) => items.find((item) => item.id === id))
+    .filter((item): item is QuizListItem => item !== undefined);
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    onChange(arrayMove(order, order.indexOf(String(active.id)), order.indexOf(String(over.id))));
+  };
+
+  // The text that belongs at a position - the step for ordering, the prompt's answer for matching
+  const getExpectedText = (index: number): string | undefined =>
+    isMatching ? block.matchPairs[index]?.match : block.orderItems[index]?.text;
+
+  const getItemState = (item: QuizListItem, index: number): string => {
+    if (!isShowingFeedback) return '';
+    if (isMatching && index >= block.matchPairs.length) return '';
+    return item.text.trim() === getExpectedText(index)?.trim() ? 'is-correct' : 'is-incorrect';
+  };
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={order} strategy={verticalListSortingStrategy}>
+        <ol className={`quiz-order-list ${isMatching ? 'quiz-order-list-matching' : ''}`} aria-labelledby={labelledBy}>
+          {orderedItems.map((item, index) => {
+            const itemState = getItemState(item, index);
+            const expectedText = getExpectedText(index);
+            return (
+              <li key={item.id} className="quiz-order-row">
+                {isMatching && (
+                  <span className="quiz-order-prompt">
+                    {index < block.matchPairs.length
+                      ? block.matchPairs[index].prompt || <em className="empty-field">Empty prompt</em>
+                      : <em className="quiz-order-unused">Not used</em>}
+                  </span>
+                )}
+                <SortableAnswerItem
+                  item={item}
+                  index={index}
+                  count={orderedItems.length}
+                  itemState={itemState}
+                  isLocked={isLocked}
+                  onMove={(offset) => onChange(moveAnswerItem(order, item.id, offset))}
+                />
+                {isRevealingAnswer && itemState === 'is-incorrect' && expectedText !== undefined && (
+                  <span className="quiz-answer-reveal quiz-order-reveal">Correct: {expectedText}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </SortableContext>
+    </DndContext>
+  );
+}
+
+interface SortableAnswerItemProps {
+  item: QuizListItem;
+  index: number;
+  count: number;
+  itemState: string;
+  isLocked: boolean;
+  onMove: (offset: -1 | 1) => void;
+}
+
+function SortableAnswerItem({ item, index, count, itemState, isLocked, onMove }: SortableAnswerItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.id,
+    disabled: isLocked,
+  });
+  const label = item.text || `Item ${index + 1}`;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`quiz-order-item ${itemState} ${isDragging ? 'is-dragging' : ''}`}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+      }}
+    >
+      <span
+        className="quiz-order-handle"
+        {...attributes}
+        {...listeners}
+        aria-label={`Drag ${label}, position ${index + 1} of ${count}`}
+      >
+        <GripVertical size={16} />
+      </span>
+      <span className="quiz-order-text">{item.text || <em className="empty-field">Empty item</em>}</span>
+      <span className="quiz-order-move">
+        <button
+          type="button"
+          onClick={() => onMove(-1)}
+          disabled={isLocked || index === 0}
+          aria-label={`Move ${label} up`}
+        >
+          <ChevronUp size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(1)}
+          disabled={isLocked || index === count - 1}
+          aria-label={`Move ${label} down`}
+        >
+          <ChevronDown size={16} />
+        </button>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+interface RecoveryPromptProps {
+  savedAt: number; // Timestamp of the unsaved draft
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export function RecoveryPrompt({ savedAt, onRestore, onDiscard }: RecoveryPromptProps) {
+  const formattedTime = new Date(savedAt).toLocaleString();
+
+  return (
+    <div className="recovery-dialog-overlay">
+      <div className="recovery-dialog" role="alertdialog" aria-labelledby="recovery-dialog-title">
+        <h3 id="recovery-dialog-title">Restore unsaved changes?</h3>
+        <p>
+          The editor closed before your latest changes were saved. We found a copy from {formattedTime}.
+        </p>
+        <div className="recovery-dialog-actions">
+          <button
+            type="button"
+            className="recovery-dialog-button recovery-dialog-button-secondary"
+            onClick={onDiscard}
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            className="recovery-dialog-button recovery-dialog-button-primary"
+            onClick={onRestore}
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
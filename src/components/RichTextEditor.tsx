@@ -10,6 +10,7 @@ import Link from '@tiptap/extension-link';
 import TextAlign from '@tiptap/extension-text-align';
 import { FontSize } from '../extensions/FontSize';
 import { AiHighlight } from '../extensions/AiHighlight';
+import { ClozeBlank } from '../extensions/ClozeBlank';
 import { BubbleToolbar } from './BubbleToolbar';
 
 interface RichTextEditorProps {
@@ -33,6 +34,7 @@ export function RichTextEditor({ content, isEditable, onUpdate, onBlur, defaultF
       TextStyle,
       FontSize,
       AiHighlight,
+      ClozeBlank,
       Underline,
       Strike,
       Subscript,
@@ -0,0 +1,87 @@
+import type { Row, RowGate } from '../types';
+import { collectQuizBlocks } from '../utils/quiz';
+import { collectQuestionDrawBlocks } from '../utils/questionBanks';
+import { createRowGate, DEFAULT_CONTINUE_LABEL } from '../utils/rowGates';
+import { PanelSection } from './ui/PanelSection';
+import { PropertyRow } from './ui/PropertyRow';
+import { SegmentedTextControl } from './ui/SegmentedTextControl';
+import { NumberPillInput } from './ui/NumberPillInput';
+
+interface RowGateSettingsProps {
+  row: Row;
+  onUpdateGate: (gate: RowGate | undefined) => void;
+}
+
+// Knowledge-check gate of a row - whether and how it locks the rows after it
+export function RowGateSettings({ row, onUpdateGate }: RowGateSettingsProps) {
+  const gate = row.props?.gate;
+  const hasQuizzes = collectQuizBlocks([row]).length > 0 || collectQuestionDrawBlocks([row]).length > 0;
+
+  const updateGate = (updates: Partial<RowGate>) => {
+    if (gate) onUpdateGate({ ...gate, ...updates });
+  };
+
+  return (
+    <PanelSection title="Knowledge check">
+      <PropertyRow label="Gate">
+        <SegmentedTextControl
+          value={gate ? 'yes' : 'no'}
+          segments={[
+            { value: 'no', label: 'No' },
+            { value: 'yes', label: 'Yes' },
+          ]}
+          onChange={(value) => onUpdateGate(value === 'yes' ? gate ?? createRowGate() : undefined)}
+        />
+      </PropertyRow>
+      {gate && (
+        <>
+          <PropertyRow label="Locked rows">
+            <SegmentedTextControl
+              value={gate.lockStyle}
+              segments={[
+                { value: 'hide', label: 'Hide' },
+                { value: 'blur', label: 'Blur' },
+              ]}
+              onChange={(value) => updateGate({ lockStyle: value as RowGate['lockStyle'] })}
+            />
+          </PropertyRow>
+          <PropertyRow label="Unlock after">
+            <NumberPillInput
+              value={gate.attemptsToUnlock ?? 0}
+              onChange={(value) => updateGate({ attemptsToUnlock: value > 0 ? value : undefined })}
+              min={0}
+            />
+          </PropertyRow>
+          <PropertyRow label="Continue">
+            <SegmentedTextControl
+              value={gate.continueButton ? 'yes' : 'no'}
+              segments={[
+                { value: 'no', label: 'No' },
+                { value: 'yes', label: 'Button' },
+              ]}
+              onChange={(value) => updateGate({ continueButton: value === 'yes' })}
+            />
+          </PropertyRow>
+          {gate.continueButton && (
+            <PropertyRow label="Label">
+              <input
+                type="text"
+                value={gate.continueLabel}
+                onChange={(e) => updateGate({ continueLabel: e.target.value })}
+                className="property-input"
+                placeholder={DEFAULT_CONTINUE_LABEL}
+              />
+            </PropertyRow>
+          )}
+          <span className="media-settings-hint row-gate-hint">
+            {!hasQuizzes
+              ? 'Add a quiz to this row - a gate without quizzes does not lock anything.'
+              : gate.attemptsToUnlock
+                ? `Rows below unlock when every quiz in this row is correct, has had ${gate.attemptsToUnlock} ${gate.attemptsToUnlock === 1 ? 'attempt' : 'attempts'} or has no attempts left.`
+                : 'Rows below unlock when every quiz in this row is answered correctly or has no attempts left. Set "Unlock after" to also unlock after a number of attempts.'}
+          </span>
+        </>
+      )}
+    </PanelSection>
+  );
+}
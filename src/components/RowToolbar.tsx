@@ -33,12 +33,21 @@ const EditIcon = () => (
   </svg>
 );
 
+// Lock icon, used for the knowledge-check gate toggle
+const GateIcon = () => (
+  <svg aria-hidden="true" viewBox="0 0 24 24" fill="none" width="24" height="24">
+    <path fill="currentColor" fillRule="evenodd" d="M12 2a5 5 0 0 0-5 5v3H6a2 2 0 0 0-2 2v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8a2 2 0 0 0-2-2h-1V7a5 5 0 0 0-5-5Zm3 8V7a3 3 0 1 0-6 0v3h6Zm-9 2v8h12v-8H6Zm7 2v4h-2v-4h2Z" clipRule="evenodd"></path>
+  </svg>
+);
+
 interface RowToolbarProps {
   rowContainerRef: React.RefObject<HTMLElement>;
   onDelete: () => void;
   onDuplicate: () => void;
   onDragStart: (e: React.MouseEvent) => void;
   onEdit?: () => void; // Open properties panel for row
+  onToggleGate?: () => void; // Switch the knowledge-check gate of the row on or off
+  isGated?: boolean;
   isEmptyState?: boolean; // If true, only show delete button
   isEmptyColumnsBlock?: boolean; // If true, only show delete and ellipsis buttons (for empty columns blocks)
 }
@@ -49,6 +58,8 @@ export function RowToolbar({
   onDuplicate,
   onDragStart,
   onEdit,
+  onToggleGate,
+  isGated = false,
   isEmptyState = false,
   isEmptyColumnsBlock = false,
 }: RowToolbarProps) {
@@ -209,6 +220,25 @@ export function RowToolbar({
           <div className="row-toolbar-divider"></div>
         </>
       )}
+      {/* Gate button - locks the rows after this one in the preview until its quizzes are passed */}
+      {onToggleGate && !isEmptyState && !isEmptyColumnsBlock && (
+        <>
+          <button
+            type="button"
+            className={`row-toolbar-button ${isGated ? 'active' : ''}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleGate();
+            }}
+            aria-label="Knowledge-check gate"
+            aria-pressed={isGated}
+            title={isGated ? 'Following rows unlock once this row\'s quizzes are passed' : 'Lock following rows until this row\'s quizzes are passed'}
+          >
+            <GateIcon />
+          </button>
+          <div className="row-toolbar-divider"></div>
+        </>
+      )}
       <button
         type="button"
         className="row-toolbar-button"
@@ -1,24 +1,11 @@
 import React, { useRef } from 'react';
-import type { Row, Resource, Block, ThemeSpecificRowProps } from '../types';
+import type { Row, Resource, Block } from '../types';
 import { isBlock, isConstructor } from '../utils/sections';
 import { CellView } from './CellView';
 import { RowToolbar } from './RowToolbar';
 import { EmptyStateRow } from './EmptyStateRow';
 import { useThemeSwitcher, useTheme } from '../theme/ThemeProvider';
-import { curatedStyles } from '../styles/curatedStyles';
-
-// Helper function to convert hex color to rgba with opacity
-function hexToRgba(hex: string, opacity: number = 1): string {
-  // Remove # if present
-  const cleanHex = hex.replace('#', '');
-  
-  // Parse hex to RGB
-  const r = parseInt(cleanHex.substring(0, 2), 16);
-  const g = parseInt(cleanHex.substring(2, 4), 16);
-  const b = parseInt(cleanHex.substring(4, 6), 16);
-  
-  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
-}
+import { getRowThemeProps, hexToRgba } from '../theme/containerProps';
 
 interface RowViewProps {
   row: Row;
@@ -38,6 +25,7 @@ interface RowViewProps {
   onDeleteRow?: () => void;
   onDuplicateRow?: () => void;
   onEditRow?: () => void; // Open properties panel for row
+  onToggleRowGate?: () => void; // Switch the knowledge-check gate of the row on or off
   onAddEmptyStateRow?: () => void;
   renderResource: (resource: Resource) => React.ReactNode;
   activeId?: string | null;
@@ -46,98 +34,12 @@ interface RowViewProps {
   pageProps?: {
     themes?: {
       [key: string]: {
-        maxRowWidth?: number;
+        maxRowWidth?: number | null;
       } | undefined;
     };
   };
 }
 
-// Helper function to get theme-specific row properties with fallback to legacy props and theme defaults
-function getRowThemeProps(row: Row, themeId: string, theme: any): ThemeSpecificRowProps {
-  // Try to get theme-specific props (works for 'plain', 'neon', and any custom theme ID)
-  const themeProps = row.props?.themes?.[themeId];
-  
-  // Check if row should use default theme style
-  // - styleId === null means explicitly using default style
-  // - no themeProps at all means row should inherit default style from theme
-  const shouldUseDefaultStyle = themeProps?.styleId === null || (!themeProps && theme?.defaultRowStyle);
-  
-  // If row should use default style, apply it
-  if (shouldUseDefaultStyle && theme?.defaultRowStyle) {
-    const defaultStyle = theme.defaultRowStyle;
-    let defaultStyleProperties: Partial<ThemeSpecificRowProps> = {};
-    
-    if (defaultStyle.type === 'curated' && defaultStyle.curatedId) {
-      // Get curated style properties
-      const curatedStyle = curatedStyles.find(s => s.id === defaultStyle.curatedId);
-      if (curatedStyle) {
-        defaultStyleProperties = curatedStyle.getProperties({
-          accent: theme.colors.accent || '#326CF6',
-          surface: theme.colors.surface || '#ffffff',
-          border: theme.colors.border || '#e0e0e0',
-        });
-      }
-    } else if (defaultStyle.type === 'custom' && defaultStyle.customProperties) {
-      defaultStyleProperties = defaultStyle.customProperties;
-    }
-    
-    // Merge default style properties with any existing theme props
-    // Always include styleId: null to mark this as default style
-    return {
-      ...defaultStyleProperties,
-      ...themeProps, // Allow theme-specific props to override default style
-      styleId: null, // Ensure styleId is set to null to indicate default style
-    };
-  }
-  
-  // Get theme defaults - use fallback only if rowBackground doesn't exist at all
-  const defaultBackground = theme?.rowBackground ? {
-    backgroundColor: theme.rowBackground.backgroundColor,
-    backgroundColorOpacity: theme.rowBackground.backgroundColorOpacity ?? 1,
-    backgroundImage: theme.rowBackground.backgroundImage,
-    backgroundImageOpacity: theme.rowBackground.backgroundImageOpacity ?? 1,
-  } : { backgroundColor: '#ffffff', backgroundColorOpacity: 1, backgroundImage: undefined, backgroundImageOpacity: 1 };
-  
-  // If theme-specific props exist, merge with theme defaults for missing background properties
-  // BUT: If a style is applied (styleId is not undefined), don't apply white fallback for backgroundColor
-  // Styles may intentionally not define backgroundColor (transparent)
-  if (themeProps) {
-    const hasStyle = themeProps.styleId !== undefined; // null = default style, string = custom style, undefined = no style
-    
-    return {
-      ...themeProps,
-      // Use theme defaults if background properties are not set in theme-specific props
-      // BUT: If a style is applied and doesn't define backgroundColor, leave it undefined (transparent)
-      backgroundColor: themeProps.backgroundColor ?? (hasStyle ? undefined : defaultBackground.backgroundColor),
-      backgroundColorOpacity: themeProps.backgroundColorOpacity ?? defaultBackground.backgroundColorOpacity ?? 1,
-      backgroundImage: themeProps.backgroundImage ?? defaultBackground.backgroundImage,
-      backgroundImageOpacity: themeProps.backgroundImageOpacity ?? defaultBackground.backgroundImageOpacity ?? 1,
-    };
-  }
-  
-  // Fallback to legacy props for backward compatibility
-  const legacyProps = {
-    verticalAlign: row.props?.verticalAlign,
-    padding: row.props?.padding,
-    backgroundColor: row.props?.backgroundColor,
-    backgroundColorOpacity: row.props?.backgroundColorOpacity,
-    backgroundImage: row.props?.backgroundImage,
-    backgroundImageOpacity: row.props?.backgroundImageOpacity,
-    border: row.props?.border,
-    borderRadius: row.props?.borderRadius,
-  };
-  
-  // Always use theme defaults for background if not explicitly set in legacy props
-  // This ensures new rows get the correct background from theme defaults
-  return {
-    ...legacyProps,
-    backgroundColor: legacyProps.backgroundColor ?? defaultBackground.backgroundColor,
-    backgroundColorOpacity: legacyProps.backgroundColorOpacity ?? defaultBackground.backgroundColorOpacity ?? 1,
-    backgroundImage: legacyProps.backgroundImage ?? defaultBackground.backgroundImage,
-    backgroundImageOpacity: legacyProps.backgroundImageOpacity ?? defaultBackground.backgroundImageOpacity ?? 1,
-  };
-}
-
 export function RowView({
   row,
   selectedBlockId,
@@ -156,6 +58,7 @@ export function RowView({
   onDeleteRow,
   onDuplicateRow,
   onEditRow,
+  onToggleRowGate,
   onAddEmptyStateRow,
   renderResource,
   activeId,
@@ -486,6 +389,18 @@ export function RowView({
             />
           ))}
         </div>
+        {/* Hidden marker - the row is left out of the preview until a button reveals it */}
+        {!isPreview && row.props?.hiddenUntilRevealed && (
+          <div className="row-gate-marker row-hidden-marker">
+            Hidden until revealed by a button
+          </div>
+        )}
+        {/* Gate marker - the rows below stay locked in the preview until this row's quizzes are passed */}
+        {!isPreview && row.props?.gate && (
+          <div className="row-gate-marker">
+            Knowledge check - following rows unlock once passed
+          </div>
+        )}
         {/* Add section button - shown at bottom of selected row */}
         {isSelected && 
          !isPreview && 
@@ -520,6 +435,8 @@ export function RowView({
             onDuplicate={onDuplicateRow}
             onDragStart={handleDragStart}
             onEdit={onEditRow}
+            onToggleGate={row.props?.isColumnsBlock ? undefined : onToggleRowGate}
+            isGated={!!row.props?.gate}
             isEmptyColumnsBlock={row.props?.isColumnsBlock === true && row.cells.every(cell => cell.resources.length === 0)}
           />
       )}
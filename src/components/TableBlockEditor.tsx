@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { TableBlock } from '../types';
+import { RichTextEditor } from './RichTextEditor';
+import type { TablePosition } from '../utils/tables';
+import {
+  getColumnCount,
+  getCoveredCells,
+  getTableRange,
+  insertTableColumn,
+  insertTableRow,
+  mergeTableCells,
+  removeTableColumn,
+  removeTableRow,
+  splitTableCell,
+} from '../utils/tables';
+
+interface TableBlockEditorProps {
+  block: TableBlock;
+  onUpdate: (updates: Partial<TableBlock>) => void;
+}
+
+// Inline table editor - click a cell to write in it, shift-click another to select a range to merge
+export function TableBlockEditor({ block, onUpdate }: TableBlockEditorProps) {
+  const [activeCell, setActiveCell] = useState<TablePosition>({ row: 0, column: 0 });
+  const [selectionEnd, setSelectionEnd] = useState<TablePosition | null>(null);
+
+  const rowCount = block.cells.length;
+  const columnCount = getColumnCount(block);
+  const covered = getCoveredCells(block.cells);
+  // The active cell may have been removed or covered since it was chosen
+  const active = { row: Math.min(activeCell.row, rowCount - 1), column: Math.min(activeCell.column, columnCount - 1) };
+  const isActiveVisible = !covered[active.row][active.column];
+  const activeTableCell = block.cells[active.row][active.column];
+  const range = getTableRange(block.cells, active, selectionEnd ?? active);
+  const isRangeSelected = range.top !== range.bottom || range.left !== range.right;
+  const isMerged = (activeTableCell.colSpan ?? 1) > 1 || (activeTableCell.rowSpan ?? 1) > 1;
+
+  const selectCell = (position: TablePosition, extend: boolean) => {
+    if (extend) {
+      setSelectionEnd(position);
+    } else {
+      setActiveCell(position);
+      setSelectionEnd(null);
+    }
+  };
+
+  const updateCellBody = (position: TablePosition, body: string) => {
+    onUpdate({
+      cells: block.cells.map((row, rowIndex) =>
+        row.map((cell, columnIndex) =>
+          rowIndex === position.row && columnIndex === position.column ? { ...cell, body } : cell
+        )
+      ),
+    });
+  };
+
+  const runStructureChange = (next: TableBlock, nextActive: TablePosition = active) => {
+    onUpdate({ cells: next.cells });
+    setActiveCell(nextActive);
+    setSelectionEnd(null);
+  };
+
+  const toolbarButtons: { label: string; title: string; onClick: () => void; disabled?: boolean }[] = [
+    { label: 'Row above', title: 'Insert a row above', onClick: () => runStructureChange(insertTableRow(block, active.row), { ...active, row: active.row + 1 }) },
+    { label: 'Row below', title: 'Insert a row below', onClick: () => runStructureChange(insertTableRow(block, active.row + (activeTableCell.rowSpan ?? 1))) },
+    { label: 'Delete row', title: 'Delete this row', onClick: () => runStructureChange(removeTableRow(block, active.row)), disabled: rowCount <= 1 },
+    { label: 'Column left', title: 'Insert a column to the left', onClick: () => runStructureChange(insertTableColumn(block, active.column), { ...active, column: active.column + 1 }) },
+    { label: 'Column right', title: 'Insert a column to the right', onClick: () => runStructureChange(insertTableColumn(block, active.column + (activeTableCell.colSpan ?? 1))) },
+    { label: 'Delete column', title: 'Delete this column', onClick: () => runStructureChange(removeTableColumn(block, active.column)), disabled: columnCount <= 1 },
+    { label: 'Merge', title: 'Merge the selected cells', onClick: () => runStructureChange(mergeTableCells(block, range), { row: range.top, column: range.left }), disabled: !isRangeSelected },
+    { label: 'Split', title: 'Split the merged cell', onClick: () => runStructureChange(splitTableCell(block, active)), disabled: !isMerged },
+  ];
+
+  return (
+    <div
+      className="table-block-editor"
+      onMouseDown={(e) => e.stopPropagation()} // Don't start a block drag while editing the table
+    >
+      <div className="table-block-editor-toolbar" role="toolbar" aria-label="Table">
+        {toolbarButtons.map((button) => (
+          <button
+            key={button.label}
+            type="button"
+            className="table-block-editor-button"
+            onClick={button.onClick}
+            disabled={button.disabled}
+            title={button.title}
+          >
+            {button.label}
+          </button>
+        ))}
+        <span className="table-block-editor-hint">Shift-click a cell to select cells to merge</span>
+      </div>
+
+      <div className="table-block-scroll">
+        <table className="table-block">
+          <tbody>
+            {block.cells.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, columnIndex) => {
+                  if (covered[rowIndex][columnIndex]) return null;
+                  const isActive = isActiveVisible && rowIndex === active.row && columnIndex === active.column;
+                  const isSelected = isRangeSelected &&
+                    rowIndex >= range.top && rowIndex <= range.bottom && columnIndex >= range.left && columnIndex <= range.right;
+                  const isHeader = (block.hasHeaderRow && rowIndex === 0) || (block.hasHeaderColumn && columnIndex === 0);
+                  return (
+                    <td
+                      key={cell.id}
+                      colSpan={cell.colSpan}
+                      rowSpan={cell.rowSpan}
+                      className={`${isHeader ? 'table-block-header-cell' : ''} ${isActive ? 'is-active' : ''} ${isSelected ? 'is-selected' : ''}`}
+                      onClick={(e) => {
+                        if (!isActive || e.shiftKey) selectCell({ row: rowIndex, column: columnIndex }, e.shiftKey);
+                      }}
+                    >
+                      {isActive && !isRangeSelected ? (
+                        <div className="rich-text-editor-container">
+                          <RichTextEditor
+                            key={cell.id}
+                            content={cell.body}
+                            isEditable={true}
+                            onUpdate={(html) => updateCellBody({ row: rowIndex, column: columnIndex }, html)}
+                          />
+                        </div>
+                      ) : (
+                        <div className="table-block-cell-body rich-text-readonly" dangerouslySetInnerHTML={{ __html: cell.body }} />
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import type React from 'react';
+import type { TableBlock, TableBlockCell } from '../types';
+import { useTheme } from '../theme/ThemeProvider';
+import { isPhoneDevice, usePreviewDevice } from '../preview/previewDevice';
+import { getCoveredCells, getTableBorder } from '../utils/tables';
+import { TableBlockEditor } from './TableBlockEditor';
+
+interface TableBlockViewProps {
+  block: TableBlock;
+  isEditing: boolean;
+  isPreview: boolean;
+  onUpdate: (updates: Partial<TableBlock>) => void;
+}
+
+export function TableBlockView({ block, isEditing, isPreview, onUpdate }: TableBlockViewProps) {
+  const theme = useTheme();
+  const deviceType = usePreviewDevice();
+  const border = getTableBorder(theme);
+  const style = { '--table-border': border } as React.CSSProperties;
+
+  if (isEditing && !isPreview) {
+    return (
+      <div className="block-view table-block-view" style={style}>
+        <TableBlockEditor block={block} onUpdate={onUpdate} />
+      </div>
+    );
+  }
+
+  // Cards need a header row to label each value
+  const isStacked = isPreview && isPhoneDevice(deviceType) && block.phoneLayout === 'stack' && block.hasHeaderRow && block.cells.length > 1;
+
+  return (
+    <div className="block-view table-block-view" style={style}>
+      {isStacked ? <TableCards block={block} /> : <TableGrid block={block} isPreview={isPreview} />}
+    </div>
+  );
+}
+
+function CellContent({ cell }: { cell: TableBlockCell }) {
+  return <div className="table-block-cell-body rich-text-readonly" dangerouslySetInnerHTML={{ __html: cell.body }} />;
+}
+
+interface TableGridProps {
+  block: TableBlock;
+  isPreview: boolean;
+}
+
+// The table itself, scrolling sideways when it is wider than the lesson
+function TableGrid({ block, isPreview }: TableGridProps) {
+  const covered = getCoveredCells(block.cells);
+  const headerRows = block.hasHeaderRow ? block.cells.slice(0, 1) : [];
+  const bodyRows = block.hasHeaderRow ? block.cells.slice(1) : block.cells;
+  const bodyOffset = headerRows.length;
+
+  const renderRow = (row: TableBlockCell[], rowIndex: number) => (
+    <tr key={rowIndex}>
+      {row.map((cell, columnIndex) => {
+        if (covered[rowIndex][columnIndex]) return null;
+        const spans = { colSpan: cell.colSpan, rowSpan: cell.rowSpan };
+        if (block.hasHeaderRow && rowIndex === 0) {
+          return <th key={cell.id} scope="col" {...spans}><CellContent cell={cell} /></th>;
+        }
+        if (block.hasHeaderColumn && columnIndex === 0) {
+          return <th key={cell.id} scope="row" {...spans}><CellContent cell={cell} /></th>;
+        }
+        return <td key={cell.id} {...spans}><CellContent cell={cell} /></td>;
+      })}
+    </tr>
+  );
+
+  return (
+    <div
+      className="table-block-scroll"
+      // Scrollable regions must be reachable by keyboard
+      tabIndex={isPreview ? 0 : undefined}
+      role={isPreview ? 'region' : undefined}
+      aria-label={isPreview ? block.caption || block.title || 'Table' : undefined}
+    >
+      <table className="table-block">
+        {block.caption && <caption>{block.caption}</caption>}
+        {headerRows.length > 0 && <thead>{headerRows.map(renderRow)}</thead>}
+        <tbody>{bodyRows.map((row, index) => renderRow(row, index + bodyOffset))}</tbody>
+      </table>
+    </div>
+  );
+}
+
+// Phone layout - one card per body row, each value labelled with its column header
+function TableCards({ block }: { block: TableBlock }) {
+  const covered = getCoveredCells(block.cells);
+  const headerRow = block.cells[0];
+  // A merged header labels every column it spans
+  const headerCells = headerRow.map((_, columnIndex) => {
+    let anchor = columnIndex;
+    while (anchor > 0 && covered[0][anchor]) anchor--;
+    return headerRow[anchor];
+  });
+
+  return (
+    <div className="table-block-cards">
+      {block.caption && <p className="table-block-cards-caption">{block.caption}</p>}
+      {block.cells.slice(1).map((row, index) => {
+        const rowIndex = index + 1;
+        const titleCell = block.hasHeaderColumn && !covered[rowIndex][0] ? row[0] : null;
+        return (
+          <div key={rowIndex} className="table-block-card">
+            {titleCell && (
+              <div className="table-block-card-title">
+                <CellContent cell={titleCell} />
+              </div>
+            )}
+            <dl>
+              {row.map((cell, columnIndex) => {
+                if (covered[rowIndex][columnIndex] || cell === titleCell) return null;
+                return (
+                  <div key={cell.id} className="table-block-card-item">
+                    <dt><CellContent cell={headerCells[columnIndex]} /></dt>
+                    <dd><CellContent cell={cell} /></dd>
+                  </div>
+                );
+              })}
+            </dl>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
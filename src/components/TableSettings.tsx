@@ -0,0 +1,65 @@
+import type { TableBlock, TablePhoneLayout } from '../types';
+import { getColumnCount } from '../utils/tables';
+
+interface TableSettingsProps {
+  block: TableBlock;
+  onUpdate: (updates: Partial<TableBlock>) => void;
+}
+
+// Caption, headers and phone layout of a table - rows, columns and merges are edited on the canvas
+export function TableSettings({ block, onUpdate }: TableSettingsProps) {
+  return (
+    <div className="media-settings-panel">
+      <div className="property-group">
+        <label htmlFor="table-caption">Caption</label>
+        <input
+          id="table-caption"
+          type="text"
+          value={block.caption || ''}
+          onChange={(e) => onUpdate({ caption: e.target.value || undefined })}
+          className="property-input"
+          placeholder="What the table shows"
+        />
+      </div>
+
+      <div className="property-group">
+        <label>Headers</label>
+        <label className="media-settings-checkbox">
+          <input
+            type="checkbox"
+            checked={block.hasHeaderRow}
+            onChange={(e) => onUpdate({ hasHeaderRow: e.target.checked })}
+          />
+          First row is a header
+        </label>
+        <label className="media-settings-checkbox">
+          <input
+            type="checkbox"
+            checked={block.hasHeaderColumn}
+            onChange={(e) => onUpdate({ hasHeaderColumn: e.target.checked })}
+          />
+          First column is a header
+        </label>
+        <span className="media-settings-hint">
+          {block.cells.length} × {getColumnCount(block)} - double-click the table on the canvas to add rows and columns or merge cells.
+        </span>
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="table-phone-layout">On phones</label>
+        <select
+          id="table-phone-layout"
+          value={block.phoneLayout}
+          onChange={(e) => onUpdate({ phoneLayout: e.target.value as TablePhoneLayout })}
+          className="property-select"
+        >
+          <option value="scroll">Scroll sideways</option>
+          <option value="stack">One card per row</option>
+        </select>
+        {block.phoneLayout === 'stack' && !block.hasHeaderRow && (
+          <span className="media-settings-hint">Cards need a header row to label their values - the table scrolls until it has one.</span>
+        )}
+      </div>
+    </div>
+  );
+}
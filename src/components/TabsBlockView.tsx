@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type React from 'react';
+import type { TabsBlock } from '../types';
+import { getPanelTitle } from '../utils/panels';
+import { PanelCell } from './PanelCell';
+import type { PanelCellProps } from './PanelCell';
+
+interface TabsBlockViewProps extends Omit<PanelCellProps, 'cell' | 'rowId'> {
+  block: TabsBlock;
+}
+
+export function TabsBlockView({ block, ...panelProps }: TabsBlockViewProps) {
+  const [selectedIndex, setSelectedIndex] = useState(block.defaultPanelIndex);
+  const panelCount = block.row.cells.length;
+  // Panels may have been removed since the tab was chosen
+  const activeIndex = Math.max(0, Math.min(selectedIndex, panelCount - 1));
+  const getTabId = (index: number) => `tabs-${block.id}-tab-${index}`;
+  const getPanelId = (index: number) => `tabs-${block.id}-panel-${index}`;
+
+  // Arrow keys, Home and End move between tabs (and select them), as in the ARIA tabs pattern
+  const handleTabKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const nextIndex =
+      e.key === 'ArrowRight' ? (index + 1) % panelCount
+        : e.key === 'ArrowLeft' ? (index - 1 + panelCount) % panelCount
+        : e.key === 'Home' ? 0
+        : e.key === 'End' ? panelCount - 1
+        : null;
+    if (nextIndex === null) return;
+    e.preventDefault();
+    setSelectedIndex(nextIndex);
+    document.getElementById(getTabId(nextIndex))?.focus();
+  };
+
+  return (
+    <div className="block-view tabs-block-view">
+      <div className="tabs-block-list" role="tablist" aria-label={block.title || 'Tabs'}>
+        {block.row.cells.map((cell, index) => (
+          <button
+            key={cell.id}
+            type="button"
+            role="tab"
+            id={getTabId(index)}
+            className={`tabs-block-tab ${index === activeIndex ? 'is-active' : ''}`}
+            aria-selected={index === activeIndex}
+            aria-controls={getPanelId(index)}
+            tabIndex={index === activeIndex ? 0 : -1}
+            onClick={() => setSelectedIndex(index)}
+            onKeyDown={(e) => handleTabKeyDown(e, index)}
+          >
+            {getPanelTitle(block, index)}
+          </button>
+        ))}
+      </div>
+      {block.row.cells.map((cell, index) => (
+        <div
+          key={cell.id}
+          role="tabpanel"
+          id={getPanelId(index)}
+          aria-labelledby={getTabId(index)}
+          className="tabs-block-panel"
+          tabIndex={0}
+          hidden={index !== activeIndex}
+        >
+          <PanelCell {...panelProps} cell={cell} rowId={block.row.id} />
+        </div>
+      ))}
+    </div>
+  );
+}
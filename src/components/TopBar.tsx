@@ -1,5 +1,5 @@
 import { useThemeSwitcher } from '../theme/ThemeProvider';
-import { PanelRight, PanelRightClose } from 'lucide-react';
+import { Download, FileInput, Library, PanelRight, PanelRightClose, Redo2, Undo2 } from 'lucide-react';
 
 interface TopBarProps {
   isPreview: boolean;
@@ -9,8 +9,27 @@ interface TopBarProps {
   showStructureStrokes: boolean;
   onToggleStructureStrokes: () => void;
   onOpenThemeEditor: () => void;
+  onOpenExport: () => void;
+  onOpenQtiImport: () => void;
+  lessonTitle?: string;
+  onOpenLibrary: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  saveStatus?: SaveStatus;
+  saveError?: string | null; // Shown as a tooltip when saveStatus is 'error'
 }
 
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const saveStatusLabels: Record<SaveStatus, string> = {
+  idle: '',
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  error: 'Changes not saved',
+};
+
 // Grid/Layout icon SVG
 const GridIcon = () => (
   <svg aria-hidden="true" viewBox="0 0 24 24" fill="none" style={{ width: '18px', height: '18px' }}>
@@ -25,13 +44,55 @@ const PaletteIcon = () => (
   </svg>
 );
 
-export function TopBar({ isPreview, onTogglePreview, isRightSidebarOpen, onToggleRightSidebar, showStructureStrokes, onToggleStructureStrokes, onOpenThemeEditor }: TopBarProps) {
+export function TopBar({ isPreview, onTogglePreview, isRightSidebarOpen, onToggleRightSidebar, showStructureStrokes, onToggleStructureStrokes, onOpenThemeEditor, onOpenExport, onOpenQtiImport, lessonTitle, onOpenLibrary, canUndo = false, canRedo = false, onUndo, onRedo, saveStatus = 'idle', saveError }: TopBarProps) {
   const { themeId, setThemeId, customThemes } = useThemeSwitcher();
 
   return (
     <div className="top-bar">
-      <h1 className="top-bar-title">Lesson Builder</h1>
+      <h1 className="top-bar-title">
+        <button
+          type="button"
+          className="top-bar-title-button"
+          onClick={onOpenLibrary}
+          title="Open lesson library"
+        >
+          <Library size={16} />
+          Lesson Builder
+        </button>
+        {lessonTitle && <span className="top-bar-lesson-title">{lessonTitle}</span>}
+      </h1>
       <div className="top-bar-actions">
+        <div className="top-bar-history">
+          <button
+            type="button"
+            className="top-bar-history-button"
+            onClick={onUndo}
+            disabled={!canUndo}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            type="button"
+            className="top-bar-history-button"
+            onClick={onRedo}
+            disabled={!canRedo}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={16} />
+          </button>
+        </div>
+        {saveStatus !== 'idle' && (
+          <span
+            className={`save-status save-status-${saveStatus}`}
+            role={saveStatus === 'error' ? 'alert' : 'status'}
+            title={saveStatus === 'error' && saveError ? saveError : undefined}
+          >
+            {saveStatusLabels[saveStatus]}
+          </span>
+        )}
         <div className="theme-toggle">
           <button
             type="button"
@@ -99,6 +160,24 @@ export function TopBar({ isPreview, onTogglePreview, isRightSidebarOpen, onToggl
         >
           <PaletteIcon />
         </button>
+        <button
+          type="button"
+          className="export-toggle"
+          onClick={onOpenExport}
+          aria-label="Export lesson"
+          title="Export"
+        >
+          <Download size={18} />
+        </button>
+        <button
+          type="button"
+          className="import-toggle"
+          onClick={onOpenQtiImport}
+          aria-label="Import QTI quizzes"
+          title="Import QTI quizzes"
+        >
+          <FileInput size={18} />
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,124 @@
+import { useRef } from 'react';
+import type { VideoBlock } from '../types';
+import { getTrimmedMediaUrl } from '../utils/media';
+import { usePreviewTracking } from '../preview/previewTracking';
+
+interface VideoBlockViewProps {
+  block: VideoBlock;
+  isPreview: boolean;
+}
+
+export function VideoBlockView({ block, isPreview }: VideoBlockViewProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const tracking = usePreviewTracking();
+
+  const startTime = block.startTime ?? 0;
+  const endTime = block.endTime !== undefined && block.endTime > startTime ? block.endTime : undefined;
+  const isTrimmed = startTime > 0 || endTime !== undefined;
+
+  // Autoplay only in preview - a playing video on the canvas gets in the way of editing
+  const shouldAutoplay = isPreview && !!block.autoplay;
+
+  // Keep playback inside the trimmed range (media fragments aren't supported for data URLs,
+  // and the native loop attribute would restart from 0)
+  const restartAtStart = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = startTime;
+    video.play().catch(() => {
+      // Playback can be blocked by the browser (e.g. unmuted autoplay)
+    });
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (video && startTime > 0 && video.currentTime < startTime) {
+      video.currentTime = startTime;
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || endTime === undefined || video.currentTime < endTime) return;
+
+    if (block.loop) {
+      restartAtStart();
+    } else {
+      video.pause();
+      video.currentTime = endTime;
+    }
+  };
+
+  const handleEnded = () => {
+    if (block.loop && isTrimmed) restartAtStart();
+  };
+
+  return (
+    <div
+      className="block-view video-block-view"
+      style={{
+        borderRadius: 'var(--radius-md)',
+      }}
+    >
+      {block.videoUrl ? (
+        <div
+          className="block-video-container"
+          style={{
+            borderRadius: 'var(--radius-md)',
+            overflow: 'hidden',
+            width: '100%',
+            aspectRatio: '16 / 9',
+            backgroundColor: '#000',
+          }}
+        >
+          <video
+            ref={videoRef}
+            key={block.videoUrl} // Reload when the source changes
+            src={getTrimmedMediaUrl(block.videoUrl, block.startTime, endTime)}
+            poster={block.posterUrl || undefined}
+            controls
+            playsInline
+            preload="metadata"
+            autoPlay={shouldAutoplay}
+            loop={!!block.loop && !isTrimmed}
+            muted={!!block.muted}
+            aria-label={block.title || 'Video'}
+            className="block-video"
+            style={{
+              width: '100%',
+              height: '100%',
+              display: 'block',
+            }}
+            onPlay={(e) => tracking?.mediaPlayed(block, e.currentTarget.currentTime)}
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={handleTimeUpdate}
+            onEnded={handleEnded}
+          >
+            {block.captions.map((track) => (
+              <track
+                key={track.id}
+                kind="captions"
+                src={track.src}
+                srcLang={track.srcLang}
+                label={track.label}
+                default={track.isDefault}
+              />
+            ))}
+          </video>
+        </div>
+      ) : (
+        <div
+          className="block-video-placeholder"
+          style={{
+            padding: 'var(--spacing-xl)',
+            borderRadius: 'var(--radius-md)',
+            border: `1px solid var(--color-border)`,
+            color: 'var(--color-muted-text)',
+          }}
+        >
+          {isPreview ? 'No video provided' : 'No video yet - upload a file or add a URL in the properties panel'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { Trash2, Upload } from 'lucide-react';
+import type { VideoBlock, VideoCaptionTrack } from '../types';
+import { readFileAsDataUrl, readWebVttFile, getCaptionLanguageFromFileName } from '../utils/media';
+
+interface VideoSettingsPanelProps {
+  block: VideoBlock;
+  onUpdate: (updates: Partial<VideoBlock>) => void;
+}
+
+// Parse a seconds input - empty means "not set"
+function parseSeconds(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+export function VideoSettingsPanel({ block, onUpdate }: VideoSettingsPanelProps) {
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const posterInputRef = useRef<HTMLInputElement>(null);
+  const captionsInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isUploadedVideo = block.videoUrl.startsWith('data:');
+
+  const handleFileUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+    read: (file: File) => Promise<void>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    try {
+      await read(file);
+      setError(null);
+    } catch (uploadError) {
+      console.error('Failed to read file:', uploadError);
+      setError(uploadError instanceof Error ? uploadError.message : `Could not read "${file.name}".`);
+    }
+  };
+
+  const uploadVideo = async (file: File) => {
+    if (!file.type.startsWith('video/')) {
+      throw new Error(`"${file.name}" is not a video file.`);
+    }
+    onUpdate({ videoUrl: await readFileAsDataUrl(file) });
+  };
+
+  const uploadPoster = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      throw new Error(`"${file.name}" is not an image file.`);
+    }
+    onUpdate({ posterUrl: await readFileAsDataUrl(file) });
+  };
+
+  const uploadCaptions = async (file: File) => {
+    const src = await readWebVttFile(file);
+    const track: VideoCaptionTrack = {
+      id: nanoid(),
+      label: file.name.replace(/(\.[a-z]{2,3}(-[A-Za-z0-9]{2,8})*)?\.vtt$/i, '') || 'Captions',
+      srcLang: getCaptionLanguageFromFileName(file.name) || 'en',
+      src,
+      isDefault: block.captions.length === 0, // The first track is shown by default
+    };
+    onUpdate({ captions: [...block.captions, track] });
+  };
+
+  const updateTrack = (trackId: string, updates: Partial<VideoCaptionTrack>) => {
+    onUpdate({
+      captions: block.captions.map((track) => (track.id === trackId ? { ...track, ...updates } : track)),
+    });
+  };
+
+  // Only one track can be the default
+  const setDefaultTrack = (trackId: string, isDefault: boolean) => {
+    onUpdate({
+      captions: block.captions.map((track) => ({
+        ...track,
+        isDefault: track.id === trackId ? isDefault : false,
+      })),
+    });
+  };
+
+  const removeTrack = (trackId: string) => {
+    onUpdate({ captions: block.captions.filter((track) => track.id !== trackId) });
+  };
+
+  return (
+    <div className="media-settings-panel">
+      {error && (
+        <div className="media-settings-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="property-group">
+        <label htmlFor="video-url">Video</label>
+        <input
+          id="video-url"
+          type="text"
+          value={isUploadedVideo ? '' : block.videoUrl}
+          onChange={(e) => onUpdate({ videoUrl: e.target.value })}
+          className="property-input"
+          placeholder={isUploadedVideo ? 'Uploaded file' : 'https://example.com/video.mp4'}
+        />
+        <div className="media-settings-actions">
+          <button type="button" className="media-settings-button" onClick={() => videoInputRef.current?.click()}>
+            <Upload size={14} />
+            Upload video
+          </button>
+          {block.videoUrl && (
+            <button type="button" className="media-settings-button" onClick={() => onUpdate({ videoUrl: '' })}>
+              Remove
+            </button>
+          )}
+        </div>
+        <input
+          ref={videoInputRef}
+          type="file"
+          accept="video/*"
+          style={{ display: 'none' }}
+          onChange={(e) => handleFileUpload(e, uploadVideo)}
+        />
+      </div>
+
+      <div className="property-group">
+        <label htmlFor="video-poster">Poster image</label>
+        <input
+          id="video-poster"
+          type="text"
+          value={block.posterUrl?.startsWith('data:') ? '' : block.posterUrl || ''}
+          onChange={(e) => onUpdate({ posterUrl: e.target.value })}
+          className="property-input"
+          placeholder={block.posterUrl?.startsWith('data:') ? 'Uploaded image' : 'https://example.com/poster.jpg'}
+        />
+        <div className="media-settings-actions">
+          <button type="button" className="media-settings-button" onClick={() => posterInputRef.current?.click()}>
+            <Upload size={14} />
+            Upload image
+          </button>
+          {block.posterUrl && (
+            <button type="button" className="media-settings-button" onClick={() => onUpdate({ posterUrl: '' })}>
+              Remove
+            </button>
+          )}
+        </div>
+        <input
+          ref={posterInputRef}
+          type="file"
+          accept="image/*"
+          style={{ display: 'none' }}
+          onChange={(e) => handleFileUpload(e, uploadPoster)}
+        />
+      </div>
+
+      <div className="property-group">
+        <label>Trim (seconds)</label>
+        <div className="media-settings-row">
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={block.startTime ?? ''}
+            onChange={(e) => onUpdate({ startTime: parseSeconds(e.target.value) })}
+            className="property-input"
+            placeholder="Start"
+            aria-label="Start time in seconds"
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={block.endTime ?? ''}
+            onChange={(e) => onUpdate({ endTime: parseSeconds(e.target.value) })}
+            className="property-input"
+            placeholder="End"
+            aria-label="End time in seconds"
+          />
+        </div>
+        {block.endTime !== undefined && block.endTime <= (block.startTime ?? 0) && (
+          <span className="media-settings-hint">The end time must be after the start time.</span>
+        )}
+      </div>
+
+      <div className="property-group">
+        <label>Playback</label>
+        <label className="media-settings-checkbox">
+          <input
+            type="checkbox"
+            checked={!!block.autoplay}
+            onChange={(e) => onUpdate({ autoplay: e.target.checked })}
+          />
+          Autoplay
+        </label>
+        <label className="media-settings-checkbox">
+          <input type="checkbox" checked={!!block.loop} onChange={(e) => onUpdate({ loop: e.target.checked })} />
+          Loop
+        </label>
+        <label className="media-settings-checkbox">
+          <input type="checkbox" checked={!!block.muted} onChange={(e) => onUpdate({ muted: e.target.checked })} />
+          Muted
+        </label>
+        {block.autoplay && !block.muted && (
+          <span className="media-settings-hint">Browsers usually only autoplay muted videos.</span>
+        )}
+      </div>
+
+      <div className="property-group">
+        <label>Captions</label>
+        {block.captions.map((track) => (
+          <div key={track.id} className="media-settings-track">
+            <div className="media-settings-row">
+              <input
+                type="text"
+                value={track.label}
+                onChange={(e) => updateTrack(track.id, { label: e.target.value })}
+                className="property-input"
+                aria-label="Caption track label"
+                placeholder="Label"
+              />
+              <input
+                type="text"
+                value={track.srcLang}
+                onChange={(e) => updateTrack(track.id, { srcLang: e.target.value.trim() })}
+                className="property-input media-settings-language"
+                aria-label="Caption track language code"
+                placeholder="en"
+              />
+              <button
+                type="button"
+                className="media-settings-icon-button"
+                onClick={() => removeTrack(track.id)}
+                title="Remove captions"
+                aria-label={`Remove ${track.label || 'caption'} track`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <label className="media-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={!!track.isDefault}
+                onChange={(e) => setDefaultTrack(track.id, e.target.checked)}
+              />
+              Show by default
+            </label>
+          </div>
+        ))}
+        <div className="media-settings-actions">
+          <button type="button" className="media-settings-button" onClick={() => captionsInputRef.current?.click()}>
+            <Upload size={14} />
+            Add captions (.vtt)
+          </button>
+        </div>
+        <input
+          ref={captionsInputRef}
+          type="file"
+          accept=".vtt,text/vtt"
+          style={{ display: 'none' }}
+          onChange={(e) => handleFileUpload(e, uploadCaptions)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useSyncExternalStore } from 'react';
+import { X } from 'lucide-react';
+import type { XapiStatement } from '../xapi/statements';
+import type { LrsTarget } from '../xapi/lrs';
+import { useXapi } from '../xapi/xapiContext';
+
+interface XapiPanelProps {
+  onClose: () => void;
+}
+
+// One line about a statement: "Test Learner answered What is 2 + 2?"
+function describeStatement(statement: XapiStatement): string {
+  const verb = statement.verb.display['en-US'] ?? statement.verb.id;
+  const object = statement.object.definition.name['en-US'] ?? statement.object.id;
+  return `${statement.actor.name} ${verb} ${object}`;
+}
+
+function describeResult(statement: XapiStatement): string | null {
+  const { result } = statement;
+  if (!result) return null;
+  if (result.score) return `${result.score.raw} / ${result.score.max}`;
+  if (result.success !== undefined) return result.success ? 'Correct' : 'Incorrect';
+  return null;
+}
+
+interface StatementItemProps {
+  statement: XapiStatement;
+  isPending: boolean;
+}
+
+function StatementItem({ statement, isPending }: StatementItemProps) {
+  const result = describeResult(statement);
+  return (
+    <li className={`xapi-statement ${isPending ? 'is-pending' : ''}`}>
+      <details>
+        <summary>
+          <span className="xapi-statement-summary">{describeStatement(statement)}</span>
+          <span className="xapi-statement-meta">
+            {isPending && <span className="xapi-statement-badge">Waiting</span>}
+            {result && <span className="xapi-statement-badge">{result}</span>}
+            <time dateTime={statement.timestamp}>{new Date(statement.timestamp).toLocaleTimeString()}</time>
+          </span>
+        </summary>
+        <pre className="xapi-statement-json">{JSON.stringify(statement, null, 2)}</pre>
+      </details>
+    </li>
+  );
+}
+
+// Side panel of the preview - xAPI settings, and the statements sent and waiting to be sent
+export function XapiPanel({ onClose }: XapiPanelProps) {
+  const { settings, updateSettings, retry, queueState, delivered, clearDelivered, testLrs } = useXapi();
+  const isTestLrsOffline = useSyncExternalStore(testLrs.subscribe, testLrs.isOffline);
+  const isRemote = settings.target === 'remote';
+  const pending = [...queueState.pending].reverse();
+
+  return (
+    <aside className="xapi-panel" aria-label="xAPI statements">
+      <div className="xapi-panel-header">
+        <h3>xAPI statements</h3>
+        <button type="button" className="xapi-panel-close" onClick={onClose} aria-label="Close xAPI panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      <details className="xapi-panel-settings" open={!settings.isEnabled}>
+        <summary>Settings</summary>
+        <div className="property-group">
+          <label className="media-settings-checkbox">
+            <input
+              type="checkbox"
+              checked={settings.isEnabled}
+              onChange={(e) => updateSettings({ isEnabled: e.target.checked })}
+            />
+            Send statements from the preview
+          </label>
+        </div>
+        <div className="property-group">
+          <label htmlFor="xapi-target">LRS</label>
+          <select
+            id="xapi-target"
+            className="property-select"
+            value={settings.target}
+            onChange={(e) => updateSettings({ target: e.target.value as LrsTarget })}
+          >
+            <option value="test">Built-in test LRS</option>
+            <option value="remote">Remote LRS</option>
+          </select>
+          {!isRemote && (
+            <span className="media-settings-hint">Keeps statements in this page until it is reloaded.</span>
+          )}
+        </div>
+        {isRemote && (
+          <>
+            <div className="property-group">
+              <label htmlFor="xapi-endpoint">Endpoint</label>
+              <input
+                id="xapi-endpoint"
+                type="url"
+                className="property-input"
+                value={settings.endpoint}
+                onChange={(e) => updateSettings({ endpoint: e.target.value })}
+                placeholder="https://lrs.example.com/xapi/"
+              />
+            </div>
+            <div className="property-group">
+              <label htmlFor="xapi-username">Key</label>
+              <input
+                id="xapi-username"
+                type="text"
+                className="property-input"
+                value={settings.username}
+                onChange={(e) => updateSettings({ username: e.target.value })}
+                autoComplete="off"
+              />
+            </div>
+            <div className="property-group">
+              <label htmlFor="xapi-password">Secret</label>
+              <input
+                id="xapi-password"
+                type="password"
+                className="property-input"
+                value={settings.password}
+                onChange={(e) => updateSettings({ password: e.target.value })}
+                autoComplete="off"
+              />
+              <span className="media-settings-hint">Kept only until this page is closed - it is never stored.</span>
+            </div>
+          </>
+        )}
+        <div className="property-group">
+          <label htmlFor="xapi-actor-name">Learner name</label>
+          <input
+            id="xapi-actor-name"
+            type="text"
+            className="property-input"
+            value={settings.actorName}
+            onChange={(e) => updateSettings({ actorName: e.target.value })}
+          />
+        </div>
+        <div className="property-group">
+          <label htmlFor="xapi-actor-email">Learner email</label>
+          <input
+            id="xapi-actor-email"
+            type="email"
+            className="property-input"
+            value={settings.actorEmail}
+            onChange={(e) => updateSettings({ actorEmail: e.target.value })}
+          />
+        </div>
+        <div className="property-group">
+          <label htmlFor="xapi-activity-base">Activity IRI base</label>
+          <input
+            id="xapi-activity-base"
+            type="url"
+            className="property-input"
+            value={settings.activityBaseIri}
+            onChange={(e) => updateSettings({ activityBaseIri: e.target.value })}
+          />
+          <span className="media-settings-hint">Lessons are identified as &lt;base&gt;/lessons/&lt;lesson ID&gt;.</span>
+        </div>
+      </details>
+
+      <div className="xapi-panel-status" role="status">
+        <span>
+          {queueState.pending.length === 0 ? 'All statements sent' : `${queueState.pending.length} waiting to be sent`}
+          {queueState.pending.length > 0 && queueState.retryAt && ` - next try at ${new Date(queueState.retryAt).toLocaleTimeString()}`}
+        </span>
+        {queueState.pending.length > 0 && (
+          <button type="button" className="xapi-panel-button" onClick={retry}>
+            Retry now
+          </button>
+        )}
+      </div>
+      {queueState.lastError && <p className="xapi-panel-error">{queueState.lastError}</p>}
+      {!isRemote && (
+        <label className="media-settings-checkbox xapi-panel-offline">
+          <input
+            type="checkbox"
+            checked={isTestLrsOffline}
+            onChange={(e) => {
+              testLrs.setOffline(e.target.checked);
+              if (!e.target.checked) retry(); // Back online - like a browser's online event
+            }}
+          />
+          Test LRS is offline
+        </label>
+      )}
+
+      {pending.length === 0 && delivered.length === 0 ? (
+        <p className="xapi-panel-empty">
+          {settings.isEnabled ? 'No statements yet - interact with the lesson.' : 'Turn on sending statements in the settings.'}
+        </p>
+      ) : (
+        <>
+          <ol className="xapi-statement-list">
+            {pending.map((statement) => (
+              <StatementItem key={statement.id} statement={statement} isPending />
+            ))}
+            {delivered.map((statement) => (
+              <StatementItem key={statement.id} statement={statement} isPending={false} />
+            ))}
+          </ol>
+          {delivered.length > 0 && (
+            <button type="button" className="xapi-panel-button" onClick={clearDelivered}>
+              Clear sent statements
+            </button>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,283 @@
+import type { Block, Row, Cell, Resource } from '../types';
+import { isBlock, isConstructor } from '../utils/sections';
+import {
+  iterateRows,
+  getBlockRows,
+  mapRows,
+  mapCells,
+  mapResources,
+  findRow,
+  findCell,
+  findResource,
+  findResourceLocation,
+  findCellLocation,
+} from './tree';
+
+/**
+ * Lesson document commands
+ *
+ * Every change to a lesson's rows is expressed as a DocumentCommand and applied with
+ * applyCommand. Commands address rows, cells and resources by ID, so they work at any
+ * nesting depth (top-level rows, nested constructors and block-owned rows such as
+ * ColumnsBlock.row). Commands carry any new content (and its IDs) with them, which keeps
+ * applyCommand pure and deterministic.
+ *
+ * A command that does not apply (unknown ID, full columns row, ...) returns the rows unchanged.
+ */
+
+// Columns rows hold between 1 and 4 cells
+export const MAX_COLUMNS = 4;
+
+type RowProps = NonNullable<Row['props']>;
+type CellProps = NonNullable<Cell['props']>;
+
+export type DocumentCommand =
+  // Rows
+  | { type: 'insertRow'; row: Row; index?: number } // Top-level; appends when index is omitted
+  | { type: 'removeRow'; rowId: string }
+  | { type: 'updateRow'; row: Row } // Replace a row by ID
+  | { type: 'updateRowProps'; rowId: string; props: Partial<RowProps> } // Shallow-merged into row.props
+  | { type: 'splitRow'; rowId: string; cellIndex: number; newRowId: string } // Cells from cellIndex move into a new row below
+  // Cells
+  | { type: 'insertCell'; rowId: string; cell: Cell; index?: number }
+  | { type: 'removeCell'; cellId: string }
+  | { type: 'updateCell'; cell: Cell } // Replace a cell by ID
+  | { type: 'updateCellProps'; cellId: string; props: Partial<CellProps> } // Shallow-merged into cell.props
+  | { type: 'removeEmptyCells' }
+  // Resources
+  | { type: 'insertResource'; cellId: string; resources: Resource[]; index?: number } // Appends when index is omitted
+  | { type: 'removeResource'; resourceId: string }
+  | { type: 'moveResource'; resourceId: string; cellId: string; index?: number } // index is taken after removal
+  | { type: 'updateBlock'; block: Block };
+
+/**
+ * Apply a single command
+ */
+export function applyCommand(rows: Row[], command: DocumentCommand): Row[] {
+  switch (command.type) {
+    case 'insertRow': {
+      const index = command.index ?? rows.length;
+      return [...rows.slice(0, index), command.row, ...rows.slice(index)];
+    }
+    case 'removeRow':
+      return removeRow(rows, command.rowId);
+    case 'updateRow':
+      return mapRows(rows, (row) => (row.id === command.row.id ? command.row : row));
+    case 'updateRowProps':
+      return mapRows(rows, (row) =>
+        row.id === command.rowId ? { ...row, props: { ...row.props, ...command.props } } : row
+      );
+    case 'splitRow':
+      return splitRow(rows, command.rowId, command.cellIndex, command.newRowId);
+    case 'insertCell':
+      return insertCell(rows, command.rowId, command.cell, command.index);
+    case 'removeCell':
+      return removeCell(rows, command.cellId);
+    case 'updateCell':
+      return mapCells(rows, (cell) => (cell.id === command.cell.id ? command.cell : cell));
+    case 'updateCellProps':
+      return mapCells(rows, (cell) =>
+        cell.id === command.cellId ? { ...cell, props: { ...cell.props, ...command.props } } : cell
+      );
+    case 'removeEmptyCells':
+      return removeEmptyCells(rows);
+    case 'insertResource':
+      return insertResources(rows, command.cellId, command.resources, command.index);
+    case 'removeResource':
+      return removeResource(rows, command.resourceId);
+    case 'moveResource':
+      return moveResource(rows, command.resourceId, command.cellId, command.index);
+    case 'updateBlock':
+      return mapResources(rows, (resource) =>
+        isBlock(resource) && resource.id === command.block.id ? command.block : resource
+      );
+  }
+}
+
+/**
+ * Apply commands in order
+ */
+export function applyCommands(rows: Row[], commands: DocumentCommand[]): Row[] {
+  return commands.reduce(applyCommand, rows);
+}
+
+/**
+ * Whether a row is a columns row (a columns block inserted as a Row)
+ */
+export function isColumnsRow(row: Row): boolean {
+  return row.props?.isColumnsBlock === true;
+}
+
+// IDs of rows owned by blocks - their cell structure is managed by the block
+function getBlockOwnedRowIds(rows: Row[]): Set<string> {
+  const ids = new Set<string>();
+  for (const row of iterateRows(rows)) {
+    for (const cell of row.cells) {
+      for (const resource of cell.resources) {
+        if (isBlock(resource)) getBlockRows(resource).forEach((child) => ids.add(child.id));
+      }
+    }
+  }
+  return ids;
+}
+
+// Remove a top-level row or a nested constructor
+function removeRow(rows: Row[], rowId: string): Row[] {
+  if (rows.some((row) => row.id === rowId)) {
+    return rows.filter((row) => row.id !== rowId);
+  }
+  return removeResource(rows, rowId);
+}
+
+// Insert a row right after another one - in the top-level list or in the cell holding a constructor
+function insertRowAfter(rows: Row[], rowId: string, newRow: Row): Row[] {
+  const topLevelIndex = rows.findIndex((row) => row.id === rowId);
+  if (topLevelIndex !== -1) {
+    return [...rows.slice(0, topLevelIndex + 1), newRow, ...rows.slice(topLevelIndex + 1)];
+  }
+  const location = findResourceLocation(rows, rowId);
+  if (!location) return rows;
+  return insertResources(rows, location.cellId, [newRow], location.index + 1);
+}
+
+function splitRow(rows: Row[], rowId: string, cellIndex: number, newRowId: string): Row[] {
+  const row = findRow(rows, rowId);
+  if (!row || cellIndex <= 0 || cellIndex >= row.cells.length) return rows;
+  if (getBlockOwnedRowIds(rows).has(rowId)) return rows; // Owned rows can't have siblings
+
+  const keptCells = row.cells.slice(0, cellIndex);
+  const movedCells = row.cells.slice(cellIndex);
+  const withColumns = (props: Row['props'], cellCount: number): Row['props'] =>
+    isColumnsRow(row) ? { ...props, columns: cellCount } : props;
+
+  const updatedRow: Row = { ...row, cells: keptCells, props: withColumns(row.props, keptCells.length) };
+  const newRow: Row = { ...row, id: newRowId, cells: movedCells, props: withColumns(row.props, movedCells.length) };
+
+  const replaced = mapRows(rows, (r) => (r.id === rowId ? updatedRow : r));
+  return insertRowAfter(replaced, rowId, newRow);
+}
+
+function insertCell(rows: Row[], rowId: string, cell: Cell, index?: number): Row[] {
+  return mapRows(rows, (row) => {
+    if (row.id !== rowId) return row;
+    if (isColumnsRow(row) && row.cells.length >= MAX_COLUMNS) return row;
+
+    const insertAt = index ?? row.cells.length;
+    const cells = [...row.cells.slice(0, insertAt), cell, ...row.cells.slice(insertAt)];
+    return {
+      ...row,
+      cells,
+      props: isColumnsRow(row) ? { ...row.props, columns: cells.length } : row.props,
+    };
+  });
+}
+
+function removeCell(rows: Row[], cellId: string): Row[] {
+  const location = findCellLocation(rows, cellId);
+  if (!location) return rows;
+
+  const updated = mapRows(rows, (row) => {
+    if (row.id !== location.rowId) return row;
+    const cells = row.cells.filter((cell) => cell.id !== cellId);
+
+    // Columns keep their content - merge it into the first remaining column
+    if (isColumnsRow(row)) {
+      const removedCell = row.cells[location.cellIndex];
+      if (cells.length > 0 && removedCell.resources.length > 0) {
+        cells[0] = { ...cells[0], resources: [...cells[0].resources, ...removedCell.resources] };
+      }
+      return { ...row, cells, props: { ...row.props, columns: Math.max(1, cells.length) } };
+    }
+    return { ...row, cells };
+  });
+
+  // A top-level row or constructor left without cells is removed as well
+  const parent = findRow(updated, location.rowId);
+  if (parent && parent.cells.length === 0 && !getBlockOwnedRowIds(updated).has(parent.id)) {
+    return removeRow(updated, parent.id);
+  }
+  return updated;
+}
+
+// Drop empty cells, then rows/constructors left without cells. Columns rows, block-owned
+// rows and empty state placeholders keep their structure.
+function removeEmptyCells(rows: Row[]): Row[] {
+  const ownedRowIds = getBlockOwnedRowIds(rows);
+  const isFixedStructure = (row: Row) => isColumnsRow(row) || !!row.isEmptyState || ownedRowIds.has(row.id);
+
+  const pruned = mapRows(rows, (row) => {
+    if (isFixedStructure(row)) return row;
+
+    let changed = false;
+    const cells = row.cells
+      .map((cell) => {
+        const resources = cell.resources.filter(
+          (resource) => !(isConstructor(resource) && resource.cells.length === 0)
+        );
+        if (resources.length === cell.resources.length) return cell;
+        changed = true;
+        return { ...cell, resources };
+      })
+      .filter((cell) => {
+        if (cell.resources.length > 0) return true;
+        changed = true;
+        return false;
+      });
+    return changed ? { ...row, cells } : row;
+  });
+
+  const filtered = pruned.filter((row) => row.cells.length > 0 || isFixedStructure(row));
+  return filtered.length === pruned.length ? pruned : filtered;
+}
+
+function insertResources(rows: Row[], cellId: string, resources: Resource[], index?: number): Row[] {
+  if (resources.length === 0) return rows;
+  return mapCells(rows, (cell) => {
+    if (cell.id !== cellId) return cell;
+    const insertAt = index ?? cell.resources.length;
+    return {
+      ...cell,
+      resources: [...cell.resources.slice(0, insertAt), ...resources, ...cell.resources.slice(insertAt)],
+    };
+  });
+}
+
+function removeResource(rows: Row[], resourceId: string): Row[] {
+  const location = findResourceLocation(rows, resourceId);
+  if (!location) return rows;
+
+  const updated = mapCells(rows, (cell) =>
+    cell.id === location.cellId
+      ? { ...cell, resources: cell.resources.filter((resource) => resource.id !== resourceId) }
+      : cell
+  );
+
+  // A nested constructor emptied by the removal goes away too
+  const isTopLevel = updated.some((row) => row.id === location.rowId);
+  const parent = findRow(updated, location.rowId);
+  if (
+    parent &&
+    !isTopLevel &&
+    !getBlockOwnedRowIds(updated).has(parent.id) &&
+    parent.cells.every((cell) => cell.resources.length === 0)
+  ) {
+    return removeResource(updated, parent.id);
+  }
+  return updated;
+}
+
+function moveResource(rows: Row[], resourceId: string, cellId: string, index?: number): Row[] {
+  const resource = findResource(rows, resourceId);
+  if (!resource || !findCell(rows, cellId)) return rows;
+  // Can't move a constructor or a container block into one of its own cells
+  if (isConstructor(resource) && findCell([resource], cellId)) return rows;
+  if (isBlock(resource) && findCell(getBlockRows(resource), cellId)) return rows;
+
+  const location = findResourceLocation(rows, resourceId);
+  const withoutResource = mapCells(rows, (cell) =>
+    location && cell.id === location.cellId
+      ? { ...cell, resources: cell.resources.filter((r) => r.id !== resourceId) }
+      : cell
+  );
+  return insertResources(withoutResource, cellId, [resource], index);
+}
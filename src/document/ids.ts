@@ -0,0 +1,142 @@
+import { nanoid } from 'nanoid';
+import type { Block, Row, Cell, Resource } from '../types';
+import { isConstructor } from '../utils/sections';
+import { isContainerBlock, iterateRows, mapResources } from './tree';
+
+/**
+ * Document IDs
+ *
+ * Selection, scrolling and dnd-kit all address rows, cells and resources by ID, so every ID
+ * in a lesson must be unique - across rows, cells and resources alike. Copies are made with
+ * fresh IDs all the way down, and loaded lessons are checked (and repaired) for collisions.
+ */
+
+export interface DuplicateId {
+  id: string;
+  count: number; // Number of times the ID occurs in the document
+}
+
+// Clone a block with a fresh ID, including the rows it owns
+function cloneBlock(block: Block, createId: () => string): Block {
+  const id = createId();
+  if (isContainerBlock(block) && block.row) {
+    return { ...block, id, row: cloneRow(block.row, createId) };
+  }
+  return { ...block, id };
+}
+
+/**
+ * Deep-copy a row with fresh IDs for the row, its cells and everything inside them
+ */
+export function cloneRow(row: Row, createId: () => string = nanoid): Row {
+  return {
+    ...row,
+    id: createId(),
+    cells: row.cells.map((cell) => cloneCell(cell, createId)),
+    props: row.props ? { ...row.props } : undefined,
+  };
+}
+
+/**
+ * Deep-copy a cell with fresh IDs for the cell and its resources
+ */
+export function cloneCell(cell: Cell, createId: () => string = nanoid): Cell {
+  return {
+    ...cell,
+    id: createId(),
+    resources: cell.resources.map((resource) => cloneResource(resource, createId)),
+    props: cell.props ? { ...cell.props } : undefined,
+  };
+}
+
+/**
+ * Deep-copy a resource (block or constructor) with fresh IDs throughout
+ */
+export function cloneResource(resource: Resource, createId: () => string = nanoid): Resource {
+  return isConstructor(resource) ? cloneRow(resource, createId) : cloneBlock(resource, createId);
+}
+
+/**
+ * Deep-copy a whole lesson with fresh IDs throughout - buttons that jump to or reveal one of
+ * its rows point at the copy of that row
+ */
+export function cloneLessonRows(rows: Row[], createId: () => string = nanoid): Row[] {
+  const rowIds = new Map<string, string>();
+  const cloned = rows.map((row) => {
+    const copy = cloneRow(row, createId);
+    rowIds.set(row.id, copy.id);
+    return copy;
+  });
+
+  return mapResources(cloned, (resource) => {
+    if (isConstructor(resource) || resource.type !== 'button' || !resource.action) return resource;
+    const action = resource.action;
+    if (action.type !== 'anchor' && action.type !== 'reveal-row') return resource;
+    const rowId = action.rowId ? rowIds.get(action.rowId) : undefined;
+    return rowId ? { ...resource, action: { ...action, rowId } } : resource;
+  });
+}
+
+/**
+ * Every ID that occurs more than once in the document
+ */
+export function findDuplicateIds(rows: Row[]): DuplicateId[] {
+  const counts = new Map<string, number>();
+  const count = (id: string) => counts.set(id, (counts.get(id) ?? 0) + 1);
+
+  for (const row of iterateRows(rows)) {
+    count(row.id);
+    for (const cell of row.cells) {
+      count(cell.id);
+      // Constructors and block-owned rows are counted as rows by iterateRows
+      cell.resources.forEach((resource) => {
+        if (!isConstructor(resource)) count(resource.id);
+      });
+    }
+  }
+
+  return [...counts.entries()]
+    .filter(([, occurrences]) => occurrences > 1)
+    .map(([id, occurrences]) => ({ id, count: occurrences }));
+}
+
+/**
+ * Give every repeated ID after its first occurrence (in document order) a fresh one.
+ * Returns the rows unchanged when all IDs are already unique.
+ */
+export function repairDuplicateIds(rows: Row[], createId: () => string = nanoid): Row[] {
+  if (findDuplicateIds(rows).length === 0) return rows;
+
+  const seen = new Set<string>();
+  const claim = (id: string) => {
+    if (!seen.has(id)) {
+      seen.add(id);
+      return id;
+    }
+    let fresh = createId();
+    while (seen.has(fresh)) fresh = createId();
+    seen.add(fresh);
+    return fresh;
+  };
+
+  const repairRow = (row: Row): Row => ({
+    ...row,
+    id: claim(row.id),
+    cells: row.cells.map((cell) => ({
+      ...cell,
+      id: claim(cell.id),
+      resources: cell.resources.map(repairResource),
+    })),
+  });
+
+  const repairResource = (resource: Resource): Resource => {
+    if (isConstructor(resource)) return repairRow(resource);
+    const id = claim(resource.id);
+    if (isContainerBlock(resource) && resource.row) {
+      return { ...resource, id, row: repairRow(resource.row) };
+    }
+    return { ...resource, id };
+  };
+
+  return rows.map(repairRow);
+}
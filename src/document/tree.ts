@@ -0,0 +1,202 @@
+import type { Block, ColumnsBlock, PanelsBlock, Row, Cell, Resource } from '../types';
+import { isBlock, isConstructor } from '../utils/sections';
+
+/**
+ * Lesson document tree
+ *
+ * A lesson is a list of Rows. Rows hold Cells, Cells hold Resources, and a Resource is either
+ * a Block or a nested Row (constructor). Some blocks also own rows of their own
+ * (ColumnsBlock.row, and the row whose cells are the panels of an accordion or tabs block).
+ * Everything here treats all of those rows the same way, so lookups and updates work at any
+ * nesting depth.
+ *
+ * All functions are pure and keep object identity for untouched parts of the tree.
+ */
+
+export interface ResourceLocation {
+  rowId: string; // Row that directly contains the cell
+  cellId: string;
+  index: number; // Index in cell.resources
+}
+
+export interface CellLocation {
+  rowId: string; // Row that directly contains the cell
+  cellIndex: number;
+}
+
+/**
+ * Whether a block owns a row of its own (columns, accordion and tabs blocks)
+ */
+export function isContainerBlock(block: Block): block is ColumnsBlock | PanelsBlock {
+  return block.type === 'columns' || block.type === 'accordion' || block.type === 'tabs';
+}
+
+/**
+ * Rows owned by a block - container blocks list their child rows here
+ */
+export function getBlockRows(block: Block): Row[] {
+  if (isContainerBlock(block) && block.row) return [block.row];
+  return [];
+}
+
+// Rebuild a block with its child rows mapped (identity kept when nothing changed)
+function mapBlockRows(block: Block, mapRow: (row: Row) => Row): Block {
+  if (isContainerBlock(block) && block.row) {
+    const row = mapRow(block.row);
+    return row === block.row ? block : { ...block, row };
+  }
+  return block;
+}
+
+/**
+ * Rows directly nested in a cell (constructors and block-owned rows)
+ */
+function getChildRows(cell: Cell): Row[] {
+  return cell.resources.flatMap((resource) =>
+    isConstructor(resource) ? [resource] : getBlockRows(resource)
+  );
+}
+
+/**
+ * Iterate over every row in the tree, parents before children
+ */
+export function* iterateRows(rows: Row[]): Generator<Row> {
+  for (const row of rows) {
+    yield row;
+    for (const cell of row.cells) {
+      yield* iterateRows(getChildRows(cell));
+    }
+  }
+}
+
+/**
+ * Map every row in the tree, children before parents. `update` receives each row with its
+ * nested rows already updated and returns it unchanged (same object) when there is nothing to do.
+ */
+export function mapRows(rows: Row[], update: (row: Row) => Row): Row[] {
+  let changed = false;
+  const mapped = rows.map((row) => {
+    const next = mapRowDeep(row, update);
+    if (next !== row) changed = true;
+    return next;
+  });
+  return changed ? mapped : rows;
+}
+
+function mapRowDeep(row: Row, update: (row: Row) => Row): Row {
+  let cellsChanged = false;
+  const cells = row.cells.map((cell) => {
+    let resourcesChanged = false;
+    const resources = cell.resources.map((resource) => {
+      const next = isConstructor(resource)
+        ? mapRowDeep(resource, update)
+        : mapBlockRows(resource, (childRow) => mapRowDeep(childRow, update));
+      if (next !== resource) resourcesChanged = true;
+      return next;
+    });
+    if (!resourcesChanged) return cell;
+    cellsChanged = true;
+    return { ...cell, resources };
+  });
+  return update(cellsChanged ? { ...row, cells } : row);
+}
+
+/**
+ * Map the resources of every cell in the tree (top-level rows are not resources)
+ */
+export function mapResources(rows: Row[], update: (resource: Resource) => Resource): Row[] {
+  return mapRows(rows, (row) => {
+    let changed = false;
+    const cells = row.cells.map((cell) => {
+      let cellChanged = false;
+      const resources = cell.resources.map((resource) => {
+        const next = update(resource);
+        if (next !== resource) cellChanged = true;
+        return next;
+      });
+      if (!cellChanged) return cell;
+      changed = true;
+      return { ...cell, resources };
+    });
+    return changed ? { ...row, cells } : row;
+  });
+}
+
+/**
+ * Map every cell in the tree
+ */
+export function mapCells(rows: Row[], update: (cell: Cell, row: Row) => Cell): Row[] {
+  return mapRows(rows, (row) => {
+    let changed = false;
+    const cells = row.cells.map((cell) => {
+      const next = update(cell, row);
+      if (next !== cell) changed = true;
+      return next;
+    });
+    return changed ? { ...row, cells } : row;
+  });
+}
+
+export function findRow(rows: Row[], rowId: string): Row | null {
+  for (const row of iterateRows(rows)) {
+    if (row.id === rowId) return row;
+  }
+  return null;
+}
+
+export function findCell(rows: Row[], cellId: string): Cell | null {
+  for (const row of iterateRows(rows)) {
+    const cell = row.cells.find((c) => c.id === cellId);
+    if (cell) return cell;
+  }
+  return null;
+}
+
+export function findCellLocation(rows: Row[], cellId: string): CellLocation | null {
+  for (const row of iterateRows(rows)) {
+    const cellIndex = row.cells.findIndex((cell) => cell.id === cellId);
+    if (cellIndex !== -1) return { rowId: row.id, cellIndex };
+  }
+  return null;
+}
+
+export function findResourceLocation(rows: Row[], resourceId: string): ResourceLocation | null {
+  for (const row of iterateRows(rows)) {
+    for (const cell of row.cells) {
+      const index = cell.resources.findIndex((resource) => resource.id === resourceId);
+      if (index !== -1) return { rowId: row.id, cellId: cell.id, index };
+    }
+  }
+  return null;
+}
+
+export function findResource(rows: Row[], resourceId: string): Resource | null {
+  for (const row of iterateRows(rows)) {
+    for (const cell of row.cells) {
+      const resource = cell.resources.find((r) => r.id === resourceId);
+      if (resource) return resource;
+    }
+  }
+  return null;
+}
+
+export function findBlock(rows: Row[], blockId: string): Block | null {
+  const resource = findResource(rows, blockId);
+  return resource && isBlock(resource) ? resource : null;
+}
+
+/**
+ * Find the block that owns a row (e.g. the ColumnsBlock whose `row` it is)
+ */
+export function findOwnerBlock(rows: Row[], rowId: string): Block | null {
+  for (const row of iterateRows(rows)) {
+    for (const cell of row.cells) {
+      for (const resource of cell.resources) {
+        if (isBlock(resource) && getBlockRows(resource).some((child) => child.id === rowId)) {
+          return resource;
+        }
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,111 @@
+import type { ZipEntry } from './zip';
+
+/**
+ * Embedded files of exported pages
+ *
+ * Uploaded images, videos and audio are stored in lessons as base64 data URLs, and captions as
+ * URL-encoded ones. Exports move them into files of their own, which keeps the page small and
+ * lets browsers cache and stream them. Identical data URLs become one file.
+ */
+
+export interface ExtractedAssets {
+  text: string; // The text with every data URL replaced by the path of its file
+  files: ZipEntry[];
+}
+
+// Base64 data URLs - the form FileReader.readAsDataURL produces - and URL-encoded ones, the
+// form encodeURIComponent produces (caption files, see readWebVttFile)
+const DATA_URL_PATTERN =
+  /data:([a-z]+)\/([a-z0-9.+-]+)((?:;[a-z0-9-]+=[^;,"'&\s]+)*)(?:;base64,([A-Za-z0-9+/]+=*)|,([A-Za-z0-9\-_.!~*'()%]+))/gi;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/ogg': 'ogv',
+  'video/quicktime': 'mov',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'weba',
+  'text/vtt': 'vtt',
+};
+
+// Names of the files, by the kind of media they hold
+const FILE_PREFIXES: Record<string, string> = {
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+};
+
+/**
+ * The MIME type of a file by its extension - the reverse of the names extracted files get
+ */
+export function getMimeType(path: string): string | null {
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension === 'jpeg') return 'image/jpeg';
+  return Object.entries(EXTENSIONS).find(([, candidate]) => candidate === extension)?.[0] ?? null;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function decodeUrlEncoded(data: string): Uint8Array {
+  return new TextEncoder().encode(decodeURIComponent(data));
+}
+
+export interface AssetExtractor {
+  extract: (text: string) => string; // The text with every data URL replaced by the path of its file
+  files: ZipEntry[]; // Files of every text extracted so far
+}
+
+/**
+ * Moves the data URLs of several texts into files under `directory`, shared between the texts
+ */
+export function createAssetExtractor(directory: string): AssetExtractor {
+  const pathsByDataUrl = new Map<string, string>();
+  const files: ZipEntry[] = [];
+  const counts = new Map<string, number>();
+
+  const extract = (text: string) => text.replace(DATA_URL_PATTERN, (dataUrl, kind: string, subtype: string, _parameters, base64?: string, urlEncoded?: string) => {
+    const existing = pathsByDataUrl.get(dataUrl);
+    if (existing) return existing;
+
+    const mimeType = `${kind}/${subtype}`.toLowerCase();
+    const extension = EXTENSIONS[mimeType] ?? 'bin';
+    const prefix = FILE_PREFIXES[kind.toLowerCase()] ?? 'file';
+    let bytes: Uint8Array;
+    try {
+      bytes = base64 !== undefined ? decodeBase64(base64) : decodeUrlEncoded(urlEncoded ?? '');
+    } catch {
+      return dataUrl; // Not valid base64 or UTF-8 - left as it is
+    }
+    const count = (counts.get(prefix) ?? 0) + 1;
+    counts.set(prefix, count);
+    const path = `${directory}/${prefix}-${count}.${extension}`;
+    files.push({ path, data: bytes });
+    pathsByDataUrl.set(dataUrl, path);
+    return path;
+  });
+
+  return { extract, files };
+}
+
+/**
+ * Move the data URLs in `text` into files under `directory`, linked by their relative path - so
+ * `text` must be the page itself, with no URL read through a stylesheet (such as a CSS variable)
+ */
+export function extractDataUrls(text: string, directory: string): ExtractedAssets {
+  const extractor = createAssetExtractor(directory);
+  return { text: extractor.extract(text), files: extractor.files };
+}
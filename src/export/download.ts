@@ -0,0 +1,13 @@
+/**
+ * Save a file created in the browser, as if it had been downloaded
+ */
+export function downloadFile(file: Blob, fileName: string): void {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
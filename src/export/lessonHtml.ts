@@ -0,0 +1,653 @@
+import type {
+  AccordionBlock,
+  Block,
+  ButtonBlock,
+  ButtonIcon,
+  Cell,
+  FlashcardBlock,
+  FlashcardSide,
+  LabeledGraphicBlock,
+  LessonPageProps,
+  QuestionBank,
+  QuestionDrawBlock,
+  QuizBlock,
+  Resource,
+  Row,
+  RowGate,
+  TableBlock,
+  TableBlockCell,
+  TabsBlock,
+  ThemeSpecificCellProps,
+} from '../types';
+import type { Theme } from '../theme/tokens';
+import { themeToCSSVariables } from '../theme/tokens';
+import { getCellThemeProps, getRowThemeProps, hexToRgba } from '../theme/containerProps';
+import { isConstructor } from '../utils/sections';
+import { collectQuizBlocks, getClozeBlanks, getMatchChoices, getQuizChoices, getCorrectChoiceIndices } from '../utils/quiz';
+import { collectQuestionDrawBlocks } from '../utils/questionBanks';
+import { getTrimmedMediaUrl } from '../utils/media';
+import { getDefaultOpenPanels, getPanelTitle } from '../utils/panels';
+import { getButtonActionUrl } from '../utils/buttons';
+import { getCoveredCells, getTableBorder } from '../utils/tables';
+
+/**
+ * Static lesson pages
+ *
+ * Renders a lesson to plain HTML for the exported packages. The markup reads well without
+ * scripts; the player (player/lessonPlayer.js) adds the interactive parts - grading quizzes,
+ * drawing bank questions, panels, flashcards, gates and button actions - from `data-*`
+ * attributes and the answer data returned next to the markup.
+ */
+
+// What an export renders: the lesson as currently edited, in the active theme
+export interface LessonExportSource {
+  title: string;
+  rows: Row[];
+  pageProps: LessonPageProps;
+  theme: Theme;
+  themeId: string;
+  banks: QuestionBank[]; // Banks the lesson's question draws pick from
+}
+
+// Answer data of a quiz for the player - the question and choices are in the markup
+export type PlayerQuiz = Pick<
+  QuizBlock,
+  | 'quizType'
+  | 'correctIndices'
+  | 'acceptedAnswers'
+  | 'caseSensitive'
+  | 'ignoreExtraWhitespace'
+  | 'matchPairs'
+  | 'orderItems'
+  | 'clozeBlanks'
+  | 'hotspots'
+  | 'optionFeedback'
+  | 'correctFeedback'
+  | 'incorrectFeedback'
+  | 'maxAttempts'
+  | 'shuffleOptions'
+  | 'keepLastOptionInPlace'
+> & {
+  matchChoices: { id: string; text: string }[];
+};
+
+// A question draw - the player picks `count` of the bank's questions from the learner's seed
+export interface PlayerDraw {
+  id: string;
+  count: number;
+  questionIds: string[]; // Bank question IDs - drawn quizzes are rendered as `${id}:${questionId}`
+}
+
+export interface PlayerGate extends RowGate {
+  rowId: string;
+  quizIds: string[];
+  drawIds: string[];
+}
+
+export interface LessonPlayerData {
+  quizzes: Record<string, PlayerQuiz>;
+  draws: PlayerDraw[];
+  gates: PlayerGate[];
+}
+
+export interface RenderedLesson {
+  body: string; // Markup of the lesson content, for the page's <main>
+  data: LessonPlayerData;
+}
+
+interface RenderContext {
+  source: LessonExportSource;
+  data: LessonPlayerData;
+}
+
+const BUTTON_ICON_PATHS: Record<ButtonIcon, string> = {
+  none: '',
+  arrow: 'M21.769 11.36v1.28l-5 6-1.538-1.28L18.865 13H3v-2h15.865l-3.634-4.36 1.538-1.28 5 6Z',
+  external: 'M14 3h7v7h-2V6.414l-8.293 8.293-1.414-1.414L17.586 5H14V3ZM5 7a1 1 0 0 1 1-1h5V4H6a3 3 0 0 0-3 3v11a3 3 0 0 0 3 3h11a3 3 0 0 0 3-3v-5h-2v5a1 1 0 0 1-1 1H6a1 1 0 0 1-1-1V7Z',
+  download: 'M13 3v10.586l3.293-3.293 1.414 1.414L12 17.414l-5.707-5.707 1.414-1.414L11 13.586V3h2ZM4 19h16v2H4v-2Z',
+  check: 'm20.707 6.707-11 11L9 18.414l-.707-.707-5-5 1.414-1.414L9 15.586 19.293 5.293l1.414 1.414Z',
+};
+
+/**
+ * The lesson's markup and the data its player needs
+ */
+export function renderLessonHtml(source: LessonExportSource): RenderedLesson {
+  const context: RenderContext = { source, data: { quizzes: {}, draws: [], gates: [] } };
+  const rows = source.rows.filter((row) => !row.isEmptyState);
+  const body = rows.map((row) => renderRow(row, context, true)).join('\n');
+
+  context.data.gates = rows
+    .filter((row) => row.props?.gate)
+    .map((row) => ({
+      ...row.props!.gate!,
+      rowId: row.id,
+      quizIds: collectQuizBlocks([row]).map((quiz) => quiz.id),
+      drawIds: collectQuestionDrawBlocks([row]).map((draw) => draw.id),
+    }));
+
+  return { body, data: context.data };
+}
+
+// Files a lesson page links to, relative to the page
+export interface LessonPageOptions {
+  stylesheets: string[];
+  scripts: string[]; // Run in this order after the content
+  json?: Record<string, unknown>; // More data for the scripts, by the ID of its <script> element
+}
+
+/**
+ * A complete HTML page of the lesson, with its player data
+ */
+export function renderLessonPage(source: LessonExportSource, options: LessonPageOptions): string {
+  const { body, data } = renderLessonHtml(source);
+  const json = { 'lesson-player-data': data, ...options.json };
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    `<title>${escapeHtml(source.title || 'Lesson')}</title>`,
+    ...options.stylesheets.map((href) => `<link rel="stylesheet" href="${escapeHtml(href)}">`),
+    '</head>',
+    `<body class="lesson-page" style="${escapeHtml(getLessonPageStyle(source))}">`,
+    renderLessonPageBackground(source),
+    `<main class="lesson-content">\n${body}\n</main>`,
+    ...Object.entries(json).map(([id, value]) => `<script type="application/json" id="${escapeHtml(id)}">${toScriptJson(value)}</script>`),
+    ...options.scripts.map((src) => `<script src="${escapeHtml(src)}"></script>`),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * CSS variables and page background of the lesson in its theme, for the page's <body>
+ */
+export function getLessonPageStyle(source: LessonExportSource): string {
+  const { theme, themeId, pageProps } = source;
+  const page = pageProps.themes?.[themeId] ?? {};
+  const background = theme.pageBackground;
+  const backgroundColor = page.backgroundColor ?? background?.backgroundColor ?? '#ffffff';
+  const backgroundColorOpacity = page.backgroundColorOpacity ?? background?.backgroundColorOpacity ?? 1;
+  const backgroundImageOpacity = page.backgroundImageOpacity ?? background?.backgroundImageOpacity ?? 1;
+  const maxRowWidth = page.maxRowWidth;
+
+  return toStyle({
+    ...themeToCSSVariables(theme),
+    '--table-border': getTableBorder(theme),
+    '--lesson-page-color': backgroundColor.startsWith('#') ? hexToRgba(backgroundColor, backgroundColorOpacity) : backgroundColor,
+    '--lesson-page-image-opacity': String(backgroundImageOpacity),
+    '--lesson-row-max-width': maxRowWidth === null ? 'none' : `${maxRowWidth ?? 1024}px`,
+  });
+}
+
+/**
+ * The page background image behind the content - set inline, since a relative URL in a CSS
+ * variable would resolve against the stylesheet rather than the page
+ */
+export function renderLessonPageBackground(source: LessonExportSource): string {
+  const { theme, themeId, pageProps } = source;
+  const backgroundImage = pageProps.themes?.[themeId]?.backgroundImage ?? theme.pageBackground?.backgroundImage;
+  const style = toStyleAttribute({ 'background-image': backgroundImage ? `url("${backgroundImage}")` : undefined });
+  return `<div class="lesson-page-background"${style} aria-hidden="true"></div>`;
+}
+
+// Rows and cells
+
+function renderRow(row: Row, context: RenderContext, isTopLevel: boolean): string {
+  const { theme, themeId } = context.source;
+  const props = getRowThemeProps(row, themeId, theme);
+  const isColumns = row.props?.isColumnsBlock === true;
+  const shadow = props.shadow
+    ? `${props.shadow.position === 'inside' ? 'inset ' : ''}${props.shadow.x}px ${props.shadow.y}px ${props.shadow.blur}px ${props.shadow.spread}px ${hexToRgba(props.shadow.color, props.shadow.opacity)}`
+    : undefined;
+  const attributes = [
+    `class="lesson-row${isTopLevel ? ' lesson-row-top' : ''}"`,
+    `data-row-id="${escapeHtml(row.id)}"`,
+    isTopLevel && row.props?.hiddenUntilRevealed ? 'hidden data-hidden-until-revealed' : '',
+    toStyleAttribute({
+      'box-shadow': shadow,
+      'backdrop-filter': props.bgBlur ? `blur(${props.bgBlur}px)` : undefined,
+    }),
+  ];
+  const cells = row.cells.map((cell) => renderCell(cell, context)).join('');
+  const cellsStyle = isColumns
+    ? { '--column-gap': `${row.props?.columnGap || 16}px`, '--column-count': String(row.props?.columns || 2) }
+    : {};
+
+  return `<div ${attributes.filter(Boolean).join(' ')}>` +
+    renderBackgroundLayers(props) +
+    `<div class="lesson-row-cells${isColumns ? ' lesson-columns' : ''}" data-vertical-align="${props.verticalAlign || 'top'}"${toStyleAttribute({ ...getBoxStyles(props), ...cellsStyle })}>` +
+    cells +
+    '</div></div>';
+}
+
+function renderCell(cell: Cell, context: RenderContext): string {
+  const { theme, themeId } = context.source;
+  const props = getCellThemeProps(cell, themeId, theme);
+  return `<div class="lesson-cell">` +
+    renderBackgroundLayers(props) +
+    `<div class="lesson-cell-content" data-vertical-align="${props.verticalAlign || 'top'}"${toStyleAttribute(getBoxStyles(props))}>` +
+    cell.resources.map((resource) => renderResource(resource, context)).join('') +
+    '</div></div>';
+}
+
+// Color and image layers under a row or cell, so each keeps its own opacity
+function renderBackgroundLayers(props: ThemeSpecificCellProps): string {
+  const radius = getRadius(props);
+  let layers = '';
+  if (props.backgroundColor) {
+    layers += `<div class="lesson-background"${toStyleAttribute({
+      'background-color': hexToRgba(props.backgroundColor, props.backgroundColorOpacity ?? 1),
+      'border-radius': radius,
+    })}></div>`;
+  }
+  if (props.backgroundImage) {
+    layers += `<div class="lesson-background lesson-background-image"${toStyleAttribute({
+      'background-image': `url("${props.backgroundImage}")`,
+      opacity: String(props.backgroundImageOpacity ?? 1),
+      'border-radius': radius,
+    })}></div>`;
+  }
+  return layers;
+}
+
+function getBoxStyles(props: ThemeSpecificCellProps): Record<string, string | undefined> {
+  const styles: Record<string, string | undefined> = { 'border-radius': getRadius(props) };
+  const { padding, border } = props;
+  if (padding?.mode === 'uniform') styles.padding = `${padding.uniform || 0}px`;
+  if (padding?.mode === 'individual') {
+    styles.padding = `${padding.top || 0}px ${padding.right || 0}px ${padding.bottom || 0}px ${padding.left || 0}px`;
+  }
+  if (border?.color && border.width) {
+    const line = (width: number | undefined) => (width ? `${width}px ${border.style || 'solid'} ${border.color}` : 'none');
+    if (border.width.mode === 'uniform' && (border.width.uniform ?? 0) > 0) {
+      styles.border = line(border.width.uniform);
+    } else if (border.width.mode === 'individual') {
+      styles['border-top'] = line(border.width.top);
+      styles['border-right'] = line(border.width.right);
+      styles['border-bottom'] = line(border.width.bottom);
+      styles['border-left'] = line(border.width.left);
+    }
+  }
+  return styles;
+}
+
+function getRadius(props: ThemeSpecificCellProps): string | undefined {
+  const radius = props.borderRadius;
+  if (radius?.mode === 'uniform' && radius.uniform !== undefined) return `${radius.uniform}px`;
+  if (radius?.mode === 'individual') {
+    return `${radius.topLeft || 0}px ${radius.topRight || 0}px ${radius.bottomRight || 0}px ${radius.bottomLeft || 0}px`;
+  }
+  return undefined;
+}
+
+// Blocks
+
+function renderResource(resource: Resource, context: RenderContext): string {
+  if (isConstructor(resource)) return renderRow(resource, context, false);
+  return `<div class="lesson-block lesson-block-${resource.type}">${renderBlock(resource, context)}</div>`;
+}
+
+function renderBlock(block: Block, context: RenderContext): string {
+  switch (block.type) {
+    case 'text':
+    case 'header':
+      return `<div class="lesson-rich-text">${block.body}</div>`;
+    case 'image':
+      return block.imageUrl
+        ? `<figure class="lesson-image"><img src="${escapeHtml(block.imageUrl)}" alt="${escapeHtml(block.altText || '')}">` +
+          (block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : '') +
+          '</figure>'
+        : '';
+    case 'video': {
+      if (!block.videoUrl) return '';
+      const startTime = block.startTime ?? 0;
+      const endTime = block.endTime !== undefined && block.endTime > startTime ? block.endTime : undefined;
+      // The player keeps playback inside data-start/data-end - media fragments don't work for data URLs
+      return `<video class="lesson-video" src="${escapeHtml(getTrimmedMediaUrl(block.videoUrl, startTime, endTime))}" controls playsinline` +
+        (startTime > 0 ? ` data-start="${startTime}"` : '') +
+        (endTime !== undefined ? ` data-end="${endTime}"` : '') +
+        (block.posterUrl ? ` poster="${escapeHtml(block.posterUrl)}"` : '') +
+        (block.autoplay ? ' autoplay' : '') +
+        (block.loop ? ' loop' : '') +
+        (block.muted || block.autoplay ? ' muted' : '') +
+        '>' +
+        block.captions.map((track) =>
+          `<track kind="captions" src="${escapeHtml(track.src)}" srclang="${escapeHtml(track.srcLang)}" label="${escapeHtml(track.label)}"${track.isDefault ? ' default' : ''}>`
+        ).join('') +
+        '</video>';
+    }
+    case 'audio':
+      return (block.audioUrl ? `<audio class="lesson-audio" src="${escapeHtml(block.audioUrl)}" controls></audio>` : '') +
+        (block.transcript
+          ? `<details class="lesson-transcript"><summary>Transcript</summary><div class="lesson-rich-text">${block.transcript}</div></details>`
+          : '');
+    case 'labeled-graphic':
+      return renderLabeledGraphic(block);
+    case 'quiz':
+      return renderQuiz(block, block.id, context);
+    case 'question-draw':
+      return renderQuestionDraw(block, context);
+    case 'columns':
+      return renderRow(block.row, context, false);
+    case 'accordion':
+      return renderAccordion(block, context);
+    case 'tabs':
+      return renderTabs(block, context);
+    case 'flashcards':
+      return renderFlashcards(block);
+    case 'table':
+      return renderTable(block);
+    case 'button':
+      return renderButton(block);
+    default:
+      return '';
+  }
+}
+
+function renderLabeledGraphic(block: LabeledGraphicBlock): string {
+  if (!block.imageUrl) return '';
+  const markers = block.markers.map((marker, index) => {
+    const popupId = `marker-${marker.id}`;
+    return `<button type="button" class="lesson-graphic-marker" style="left:${marker.x}%;top:${marker.y}%" aria-expanded="false" aria-controls="${escapeHtml(popupId)}" aria-label="${escapeHtml(marker.title || `Marker ${index + 1}`)}">${index + 1}</button>`;
+  }).join('');
+  const popups = block.markers.map((marker) =>
+    `<div class="lesson-graphic-popup" id="${escapeHtml(`marker-${marker.id}`)}" role="note" hidden>` +
+    `<strong>${escapeHtml(marker.title)}</strong><p>${escapeHtml(marker.content)}</p></div>`
+  ).join('');
+  return `<div class="lesson-graphic"><div class="lesson-marked-image">` +
+    `<img src="${escapeHtml(block.imageUrl)}" alt="${escapeHtml(block.altText || '')}">${markers}</div>${popups}</div>`;
+}
+
+function renderQuestionDraw(block: QuestionDrawBlock, context: RenderContext): string {
+  const bank = context.source.banks.find((b) => b.id === block.bankId);
+  if (!bank || bank.questions.length === 0) return '';
+  context.data.draws.push({
+    id: block.id,
+    count: Math.max(0, Math.min(block.drawCount, bank.questions.length)),
+    questionIds: bank.questions.map((question) => question.id),
+  });
+  // Every question of the bank is in the page - the player shows the ones drawn for the learner
+  return `<div class="lesson-draw" data-draw-id="${escapeHtml(block.id)}">` +
+    bank.questions.map((question) =>
+      `<div class="lesson-draw-question" data-question-id="${escapeHtml(question.id)}" hidden>` +
+      renderQuiz(question, `${block.id}:${question.id}`, context) +
+      '</div>'
+    ).join('') +
+    '</div>';
+}
+
+function renderQuiz(block: QuizBlock, id: string, context: RenderContext): string {
+  context.data.quizzes[id] = {
+    quizType: block.quizType,
+    correctIndices: getCorrectChoiceIndices(block),
+    acceptedAnswers: block.acceptedAnswers,
+    caseSensitive: block.caseSensitive,
+    ignoreExtraWhitespace: block.ignoreExtraWhitespace,
+    matchPairs: block.matchPairs,
+    orderItems: block.orderItems,
+    clozeBlanks: getClozeBlanks(block),
+    hotspots: block.hotspots,
+    optionFeedback: block.optionFeedback,
+    correctFeedback: block.correctFeedback,
+    incorrectFeedback: block.incorrectFeedback,
+    maxAttempts: block.maxAttempts,
+    shuffleOptions: block.shuffleOptions,
+    keepLastOptionInPlace: block.keepLastOptionInPlace,
+    matchChoices: block.quizType === 'matching' ? getMatchChoices(block) : [],
+  };
+
+  const questionId = `quiz-question-${id}`;
+  return `<section class="lesson-quiz" data-quiz-id="${escapeHtml(id)}" aria-labelledby="${escapeHtml(questionId)}">` +
+    `<div class="lesson-quiz-question lesson-rich-text" id="${escapeHtml(questionId)}">${block.question}</div>` +
+    renderQuizAnswer(block, id, questionId) +
+    '<div class="lesson-quiz-feedback" role="status"></div>' +
+    '<div class="lesson-quiz-actions"><button type="button" class="lesson-quiz-submit">Submit</button></div>' +
+    '</section>';
+}
+
+function renderQuizAnswer(block: QuizBlock, id: string, questionId: string): string {
+  const labelledBy = `aria-labelledby="${escapeHtml(questionId)}"`;
+  switch (block.quizType) {
+    case 'short-answer':
+      return `<input type="text" class="lesson-quiz-text" placeholder="Type your answer" ${labelledBy}>`;
+    case 'matching': {
+      const choices = getMatchChoices(block);
+      return '<p class="lesson-quiz-instructions">Choose the answer that goes with each prompt.</p>' +
+        '<div class="lesson-quiz-matches">' +
+        block.matchPairs.map((pair, index) => {
+          const selectId = `quiz-${id}-match-${index}`;
+          return `<div class="lesson-quiz-match"><label for="${escapeHtml(selectId)}">${escapeHtml(pair.prompt)}</label>` +
+            `<select id="${escapeHtml(selectId)}" data-prompt-index="${index}"><option value="">Choose…</option>` +
+            choices.map((choice) => `<option value="${escapeHtml(choice.id)}">${escapeHtml(choice.text)}</option>`).join('') +
+            '</select></div>';
+        }).join('') +
+        '</div>';
+    }
+    case 'ordering':
+      return '<p class="lesson-quiz-instructions">Use the arrow buttons to put the items in order.</p>' +
+        `<ol class="lesson-quiz-order" ${labelledBy}>` +
+        block.orderItems.map((item) =>
+          `<li data-item-id="${escapeHtml(item.id)}"><span>${escapeHtml(item.text)}</span>` +
+          `<button type="button" data-move="-1" aria-label="Move ${escapeHtml(item.text)} up">↑</button>` +
+          `<button type="button" data-move="1" aria-label="Move ${escapeHtml(item.text)} down">↓</button></li>`
+        ).join('') +
+        '</ol>';
+    case 'cloze':
+      return `<div class="lesson-quiz-cloze lesson-rich-text">${renderClozeText(block)}</div>`;
+    case 'hotspot':
+      return '<p class="lesson-quiz-instructions">Click the image to mark your answer, or focus it and use the arrow keys.</p>' +
+        `<div class="lesson-marked-image lesson-hotspot" tabindex="0" role="application" aria-roledescription="image answer" ${labelledBy}>` +
+        `<img src="${escapeHtml(block.hotspotImage.imageUrl)}" alt="${escapeHtml(block.hotspotImage.altText || '')}">` +
+        '<span class="lesson-hotspot-point" hidden></span></div>';
+    default: {
+      const isMultipleSelect = block.quizType === 'multiple-select';
+      return (isMultipleSelect ? '<p class="lesson-quiz-instructions">Select all that apply.</p>' : '') +
+        `<div class="lesson-quiz-options" role="${isMultipleSelect ? 'group' : 'radiogroup'}" ${labelledBy}>` +
+        getQuizChoices(block).map((choice, index) =>
+          `<div class="lesson-quiz-option" data-option-index="${index}"><label>` +
+          `<input type="${isMultipleSelect ? 'checkbox' : 'radio'}" name="${escapeHtml(`quiz-${id}`)}" value="${index}">` +
+          `<span>${escapeHtml(choice)}</span></label><p class="lesson-quiz-option-feedback" hidden></p></div>`
+        ).join('') +
+        '</div>';
+    }
+  }
+}
+
+// Cloze text with an input or dropdown in place of each blank
+function renderClozeText(block: QuizBlock): string {
+  const parsed = new DOMParser().parseFromString(block.clozeText, 'text/html');
+  const blanks = getClozeBlanks(block);
+  blanks.forEach((blank, index) => {
+    const marks = Array.from(parsed.querySelectorAll(`[data-cloze-blank="${CSS.escape(blank.id)}"]`));
+    if (marks.length === 0) return;
+    const label = `Blank ${index + 1} of ${blanks.length}`;
+    let field: HTMLElement;
+    if (blank.mode === 'dropdown') {
+      field = parsed.createElement('select');
+      field.append(new Option('Choose…', ''));
+      blank.choices.forEach((choice, choiceIndex) => field.append(new Option(choice, String(choiceIndex))));
+    } else {
+      field = parsed.createElement('input');
+      field.setAttribute('type', 'text');
+      field.setAttribute('size', String(Math.max(6, ...blank.acceptedAnswers.map((answer) => answer.length))));
+    }
+    field.className = 'lesson-cloze-blank';
+    field.setAttribute('data-blank-id', blank.id);
+    field.setAttribute('aria-label', label);
+    marks[0].replaceWith(field);
+    marks.slice(1).forEach((mark) => mark.remove());
+  });
+  return parsed.body.innerHTML;
+}
+
+function renderPanelCell(cell: Cell, context: RenderContext): string {
+  return cell.resources.map((resource) => renderResource(resource, context)).join('');
+}
+
+function renderAccordion(block: AccordionBlock, context: RenderContext): string {
+  const openPanels = getDefaultOpenPanels(block);
+  return `<div class="lesson-accordion"${block.allowMultipleOpen ? ' data-allow-multiple' : ''}>` +
+    block.row.cells.map((cell, index) => {
+      const isOpen = openPanels.includes(index);
+      const headerId = `accordion-${block.id}-${index}`;
+      const panelId = `${headerId}-panel`;
+      return `<h3 class="lesson-accordion-header"><button type="button" id="${escapeHtml(headerId)}" aria-expanded="${isOpen}" aria-controls="${escapeHtml(panelId)}">` +
+        `${escapeHtml(getPanelTitle(block, index))}</button></h3>` +
+        `<div class="lesson-accordion-panel" id="${escapeHtml(panelId)}" role="region" aria-labelledby="${escapeHtml(headerId)}"${isOpen ? '' : ' hidden'}>` +
+        renderPanelCell(cell, context) +
+        '</div>';
+    }).join('') +
+    '</div>';
+}
+
+function renderTabs(block: TabsBlock, context: RenderContext): string {
+  const selected = Math.min(Math.max(block.defaultPanelIndex, 0), block.row.cells.length - 1);
+  const tabId = (index: number) => `tabs-${block.id}-${index}`;
+  return '<div class="lesson-tabs">' +
+    `<div class="lesson-tabs-list" role="tablist" aria-label="${escapeHtml(block.title || 'Tabs')}">` +
+    block.row.cells.map((_, index) =>
+      `<button type="button" role="tab" id="${escapeHtml(tabId(index))}" aria-controls="${escapeHtml(`${tabId(index)}-panel`)}" ` +
+      `aria-selected="${index === selected}" tabindex="${index === selected ? 0 : -1}">${escapeHtml(getPanelTitle(block, index))}</button>`
+    ).join('') +
+    '</div>' +
+    block.row.cells.map((cell, index) =>
+      `<div class="lesson-tabs-panel" role="tabpanel" id="${escapeHtml(`${tabId(index)}-panel`)}" aria-labelledby="${escapeHtml(tabId(index))}" tabindex="0"${index === selected ? '' : ' hidden'}>` +
+      renderPanelCell(cell, context) +
+      '</div>'
+    ).join('') +
+    '</div>';
+}
+
+function renderFlashcardSide(side: FlashcardSide): string {
+  return (side.imageUrl ? `<img src="${escapeHtml(side.imageUrl)}" alt="${escapeHtml(side.altText || '')}">` : '') +
+    `<div class="lesson-rich-text">${side.body}</div>`;
+}
+
+function renderFlashcards(block: FlashcardBlock): string {
+  if (block.cards.length === 0) return '';
+  return `<div class="lesson-flashcards" data-block-id="${escapeHtml(block.id)}"${block.shuffleOnStart ? ' data-shuffle' : ''}>` +
+    '<p class="lesson-flashcards-progress" aria-live="polite"></p>' +
+    block.cards.map((card) =>
+      `<div class="lesson-flashcard" data-card-id="${escapeHtml(card.id)}" hidden>` +
+      `<div class="lesson-flashcard-face lesson-flashcard-front">${renderFlashcardSide(card.front)}</div>` +
+      `<div class="lesson-flashcard-face lesson-flashcard-back" hidden>${renderFlashcardSide(card.back)}</div>` +
+      '</div>'
+    ).join('') +
+    '<div class="lesson-flashcards-actions">' +
+    '<button type="button" data-flashcard-action="flip">Flip card</button>' +
+    '<button type="button" data-flashcard-action="known" hidden>I knew it</button>' +
+    '<button type="button" data-flashcard-action="unknown" hidden>I didn\'t</button>' +
+    '</div>' +
+    '<div class="lesson-flashcards-summary" hidden><p></p>' +
+    '<button type="button" data-flashcard-action="missed">Study the missed cards again</button>' +
+    '<button type="button" data-flashcard-action="restart">Start over</button></div>' +
+    '</div>';
+}
+
+function renderTableRow(block: TableBlock, row: TableBlockCell[], rowIndex: number, covered: boolean[][]): string {
+  return '<tr>' + row.map((cell, columnIndex) => {
+    if (covered[rowIndex][columnIndex]) return '';
+    const spans = (cell.colSpan ? ` colspan="${cell.colSpan}"` : '') + (cell.rowSpan ? ` rowspan="${cell.rowSpan}"` : '');
+    if (block.hasHeaderRow && rowIndex === 0) return `<th scope="col"${spans}>${cell.body}</th>`;
+    if (block.hasHeaderColumn && columnIndex === 0) return `<th scope="row"${spans}>${cell.body}</th>`;
+    return `<td${spans}>${cell.body}</td>`;
+  }).join('') + '</tr>';
+}
+
+function renderTable(block: TableBlock): string {
+  const covered = getCoveredCells(block.cells);
+  const headerRows = block.hasHeaderRow ? block.cells.slice(0, 1) : [];
+  const bodyRows = block.hasHeaderRow ? block.cells.slice(1) : block.cells;
+  const grid = `<div class="lesson-table-scroll" tabindex="0" role="region" aria-label="${escapeHtml(block.caption || block.title || 'Table')}">` +
+    '<table class="lesson-table">' +
+    (block.caption ? `<caption>${escapeHtml(block.caption)}</caption>` : '') +
+    (headerRows.length > 0 ? `<thead>${renderTableRow(block, headerRows[0], 0, covered)}</thead>` : '') +
+    `<tbody>${bodyRows.map((row, index) => renderTableRow(block, row, index + headerRows.length, covered)).join('')}</tbody>` +
+    '</table></div>';
+
+  // Phones get one card per row instead (see TableBlockView) - the stylesheet picks a layout by width
+  const isStackable = block.phoneLayout === 'stack' && block.hasHeaderRow && block.cells.length > 1;
+  if (!isStackable) return grid;
+
+  const headerRow = block.cells[0];
+  const headerCells = headerRow.map((_, columnIndex) => {
+    let anchor = columnIndex;
+    while (anchor > 0 && covered[0][anchor]) anchor--;
+    return headerRow[anchor];
+  });
+  const cards = block.cells.slice(1).map((row, index) => {
+    const rowIndex = index + 1;
+    const titleCell = block.hasHeaderColumn && !covered[rowIndex][0] ? row[0] : null;
+    return '<div class="lesson-table-card">' +
+      (titleCell ? `<div class="lesson-table-card-title">${titleCell.body}</div>` : '') +
+      '<dl>' +
+      row.map((cell, columnIndex) =>
+        covered[rowIndex][columnIndex] || cell === titleCell
+          ? ''
+          : `<div><dt>${headerCells[columnIndex].body}</dt><dd>${cell.body}</dd></div>`
+      ).join('') +
+      '</dl></div>';
+  }).join('');
+  return `<div class="lesson-table-stackable">${grid}<div class="lesson-table-cards">` +
+    (block.caption ? `<p class="lesson-table-cards-caption">${escapeHtml(block.caption)}</p>` : '') +
+    `${cards}</div></div>`;
+}
+
+function renderButton(block: ButtonBlock): string {
+  const action = block.action ?? { type: 'none' };
+  const className = [
+    'lesson-button',
+    `lesson-button-${block.variant ?? 'primary'}`,
+    `lesson-button-${block.size ?? 'large'}`,
+    block.fullWidth ? 'lesson-button-full-width' : '',
+  ].filter(Boolean).join(' ');
+  const iconPath = BUTTON_ICON_PATHS[block.icon ?? 'arrow'];
+  const content = `<span>${escapeHtml(block.label || 'Continue')}</span>` +
+    (iconPath ? `<svg aria-hidden="true" viewBox="0 0 24 24" width="16" height="16"><path fill="currentColor" d="${iconPath}"></path></svg>` : '');
+
+  if (action.type === 'url') {
+    const url = getButtonActionUrl(action);
+    if (!url) return `<div class="lesson-button-wrapper"><span class="${className}">${content}</span></div>`;
+    return `<div class="lesson-button-wrapper"><a class="${className}" href="${escapeHtml(url)}"` +
+      (action.openInNewTab ? ' target="_blank" rel="noopener noreferrer"' : '') +
+      `>${content}${action.openInNewTab ? '<span class="visually-hidden"> (opens in a new tab)</span>' : ''}</a></div>`;
+  }
+  const rowId = action.type === 'anchor' || action.type === 'reveal-row' ? action.rowId : null;
+  // There is no next or previous lesson in a single-lesson package
+  const isUnavailable = action.type === 'next-page' || action.type === 'previous-page';
+  return `<div class="lesson-button-wrapper"><button type="button" class="${className}" data-action="${action.type}"` +
+    (rowId ? ` data-row-id="${escapeHtml(rowId)}"` : '') +
+    (isUnavailable ? ' disabled' : '') +
+    `>${content}</button></div>`;
+}
+
+// HTML helpers
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// JSON that can sit inside a <script> element - "</script>" in the content cannot end it
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function toStyle(styles: Record<string, string | undefined>): string {
+  return Object.entries(styles)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}:${value}`)
+    .join(';');
+}
+
+function toStyleAttribute(styles: Record<string, string | undefined>): string {
+  const style = toStyle(styles);
+  return style ? ` style="${escapeHtml(style)}"` : '';
+}
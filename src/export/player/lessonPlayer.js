@@ -0,0 +1,797 @@
+/*
+ * Lesson player for exported lessons
+ *
+ * Runs the interactive parts of a page rendered by export/lessonHtml.ts: question draws,
+ * quizzes, gates, panels, flashcards, labeled graphics and button actions. Answer data comes
+ * from the JSON in #lesson-player-data.
+ *
+ * Progress goes through `window.lessonRuntime` when the page provides one (the SCORM adapter
+ * does), otherwise it only lasts as long as the page is open:
+ *   start(): string    - state saved by an earlier session, or ''
+ *   save(state)        - keep the state for the next session
+ *   report(progress)   - { correct, total, answered, isComplete } after every change
+ *   finish()           - the learner is leaving the page
+ */
+(function () {
+  'use strict';
+
+  var SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  var KEYBOARD_STEP = 1;
+  var KEYBOARD_STEP_LARGE = 10;
+
+  var data = JSON.parse(document.getElementById('lesson-player-data').textContent);
+  var runtime = window.lessonRuntime || {
+    start: function () { return ''; },
+    save: function () {},
+    report: function () {},
+    finish: function () {},
+  };
+  var quizIds = Object.keys(data.quizzes);
+  var state = readState(runtime.start());
+  var quizzes = {}; // Controllers of the quizzes on the page, by quiz ID
+  var listeners = [];
+
+  // Saved state - results are keyed by the quiz's index so suspend data stays small
+  function readState(saved) {
+    var fresh = { seed: createSeed(), results: {}, revealed: [], continued: [] };
+    if (!saved) return fresh;
+    try {
+      var parsed = JSON.parse(saved);
+      var results = {};
+      Object.keys(parsed.r || {}).forEach(function (index) {
+        var id = quizIds[Number(index)];
+        var entry = parsed.r[index];
+        if (id) results[id] = { attempts: entry[0], isCorrect: entry[1] === 1, isFinal: entry[2] === 1 };
+      });
+      return { seed: parsed.s || fresh.seed, results: results, revealed: parsed.v || [], continued: parsed.c || [] };
+    } catch (error) {
+      return fresh;
+    }
+  }
+
+  function saveState() {
+    var results = {};
+    Object.keys(state.results).forEach(function (id) {
+      var result = state.results[id];
+      results[quizIds.indexOf(id)] = [result.attempts, result.isCorrect ? 1 : 0, result.isFinal ? 1 : 0];
+    });
+    runtime.save(JSON.stringify({ s: state.seed, r: results, v: state.revealed, c: state.continued }));
+  }
+
+  function notify() {
+    saveState();
+    runtime.report(getProgress());
+    listeners.forEach(function (listener) { listener(); });
+  }
+
+  function getProgress() {
+    var ids = Object.keys(quizzes);
+    var correct = 0;
+    var answered = 0;
+    ids.forEach(function (id) {
+      var result = state.results[id];
+      if (result && result.isCorrect) correct++;
+      if (result && result.isFinal) answered++;
+    });
+    return { correct: correct, total: ids.length, answered: answered, isComplete: answered === ids.length };
+  }
+
+  // Seeded random numbers - the same generator as the editor's preview (utils/random), so a
+  // seed gives the same draws and shuffles in both
+
+  function createSeed() {
+    var seed = '';
+    for (var i = 0; i < 6; i++) seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+    return seed;
+  }
+
+  function hashString(text) {
+    var hash = 0x811c9dc5;
+    for (var i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  function createRandom(key) {
+    var value = hashString(state.seed + ':' + key);
+    return function () {
+      value = (value + 0x6d2b79f5) | 0;
+      var t = Math.imul(value ^ (value >>> 15), 1 | value);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  function shuffle(items, random) {
+    var shuffled = items.slice();
+    for (var i = shuffled.length - 1; i > 0; i--) {
+      var j = Math.floor(random() * (i + 1));
+      var swap = shuffled[i];
+      shuffled[i] = shuffled[j];
+      shuffled[j] = swap;
+    }
+    return shuffled;
+  }
+
+  // Never the correct order - a shuffle that lands on it is rotated by one
+  function shuffleAnswerOrder(ids, random) {
+    var shuffled = shuffle(ids, random);
+    var isInOrder = shuffled.every(function (id, index) { return id === ids[index]; });
+    if (shuffled.length > 1 && isInOrder) shuffled.push(shuffled.shift());
+    return shuffled;
+  }
+
+  function reorderChildren(parent, elements) {
+    elements.forEach(function (element) { parent.appendChild(element); });
+  }
+
+  // Question draws - keep the questions drawn for this learner, in drawn order
+
+  function setUpDraws() {
+    data.draws.forEach(function (draw) {
+      var container = document.querySelector('[data-draw-id="' + cssEscape(draw.id) + '"]');
+      if (!container) return;
+      var drawn = shuffle(draw.questionIds, createRandom(draw.id)).slice(0, draw.count);
+      Array.prototype.slice.call(container.children).forEach(function (question) {
+        if (drawn.indexOf(question.getAttribute('data-question-id')) === -1) question.remove();
+      });
+      drawn.forEach(function (questionId) {
+        var question = container.querySelector('[data-question-id="' + cssEscape(questionId) + '"]');
+        if (question) {
+          question.hidden = false;
+          container.appendChild(question);
+        }
+      });
+    });
+  }
+
+  function getDrawnQuizIds(drawId) {
+    var container = document.querySelector('[data-draw-id="' + cssEscape(drawId) + '"]');
+    if (!container) return [];
+    return Array.prototype.map.call(container.querySelectorAll('.lesson-quiz'), function (section) {
+      return section.getAttribute('data-quiz-id');
+    });
+  }
+
+  // Grading - mirrors utils/quiz
+
+  function normalizeAnswer(text, quiz) {
+    var normalized = quiz.ignoreExtraWhitespace === false ? text : text.trim().replace(/\s+/g, ' ');
+    return quiz.caseSensitive ? normalized : normalized.toLocaleLowerCase();
+  }
+
+  function matchesAnswerPattern(pattern, answer, quiz) {
+    var normalizedPattern = normalizeAnswer(pattern, quiz);
+    var normalizedAnswer = normalizeAnswer(answer, quiz);
+    if (normalizedPattern.indexOf('*') === -1) return normalizedPattern === normalizedAnswer;
+    var source = normalizedPattern
+      .split('*')
+      .map(function (part) { return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); })
+      .join('.*');
+    return new RegExp('^' + source + '$', 's').test(normalizedAnswer);
+  }
+
+  function isAcceptedAnswer(patterns, value, quiz) {
+    return patterns.some(function (pattern) {
+      return pattern.trim() !== '' && matchesAnswerPattern(pattern, value, quiz);
+    });
+  }
+
+  function firstAcceptedAnswer(patterns) {
+    return patterns.filter(function (pattern) { return pattern.trim() !== ''; })[0] || '';
+  }
+
+  function isBlankCorrect(quiz, blank, value) {
+    if (blank.mode === 'dropdown') return value !== '' && Number(value) === blank.correctChoiceIndex;
+    return isAcceptedAnswer(blank.acceptedAnswers, value, quiz);
+  }
+
+  function getBlankAnswer(blank) {
+    return blank.mode === 'dropdown' ? blank.choices[blank.correctChoiceIndex] : firstAcceptedAnswer(blank.acceptedAnswers);
+  }
+
+  // Quizzes
+
+  function setUpQuiz(section) {
+    var id = section.getAttribute('data-quiz-id');
+    var quiz = data.quizzes[id];
+    var submitButton = section.querySelector('.lesson-quiz-submit');
+    var feedback = section.querySelector('.lesson-quiz-feedback');
+    var isChoice = quiz.quizType === 'multiple-choice' || quiz.quizType === 'multiple-select' || quiz.quizType === 'true-false';
+    var point = null;
+    var isShowingFeedback = false;
+
+    var fields = function () {
+      return Array.prototype.slice.call(section.querySelectorAll('input, select, .lesson-quiz-order button'));
+    };
+
+    // Starting order of shuffled answers
+    if (isChoice && quiz.shuffleOptions && quiz.quizType !== 'true-false') {
+      var list = section.querySelector('.lesson-quiz-options');
+      var options = Array.prototype.slice.call(list.children);
+      var random = createRandom(id + ':options');
+      var order = quiz.keepLastOptionInPlace && options.length > 1
+        ? shuffle(options.slice(0, -1), random).concat(options.slice(-1))
+        : shuffle(options, random);
+      reorderChildren(list, order);
+    }
+    if (quiz.quizType === 'ordering') {
+      var orderList = section.querySelector('.lesson-quiz-order');
+      var items = Array.prototype.slice.call(orderList.children);
+      var ids = items.map(function (item) { return item.getAttribute('data-item-id'); });
+      var shuffledIds = shuffleAnswerOrder(ids, createRandom(id + ':order'));
+      reorderChildren(orderList, shuffledIds.map(function (itemId) { return items[ids.indexOf(itemId)]; }));
+      orderList.addEventListener('click', function (event) {
+        var button = event.target.closest('button[data-move]');
+        if (!button || button.disabled) return;
+        var item = button.closest('li');
+        var sibling = button.getAttribute('data-move') === '-1' ? item.previousElementSibling : item.nextElementSibling;
+        if (!sibling) return;
+        if (button.getAttribute('data-move') === '-1') orderList.insertBefore(item, sibling);
+        else orderList.insertBefore(sibling, item);
+        button.focus();
+      });
+    }
+    if (quiz.quizType === 'matching') {
+      var choiceIds = quiz.matchChoices.map(function (choice) { return choice.id; });
+      var choiceOrder = shuffleAnswerOrder(choiceIds, createRandom(id + ':order'));
+      section.querySelectorAll('select').forEach(function (select) {
+        var choiceOptions = Array.prototype.slice.call(select.options, 1);
+        choiceOrder.forEach(function (choiceId) {
+          var option = choiceOptions.filter(function (candidate) { return candidate.value === choiceId; })[0];
+          if (option) select.appendChild(option);
+        });
+      });
+    }
+    if (quiz.quizType === 'hotspot') setUpHotspot();
+
+    function setUpHotspot() {
+      var target = section.querySelector('.lesson-hotspot');
+      var marker = target.querySelector('.lesson-hotspot-point');
+      var place = function (next) {
+        point = next;
+        marker.hidden = false;
+        marker.style.left = next.x + '%';
+        marker.style.top = next.y + '%';
+        updateSubmit();
+      };
+      target.addEventListener('click', function (event) {
+        if (isLocked()) return;
+        var rect = target.querySelector('img').getBoundingClientRect();
+        if (!rect.width || !rect.height) return;
+        place({
+          x: clamp(((event.clientX - rect.left) / rect.width) * 100),
+          y: clamp(((event.clientY - rect.top) / rect.height) * 100),
+        });
+      });
+      target.addEventListener('keydown', function (event) {
+        if (isLocked()) return;
+        var step = event.shiftKey ? KEYBOARD_STEP_LARGE : KEYBOARD_STEP;
+        var current = point || { x: 50, y: 50 };
+        var moves = {
+          ArrowLeft: { x: current.x - step, y: current.y },
+          ArrowRight: { x: current.x + step, y: current.y },
+          ArrowUp: { x: current.x, y: current.y - step },
+          ArrowDown: { x: current.x, y: current.y + step },
+        };
+        var next = moves[event.key];
+        if (!next && (event.key === 'Enter' || event.key === ' ') && !point) next = current;
+        if (!next) return;
+        event.preventDefault();
+        place({ x: clamp(next.x), y: clamp(next.y) });
+      });
+    }
+
+    function isLocked() {
+      var result = state.results[id];
+      return isShowingFeedback || !!(result && result.isFinal);
+    }
+
+    function getSelectedIndices() {
+      return Array.prototype.filter.call(section.querySelectorAll('.lesson-quiz-options input'), function (input) {
+        return input.checked;
+      }).map(function (input) { return Number(input.value); });
+    }
+
+    function canSubmit() {
+      if (isLocked()) return false;
+      switch (quiz.quizType) {
+        case 'short-answer':
+          return section.querySelector('.lesson-quiz-text').value.trim() !== '';
+        case 'cloze': {
+          var blanks = section.querySelectorAll('.lesson-cloze-blank');
+          return blanks.length > 0 && Array.prototype.every.call(blanks, function (blank) { return blank.value.trim() !== ''; });
+        }
+        case 'matching':
+          return Array.prototype.every.call(section.querySelectorAll('select'), function (select) { return select.value !== ''; });
+        case 'hotspot':
+          return point !== null;
+        case 'ordering':
+          return true;
+        default:
+          return getSelectedIndices().length > 0;
+      }
+    }
+
+    function isCorrect() {
+      switch (quiz.quizType) {
+        case 'short-answer':
+          return isAcceptedAnswer(quiz.acceptedAnswers, section.querySelector('.lesson-quiz-text').value, quiz);
+        case 'ordering': {
+          var order = Array.prototype.map.call(section.querySelectorAll('.lesson-quiz-order li'), function (item) {
+            return item.getAttribute('data-item-id');
+          });
+          return order.length === quiz.orderItems.length && quiz.orderItems.every(function (item, index) { return order[index] === item.id; });
+        }
+        case 'hotspot':
+          return point !== null && quiz.hotspots.some(function (hotspot) {
+            return hotspot.isCorrect &&
+              Math.abs(point.x - hotspot.x) <= hotspot.width / 2 &&
+              Math.abs(point.y - hotspot.y) <= hotspot.height / 2;
+          });
+        case 'cloze':
+          return quiz.clozeBlanks.length > 0 && quiz.clozeBlanks.every(function (blank) {
+            var field = section.querySelector('[data-blank-id="' + cssEscape(blank.id) + '"]');
+            return !!field && isBlankCorrect(quiz, blank, field.value);
+          });
+        case 'matching':
+          // Compared by text, so pairs sharing the same answer can use either copy
+          return quiz.matchPairs.every(function (pair, index) {
+            var select = section.querySelector('select[data-prompt-index="' + index + '"]');
+            var choice = quiz.matchChoices.filter(function (item) { return select && item.id === select.value; })[0];
+            return !!choice && choice.text.trim() === pair.match.trim();
+          });
+        default: {
+          var selected = getSelectedIndices();
+          return selected.length === quiz.correctIndices.length &&
+            quiz.correctIndices.every(function (index) { return selected.indexOf(index) !== -1; });
+        }
+      }
+    }
+
+    function updateSubmit() {
+      var result = state.results[id];
+      submitButton.hidden = !!(result && result.isFinal);
+      if (isShowingFeedback && result && !result.isFinal) {
+        submitButton.textContent = 'Try again';
+        submitButton.disabled = false;
+      } else {
+        submitButton.textContent = 'Submit';
+        submitButton.disabled = !canSubmit();
+      }
+    }
+
+    function showFeedback() {
+      var result = state.results[id];
+      if (!result) return;
+      section.classList.toggle('is-correct', result.isCorrect);
+      section.classList.toggle('is-incorrect', !result.isCorrect);
+      var message = result.isCorrect
+        ? quiz.correctFeedback || 'Correct!'
+        : quiz.incorrectFeedback || 'Not quite.';
+      if (!result.isFinal && quiz.maxAttempts) {
+        var left = Math.max(quiz.maxAttempts - result.attempts, 0);
+        message += ' ' + left + (left === 1 ? ' attempt' : ' attempts') + ' left.';
+      }
+      feedback.textContent = message;
+
+      if (isChoice && quiz.quizType !== 'true-false') {
+        section.querySelectorAll('.lesson-quiz-option').forEach(function (option) {
+          var index = Number(option.getAttribute('data-option-index'));
+          var text = option.querySelector('.lesson-quiz-option-feedback');
+          var isSelected = option.querySelector('input').checked;
+          var optionFeedback = quiz.optionFeedback && quiz.optionFeedback[index];
+          text.hidden = !(isSelected && optionFeedback);
+          text.textContent = isSelected && optionFeedback ? optionFeedback : '';
+        });
+      }
+      if (isChoice) {
+        section.querySelectorAll('.lesson-quiz-option').forEach(function (option) {
+          var index = Number(option.getAttribute('data-option-index'));
+          var isSelected = option.querySelector('input').checked;
+          var isAnswer = quiz.correctIndices.indexOf(index) !== -1;
+          option.classList.toggle('is-correct', isSelected && isAnswer);
+          option.classList.toggle('is-incorrect', isSelected && !isAnswer);
+        });
+      }
+      // Correct answers are only revealed once the learner can no longer retry
+      if (result.isFinal && !result.isCorrect) revealAnswer();
+    }
+
+    function revealAnswer() {
+      if (section.querySelector('.lesson-quiz-answer')) return;
+      var answer = document.createElement('p');
+      answer.className = 'lesson-quiz-answer';
+      switch (quiz.quizType) {
+        case 'short-answer':
+          answer.textContent = 'Accepted answer: ' + firstAcceptedAnswer(quiz.acceptedAnswers);
+          break;
+        case 'ordering':
+          answer.textContent = 'Correct order: ' + quiz.orderItems.map(function (item) { return item.text; }).join(', ');
+          break;
+        case 'matching':
+          answer.textContent = 'Answers: ' + quiz.matchPairs.map(function (pair) { return pair.prompt + ' - ' + pair.match; }).join('; ');
+          break;
+        case 'cloze':
+          answer.textContent = 'Answers: ' + quiz.clozeBlanks.map(function (blank, index) {
+            return (index + 1) + '. ' + getBlankAnswer(blank);
+          }).join(', ');
+          break;
+        case 'hotspot': {
+          var target = section.querySelector('.lesson-hotspot');
+          quiz.hotspots.filter(function (hotspot) { return hotspot.isCorrect; }).forEach(function (hotspot) {
+            var region = document.createElement('span');
+            region.className = 'lesson-hotspot-region';
+            region.style.left = hotspot.x - hotspot.width / 2 + '%';
+            region.style.top = hotspot.y - hotspot.height / 2 + '%';
+            region.style.width = hotspot.width + '%';
+            region.style.height = hotspot.height + '%';
+            target.appendChild(region);
+          });
+          answer.textContent = 'The correct area is outlined on the image.';
+          break;
+        }
+        default:
+          section.querySelectorAll('.lesson-quiz-option').forEach(function (option) {
+            var index = Number(option.getAttribute('data-option-index'));
+            option.classList.toggle('is-answer', quiz.correctIndices.indexOf(index) !== -1);
+          });
+          return;
+      }
+      feedback.after(answer);
+    }
+
+    function lockFields() {
+      fields().forEach(function (field) { field.disabled = isLocked(); });
+    }
+
+    function submit() {
+      if (!canSubmit()) return;
+      var previous = state.results[id];
+      var attempts = (previous ? previous.attempts : 0) + 1;
+      var correct = isCorrect();
+      state.results[id] = {
+        attempts: attempts,
+        isCorrect: correct,
+        isFinal: correct || (!!quiz.maxAttempts && attempts >= quiz.maxAttempts),
+      };
+      isShowingFeedback = true;
+      showFeedback();
+      lockFields();
+      updateSubmit();
+      notify();
+    }
+
+    // Ordering, matching, cloze and hotspot answers are kept so learners can adjust them
+    function retry() {
+      isShowingFeedback = false;
+      section.classList.remove('is-correct', 'is-incorrect');
+      feedback.textContent = '';
+      section.querySelectorAll('.lesson-quiz-option').forEach(function (option) {
+        option.classList.remove('is-correct', 'is-incorrect');
+        option.querySelector('input').checked = false;
+        option.querySelector('.lesson-quiz-option-feedback').hidden = true;
+      });
+      var text = section.querySelector('.lesson-quiz-text');
+      if (text) text.value = '';
+      lockFields();
+      updateSubmit();
+    }
+
+    submitButton.addEventListener('click', function () {
+      if (submitButton.textContent === 'Try again') retry();
+      else submit();
+    });
+    section.addEventListener('input', updateSubmit);
+    section.addEventListener('change', updateSubmit);
+    section.addEventListener('keydown', function (event) {
+      if (event.key === 'Enter' && event.target.classList.contains('lesson-quiz-text')) submit();
+    });
+
+    // A quiz finished in an earlier session shows how it went
+    if (state.results[id] && state.results[id].isFinal) showFeedback();
+    lockFields();
+    updateSubmit();
+
+    return { submit: submit };
+  }
+
+  // Gates and revealed rows
+
+  function getTopRows() {
+    return Array.prototype.slice.call(document.querySelectorAll('.lesson-row-top'));
+  }
+
+  // Same rules as isGateSatisfied in utils/rowGates.ts - a quiz out of attempts also counts
+  function isGatePassed(gate) {
+    var ids = gate.quizIds.slice();
+    gate.drawIds.forEach(function (drawId) { ids = ids.concat(getDrawnQuizIds(drawId)); });
+    return ids.every(function (quizId) {
+      var result = state.results[quizId];
+      if (!result) return false;
+      return result.isFinal || result.isCorrect || (!!gate.attemptsToUnlock && result.attempts >= gate.attemptsToUnlock);
+    });
+  }
+
+  function updateRows() {
+    var lock = null; // Gate holding back the rows that follow it
+    getTopRows().forEach(function (row) {
+      var rowId = row.getAttribute('data-row-id');
+      var isUnrevealed = row.hasAttribute('data-hidden-until-revealed') && state.revealed.indexOf(rowId) === -1;
+      var isLocked = lock !== null;
+      row.hidden = isUnrevealed || (isLocked && lock.lockStyle === 'hide');
+      row.classList.toggle('lesson-row-locked', isLocked && lock.lockStyle === 'blur');
+      row.inert = isLocked;
+      if (isLocked) row.setAttribute('aria-hidden', 'true');
+      else row.removeAttribute('aria-hidden');
+
+      var gate = data.gates.filter(function (candidate) { return candidate.rowId === rowId; })[0];
+      var continueButton = row.querySelector(':scope > .lesson-gate-continue');
+      if (!gate || isLocked) {
+        if (continueButton) continueButton.hidden = true;
+        return;
+      }
+      var isPassed = isGatePassed(gate);
+      var isContinued = !gate.continueButton || state.continued.indexOf(rowId) !== -1;
+      if (gate.continueButton) {
+        if (!continueButton) {
+          continueButton = document.createElement('button');
+          continueButton.type = 'button';
+          continueButton.className = 'lesson-button lesson-button-primary lesson-button-medium lesson-gate-continue';
+          continueButton.textContent = gate.continueLabel || 'Continue';
+          continueButton.addEventListener('click', function () {
+            state.continued.push(rowId);
+            notify();
+            var next = getTopRows()[getTopRows().indexOf(row) + 1];
+            if (next && !next.hidden) next.scrollIntoView({ behavior: 'smooth', block: 'start' });
+          });
+          row.appendChild(continueButton);
+        }
+        continueButton.hidden = !isPassed || isContinued;
+      }
+      if (!isPassed || !isContinued) lock = gate;
+    });
+  }
+
+  // Buttons
+
+  function runButtonAction(button) {
+    var action = button.getAttribute('data-action');
+    var rowId = button.getAttribute('data-row-id');
+    var row = rowId ? document.querySelector('.lesson-row-top[data-row-id="' + cssEscape(rowId) + '"]') : null;
+    if (action === 'submit-quizzes') {
+      Object.keys(quizzes).forEach(function (id) { quizzes[id].submit(); });
+    }
+    if (action === 'reveal-row' && row) {
+      if (state.revealed.indexOf(rowId) === -1) state.revealed.push(rowId);
+      notify();
+    }
+    if ((action === 'anchor' || action === 'reveal-row') && row && !row.hidden) {
+      row.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }
+
+  // Accordions, tabs, labeled graphics and flashcards
+
+  function setUpAccordion(accordion) {
+    var triggers = Array.prototype.slice.call(accordion.querySelectorAll(':scope > .lesson-accordion-header > button'));
+    var allowMultiple = accordion.hasAttribute('data-allow-multiple');
+    triggers.forEach(function (trigger) {
+      trigger.addEventListener('click', function () {
+        var isOpen = trigger.getAttribute('aria-expanded') === 'true';
+        triggers.forEach(function (other) {
+          var shouldOpen = other === trigger ? !isOpen : allowMultiple && other.getAttribute('aria-expanded') === 'true';
+          other.setAttribute('aria-expanded', String(shouldOpen));
+          document.getElementById(other.getAttribute('aria-controls')).hidden = !shouldOpen;
+        });
+      });
+    });
+  }
+
+  function setUpTabs(tabs) {
+    var list = tabs.querySelector(':scope > .lesson-tabs-list');
+    var buttons = Array.prototype.slice.call(list.children);
+    var select = function (index) {
+      buttons.forEach(function (button, buttonIndex) {
+        var isSelected = buttonIndex === index;
+        button.setAttribute('aria-selected', String(isSelected));
+        button.tabIndex = isSelected ? 0 : -1;
+        document.getElementById(button.getAttribute('aria-controls')).hidden = !isSelected;
+      });
+      buttons[index].focus();
+    };
+    buttons.forEach(function (button, index) {
+      button.addEventListener('click', function () { select(index); });
+    });
+    list.addEventListener('keydown', function (event) {
+      var current = buttons.indexOf(document.activeElement);
+      if (current === -1) return;
+      var next = {
+        ArrowRight: (current + 1) % buttons.length,
+        ArrowLeft: (current - 1 + buttons.length) % buttons.length,
+        Home: 0,
+        End: buttons.length - 1,
+      }[event.key];
+      if (next === undefined) return;
+      event.preventDefault();
+      select(next);
+    });
+  }
+
+  function setUpGraphic(graphic) {
+    var markers = Array.prototype.slice.call(graphic.querySelectorAll('.lesson-graphic-marker'));
+    var close = function () {
+      markers.forEach(function (marker) {
+        marker.setAttribute('aria-expanded', 'false');
+        document.getElementById(marker.getAttribute('aria-controls')).hidden = true;
+      });
+    };
+    markers.forEach(function (marker) {
+      marker.addEventListener('click', function () {
+        var isOpen = marker.getAttribute('aria-expanded') === 'true';
+        close();
+        if (isOpen) return;
+        marker.setAttribute('aria-expanded', 'true');
+        document.getElementById(marker.getAttribute('aria-controls')).hidden = false;
+      });
+    });
+    graphic.addEventListener('keydown', function (event) {
+      if (event.key === 'Escape') close();
+    });
+  }
+
+  function setUpFlashcards(deck) {
+    var blockId = deck.getAttribute('data-block-id');
+    var cards = Array.prototype.slice.call(deck.querySelectorAll('.lesson-flashcard'));
+    var ids = cards.map(function (card) { return card.getAttribute('data-card-id'); });
+    var isShuffled = deck.hasAttribute('data-shuffle');
+    var progress = deck.querySelector('.lesson-flashcards-progress');
+    var actions = deck.querySelector('.lesson-flashcards-actions');
+    var summary = deck.querySelector('.lesson-flashcards-summary');
+    var button = function (name) { return deck.querySelector('[data-flashcard-action="' + name + '"]'); };
+    var round = 0;
+    var roundIds = [];
+    var position = 0;
+    var isFlipped = false;
+    var ratings = {};
+
+    var start = function (nextIds) {
+      roundIds = nextIds;
+      position = 0;
+      isFlipped = false;
+      ratings = {};
+      render();
+    };
+
+    var render = function () {
+      var isDone = position >= roundIds.length;
+      cards.forEach(function (card) {
+        var isCurrent = !isDone && card.getAttribute('data-card-id') === roundIds[position];
+        card.hidden = !isCurrent;
+        card.classList.toggle('is-flipped', isCurrent && isFlipped);
+        card.querySelector('.lesson-flashcard-front').hidden = isCurrent && isFlipped;
+        card.querySelector('.lesson-flashcard-back').hidden = !(isCurrent && isFlipped);
+      });
+      actions.hidden = isDone;
+      summary.hidden = !isDone;
+      if (isDone) {
+        var missed = roundIds.filter(function (id) { return ratings[id] === 'unknown'; });
+        progress.textContent = '';
+        summary.querySelector('p').textContent = 'You knew ' + (roundIds.length - missed.length) + ' of ' + roundIds.length + ' cards.';
+        button('missed').hidden = missed.length === 0;
+        button('missed').textContent = 'Study the ' + missed.length + ' missed again';
+        return;
+      }
+      progress.textContent = 'Card ' + (position + 1) + ' of ' + roundIds.length;
+      button('flip').textContent = isFlipped ? 'Show front' : 'Flip card';
+      button('known').hidden = !isFlipped;
+      button('unknown').hidden = !isFlipped;
+    };
+
+    var rate = function (rating) {
+      ratings[roundIds[position]] = rating;
+      position++;
+      isFlipped = false;
+      render();
+      if (position >= roundIds.length) summary.querySelector('button:not([hidden])').focus();
+      else button('flip').focus();
+    };
+
+    button('flip').addEventListener('click', function () {
+      isFlipped = !isFlipped;
+      render();
+    });
+    button('known').addEventListener('click', function () { rate('known'); });
+    button('unknown').addEventListener('click', function () { rate('unknown'); });
+    button('missed').addEventListener('click', function () {
+      var missed = roundIds.filter(function (id) { return ratings[id] === 'unknown'; });
+      round++;
+      start(isShuffled ? shuffle(missed, createRandom(blockId + ':' + round)) : missed);
+    });
+    button('restart').addEventListener('click', function () {
+      round++;
+      start(isShuffled ? shuffle(ids, createRandom(blockId + ':' + round)) : ids);
+    });
+
+    start(isShuffled ? shuffle(ids, createRandom(blockId)) : ids);
+  }
+
+  // Keep playback inside a trimmed video's data-start/data-end range, like VideoBlockView
+  function setUpVideo(video) {
+    var startTime = Number(video.getAttribute('data-start')) || 0;
+    var endTime = video.hasAttribute('data-end') ? Number(video.getAttribute('data-end')) : null;
+    if (startTime === 0 && endTime === null) return;
+    // The native loop would restart from 0
+    var isLooping = video.loop;
+    video.loop = false;
+
+    var restartAtStart = function () {
+      video.currentTime = startTime;
+      video.play().catch(function () {
+        // Playback can be blocked by the browser (e.g. unmuted autoplay)
+      });
+    };
+
+    var seekToStart = function () {
+      if (startTime > 0 && video.currentTime < startTime) video.currentTime = startTime;
+    };
+    // The metadata may have loaded before this script ran
+    if (video.readyState >= 1) seekToStart();
+    video.addEventListener('loadedmetadata', seekToStart);
+    video.addEventListener('timeupdate', function () {
+      if (endTime === null || video.currentTime < endTime) return;
+      if (isLooping) {
+        restartAtStart();
+      } else {
+        video.pause();
+        video.currentTime = endTime;
+      }
+    });
+    video.addEventListener('ended', function () {
+      if (isLooping) restartAtStart();
+    });
+  }
+
+  // Helpers
+
+  function clamp(value) {
+    return Math.min(100, Math.max(0, value));
+  }
+
+  function cssEscape(value) {
+    return window.CSS && CSS.escape ? CSS.escape(value) : value.replace(/["\\]/g, '\\$&');
+  }
+
+  // Start
+
+  setUpDraws();
+  document.querySelectorAll('.lesson-quiz').forEach(function (section) {
+    quizzes[section.getAttribute('data-quiz-id')] = setUpQuiz(section);
+  });
+  document.querySelectorAll('.lesson-accordion').forEach(setUpAccordion);
+  document.querySelectorAll('.lesson-tabs').forEach(setUpTabs);
+  document.querySelectorAll('.lesson-graphic').forEach(setUpGraphic);
+  document.querySelectorAll('.lesson-flashcards').forEach(setUpFlashcards);
+  document.querySelectorAll('.lesson-video').forEach(setUpVideo);
+  document.addEventListener('click', function (event) {
+    var button = event.target.closest('button[data-action]');
+    if (button) runButtonAction(button);
+  });
+
+  listeners.push(updateRows);
+  updateRows();
+  saveState();
+  runtime.report(getProgress());
+
+  var hasFinished = false;
+  var finish = function () {
+    if (hasFinished) return;
+    hasFinished = true;
+    saveState();
+    runtime.finish();
+  };
+  window.addEventListener('pagehide', finish);
+  window.addEventListener('beforeunload', finish);
+})();
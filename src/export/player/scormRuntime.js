@@ -0,0 +1,136 @@
+/*
+ * SCORM runtime adapter for exported lessons
+ *
+ * Provides `window.lessonRuntime` for the lesson player (lessonPlayer.js) on top of the LMS's
+ * SCORM API - `API` for SCORM 1.2, `API_1484_11` for SCORM 2004 - found in this window or one
+ * of its parents or openers. Settings come from the JSON in #lesson-scorm-config:
+ *   version        - '1.2' or '2004'
+ *   masteryScore   - passing score in percent, or null to only report completion
+ *
+ * The score is the share of quizzes answered correctly. The lesson is complete once every
+ * quiz is finished (correct, or out of attempts) - straight away when it has no quizzes.
+ */
+(function () {
+  'use strict';
+
+  var MAX_PARENT_DEPTH = 10;
+  var SUSPEND_DATA_LIMIT_12 = 4096;
+
+  var config = JSON.parse(document.getElementById('lesson-scorm-config').textContent);
+  var is2004 = config.version === '2004';
+  var apiName = is2004 ? 'API_1484_11' : 'API';
+  var api = findApi();
+  var isInitialized = false;
+  var isTerminated = false;
+  var startedAt = Date.now();
+  var masteryScore = config.masteryScore;
+
+  function findApiIn(win) {
+    for (var depth = 0; win && depth <= MAX_PARENT_DEPTH; depth++) {
+      try {
+        if (win[apiName]) return win[apiName];
+      } catch (error) {
+        return null; // A window of another origin
+      }
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  function findApi() {
+    var found = findApiIn(window);
+    if (!found && window.top && window.top.opener) found = findApiIn(window.top.opener);
+    return found;
+  }
+
+  function call(name, args) {
+    if (!api || (isTerminated && name !== 'GetLastError')) return '';
+    var method = is2004 ? name : { Initialize: 'LMSInitialize', Terminate: 'LMSFinish', GetValue: 'LMSGetValue', SetValue: 'LMSSetValue', Commit: 'LMSCommit', GetLastError: 'LMSGetLastError' }[name];
+    try {
+      return String(api[method].apply(api, args));
+    } catch (error) {
+      return '';
+    }
+  }
+
+  function getValue(element) {
+    return call('GetValue', [element]);
+  }
+
+  function setValue(element, value) {
+    return call('SetValue', [element, String(value)]);
+  }
+
+  // Time spent in this session, in the format of each version
+  function formatSessionTime(milliseconds) {
+    var seconds = Math.round(milliseconds / 1000);
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    var rest = seconds % 60;
+    if (is2004) return 'PT' + hours + 'H' + minutes + 'M' + rest + 'S';
+    var pad = function (value) { return (value < 10 ? '0' : '') + value; };
+    return pad(hours) + ':' + pad(minutes) + ':' + pad(rest);
+  }
+
+  // The LMS's passing score takes precedence over the one exported with the lesson
+  function readMasteryScore() {
+    var value = is2004 ? getValue('cmi.scaled_passing_score') : getValue('cmi.student_data.mastery_score');
+    if (value === '' || isNaN(Number(value))) return;
+    masteryScore = is2004 ? Number(value) * 100 : Number(value);
+  }
+
+  window.lessonRuntime = {
+    start: function () {
+      if (!api) return '';
+      isInitialized = call('Initialize', ['']) === 'true';
+      if (!isInitialized) return '';
+      readMasteryScore();
+      var entry = getValue(is2004 ? 'cmi.entry' : 'cmi.core.entry');
+      return entry === 'resume' ? getValue('cmi.suspend_data') : '';
+    },
+
+    save: function (state) {
+      if (!isInitialized) return;
+      // SCORM 1.2 only guarantees 4096 characters - a longer state is dropped rather than cut
+      if (!is2004 && state.length > SUSPEND_DATA_LIMIT_12) return;
+      setValue('cmi.suspend_data', state);
+    },
+
+    report: function (progress) {
+      if (!isInitialized) return;
+      var percent = progress.total > 0 ? Math.round((progress.correct / progress.total) * 100) : 100;
+      var isPassed = masteryScore === null || masteryScore === undefined ? null : percent >= masteryScore;
+
+      if (progress.total > 0) {
+        setValue(is2004 ? 'cmi.score.raw' : 'cmi.core.score.raw', percent);
+        setValue(is2004 ? 'cmi.score.min' : 'cmi.core.score.min', 0);
+        setValue(is2004 ? 'cmi.score.max' : 'cmi.core.score.max', 100);
+        if (is2004) setValue('cmi.score.scaled', (percent / 100).toFixed(4));
+      }
+
+      if (is2004) {
+        setValue('cmi.completion_status', progress.isComplete ? 'completed' : 'incomplete');
+        setValue('cmi.progress_measure', progress.total > 0 ? (progress.answered / progress.total).toFixed(4) : 1);
+        if (progress.isComplete && isPassed !== null) setValue('cmi.success_status', isPassed ? 'passed' : 'failed');
+      } else {
+        var status = !progress.isComplete ? 'incomplete' : isPassed === null ? 'completed' : isPassed ? 'passed' : 'failed';
+        setValue('cmi.core.lesson_status', status);
+      }
+      call('Commit', ['']);
+    },
+
+    finish: function () {
+      if (!isInitialized || isTerminated) return;
+      var isComplete = is2004
+        ? getValue('cmi.completion_status') === 'completed'
+        : ['completed', 'passed', 'failed'].indexOf(getValue('cmi.core.lesson_status')) !== -1;
+      // An unfinished lesson resumes where the learner left off
+      setValue(is2004 ? 'cmi.exit' : 'cmi.core.exit', isComplete ? (is2004 ? 'normal' : '') : 'suspend');
+      setValue(is2004 ? 'cmi.session_time' : 'cmi.core.session_time', formatSessionTime(Date.now() - startedAt));
+      call('Commit', ['']);
+      call('Terminate', ['']);
+      isTerminated = true;
+    },
+  };
+})();
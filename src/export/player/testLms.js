@@ -0,0 +1,210 @@
+/*
+ * Test LMS for SCORM packages opened outside an LMS
+ *
+ * When no SCORM API is found in this window or its parents, installs an in-memory API for
+ * both SCORM 1.2 (`API`) and SCORM 2004 (`API_1484_11`) that keeps its data in localStorage,
+ * so the package can be tried offline by opening index.html - including resuming. A panel in
+ * the corner shows what the lesson reports and logs every call. Inside a real LMS this script
+ * does nothing.
+ */
+(function () {
+  'use strict';
+
+  var STORAGE_KEY = 'lesson-test-lms:' + location.pathname;
+  var MAX_LOG_ENTRIES = 50;
+
+  function hasApi(win) {
+    for (var depth = 0; win && depth <= 10; depth++) {
+      try {
+        if (win.API || win.API_1484_11) return true;
+      } catch (error) {
+        return false;
+      }
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return false;
+  }
+
+  if (hasApi(window) || (window.top && window.top.opener && hasApi(window.top.opener))) return;
+
+  var data = read();
+  var log = [];
+  var lastError = '0';
+  var isRunning = false;
+  var isReset = false; // Nothing is stored any more once the data is reset
+
+  function read() {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY)) || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  function write() {
+    if (isReset) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    } catch (error) {
+      // Private browsing may refuse storage - the data then lasts for this page only
+    }
+  }
+
+  function record(call, result) {
+    log.unshift(new Date().toLocaleTimeString() + '  ' + call + ' → ' + JSON.stringify(result));
+    log.length = Math.min(log.length, MAX_LOG_ENTRIES);
+    render();
+    return result;
+  }
+
+  // Values the LMS provides rather than the lesson
+  function getProvided(element) {
+    var hasSuspended = data['cmi.exit'] === 'suspend' || data['cmi.core.exit'] === 'suspend';
+    switch (element) {
+      case 'cmi.entry':
+      case 'cmi.core.entry':
+        return hasSuspended ? 'resume' : 'ab-initio';
+      case 'cmi.core.student_id':
+      case 'cmi.learner_id':
+        return 'test-learner';
+      case 'cmi.core.student_name':
+      case 'cmi.learner_name':
+        return 'Learner, Test';
+      case 'cmi.mode':
+      case 'cmi.core.lesson_mode':
+        return 'normal';
+      default:
+        return undefined;
+    }
+  }
+
+  function initialize(name) {
+    isRunning = true;
+    lastError = '0';
+    data.sessions = (data.sessions || 0) + 1;
+    write();
+    return record(name + '()', 'true');
+  }
+
+  function terminate(name) {
+    isRunning = false;
+    write();
+    return record(name + '()', 'true');
+  }
+
+  function getValue(name, element) {
+    if (!isRunning) {
+      lastError = '301';
+      return record(name + '(' + element + ')', '');
+    }
+    lastError = '0';
+    var provided = getProvided(element);
+    var value = provided !== undefined ? provided : data[element] !== undefined ? data[element] : '';
+    return record(name + '(' + element + ')', value);
+  }
+
+  function setValue(name, element, value) {
+    if (!isRunning) {
+      lastError = '301';
+      return record(name + '(' + element + ')', 'false');
+    }
+    lastError = '0';
+    data[element] = String(value);
+    return record(name + '(' + element + ', ' + JSON.stringify(String(value)) + ')', 'true');
+  }
+
+  function commit(name) {
+    write();
+    return record(name + '()', 'true');
+  }
+
+  var errorStrings = { '0': 'No error', '301': 'Not initialized' };
+
+  window.API = {
+    LMSInitialize: function () { return initialize('LMSInitialize'); },
+    LMSFinish: function () { return terminate('LMSFinish'); },
+    LMSGetValue: function (element) { return getValue('LMSGetValue', element); },
+    LMSSetValue: function (element, value) { return setValue('LMSSetValue', element, value); },
+    LMSCommit: function () { return commit('LMSCommit'); },
+    LMSGetLastError: function () { return lastError; },
+    LMSGetErrorString: function (code) { return errorStrings[code] || ''; },
+    LMSGetDiagnostic: function (code) { return errorStrings[code] || ''; },
+  };
+
+  window.API_1484_11 = {
+    Initialize: function () { return initialize('Initialize'); },
+    Terminate: function () { return terminate('Terminate'); },
+    GetValue: function (element) { return getValue('GetValue', element); },
+    SetValue: function (element, value) { return setValue('SetValue', element, value); },
+    Commit: function () { return commit('Commit'); },
+    GetLastError: function () { return lastError; },
+    GetErrorString: function (code) { return errorStrings[code] || ''; },
+    GetDiagnostic: function (code) { return errorStrings[code] || ''; },
+  };
+
+  // Panel
+
+  var panel = document.createElement('details');
+  panel.className = 'test-lms';
+  panel.innerHTML =
+    '<summary>Test LMS</summary>' +
+    '<p class="test-lms-note">No LMS was found, so this page reports to a test LMS stored in this browser.</p>' +
+    '<dl class="test-lms-values"></dl>' +
+    '<button type="button" class="test-lms-reset">Reset learner data</button>' +
+    '<pre class="test-lms-log" aria-label="Calls to the SCORM API"></pre>';
+  var style = document.createElement('style');
+  style.textContent =
+    '.test-lms{position:fixed;right:12px;bottom:12px;z-index:1000;max-width:min(420px,calc(100vw - 24px));' +
+    'padding:8px 12px;border:1px solid #d4d4d8;border-radius:8px;background:#ffffff;color:#18181b;' +
+    'font:13px/1.4 system-ui,sans-serif;box-shadow:0 4px 16px rgba(0,0,0,.15)}' +
+    '.test-lms summary{cursor:pointer;font-weight:600}' +
+    '.test-lms-note{margin:8px 0;color:#52525b}' +
+    '.test-lms-values{display:grid;grid-template-columns:auto 1fr;gap:2px 12px;margin:0 0 8px}' +
+    '.test-lms-values dt{color:#52525b}.test-lms-values dd{margin:0;word-break:break-all}' +
+    '.test-lms-log{max-height:180px;margin:8px 0 0;overflow:auto;font-size:11px;white-space:pre-wrap}';
+
+  function render() {
+    var values = panel.querySelector('.test-lms-values');
+    var is2004 = Object.keys(data).some(function (key) { return key.indexOf('cmi.completion_status') === 0; });
+    var rows = is2004
+      ? [
+        ['Version', 'SCORM 2004'],
+        ['Completion', data['cmi.completion_status']],
+        ['Success', data['cmi.success_status']],
+        ['Score', data['cmi.score.raw'] !== undefined ? data['cmi.score.raw'] + ' (scaled ' + data['cmi.score.scaled'] + ')' : undefined],
+        ['Exit', data['cmi.exit']],
+      ]
+      : [
+        ['Version', 'SCORM 1.2'],
+        ['Status', data['cmi.core.lesson_status']],
+        ['Score', data['cmi.core.score.raw']],
+        ['Exit', data['cmi.core.exit']],
+      ];
+    rows.push(['Suspend data', (data['cmi.suspend_data'] || '').length + ' characters']);
+    rows.push(['Sessions', String(data.sessions || 0)]);
+    values.innerHTML = '';
+    rows.forEach(function (row) {
+      var term = document.createElement('dt');
+      var value = document.createElement('dd');
+      term.textContent = row[0];
+      value.textContent = row[1] === undefined || row[1] === '' ? '-' : row[1];
+      values.append(term, value);
+    });
+    panel.querySelector('.test-lms-log').textContent = log.join('\n');
+  }
+
+  panel.querySelector('.test-lms-reset').addEventListener('click', function () {
+    isReset = true;
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      // Nothing stored
+    }
+    location.reload();
+  });
+
+  document.head.appendChild(style);
+  document.body.appendChild(panel);
+  render();
+})();
@@ -0,0 +1,278 @@
+import type { QuizBlock } from '../types';
+import type { LessonExportSource } from './lessonHtml';
+import { escapeHtml, getLessonPageStyle, renderLessonHtml, renderLessonPageBackground } from './lessonHtml';
+import { iterateRows } from '../document/tree';
+import { collectQuizBlocks, getClozeBlanks, getCorrectChoiceIndices, getMatchChoices, getQuizChoices, getShuffledAnswerOrder } from '../utils/quiz';
+import { createRandom } from '../utils/random';
+import { collectQuestionDrawBlocks } from '../utils/questionBanks';
+import lessonPlayerStyles from './player/lessonPlayer.css?raw';
+import lessonPrintStyles from './lessonPrint.css?raw';
+
+/**
+ * Printed lessons
+ *
+ * Prints the static lesson page (see lessonHtml.ts) laid out for paper: every panel, card face,
+ * bank question and row hidden until revealed is shown, controls that only work on screen are
+ * left out, and quizzes become blanks to fill in. Rows stay on one page unless their
+ * `pageBreak` says otherwise. The browser's print dialog also saves the page as a PDF.
+ */
+
+export interface PrintOptions {
+  includeAnswerKey: boolean; // Number the quizzes and list their answers in an appendix
+  includeBackgroundImages: boolean; // Page, row and cell background images
+}
+
+// Instructions of quiz types answered differently on paper
+const PRINT_INSTRUCTIONS: Partial<Record<QuizBlock['quizType'], string>> = {
+  'matching': 'Write the answer that goes with each prompt.',
+  'ordering': 'Number the items in the right order.',
+  'hotspot': 'Mark your answer on the image.',
+};
+
+/**
+ * A complete HTML page of the lesson for printing, with its styles inlined
+ */
+export function renderPrintPage(source: LessonExportSource, options: PrintOptions): string {
+  const parsed = new DOMParser().parseFromString(renderLessonHtml(source).body, 'text/html');
+  const quizzes = getPrintedQuizzes(source, parsed);
+
+  applyPageBreaks(source, parsed);
+  showHiddenContent(parsed);
+  replaceScreenControls(parsed, quizzes);
+  if (options.includeAnswerKey) numberQuizzes(quizzes);
+
+  const bodyClass = `lesson-page lesson-print${options.includeBackgroundImages ? '' : ' lesson-print-no-images'}`;
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    `<title>${escapeHtml(source.title || 'Lesson')}</title>`,
+    `<style>\n${lessonPlayerStyles}\n${lessonPrintStyles}\n</style>`,
+    '</head>',
+    `<body class="${bodyClass}" style="${escapeHtml(getLessonPageStyle(source))}">`,
+    renderLessonPageBackground(source),
+    '<main class="lesson-content">',
+    source.title ? `<h1 class="lesson-print-title">${escapeHtml(source.title)}</h1>` : '',
+    parsed.body.innerHTML,
+    '</main>',
+    options.includeAnswerKey ? renderAnswerKey(quizzes) : '',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Print the lesson from a hidden frame, once its images have loaded
+ */
+export function printLesson(source: LessonExportSource, options: PrintOptions): void {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  Object.assign(frame.style, { position: 'fixed', right: '0', bottom: '0', width: '0', height: '0', border: '0' });
+  frame.srcdoc = renderPrintPage(source, options);
+
+  frame.addEventListener('load', () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    const images = Array.from(view.document.images);
+    void Promise.all(images.map((image) => image.decode().catch(() => undefined))).then(() => {
+      view.addEventListener('afterprint', () => frame.remove(), { once: true });
+      view.focus();
+      view.print();
+    });
+  }, { once: true });
+  document.body.appendChild(frame);
+}
+
+// Quizzes
+
+interface PrintedQuiz {
+  block: QuizBlock;
+  element: Element;
+}
+
+// The quizzes of the page in reading order, with the blocks they were rendered from
+function getPrintedQuizzes(source: LessonExportSource, parsed: Document): PrintedQuiz[] {
+  const blocks = new Map(collectQuizBlocks(source.rows).map((block) => [block.id, block]));
+  for (const draw of collectQuestionDrawBlocks(source.rows)) {
+    const bank = source.banks.find((b) => b.id === draw.bankId);
+    bank?.questions.forEach((question) => blocks.set(`${draw.id}:${question.id}`, question));
+  }
+
+  return Array.from(parsed.querySelectorAll('.lesson-quiz[data-quiz-id]')).flatMap((element) => {
+    const block = blocks.get(element.getAttribute('data-quiz-id') ?? '');
+    return block ? [{ block, element }] : [];
+  });
+}
+
+function numberQuizzes(quizzes: PrintedQuiz[]): void {
+  quizzes.forEach(({ element }, index) => {
+    const label = element.ownerDocument.createElement('p');
+    label.className = 'lesson-print-question-number';
+    label.textContent = `Question ${index + 1}`;
+    element.prepend(label);
+  });
+}
+
+function renderAnswerKey(quizzes: PrintedQuiz[]): string {
+  if (quizzes.length === 0) return '';
+  return '<section class="lesson-print-answer-key">' +
+    '<h2>Answer key</h2>' +
+    '<ol>' +
+    quizzes.map(({ block }) =>
+      '<li class="lesson-print-answer">' +
+      `<div class="lesson-print-answer-question lesson-rich-text">${block.question}</div>` +
+      renderAnswer(block) +
+      '</li>'
+    ).join('') +
+    '</ol></section>';
+}
+
+function renderAnswer(block: QuizBlock): string {
+  switch (block.quizType) {
+    case 'short-answer':
+      return `<p>Accepted answers: ${renderAlternatives(block.acceptedAnswers)}</p>` +
+        (block.acceptedAnswers.some((answer) => answer.includes('*')) ? '<p class="lesson-print-note">* stands for any text.</p>' : '');
+    case 'matching':
+      return '<table class="lesson-table"><tbody>' +
+        block.matchPairs.map((pair) => `<tr><th scope="row">${escapeHtml(pair.prompt)}</th><td>${escapeHtml(pair.match)}</td></tr>`).join('') +
+        '</tbody></table>';
+    case 'ordering':
+      return `<ol>${block.orderItems.map((item) => `<li>${escapeHtml(item.text)}</li>`).join('')}</ol>`;
+    case 'cloze':
+      return `<ol>${getClozeBlanks(block).map((blank) =>
+        `<li>${blank.mode === 'dropdown'
+          ? `<strong>${escapeHtml(blank.choices[blank.correctChoiceIndex] ?? '')}</strong>`
+          : renderAlternatives(blank.acceptedAnswers)}</li>`
+      ).join('')}</ol>`;
+    case 'hotspot':
+      return '<div class="lesson-marked-image">' +
+        `<img src="${escapeHtml(block.hotspotImage.imageUrl)}" alt="${escapeHtml(block.hotspotImage.altText || '')}">` +
+        block.hotspots.filter((hotspot) => hotspot.isCorrect).map((hotspot) =>
+          `<span class="lesson-hotspot-region" style="left:${hotspot.x - hotspot.width / 2}%;top:${hotspot.y - hotspot.height / 2}%;` +
+          `width:${hotspot.width}%;height:${hotspot.height}%"></span>`
+        ).join('') +
+        '</div>';
+    default: {
+      const choices = getQuizChoices(block);
+      return `<p>Answer: ${getCorrectChoiceIndices(block).map((index) => `<strong>${escapeHtml(choices[index] ?? '')}</strong>`).join(', ')}</p>`;
+    }
+  }
+}
+
+function renderAlternatives(answers: string[]): string {
+  const filled = answers.filter((answer) => answer.trim() !== '');
+  return filled.length > 0 ? filled.map((answer) => `<strong>${escapeHtml(answer)}</strong>`).join(' or ') : '<em>none set</em>';
+}
+
+// Layout for paper
+
+function applyPageBreaks(source: LessonExportSource, parsed: Document): void {
+  for (const row of iterateRows(source.rows)) {
+    const pageBreak = row.props?.pageBreak;
+    if (!pageBreak) continue;
+    parsed.querySelector(`.lesson-row[data-row-id="${CSS.escape(row.id)}"]`)?.classList.add(`lesson-print-break-${pageBreak}`);
+  }
+}
+
+// Everything learners reveal on screen one part at a time
+function showHiddenContent(parsed: Document): void {
+  parsed.querySelectorAll(
+    '.lesson-row[hidden], .lesson-accordion-panel[hidden], .lesson-tabs-panel[hidden], .lesson-flashcard[hidden], ' +
+    '.lesson-flashcard-face[hidden], .lesson-draw-question[hidden], .lesson-graphic-popup[hidden]'
+  ).forEach((element) => element.removeAttribute('hidden'));
+  parsed.querySelectorAll('.lesson-transcript').forEach((details) => details.setAttribute('open', ''));
+
+  // Tabs become titled sections, one after another
+  parsed.querySelectorAll('.lesson-tabs').forEach((tabs) => {
+    tabs.querySelectorAll('[role="tab"]').forEach((tab) => {
+      const title = parsed.createElement('h3');
+      title.className = 'lesson-print-panel-title';
+      title.textContent = tab.textContent;
+      tabs.querySelector(`#${CSS.escape(tab.getAttribute('aria-controls') ?? '')}`)?.prepend(title);
+    });
+    tabs.querySelector('.lesson-tabs-list')?.remove();
+  });
+
+  parsed.querySelectorAll('.lesson-graphic').forEach((graphic) => {
+    graphic.querySelectorAll('.lesson-graphic-popup strong').forEach((title, index) => title.prepend(`${index + 1}. `));
+  });
+
+  parsed.querySelectorAll('.lesson-draw').forEach((draw) => {
+    const note = parsed.createElement('p');
+    note.className = 'lesson-print-note';
+    const count = draw.querySelectorAll('.lesson-draw-question').length;
+    note.textContent = `Each learner is asked some of these ${count} questions, drawn at random.`;
+    draw.prepend(note);
+  });
+}
+
+// Dropdowns, players and buttons, as something that reads on paper
+function replaceScreenControls(parsed: Document, quizzes: PrintedQuiz[]): void {
+  for (const { block, element } of quizzes) {
+    const instructions = PRINT_INSTRUCTIONS[block.quizType];
+    const instructionsElement = element.querySelector('.lesson-quiz-instructions');
+    if (instructions && instructionsElement) instructionsElement.textContent = instructions;
+
+    // The page lists items and answers in their correct order - the player shuffles them
+    const random = createRandom('print', element.getAttribute('data-quiz-id') ?? block.id);
+    if (block.quizType === 'ordering') {
+      const list = element.querySelector('.lesson-quiz-order');
+      const items = new Map(Array.from(list?.children ?? []).map((item) => [item.getAttribute('data-item-id'), item]));
+      getShuffledAnswerOrder(block, random).forEach((id) => {
+        const item = items.get(id);
+        if (item) list?.append(item);
+      });
+    }
+
+    // Matching: a line to write on, with the answers listed once below the prompts
+    const matches = element.querySelector('.lesson-quiz-matches');
+    if (block.quizType === 'matching' && matches) {
+      const choices = new Map(getMatchChoices(block).map((choice) => [choice.id, choice.text]));
+      matches.querySelectorAll('select').forEach((select) => select.replaceWith(createBlank(parsed)));
+      const list = parsed.createElement('p');
+      list.className = 'lesson-print-choices';
+      list.textContent = `Answers: ${getShuffledAnswerOrder(block, random).map((id) => choices.get(id)).join(' · ')}`;
+      matches.after(list);
+    }
+  }
+
+  // Cloze dropdowns: a line to write on, followed by the choices
+  parsed.querySelectorAll<HTMLSelectElement>('select.lesson-cloze-blank').forEach((select) => {
+    const choices = Array.from(select.options).filter((option) => option.value !== '');
+    const blank = createBlank(parsed);
+    blank.setAttribute('aria-label', select.getAttribute('aria-label') ?? '');
+    select.replaceWith(blank, ` (${choices.map((option) => option.text).join(' / ')})`);
+  });
+
+  // Videos show their poster, or a note where they play
+  parsed.querySelectorAll('video.lesson-video').forEach((video) => {
+    const poster = video.getAttribute('poster');
+    const figure = parsed.createElement('figure');
+    figure.className = 'lesson-image lesson-print-video';
+    if (poster) {
+      const image = parsed.createElement('img');
+      image.setAttribute('src', poster);
+      image.setAttribute('alt', '');
+      figure.append(image);
+    }
+    const caption = parsed.createElement('figcaption');
+    caption.textContent = 'Video - watch it in the online lesson.';
+    figure.append(caption);
+    video.replaceWith(figure);
+  });
+  parsed.querySelectorAll('audio.lesson-audio').forEach((audio) => {
+    const note = parsed.createElement('p');
+    note.className = 'lesson-print-note';
+    note.textContent = 'Audio - listen to it in the online lesson.';
+    audio.replaceWith(note);
+  });
+}
+
+function createBlank(parsed: Document): HTMLElement {
+  const blank = parsed.createElement('span');
+  blank.className = 'lesson-print-blank';
+  return blank;
+}
@@ -0,0 +1,150 @@
+import type { LessonExportSource } from './lessonHtml';
+import { escapeHtml, renderLessonPage } from './lessonHtml';
+import type { ZipEntry } from './zip';
+import { createZip } from './zip';
+import { extractDataUrls } from './assets';
+import { downloadFile } from './download';
+import { toFileName } from '../utils/lessonFile';
+import lessonPlayerScript from './player/lessonPlayer.js?raw';
+import lessonPlayerStyles from './player/lessonPlayer.css?raw';
+import scormRuntimeScript from './player/scormRuntime.js?raw';
+import testLmsScript from './player/testLms.js?raw';
+
+/**
+ * SCORM packages
+ *
+ * A package is a zip with the lesson page (index.html), its player, its media files and an
+ * imsmanifest.xml describing it as a single SCO. The player reports progress through the
+ * SCORM runtime adapter (player/scormRuntime.js):
+ * - completion once every quiz is finished
+ * - the score - the share of quizzes answered correctly, in percent
+ * - passed/failed against the mastery score, when there is one
+ * - suspend data, so learners resume where they left off
+ *
+ * With `includeTestLms`, opening index.html outside an LMS runs the lesson against a test
+ * LMS in the browser (player/testLms.js) instead of reporting nowhere.
+ */
+
+export type ScormVersion = '1.2' | '2004';
+
+export interface ScormExportOptions {
+  version: ScormVersion;
+  masteryScore: number | null; // Passing score in percent, or null to only report completion
+  includeTestLms: boolean;
+}
+
+const PAGE_PATH = 'index.html';
+const STYLESHEET_PATH = 'player/lesson.css';
+const PLAYER_PATH = 'player/lesson.js';
+const RUNTIME_PATH = 'player/scorm.js';
+const TEST_LMS_PATH = 'player/test-lms.js';
+const MEDIA_DIRECTORY = 'media';
+
+/**
+ * The lesson as a SCORM package
+ */
+export function createScormPackage(source: LessonExportSource, options: ScormExportOptions): Blob {
+  const scripts = [
+    ...(options.includeTestLms ? [{ path: TEST_LMS_PATH, data: testLmsScript }] : []),
+    { path: RUNTIME_PATH, data: scormRuntimeScript },
+    { path: PLAYER_PATH, data: lessonPlayerScript },
+  ];
+  const page = extractDataUrls(renderLessonPage(source, {
+    stylesheets: [STYLESHEET_PATH],
+    scripts: scripts.map((script) => script.path),
+    json: { 'lesson-scorm-config': { version: options.version, masteryScore: options.masteryScore } },
+  }), MEDIA_DIRECTORY);
+  const files: ZipEntry[] = [
+    { path: PAGE_PATH, data: page.text },
+    { path: STYLESHEET_PATH, data: lessonPlayerStyles },
+    ...scripts,
+    ...page.files,
+  ];
+
+  const manifest = buildManifest(source.title, files.map((file) => file.path), options);
+  return createZip([{ path: 'imsmanifest.xml', data: manifest }, ...files]);
+}
+
+export function downloadScormPackage(source: LessonExportSource, options: ScormExportOptions): void {
+  const fileName = `${toFileName(source.title)}-scorm${options.version === '1.2' ? '12' : '2004'}.zip`;
+  downloadFile(createScormPackage(source, options), fileName);
+}
+
+// Manifest
+
+function buildManifest(title: string, paths: string[], options: ScormExportOptions): string {
+  const identifier = `livresq-${Date.now().toString(36)}`;
+  const escapedTitle = escapeHtml(title || 'Lesson');
+  const files = paths.map((path) => `      <file href="${escapeHtml(path)}"/>`).join('\n');
+
+  if (options.version === '1.2') {
+    const masteryScore = options.masteryScore === null
+      ? ''
+      : `\n        <adlcp:masteryscore>${options.masteryScore}</adlcp:masteryscore>`;
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="organization">
+    <organization identifier="organization">
+      <title>${escapedTitle}</title>
+      <item identifier="item" identifierref="resource" isvisible="true">
+        <title>${escapedTitle}</title>${masteryScore}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource" type="webcontent" adlcp:scormtype="sco" href="${PAGE_PATH}">
+${files}
+    </resource>
+  </resources>
+</manifest>
+`;
+  }
+
+  // The LMS judges passed/failed from the scaled score against minNormalizedMeasure
+  const sequencing = options.masteryScore === null
+    ? ''
+    : `
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="primary" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${(options.masteryScore / 100).toFixed(2)}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="organization">
+    <organization identifier="organization">
+      <title>${escapedTitle}</title>
+      <item identifier="item" identifierref="resource">
+        <title>${escapedTitle}</title>${sequencing}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource" type="webcontent" adlcp:scormType="sco" href="${PAGE_PATH}">
+${files}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
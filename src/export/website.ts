@@ -0,0 +1,41 @@
+import type { LessonExportSource } from './lessonHtml';
+import { renderLessonPage } from './lessonHtml';
+import { createZip } from './zip';
+import { extractDataUrls } from './assets';
+import { downloadFile } from './download';
+import { toFileName } from '../utils/lessonFile';
+import lessonPlayerScript from './player/lessonPlayer.js?raw';
+import lessonPlayerStyles from './player/lessonPlayer.css?raw';
+
+/**
+ * Website export
+ *
+ * The lesson as a static site for any web server: index.html plus an assets folder with the
+ * player's script and styles and the lesson's media. Nothing is reported anywhere - the player
+ * keeps answers only while the page is open.
+ */
+
+const PAGE_PATH = 'index.html';
+const ASSETS_DIRECTORY = 'assets';
+const STYLESHEET_PATH = `${ASSETS_DIRECTORY}/lesson.css`;
+const PLAYER_PATH = `${ASSETS_DIRECTORY}/lesson.js`;
+
+/**
+ * The lesson as a zip of its website
+ */
+export function createWebsitePackage(source: LessonExportSource): Blob {
+  const page = extractDataUrls(
+    renderLessonPage(source, { stylesheets: [STYLESHEET_PATH], scripts: [PLAYER_PATH] }),
+    ASSETS_DIRECTORY
+  );
+  return createZip([
+    { path: PAGE_PATH, data: page.text },
+    { path: STYLESHEET_PATH, data: lessonPlayerStyles },
+    { path: PLAYER_PATH, data: lessonPlayerScript },
+    ...page.files,
+  ]);
+}
+
+export function downloadWebsite(source: LessonExportSource): void {
+  downloadFile(createWebsitePackage(source), `${toFileName(source.title)}-website.zip`);
+}
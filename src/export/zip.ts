@@ -0,0 +1,158 @@
+/**
+ * Minimal zip writer for lesson exports, and reader for imports
+ *
+ * Files are stored without compression - exports are mostly images and media that are already
+ * compressed, and every LMS and unzip tool reads stored entries. Names are UTF-8. Reading also
+ * handles deflated entries, which is what other tools write.
+ */
+
+export interface ZipEntry {
+  path: string; // Forward slashes, no leading slash (e.g. 'player/lesson.js')
+  data: string | Uint8Array; // Text is written as UTF-8
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Date and time in MS-DOS format, as zip headers store them
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * A zip archive of the entries, in the order given
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, STORED, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local, data);
+    centralHeaders.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralHeaders.reduce((size, header) => size + header.length, 0);
+  const end = new Uint8Array(END_RECORD_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end] as BlobPart[], { type: 'application/zip' });
+}
+
+/**
+ * The files of a zip archive, in the order of its central directory (folders are left out)
+ */
+export async function readZip(archive: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record is last, followed only by an optional comment
+  let end = archive.length - END_RECORD_SIZE;
+  const lowest = Math.max(0, end - MAX_COMMENT_SIZE);
+  while (end >= lowest && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < lowest) throw new Error('Not a zip file');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Damaged zip file');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(archive.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength));
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    if (path.endsWith('/')) continue;
+
+    // The local header's name and extra field can differ in length from the central one's
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    if (method === STORED) {
+      entries.push({ path, data: data.slice() });
+    } else if (method === DEFLATED) {
+      entries.push({ path, data: await inflate(data) });
+    } else {
+      throw new Error(`Unsupported compression in ${path}`);
+    }
+  }
+  return entries;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,77 @@
+import { Mark } from '@tiptap/core';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    clozeBlank: {
+      setClozeBlank: (blankId: string) => ReturnType;
+      unsetClozeBlank: (blankId: string) => ReturnType;
+    };
+  }
+}
+
+// Words of a cloze question turned into a blank. The mark only carries the blank's ID - the
+// accepted answers and dropdown choices live in QuizBlock.clozeBlanks.
+export const ClozeBlank = Mark.create({
+  name: 'clozeBlank',
+
+  inclusive: false, // Typing right after a blank doesn't extend it
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addAttributes() {
+    return {
+      blankId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-cloze-blank'),
+        renderHTML: (attributes) => ({ 'data-cloze-blank': attributes.blankId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-cloze-blank]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'span',
+      {
+        ...this.options.HTMLAttributes,
+        ...HTMLAttributes,
+        class: 'cloze-blank-mark',
+      },
+      0,
+    ];
+  },
+
+  addCommands() {
+    return {
+      setClozeBlank:
+        (blankId) =>
+        ({ commands }) => {
+          return commands.setMark(this.name, { blankId });
+        },
+      unsetClozeBlank:
+        (blankId) =>
+        ({ tr, state, dispatch }) => {
+          // Remove the mark wherever it carries this blank's ID, whatever the selection
+          const markType = state.schema.marks[this.name];
+          state.doc.descendants((node, pos) => {
+            if (node.isText && node.marks.some((mark) => mark.type === markType && mark.attrs.blankId === blankId)) {
+              tr.removeMark(pos, pos + node.nodeSize, markType);
+            }
+          });
+          if (dispatch) dispatch(tr);
+          return true;
+        },
+    };
+  },
+});
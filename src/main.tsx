@@ -3,11 +3,14 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { ThemeProvider } from './theme/ThemeProvider'
+import { XapiProvider } from './xapi/XapiProvider'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider>
-      <App />
+      <XapiProvider>
+        <App />
+      </XapiProvider>
     </ThemeProvider>
   </StrictMode>,
 )
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { ButtonAction } from '../types';
+
+export interface PreviewActionsContextValue {
+  runAction: (action: ButtonAction) => void;
+}
+
+export const PreviewActionsContext = createContext<PreviewActionsContextValue | undefined>(undefined);
+
+// Button actions of the preview - undefined in the editor, where buttons do nothing
+export function usePreviewActions(): PreviewActionsContextValue | undefined {
+  return useContext(PreviewActionsContext);
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { DeviceType } from '../components/PreviewToolbar';
+
+export const PreviewDeviceContext = createContext<DeviceType | undefined>(undefined);
+
+// Device the preview is showing the lesson on - undefined in the editor
+export function usePreviewDevice(): DeviceType | undefined {
+  return useContext(PreviewDeviceContext);
+}
+
+export function isPhoneDevice(deviceType: DeviceType | undefined): boolean {
+  return deviceType === 'phone-portrait' || deviceType === 'phone-landscape';
+}
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import type { LessonTracker } from '../xapi/lessonTracker';
+
+export const PreviewTrackingContext = createContext<LessonTracker | undefined>(undefined);
+
+// xAPI tracking of the preview - undefined in the editor, or when xAPI is turned off
+export function usePreviewTracking(): LessonTracker | undefined {
+  return useContext(PreviewTrackingContext);
+}
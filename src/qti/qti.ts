@@ -0,0 +1,129 @@
+import { escapeHtml } from '../export/lessonHtml';
+import { getUrlProtocol, hasAllowedProtocol, isAllowedImageUrl } from '../utils/urls';
+
+/**
+ * IMS QTI 2.1
+ *
+ * Quizzes move between lessons and other assessment tools as QTI 2.1 items - choice questions
+ * (multiple choice, multiple select, true/false) as choiceInteraction, short answers and
+ * fill-in-the-blanks with typed blanks as textEntryInteraction, and ordering questions as
+ * orderInteraction. Other quiz types and interactions are reported instead of converted.
+ *
+ * Question text is XHTML in the QTI namespace, limited to the elements QTI allows.
+ */
+
+export const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+export const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+export const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+// Manifest resource types of items and tests
+export const QTI_ITEM_TYPE = 'imsqti_item_xmlv2p1';
+export const QTI_TEST_TYPE = 'imsqti_test_xmlv2p1';
+
+// A question that was left out, or only partly converted
+export interface QtiIssue {
+  title: string;
+  message: string;
+}
+
+// XHTML elements QTI allows in item bodies, with the attributes kept on each
+export const QTI_XHTML_ELEMENTS: Record<string, string[]> = {
+  a: ['href'],
+  abbr: [],
+  address: [],
+  b: [],
+  big: [],
+  blockquote: [],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  col: ['span'],
+  colgroup: ['span'],
+  dd: [],
+  dfn: [],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ['src', 'alt', 'width', 'height'],
+  kbd: [],
+  li: [],
+  ol: [],
+  p: [],
+  pre: [],
+  q: [],
+  samp: [],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['colspan', 'rowspan'],
+  tfoot: [],
+  th: ['colspan', 'rowspan'],
+  thead: [],
+  tr: [],
+  tt: [],
+  ul: [],
+  var: [],
+};
+
+const VOID_ELEMENTS = new Set(['br', 'col', 'hr', 'img']);
+
+/**
+ * Whether an attribute value may stay - links open web and mail addresses only, and images load
+ * from the web or a data URL (so an image a package doesn't contain is dropped)
+ */
+export function isAllowedQtiUrl(name: string, attribute: string, url: string): boolean {
+  if (name === 'a' && attribute === 'href') return hasAllowedProtocol(url, ['http:', 'https:', 'mailto:'], false);
+  if (name === 'img' && attribute === 'src') return getUrlProtocol(url) !== null && isAllowedImageUrl(url);
+  return true;
+}
+
+/**
+ * Rich text (HTML) as QTI XHTML - other elements are replaced by their content, and
+ * `replace` can swap in markup of its own for an element (such as an interaction for a blank)
+ */
+export function toQtiXhtml(html: string, replace?: (element: Element) => string | null): string {
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  const serialize = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent ?? '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    const replacement = replace?.(element);
+    if (replacement !== null && replacement !== undefined) return replacement;
+
+    const content = Array.from(element.childNodes).map(serialize).join('');
+    const name = element.localName;
+    const attributeNames = QTI_XHTML_ELEMENTS[name];
+    if (!attributeNames) return content;
+
+    const values = attributeNames
+      .filter((attribute) => element.hasAttribute(attribute) || (name === 'img' && attribute === 'alt'))
+      .map((attribute) => [attribute, element.getAttribute(attribute) ?? '']);
+    // A link to anything but a web or mail address keeps only its text, other images are left out
+    if (values.some(([attribute, value]) => !isAllowedQtiUrl(name, attribute, value))) return name === 'img' ? '' : content;
+    const attributes = values.map(([attribute, value]) => ` ${attribute}="${escapeHtml(value)}"`).join('');
+    return VOID_ELEMENTS.has(name) ? `<${name}${attributes}/>` : `<${name}${attributes}>${content}</${name}>`;
+  };
+  return Array.from(parsed.body.childNodes).map(serialize).join('');
+}
+
+/**
+ * Plain text of rich text (HTML)
+ */
+export function toPlainText(html: string): string {
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  return (parsed.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
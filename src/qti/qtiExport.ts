@@ -0,0 +1,316 @@
+import type { QuizBlock, Row } from '../types';
+import type { LessonExportSource } from '../export/lessonHtml';
+import { escapeHtml } from '../export/lessonHtml';
+import type { ZipEntry } from '../export/zip';
+import { createZip } from '../export/zip';
+import { createAssetExtractor } from '../export/assets';
+import { downloadFile } from '../export/download';
+import { getBlockRows } from '../document/tree';
+import { isConstructor } from '../utils/sections';
+import { QUIZ_TYPE_LABELS, getClozeBlanks, getCorrectChoiceIndices, getQuizChoices, isChoiceQuiz } from '../utils/quiz';
+import { toFileName } from '../utils/lessonFile';
+import type { QtiIssue } from './qti';
+import { QTI_ITEM_TYPE, QTI_NAMESPACE, QTI_SCHEMA_LOCATION, QTI_TEST_TYPE, XSI_NAMESPACE, toPlainText, toQtiXhtml } from './qti';
+
+/**
+ * QTI 2.1 packages
+ *
+ * A package holds an assessmentItem per quiz of the lesson and an assessmentTest that lists
+ * them in reading order. A question draw becomes a section with its bank's questions that
+ * selects as many of them as the draw asks for. Feedback and attempt limits stay behind.
+ */
+
+const TEST_PATH = 'assessment-test.xml';
+const MEDIA_DIRECTORY = 'media';
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const MAP_RESPONSE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response';
+
+interface TestItem {
+  block: QuizBlock;
+  identifier: string;
+}
+
+// A quiz of the lesson, or a draw of questions from a bank
+type TestEntry =
+  | { type: 'quiz'; item: TestItem }
+  | { type: 'draw'; identifier: string; title: string; count: number; items: TestItem[] };
+
+interface ConvertedItem extends TestItem {
+  xml: string;
+}
+
+/**
+ * Quizzes of the lesson that are left out of a QTI package, or only partly converted
+ */
+export function getQtiExportIssues(source: LessonExportSource): QtiIssue[] {
+  const issues: QtiIssue[] = [];
+  for (const item of getTestItems(collectTestEntries(source))) buildItem(item, issues);
+  return issues;
+}
+
+/**
+ * The lesson's quizzes as a QTI 2.1 package
+ */
+export function createQtiPackage(source: LessonExportSource): Blob {
+  const entries = collectTestEntries(source);
+  const extractor = createAssetExtractor(MEDIA_DIRECTORY);
+  const converted = new Map<string, ConvertedItem>();
+  for (const item of getTestItems(entries)) {
+    const xml = buildItem(item, []);
+    if (xml !== null) converted.set(item.identifier, { ...item, xml: extractor.extract(xml) });
+  }
+
+  const items = Array.from(converted.values());
+  const files: ZipEntry[] = [
+    { path: 'imsmanifest.xml', data: buildManifest(items, extractor.files) },
+    { path: TEST_PATH, data: buildTest(source.title, entries, converted) },
+    ...items.map((item) => ({ path: getItemPath(item), data: item.xml })),
+    ...extractor.files,
+  ];
+  return createZip(files);
+}
+
+export function downloadQtiPackage(source: LessonExportSource): void {
+  downloadFile(createQtiPackage(source), `${toFileName(source.title)}-qti.zip`);
+}
+
+// Lesson order
+
+function collectTestEntries(source: LessonExportSource): TestEntry[] {
+  const entries: TestEntry[] = [];
+  const visitRows = (rows: Row[]) => {
+    for (const row of rows) {
+      if (row.isEmptyState) continue;
+      for (const cell of row.cells) {
+        for (const resource of cell.resources) {
+          if (isConstructor(resource)) {
+            visitRows([resource]);
+          } else if (resource.type === 'quiz') {
+            entries.push({ type: 'quiz', item: { block: resource, identifier: `item-${resource.id}` } });
+          } else if (resource.type === 'question-draw') {
+            const bank = source.banks.find((b) => b.id === resource.bankId);
+            if (!bank || bank.questions.length === 0) continue;
+            entries.push({
+              type: 'draw',
+              identifier: `draw-${resource.id}`,
+              title: bank.name,
+              count: Math.max(0, Math.min(resource.drawCount, bank.questions.length)),
+              items: bank.questions.map((question) => ({ block: question, identifier: `item-${resource.id}-${question.id}` })),
+            });
+          } else {
+            visitRows(getBlockRows(resource));
+          }
+        }
+      }
+    }
+  };
+  visitRows(source.rows);
+  return entries;
+}
+
+function getTestItems(entries: TestEntry[]): TestItem[] {
+  return entries.flatMap((entry) => (entry.type === 'quiz' ? [entry.item] : entry.items));
+}
+
+function getItemPath(item: TestItem): string {
+  return `${item.identifier}.xml`;
+}
+
+// The block's title, or the start of its question when it was never named
+function getQuizTitle(block: QuizBlock): string {
+  if (block.title && block.title !== 'Untitled') return block.title;
+  const question = toPlainText(block.question);
+  return question.length > 80 ? `${question.slice(0, 79)}…` : question || QUIZ_TYPE_LABELS[block.quizType];
+}
+
+// Items
+
+// The item of a quiz, or null when it cannot be converted - issues go to `issues`
+function buildItem({ block, identifier }: TestItem, issues: QtiIssue[]): string | null {
+  const title = getQuizTitle(block);
+  const report = (message: string) => issues.push({ title, message });
+  const question = `<div>${toQtiXhtml(block.question)}</div>`;
+
+  if (isChoiceQuiz(block)) {
+    const choices = getQuizChoices(block);
+    if (choices.length === 0) {
+      report('Has no options, so it was left out.');
+      return null;
+    }
+    const isMultiple = block.quizType === 'multiple-select';
+    const shuffle = block.quizType !== 'true-false' && block.shuffleOptions === true;
+    const interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="${shuffle}" maxChoices="${isMultiple ? 0 : 1}">` +
+      choices.map((choice, index) => {
+        const isFixed = shuffle && block.keepLastOptionInPlace && index === choices.length - 1;
+        return `<simpleChoice identifier="choice-${index}"${isFixed ? ' fixed="true"' : ''}>${escapeHtml(choice)}</simpleChoice>`;
+      }).join('') +
+      '</choiceInteraction>';
+    const response = buildResponseDeclaration('RESPONSE', isMultiple ? 'multiple' : 'single', 'identifier',
+      getCorrectChoiceIndices(block).map((index) => `choice-${index}`));
+    return buildItemDocument(identifier, title, response, `${question}${interaction}`, `<responseProcessing template="${MATCH_CORRECT}"/>`);
+  }
+
+  switch (block.quizType) {
+    case 'short-answer': {
+      const answers = getLiteralAnswers(block.acceptedAnswers);
+      if (answers.length === 0) {
+        report(block.acceptedAnswers.some((answer) => answer.includes('*'))
+          ? 'Only accepts answers with *, which QTI cannot match, so it was left out.'
+          : 'Has no accepted answers, so it was left out.');
+        return null;
+      }
+      if (answers.length < block.acceptedAnswers.filter((answer) => answer.trim() !== '').length) {
+        report('Answers with * were left out - QTI has no wildcards.');
+      }
+      const response = buildResponseDeclaration('RESPONSE', 'single', 'string', answers.slice(0, 1), buildMapping(answers, block.caseSensitive === true));
+      const interaction = `<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${getExpectedLength(answers)}"/></p>`;
+      return buildItemDocument(identifier, title, response, `${question}${interaction}`, `<responseProcessing template="${MAP_RESPONSE}"/>`);
+    }
+    case 'cloze': {
+      const blanks = getClozeBlanks(block);
+      if (blanks.length === 0) {
+        report('Has no blanks, so it was left out.');
+        return null;
+      }
+      if (blanks.some((blank) => blank.mode === 'dropdown')) {
+        report('Blanks with dropdowns cannot be exported to QTI, so it was left out.');
+        return null;
+      }
+      const answers = blanks.map((blank) => getLiteralAnswers(blank.acceptedAnswers));
+      if (answers.some((blankAnswers) => blankAnswers.length === 0)) {
+        report('A blank has no accepted answers QTI can match (answers with * cannot be), so it was left out.');
+        return null;
+      }
+      if (blanks.some((blank, index) => answers[index].length < blank.acceptedAnswers.filter((answer) => answer.trim() !== '').length)) {
+        report('Answers with * were left out - QTI has no wildcards.');
+      }
+
+      // Each blank's first mark becomes its interaction - further marks of a split blank go away
+      const placed = new Set<string>();
+      const body = toQtiXhtml(block.clozeText, (element) => {
+        const blankId = element.getAttribute('data-cloze-blank');
+        if (blankId === null) return null;
+        const index = blanks.findIndex((blank) => blank.id === blankId);
+        if (index === -1 || placed.has(blankId)) return '';
+        placed.add(blankId);
+        return `<textEntryInteraction responseIdentifier="RESPONSE-${index + 1}" expectedLength="${getExpectedLength(answers[index])}"/>`;
+      });
+      const responses = blanks.map((_, index) =>
+        buildResponseDeclaration(`RESPONSE-${index + 1}`, 'single', 'string', answers[index].slice(0, 1), buildMapping(answers[index], block.caseSensitive === true))
+      ).join('');
+      // One point per blank
+      const processing = '<responseProcessing><setOutcomeValue identifier="SCORE"><sum>' +
+        blanks.map((_, index) => `<mapResponse identifier="RESPONSE-${index + 1}"/>`).join('') +
+        '</sum></setOutcomeValue></responseProcessing>';
+      return buildItemDocument(identifier, title, responses, `${toPlainText(block.question) ? question : ''}<div>${body}</div>`, processing);
+    }
+    case 'ordering': {
+      if (block.orderItems.length === 0) {
+        report('Has no items, so it was left out.');
+        return null;
+      }
+      const interaction = '<orderInteraction responseIdentifier="RESPONSE" shuffle="true">' +
+        block.orderItems.map((item, index) => `<simpleChoice identifier="choice-${index}">${escapeHtml(item.text)}</simpleChoice>`).join('') +
+        '</orderInteraction>';
+      const response = buildResponseDeclaration('RESPONSE', 'ordered', 'identifier', block.orderItems.map((_, index) => `choice-${index}`));
+      return buildItemDocument(identifier, title, response, `${question}${interaction}`, `<responseProcessing template="${MATCH_CORRECT}"/>`);
+    }
+    default:
+      report(`${QUIZ_TYPE_LABELS[block.quizType]} questions cannot be exported to QTI, so it was left out.`);
+      return null;
+  }
+}
+
+// Typed answers QTI can match - answers with the * wildcard cannot be
+function getLiteralAnswers(answers: string[]): string[] {
+  return answers.map((answer) => answer.trim()).filter((answer) => answer !== '' && !answer.includes('*'));
+}
+
+function getExpectedLength(answers: string[]): number {
+  return Math.max(6, ...answers.map((answer) => answer.length));
+}
+
+function buildResponseDeclaration(identifier: string, cardinality: string, baseType: string, correct: string[], mapping: string = ''): string {
+  const correctResponse = correct.length > 0
+    ? `<correctResponse>${correct.map((value) => `<value>${escapeHtml(value)}</value>`).join('')}</correctResponse>`
+    : '';
+  return `<responseDeclaration identifier="${identifier}" cardinality="${cardinality}" baseType="${baseType}">${correctResponse}${mapping}</responseDeclaration>`;
+}
+
+// Any of the answers scores one point
+function buildMapping(answers: string[], caseSensitive: boolean): string {
+  return '<mapping defaultValue="0" upperBound="1">' +
+    answers.map((answer) => `<mapEntry mapKey="${escapeHtml(answer)}" mappedValue="1" caseSensitive="${caseSensitive}"/>`).join('') +
+    '</mapping>';
+}
+
+function buildItemDocument(identifier: string, title: string, responses: string, body: string, processing: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"
+  identifier="${identifier}" title="${escapeHtml(title)}" adaptive="false" timeDependent="false">
+  ${responses}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+  <itemBody>${body}</itemBody>
+  ${processing}
+</assessmentItem>
+`;
+}
+
+// Test and manifest
+
+function buildTest(title: string, entries: TestEntry[], converted: Map<string, ConvertedItem>): string {
+  const itemRef = (item: TestItem) => converted.has(item.identifier)
+    ? `\n      <assessmentItemRef identifier="${item.identifier}" href="${escapeHtml(getItemPath(item))}"/>`
+    : '';
+  const content = entries.map((entry) => {
+    if (entry.type === 'quiz') return itemRef(entry.item);
+    const items = entry.items.filter((item) => converted.has(item.identifier));
+    if (items.length === 0) return '';
+    return `\n      <assessmentSection identifier="${entry.identifier}" title="${escapeHtml(entry.title)}" visible="false">` +
+      `\n        <selection select="${Math.min(entry.count, items.length)}"/>` +
+      items.map(itemRef).join('').replace(/\n {6}/g, '\n        ') +
+      '\n      </assessmentSection>';
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"
+  identifier="test" title="${escapeHtml(title || 'Lesson')}">
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+  <testPart identifier="part" navigationMode="nonlinear" submissionMode="individual">
+    <assessmentSection identifier="lesson" title="${escapeHtml(title || 'Lesson')}" visible="true">${content}
+    </assessmentSection>
+  </testPart>
+  <outcomeProcessing>
+    <setOutcomeValue identifier="SCORE"><sum><testVariables variableIdentifier="SCORE"/></sum></setOutcomeValue>
+  </outcomeProcessing>
+</assessmentTest>
+`;
+}
+
+function buildManifest(items: ConvertedItem[], media: ZipEntry[]): string {
+  const identifier = `livresq-qti-${Date.now().toString(36)}`;
+  const itemResources = items.map((item) => {
+    const files = [getItemPath(item), ...media.filter((file) => item.xml.includes(`"${file.path}"`)).map((file) => file.path)];
+    return `    <resource identifier="${item.identifier}" type="${QTI_ITEM_TYPE}" href="${escapeHtml(getItemPath(item))}">\n` +
+      files.map((path) => `      <file href="${escapeHtml(path)}"/>\n`).join('') +
+      '    </resource>\n';
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:xsi="${XSI_NAMESPACE}"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/imscp_v1p1.xsd">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="test" type="${QTI_TEST_TYPE}" href="${TEST_PATH}">
+      <file href="${TEST_PATH}"/>
+${items.map((item) => `      <dependency identifierref="${item.identifier}"/>\n`).join('')}    </resource>
+${itemResources}  </resources>
+</manifest>
+`;
+}
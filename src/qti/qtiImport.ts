@@ -0,0 +1,336 @@
+import { nanoid } from 'nanoid';
+import type { QuizBlock } from '../types';
+import { createBlock } from '../types';
+import { escapeHtml } from '../export/lessonHtml';
+import { readZip } from '../export/zip';
+import { getMimeType } from '../export/assets';
+import { createClozeBlank } from '../utils/quiz';
+import type { QtiIssue } from './qti';
+import { QTI_XHTML_ELEMENTS, isAllowedQtiUrl, toPlainText } from './qti';
+
+/**
+ * Importing QTI 2.1 items
+ *
+ * Reads a content package (zip with an imsmanifest.xml) or a single item file. Each item
+ * with one choice or order interaction, or only text entries, becomes a quiz; images in
+ * the package are embedded as data URLs like uploads. Other items are reported and skipped.
+ */
+
+export interface QtiImportResult {
+  quizzes: QuizBlock[];
+  issues: QtiIssue[]; // Items left out, or only partly converted
+}
+
+// Files of the package by path, for images that items link to
+type PackageFiles = Map<string, Uint8Array>;
+
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'orderInteraction'];
+
+// QTI content that only makes sense in a delivery engine - left out of question text
+const DROPPED_ELEMENTS = /^(feedback|modalFeedback|rubricBlock|template|printedVariable|endAttemptInteraction)/;
+
+/**
+ * The quizzes of a QTI package (.zip) or item file (.xml)
+ */
+export async function importQtiFile(file: File): Promise<QtiImportResult> {
+  const result: QtiImportResult = { quizzes: [], issues: [] };
+  if (!file.name.toLowerCase().endsWith('.zip')) {
+    const quiz = convertItem(await file.text(), file.name, new Map(), result.issues);
+    if (quiz) result.quizzes.push(quiz);
+    return result;
+  }
+
+  const entries = await readZip(new Uint8Array(await file.arrayBuffer()));
+  const files: PackageFiles = new Map(entries.map((entry) => [
+    entry.path,
+    typeof entry.data === 'string' ? new TextEncoder().encode(entry.data) : entry.data,
+  ]));
+  const decoder = new TextDecoder();
+  for (const path of getItemPaths(files, decoder)) {
+    const data = files.get(path);
+    if (!data) {
+      result.issues.push({ title: path, message: 'Is listed in the package but missing from it.' });
+      continue;
+    }
+    const quiz = convertItem(decoder.decode(data), path, files, result.issues);
+    if (quiz) result.quizzes.push(quiz);
+  }
+  if (result.quizzes.length === 0 && result.issues.length === 0) {
+    throw new Error('The package has no QTI items');
+  }
+  return result;
+}
+
+// Items in the order the manifest lists them - or every item file when there is no manifest
+function getItemPaths(files: PackageFiles, decoder: TextDecoder): string[] {
+  const manifest = files.get('imsmanifest.xml');
+  if (manifest) {
+    const parsed = new DOMParser().parseFromString(decoder.decode(manifest), 'application/xml');
+    return Array.from(parsed.getElementsByTagNameNS('*', 'resource'))
+      .filter((resource) => resource.getAttribute('type')?.startsWith('imsqti_item_xmlv2'))
+      .map((resource) => resolvePath('', resource.getAttribute('href') ?? ''));
+  }
+  return Array.from(files.keys()).filter((path) =>
+    path.toLowerCase().endsWith('.xml') && /<(\w+:)?assessmentItem[\s>]/.test(decoder.decode(files.get(path)!))
+  );
+}
+
+// A path relative to the directory of `from`, as a path in the package
+function resolvePath(from: string, href: string): string {
+  const parts = from.split('/').slice(0, -1);
+  for (const part of decodeURI(href).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// Items
+
+// The quiz of an item, or null when it cannot be converted - issues go to `issues`
+function convertItem(text: string, path: string, files: PackageFiles, issues: QtiIssue[]): QuizBlock | null {
+  const parsed = new DOMParser().parseFromString(text, 'application/xml');
+  const root = parsed.documentElement;
+  const fileName = path.split('/').pop() ?? path;
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    issues.push({ title: fileName, message: 'Is not valid XML.' });
+    return null;
+  }
+  if (root.localName !== 'assessmentItem') {
+    issues.push({ title: fileName, message: 'Is not a QTI assessment item.' });
+    return null;
+  }
+
+  const title = root.getAttribute('title') || root.getAttribute('identifier') || fileName;
+  const report = (message: string) => issues.push({ title, message });
+  const itemBody = getChild(root, 'itemBody');
+  const interactions = itemBody
+    ? Array.from(itemBody.getElementsByTagNameNS('*', '*')).filter((element) =>
+      element.localName.endsWith('Interaction') && !DROPPED_ELEMENTS.test(element.localName))
+    : [];
+  if (!itemBody || interactions.length === 0) {
+    report('Has no interaction to answer.');
+    return null;
+  }
+  const unsupported = interactions.find((interaction) => !SUPPORTED_INTERACTIONS.includes(interaction.localName));
+  if (unsupported) {
+    report(`Uses ${unsupported.localName}, which lesson quizzes do not support.`);
+    return null;
+  }
+  const isTextEntry = interactions.every((interaction) => interaction.localName === 'textEntryInteraction');
+  if (interactions.length > 1 && !isTextEntry) {
+    report('Has several interactions - a lesson quiz holds one.');
+    return null;
+  }
+
+  const context: ConvertContext = { root, path, files };
+  const quiz: QuizBlock = { ...(createBlock('quiz') as QuizBlock), title, options: [], correctIndices: [] };
+  const interaction = interactions[0];
+
+  if (interactions.length > 1) {
+    const blanks = interactions.map((blank) => ({ interaction: blank, answers: getAcceptedAnswers(context, blank), id: nanoid() }));
+    if (blanks.some((blank) => blank.answers.length === 0)) {
+      report('A blank has no correct answer.');
+      return null;
+    }
+    const clozeText = toHtml(context, Array.from(itemBody.childNodes), (element) => {
+      const blank = blanks.find((candidate) => candidate.interaction === element);
+      return blank ? `<span data-cloze-blank="${escapeHtml(blank.id)}">${escapeHtml(blank.answers[0])}</span>` : null;
+    });
+    return {
+      ...quiz,
+      quizType: 'cloze',
+      question: 'Fill in the blanks.',
+      clozeText,
+      clozeBlanks: blanks.map((blank) => ({ ...createClozeBlank(blank.id, blank.answers[0]), acceptedAnswers: blank.answers })),
+      caseSensitive: blanks.some((blank) => isCaseSensitive(context, blank.interaction)),
+    };
+  }
+
+  switch (interaction.localName) {
+    case 'textEntryInteraction': {
+      const acceptedAnswers = getAcceptedAnswers(context, interaction);
+      if (acceptedAnswers.length === 0) {
+        report('Has no correct answer.');
+        return null;
+      }
+      // A blank on its own line goes away - one in a sentence stays as a line to fill in
+      const isOnOwnLine = interaction.parentElement?.children.length === 1 && !interaction.parentElement.textContent?.trim();
+      const question = getQuestion(context, itemBody, (element) => element === interaction ? (isOnOwnLine ? '' : '_____') : null);
+      return { ...quiz, quizType: 'short-answer', question, acceptedAnswers, caseSensitive: isCaseSensitive(context, interaction) };
+    }
+    case 'orderInteraction': {
+      const choices = getChoices(interaction);
+      const order = getCorrectValues(context, interaction);
+      const orderItems = order.map((identifier) => choices.find((choice) => choice.identifier === identifier));
+      if (choices.length === 0 || order.length !== choices.length || orderItems.some((item) => !item)) {
+        report('Has no correct order for all of its items.');
+        return null;
+      }
+      reportChoiceImages(choices, report);
+      return {
+        ...quiz,
+        quizType: 'ordering',
+        question: getQuestion(context, itemBody, (element) => element === interaction ? getPrompt(context, interaction) : null),
+        orderItems: orderItems.map((item) => ({ id: nanoid(), text: item!.text })),
+      };
+    }
+    default: {
+      const choices = getChoices(interaction);
+      const correct = getCorrectValues(context, interaction);
+      const correctIndices = choices.flatMap((choice, index) => (correct.includes(choice.identifier) ? [index] : []));
+      if (choices.length === 0 || correctIndices.length === 0) {
+        report(choices.length === 0 ? 'Has no choices.' : 'Has no correct answer.');
+        return null;
+      }
+      reportChoiceImages(choices, report);
+      const declaration = getResponseDeclaration(context, interaction);
+      const isMultiple = declaration?.getAttribute('cardinality') === 'multiple' || correctIndices.length > 1;
+      const isShuffled = interaction.getAttribute('shuffle') === 'true';
+      const question = getQuestion(context, itemBody, (element) => element === interaction ? getPrompt(context, interaction) : null);
+      const texts = choices.map((choice) => choice.text.toLowerCase());
+      if (!isMultiple && texts.length === 2 && texts.includes('true') && texts.includes('false')) {
+        return { ...quiz, quizType: 'true-false', question, trueFalseAnswer: texts[correctIndices[0]] === 'true' };
+      }
+      return {
+        ...quiz,
+        quizType: isMultiple ? 'multiple-select' : 'multiple-choice',
+        question,
+        options: choices.map((choice) => choice.text),
+        correctIndices,
+        shuffleOptions: isShuffled,
+        keepLastOptionInPlace: isShuffled && choices[choices.length - 1].isFixed,
+      };
+    }
+  }
+}
+
+interface ConvertContext {
+  root: Element; // The assessmentItem
+  path: string; // Of the item file, for resolving the images it links to
+  files: PackageFiles;
+}
+
+interface Choice {
+  identifier: string;
+  text: string;
+  isFixed: boolean;
+  hasImage: boolean;
+}
+
+function getChild(element: Element, localName: string): Element | null {
+  return Array.from(element.children).find((child) => child.localName === localName) ?? null;
+}
+
+function getChoices(interaction: Element): Choice[] {
+  return Array.from(interaction.children)
+    .filter((child) => child.localName === 'simpleChoice')
+    .map((choice) => ({
+      identifier: choice.getAttribute('identifier') ?? '',
+      text: (choice.textContent ?? '').replace(/\s+/g, ' ').trim(),
+      isFixed: choice.getAttribute('fixed') === 'true',
+      hasImage: choice.getElementsByTagNameNS('*', 'img').length > 0,
+    }));
+}
+
+function reportChoiceImages(choices: Choice[], report: (message: string) => void): void {
+  if (choices.some((choice) => choice.hasImage)) report('Images in its choices were left out - choices are text only.');
+}
+
+// Responses
+
+function getResponseDeclaration({ root }: ConvertContext, interaction: Element): Element | null {
+  const identifier = interaction.getAttribute('responseIdentifier');
+  return Array.from(root.children).find((child) =>
+    child.localName === 'responseDeclaration' && child.getAttribute('identifier') === identifier
+  ) ?? null;
+}
+
+function getCorrectValues(context: ConvertContext, interaction: Element): string[] {
+  const declaration = getResponseDeclaration(context, interaction);
+  const values = declaration ? getChild(declaration, 'correctResponse') : null;
+  return values
+    ? Array.from(values.children).filter((value) => value.localName === 'value').map((value) => (value.textContent ?? '').trim())
+    : [];
+}
+
+// Answers that score - the correct response and any mapped to a positive value
+function getMappedEntries(context: ConvertContext, interaction: Element): Element[] {
+  const declaration = getResponseDeclaration(context, interaction);
+  const mapping = declaration ? getChild(declaration, 'mapping') : null;
+  return mapping
+    ? Array.from(mapping.children).filter((entry) => entry.localName === 'mapEntry' && Number(entry.getAttribute('mappedValue')) > 0)
+    : [];
+}
+
+function getAcceptedAnswers(context: ConvertContext, interaction: Element): string[] {
+  const answers = [
+    ...getCorrectValues(context, interaction),
+    ...getMappedEntries(context, interaction).map((entry) => (entry.getAttribute('mapKey') ?? '').trim()),
+  ].filter((answer) => answer !== '');
+  return Array.from(new Set(answers));
+}
+
+// Mapped answers match case only when they say so - a correct response alone matches exactly
+function isCaseSensitive(context: ConvertContext, interaction: Element): boolean {
+  const entries = getMappedEntries(context, interaction);
+  return entries.length === 0 || entries.some((entry) => entry.getAttribute('caseSensitive') !== 'false');
+}
+
+// Question text
+
+// The item body as question text, plain unless it needs markup (lists, images, tables...)
+function getQuestion(context: ConvertContext, itemBody: Element, replace: (element: Element) => string | null): string {
+  const html = toHtml(context, Array.from(itemBody.childNodes), replace);
+  return /<(?!\/?(p|div|span)\b)[a-z]/i.test(html) ? html : toPlainText(html.replace(/<\/(p|div)>/g, '$& '));
+}
+
+function getPrompt(context: ConvertContext, interaction: Element): string {
+  const prompt = getChild(interaction, 'prompt');
+  return prompt ? `<p>${toHtml(context, Array.from(prompt.childNodes))}</p>` : '';
+}
+
+// QTI XHTML as rich text - interactions are left out unless `replace` gives markup for them
+function toHtml(context: ConvertContext, nodes: Node[], replace?: (element: Element) => string | null): string {
+  return nodes.map((node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) return escapeHtml(node.textContent ?? '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    const replacement = replace?.(element);
+    if (replacement !== null && replacement !== undefined) return replacement;
+
+    const name = element.localName;
+    if (name.endsWith('Interaction') || name === 'prompt' || DROPPED_ELEMENTS.test(name)) return '';
+    const content = toHtml(context, Array.from(element.childNodes), replace);
+    const attributeNames = QTI_XHTML_ELEMENTS[name];
+    if (!attributeNames) return content;
+
+    // A paragraph left empty by a removed interaction goes with it
+    if ((name === 'p' || name === 'div') && content.trim() === '' && element.children.length > 0) return '';
+    const values = attributeNames
+      .filter((attribute) => element.hasAttribute(attribute))
+      .map((attribute) => {
+        const value = element.getAttribute(attribute) ?? '';
+        return [attribute, name === 'img' && attribute === 'src' ? resolveImage(context, value) : value];
+      });
+    // Script and other links keep only their text, images missing from the package are left out
+    if (values.some(([attribute, value]) => !isAllowedQtiUrl(name, attribute, value))) return name === 'img' ? '' : content;
+    const attributes = values.map(([attribute, value]) => ` ${attribute}="${escapeHtml(value)}"`).join('');
+    return ['br', 'col', 'hr', 'img'].includes(name) ? `<${name}${attributes}>` : `<${name}${attributes}>${content}</${name}>`;
+  }).join('');
+}
+
+// An image in the package as a data URL, like an uploaded one - links elsewhere are kept
+function resolveImage({ path, files }: ConvertContext, src: string): string {
+  if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(src)) return src;
+  const filePath = resolvePath(path, src);
+  const data = files.get(filePath);
+  const mimeType = getMimeType(filePath);
+  if (!data || !mimeType) return src;
+
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
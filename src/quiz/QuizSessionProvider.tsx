@@ -0,0 +1,57 @@
+import { useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { QuizSessionContext } from './quizSession';
+import type { QuizResult } from './quizSession';
+import { createSeed } from '../utils/random';
+
+interface QuizSessionProviderProps {
+  children: ReactNode;
+}
+
+// Answers given while previewing a lesson - kept in memory only, never saved with the lesson
+export function QuizSessionProvider({ children }: QuizSessionProviderProps) {
+  const [results, setResults] = useState<Record<string, QuizResult>>({});
+  const [sessionKey, setSessionKey] = useState(0);
+  const [seed, setSeed] = useState(createSeed);
+
+  const recordAttempt = (blockId: string, isCorrect: boolean, hasAttemptsLeft: boolean) => {
+    setResults((prev) => {
+      const previous = prev[blockId];
+      if (previous?.isFinal) return prev;
+      return {
+        ...prev,
+        [blockId]: {
+          attempts: (previous?.attempts ?? 0) + 1,
+          isCorrect,
+          isFinal: isCorrect || !hasAttemptsLeft,
+        },
+      };
+    });
+  };
+
+  // Submit functions of the mounted answer views, by quiz block ID
+  const submittersRef = useRef(new Map<string, () => void>());
+
+  const registerSubmit = (blockId: string, submit: () => void) => {
+    submittersRef.current.set(blockId, submit);
+    return () => {
+      if (submittersRef.current.get(blockId) === submit) submittersRef.current.delete(blockId);
+    };
+  };
+
+  const submitAll = () => {
+    submittersRef.current.forEach((submit) => submit());
+  };
+
+  const reset = (nextSeed?: string) => {
+    setResults({});
+    setSeed(nextSeed || createSeed());
+    setSessionKey((key) => key + 1);
+  };
+
+  return (
+    <QuizSessionContext.Provider value={{ results, sessionKey, seed, recordAttempt, reset, registerSubmit, submitAll }}>
+      {children}
+    </QuizSessionContext.Provider>
+  );
+}
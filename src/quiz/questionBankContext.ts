@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { QuestionBank } from '../types';
+
+export interface QuestionBankContextValue {
+  banks: QuestionBank[]; // Every stored bank - draws may use a bank of another lesson
+  lessonId: string | null; // The open lesson, whose own banks are offered alongside shared ones
+  saveBank: (bank: QuestionBank) => Promise<void>;
+  deleteBank: (bankId: string) => Promise<void>;
+}
+
+export const QuestionBankContext = createContext<QuestionBankContextValue | undefined>(undefined);
+
+export function useQuestionBanks(): QuestionBankContextValue {
+  const context = useContext(QuestionBankContext);
+  if (!context) {
+    throw new Error('useQuestionBanks must be used within a QuestionBankContext provider');
+  }
+  return context;
+}
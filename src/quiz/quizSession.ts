@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Result of a learner's submissions to one quiz block
+ */
+export interface QuizResult {
+  attempts: number;
+  isCorrect: boolean; // Whether the latest submission was correct
+  isFinal: boolean; // Correct, or out of attempts - the quiz accepts no more answers
+}
+
+export interface QuizSessionContextValue {
+  results: Record<string, QuizResult>;
+  sessionKey: number; // Changes on reset so answer views can remount with a clean state
+  seed: string; // Drives every draw and shuffle (see utils/random) - new on each reset
+  recordAttempt: (blockId: string, isCorrect: boolean, hasAttemptsLeft: boolean) => void;
+  reset: (seed?: string) => void; // Start over, replaying `seed` when given
+  registerSubmit: (blockId: string, submit: () => void) => () => void; // Returns the unregister function
+  submitAll: () => void; // Submit every quiz that can be submitted (a "submit" button action)
+}
+
+export const QuizSessionContext = createContext<QuizSessionContextValue | undefined>(undefined);
+
+export function useQuizSession(): QuizSessionContextValue {
+  const context = useContext(QuizSessionContext);
+  if (!context) {
+    throw new Error('useQuizSession must be used within a QuizSessionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,151 @@
+import type { Cell, Row, ThemeSpecificCellProps, ThemeSpecificRowProps } from '../types';
+import type { Theme } from './tokens';
+import { curatedStyles } from '../styles/curatedStyles';
+
+/**
+ * Appearance of rows and cells for a theme - what the author set for the theme, falling back
+ * to legacy props and the theme's defaults. Shared by the canvas and the lesson exports.
+ */
+
+// Helper function to convert hex color to rgba with opacity
+export function hexToRgba(hex: string, opacity: number = 1): string {
+  // Remove # if present
+  const cleanHex = hex.replace('#', '');
+  
+  // Parse hex to RGB
+  const r = parseInt(cleanHex.substring(0, 2), 16);
+  const g = parseInt(cleanHex.substring(2, 4), 16);
+  const b = parseInt(cleanHex.substring(4, 6), 16);
+  
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+// Helper function to get theme-specific row properties with fallback to legacy props and theme defaults
+export function getRowThemeProps(row: Row, themeId: string, theme: Theme): ThemeSpecificRowProps {
+  // Try to get theme-specific props (works for 'plain', 'neon', and any custom theme ID)
+  const themeProps = (row.props?.themes as Record<string, ThemeSpecificRowProps | undefined> | undefined)?.[themeId];
+  
+  // Check if row should use default theme style
+  // - styleId === null means explicitly using default style
+  // - no themeProps at all means row should inherit default style from theme
+  const shouldUseDefaultStyle = themeProps?.styleId === null || (!themeProps && theme?.defaultRowStyle);
+  
+  // If row should use default style, apply it
+  if (shouldUseDefaultStyle && theme?.defaultRowStyle) {
+    const defaultStyle = theme.defaultRowStyle;
+    let defaultStyleProperties: Partial<ThemeSpecificRowProps> = {};
+    
+    if (defaultStyle.type === 'curated' && defaultStyle.curatedId) {
+      // Get curated style properties
+      const curatedStyle = curatedStyles.find(s => s.id === defaultStyle.curatedId);
+      if (curatedStyle) {
+        defaultStyleProperties = curatedStyle.getProperties({
+          accent: theme.colors.accent || '#326CF6',
+          surface: theme.colors.surface || '#ffffff',
+          border: theme.colors.border || '#e0e0e0',
+        });
+      }
+    } else if (defaultStyle.type === 'custom' && defaultStyle.customProperties) {
+      defaultStyleProperties = defaultStyle.customProperties;
+    }
+    
+    // Merge default style properties with any existing theme props
+    // Always include styleId: null to mark this as default style
+    return {
+      ...defaultStyleProperties,
+      ...themeProps, // Allow theme-specific props to override default style
+      styleId: null, // Ensure styleId is set to null to indicate default style
+    };
+  }
+  
+  // Get theme defaults - use fallback only if rowBackground doesn't exist at all
+  const defaultBackground = theme?.rowBackground ? {
+    backgroundColor: theme.rowBackground.backgroundColor,
+    backgroundColorOpacity: theme.rowBackground.backgroundColorOpacity ?? 1,
+    backgroundImage: theme.rowBackground.backgroundImage,
+    backgroundImageOpacity: theme.rowBackground.backgroundImageOpacity ?? 1,
+  } : { backgroundColor: '#ffffff', backgroundColorOpacity: 1, backgroundImage: undefined, backgroundImageOpacity: 1 };
+  
+  // If theme-specific props exist, merge with theme defaults for missing background properties
+  // BUT: If a style is applied (styleId is not undefined), don't apply white fallback for backgroundColor
+  // Styles may intentionally not define backgroundColor (transparent)
+  if (themeProps) {
+    const hasStyle = themeProps.styleId !== undefined; // null = default style, string = custom style, undefined = no style
+    
+    return {
+      ...themeProps,
+      // Use theme defaults if background properties are not set in theme-specific props
+      // BUT: If a style is applied and doesn't define backgroundColor, leave it undefined (transparent)
+      backgroundColor: themeProps.backgroundColor ?? (hasStyle ? undefined : defaultBackground.backgroundColor),
+      backgroundColorOpacity: themeProps.backgroundColorOpacity ?? defaultBackground.backgroundColorOpacity ?? 1,
+      backgroundImage: themeProps.backgroundImage ?? defaultBackground.backgroundImage,
+      backgroundImageOpacity: themeProps.backgroundImageOpacity ?? defaultBackground.backgroundImageOpacity ?? 1,
+    };
+  }
+  
+  // Fallback to legacy props for backward compatibility
+  const legacyProps = {
+    verticalAlign: row.props?.verticalAlign,
+    padding: row.props?.padding,
+    backgroundColor: row.props?.backgroundColor,
+    backgroundColorOpacity: row.props?.backgroundColorOpacity,
+    backgroundImage: row.props?.backgroundImage,
+    backgroundImageOpacity: row.props?.backgroundImageOpacity,
+    border: row.props?.border,
+    borderRadius: row.props?.borderRadius as ThemeSpecificRowProps['borderRadius'],
+  };
+  
+  // Always use theme defaults for background if not explicitly set in legacy props
+  // This ensures new rows get the correct background from theme defaults
+  return {
+    ...legacyProps,
+    backgroundColor: legacyProps.backgroundColor ?? defaultBackground.backgroundColor,
+    backgroundColorOpacity: legacyProps.backgroundColorOpacity ?? defaultBackground.backgroundColorOpacity ?? 1,
+    backgroundImage: legacyProps.backgroundImage ?? defaultBackground.backgroundImage,
+    backgroundImageOpacity: legacyProps.backgroundImageOpacity ?? defaultBackground.backgroundImageOpacity ?? 1,
+  };
+}
+
+// Helper function to get theme-specific cell properties with fallback to legacy props and theme defaults
+export function getCellThemeProps(cell: Cell, themeId: string, theme: Theme): ThemeSpecificCellProps {
+  // Try to get theme-specific props (works for 'plain', 'neon', and any custom theme ID)
+  const themeProps = (cell.props?.themes as Record<string, ThemeSpecificCellProps | undefined> | undefined)?.[themeId];
+  const defaultBackground = theme?.cellBackground || { backgroundColor: undefined, backgroundColorOpacity: 1, backgroundImage: undefined, backgroundImageOpacity: 1 };
+  
+  // If theme-specific props exist, merge with theme defaults for missing background properties
+  if (themeProps) {
+    return {
+      ...themeProps,
+      // Use theme defaults if background properties are not set in theme-specific props
+      backgroundColor: themeProps.backgroundColor ?? defaultBackground.backgroundColor,
+      backgroundColorOpacity: themeProps.backgroundColorOpacity ?? defaultBackground.backgroundColorOpacity ?? 1,
+      backgroundImage: themeProps.backgroundImage ?? defaultBackground.backgroundImage,
+      backgroundImageOpacity: themeProps.backgroundImageOpacity ?? defaultBackground.backgroundImageOpacity ?? 1,
+    };
+  }
+  
+  // Fallback to legacy props for backward compatibility
+  const legacyProps = {
+    verticalAlign: cell.props?.verticalAlign,
+    padding: cell.props?.padding,
+    backgroundColor: cell.props?.backgroundColor,
+    backgroundColorOpacity: cell.props?.backgroundColorOpacity,
+    backgroundImage: cell.props?.backgroundImage,
+    backgroundImageOpacity: cell.props?.backgroundImageOpacity,
+    border: cell.props?.border,
+    borderRadius: cell.props?.borderRadius as ThemeSpecificCellProps['borderRadius'],
+  };
+  
+  // If no custom background is set, use theme defaults
+  if (!legacyProps.backgroundColor && !legacyProps.backgroundImage) {
+    return {
+      ...legacyProps,
+      backgroundColor: defaultBackground.backgroundColor,
+      backgroundColorOpacity: defaultBackground.backgroundColorOpacity,
+      backgroundImage: defaultBackground.backgroundImage,
+      backgroundImageOpacity: defaultBackground.backgroundImageOpacity,
+    };
+  }
+  
+  return legacyProps;
+}
@@ -1,6 +1,6 @@
 import { nanoid } from 'nanoid';
 
-export type BlockType = 'text' | 'header' | 'image' | 'quiz' | 'columns' | 'button';
+export type BlockType = 'text' | 'header' | 'image' | 'quiz' | 'columns' | 'button' | 'video' | 'audio' | 'labeled-graphic' | 'question-draw' | 'accordion' | 'tabs' | 'flashcards' | 'table';
 
 export interface BaseBlock {
   id: string;
@@ -29,12 +29,108 @@ export interface ImageBlock extends BaseBlock {
   altText?: string;
 }
 
+export type QuizType =
+  | 'multiple-choice'
+  | 'multiple-select'
+  | 'true-false'
+  | 'short-answer'
+  | 'matching'
+  | 'ordering'
+  | 'cloze'
+  | 'hotspot';
+
+// An image shown with ImageBlock's fit settings, for blocks that place markers on it
+export type MarkedImage = Pick<ImageBlock, 'imageUrl' | 'imageType' | 'imagePosition' | 'altText'>;
+
+// A point on an image in percent of the image's own width and height (0-100), so it stays on
+// the same spot whatever the fit mode, crop or device size
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+// A clickable region of a hotspot question, centered on its point
+export interface QuizHotspot extends ImagePoint {
+  id: string;
+  width: number; // Percent of the image width
+  height: number; // Percent of the image height
+  label: string; // For authors and screen readers
+  isCorrect: boolean;
+}
+
+// A prompt and the answer it is matched with in a matching question
+export interface QuizMatchPair {
+  id: string;
+  prompt: string;
+  match: string;
+}
+
+// An ordering step or a matching distractor
+export interface QuizListItem {
+  id: string;
+  text: string;
+}
+
+// A blank in a cloze question, marked in `clozeText` by a span with its ID (ClozeBlank mark)
+export interface QuizClozeBlank {
+  id: string;
+  mode: 'text' | 'dropdown'; // Typed answer or a choice from a dropdown
+  acceptedAnswers: string[]; // Text: patterns like short answers - `*` matches any text
+  choices: string[]; // Dropdown: the choices offered
+  correctChoiceIndex: number; // Dropdown: the correct choice
+}
+
 export interface QuizBlock extends BaseBlock {
   type: 'quiz';
-  quizType: 'multiple-choice' | 'other'; // Type of quiz
+  quizType: QuizType; // Type of quiz
   question: string;
-  options: string[]; // Dynamic array of options
-  correctIndex: number;
+  options: string[]; // Dynamic array of options (multiple-choice / multiple-select)
+  correctIndices: number[]; // Correct options - exactly one for multiple-choice
+  trueFalseAnswer: boolean; // Correct answer of a true/false question
+  acceptedAnswers: string[]; // Short-answer patterns - `*` matches any text
+  caseSensitive?: boolean; // Short answer: match letter case exactly
+  ignoreExtraWhitespace?: boolean; // Short answer: trim and collapse repeated spaces
+  matchPairs: QuizMatchPair[]; // Matching: prompts with their correct answers
+  matchDistractors: QuizListItem[]; // Matching: extra answers that match no prompt
+  orderItems: QuizListItem[]; // Ordering: steps in their correct order
+  clozeText: string; // Cloze: rich text (HTML) with blanks marked by ClozeBlank
+  clozeBlanks: QuizClozeBlank[]; // Cloze: answers of the blanks - entries without a mark are unused
+  hotspotImage: MarkedImage; // Hotspot: the image learners click on
+  hotspots: QuizHotspot[]; // Hotspot: regions - clicking any correct one answers correctly
+  optionFeedback?: string[]; // Feedback shown for each chosen option, aligned with `options`
+  correctFeedback?: string; // Shown when the answer is correct (and no option feedback applies)
+  incorrectFeedback?: string; // Shown when the answer is wrong (and no option feedback applies)
+  maxAttempts?: number; // Submissions allowed in preview - unset or 0 means unlimited
+  shuffleOptions?: boolean; // Multiple choice/select: show the options in a random order
+  keepLastOptionInPlace?: boolean; // With shuffleOptions: the last option stays last ("All of the above")
+}
+
+// A pool of questions that random draws pick from - either for one lesson or shared by all
+export interface QuestionBank {
+  id: string;
+  name: string;
+  lessonId: string | null; // Lesson the bank belongs to - null when shared across lessons
+  questions: QuizBlock[];
+  updatedAt: number; // Epoch milliseconds
+}
+
+// Questions drawn at random from a question bank each time the lesson is taken
+export interface QuestionDrawBlock extends BaseBlock {
+  type: 'question-draw';
+  bankId: string | null;
+  drawCount: number; // Questions drawn - capped at the size of the bank
+}
+
+// A numbered marker of a labeled graphic, revealing its title and text when opened
+export interface GraphicMarker extends ImagePoint {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export interface LabeledGraphicBlock extends BaseBlock, MarkedImage {
+  type: 'labeled-graphic';
+  markers: GraphicMarker[];
 }
 
 export interface ColumnsBlock extends BaseBlock {
@@ -44,12 +140,155 @@ export interface ColumnsBlock extends BaseBlock {
   row: Row; // The row containing the cells (one cell per column)
 }
 
+// Title of an accordion or tabs panel - the panel's content is the cell at the same index of
+// the block's row
+export interface ContainerPanel {
+  title: string;
+  isOpenByDefault?: boolean; // Accordion: expanded when the lesson opens
+}
+
+// Collapsible panels, each holding any resources (progressive disclosure)
+export interface AccordionBlock extends BaseBlock {
+  type: 'accordion';
+  row: Row; // One cell per panel
+  panels: ContainerPanel[];
+  allowMultipleOpen: boolean; // Opening a panel leaves the others open
+}
+
+// Panels shown one at a time behind a row of tabs
+export interface TabsBlock extends BaseBlock {
+  type: 'tabs';
+  row: Row; // One cell per tab
+  panels: ContainerPanel[];
+  defaultPanelIndex: number; // Tab shown when the lesson opens
+}
+
+// Container blocks whose panels are the cells of the row they own
+export type PanelsBlock = AccordionBlock | TabsBlock;
+
+// What a button does when a learner clicks it (run by the preview, see PreviewStage)
+export type ButtonAction =
+  | { type: 'none' }
+  | { type: 'url'; url: string; openInNewTab: boolean }
+  | { type: 'anchor'; rowId: string | null } // Scroll to a row of the lesson
+  | { type: 'next-page' } // Open the next lesson of the library (see utils/buttons)
+  | { type: 'previous-page' }
+  | { type: 'submit-quizzes' } // Submit every answered quiz that still takes answers
+  | { type: 'reveal-row'; rowId: string | null }; // Show a row that is hidden until revealed
+
+export type ButtonActionType = ButtonAction['type'];
+export type ButtonSize = 'small' | 'medium' | 'large';
+export type ButtonVariant = 'primary' | 'secondary' | 'outline';
+export type ButtonIcon = 'none' | 'arrow' | 'external' | 'download' | 'check';
+
 export interface ButtonBlock extends BaseBlock {
   type: 'button';
   label: string;
+  action?: ButtonAction; // Unset means no action
+  size?: ButtonSize; // Unset means large
+  variant?: ButtonVariant; // Unset means primary
+  icon?: ButtonIcon; // Unset means arrow
+  fullWidth?: boolean; // Stretch to the width of the cell
 }
 
-export type Block = TextBlock | HeaderBlock | ImageBlock | QuizBlock | ColumnsBlock | ButtonBlock;
+export interface VideoCaptionTrack {
+  id: string;
+  label: string; // Shown in the player's captions menu
+  srcLang: string; // BCP 47 language tag, e.g. 'en'
+  src: string; // WebVTT file URL or data URL
+  isDefault?: boolean; // Shown when playback starts
+}
+
+export interface VideoBlock extends BaseBlock {
+  type: 'video';
+  videoUrl: string; // URL or data URL of an uploaded file
+  posterUrl?: string; // Frame shown before playback
+  startTime?: number; // Trim start in seconds
+  endTime?: number; // Trim end in seconds
+  autoplay?: boolean; // Browsers only autoplay muted videos
+  loop?: boolean;
+  muted?: boolean;
+  captions: VideoCaptionTrack[];
+}
+
+export interface AudioBlock extends BaseBlock {
+  type: 'audio';
+  audioUrl: string; // URL or data URL of an uploaded file
+  transcript: string; // Rich text HTML - empty when there is no transcript
+}
+
+// One side of a flashcard
+export interface FlashcardSide {
+  body: string; // Rich text HTML
+  imageUrl?: string; // URL or data URL of an uploaded file
+  altText?: string;
+}
+
+export interface Flashcard {
+  id: string;
+  front: FlashcardSide;
+  back: FlashcardSide;
+}
+
+// A deck of two-sided cards studied one at a time, each rated by the learner
+export interface FlashcardBlock extends BaseBlock {
+  type: 'flashcards';
+  cards: Flashcard[];
+  shuffleOnStart: boolean; // Deal the cards in a random order (from the session seed)
+}
+
+// A cell of a table block - a merged cell spans the cells to its right and below, which stay
+// in the grid (empty) so every table row keeps one entry per column
+export interface TableBlockCell {
+  id: string;
+  body: string; // Rich text HTML
+  colSpan?: number;
+  rowSpan?: number;
+}
+
+// How a table fits a phone screen in preview: scroll sideways, or one card per row
+export type TablePhoneLayout = 'scroll' | 'stack';
+
+export interface TableBlock extends BaseBlock {
+  type: 'table';
+  cells: TableBlockCell[][]; // Rows of cells
+  hasHeaderRow: boolean;
+  hasHeaderColumn: boolean;
+  caption?: string;
+  phoneLayout: TablePhoneLayout;
+}
+
+export type Block =
+  | TextBlock
+  | HeaderBlock
+  | ImageBlock
+  | QuizBlock
+  | ColumnsBlock
+  | ButtonBlock
+  | VideoBlock
+  | AudioBlock
+  | LabeledGraphicBlock
+  | QuestionDrawBlock
+  | AccordionBlock
+  | TabsBlock
+  | FlashcardBlock
+  | TableBlock;
+
+/**
+ * Page-level properties as edited in the app - theme-specific background settings
+ * (keyed by theme ID, so custom themes get their own entry)
+ */
+export interface LessonPageProps {
+  themes?: {
+    [key: string]: {
+      backgroundColor?: string;
+      backgroundColorOpacity?: number;
+      backgroundImage?: string;
+      backgroundImageOpacity?: number;
+      maxRowWidth?: number | null; // null = full width, number = max width in pixels (default: 1024px)
+    } | undefined;
+  };
+}
 
 export interface Lesson {
   blocks: Block[];
@@ -275,6 +514,20 @@ export interface CuratedStyleDefinition {
   getProperties: (themeColors: { accent: string; surface: string; border: string }) => Partial<ThemeSpecificRowProps>;
 }
 
+/**
+ * Knowledge-check gate on a row - in the preview, the rows after it stay locked until the
+ * learner has passed the quizzes in this row (see utils/rowGates)
+ */
+export interface RowGate {
+  lockStyle: 'hide' | 'blur'; // Leave locked rows out, or show them blurred and inert
+  attemptsToUnlock?: number; // Also unlock after this many attempts, right or wrong
+  continueButton: boolean; // Wait for the learner to press a continue button once passed
+  continueLabel: string;
+}
+
+// Where a printed lesson may start a new page around a row - rows are kept on one page by default
+export type RowPageBreak = 'allow' | 'before';
+
 /**
  * Row contains Cells that flow horizontally
  * Row properties mirror cell properties for consistency:
@@ -317,6 +570,9 @@ export interface Row {
       };
       style?: 'solid' | 'dashed' | 'dotted' | 'double'; // Border style
     };
+    gate?: RowGate; // Lock the following rows until this row's quizzes are passed
+    hiddenUntilRevealed?: boolean; // Left out of the preview until a reveal button shows it
+    pageBreak?: RowPageBreak; // Printing: break inside the row, or start it on a new page
     [key: string]: unknown;
   };
   isEmptyState?: boolean; // True if this is an empty state row (for adding new sections)
@@ -438,10 +694,22 @@ export function createBlock(type: BlockType): Block {
     case 'quiz':
       return {
         ...base,
+        type: 'quiz',
         quizType: 'multiple-choice',
         question: 'Which of the following rivers is considered the longest in the world?',
         options: ['Amazon', 'Nile', 'Yangtze', 'Mississippi'],
-        correctIndex: 1, // Nile is the correct answer
+        correctIndices: [1], // Nile is the correct answer
+        trueFalseAnswer: true,
+        acceptedAnswers: [],
+        caseSensitive: false,
+        ignoreExtraWhitespace: true,
+        matchPairs: [],
+        matchDistractors: [],
+        orderItems: [],
+        clozeText: '',
+        clozeBlanks: [],
+        hotspotImage: { imageUrl: '', imageType: 'fit' },
+        hotspots: [],
       };
     case 'columns':
       return {
@@ -456,10 +724,99 @@ export function createBlock(type: BlockType): Block {
           ],
         },
       };
+    case 'accordion':
+      return {
+        ...base,
+        type: 'accordion',
+        row: {
+          id: nanoid(),
+          cells: [
+            { id: nanoid(), resources: [] },
+            { id: nanoid(), resources: [] },
+          ],
+        },
+        panels: [
+          { title: 'Panel 1', isOpenByDefault: true },
+          { title: 'Panel 2' },
+        ],
+        allowMultipleOpen: false,
+      };
+    case 'tabs':
+      return {
+        ...base,
+        type: 'tabs',
+        row: {
+          id: nanoid(),
+          cells: [
+            { id: nanoid(), resources: [] },
+            { id: nanoid(), resources: [] },
+          ],
+        },
+        panels: [{ title: 'Tab 1' }, { title: 'Tab 2' }],
+        defaultPanelIndex: 0,
+      };
+    case 'table':
+      return {
+        ...base,
+        type: 'table',
+        cells: Array.from({ length: 3 }, () =>
+          Array.from({ length: 3 }, () => ({ id: nanoid(), body: '' }))
+        ),
+        hasHeaderRow: true,
+        hasHeaderColumn: false,
+        phoneLayout: 'scroll',
+      };
+    case 'flashcards':
+      return {
+        ...base,
+        type: 'flashcards',
+        cards: [
+          { id: nanoid(), front: { body: '<p>Term</p>' }, back: { body: '<p>Definition</p>' } },
+        ],
+        shuffleOnStart: false,
+      };
     case 'button':
       return {
         ...base,
+        type: 'button',
         label: 'Write a continuation',
+        action: { type: 'none' },
+        size: 'large',
+        variant: 'primary',
+        icon: 'arrow',
+      };
+    case 'video':
+      return {
+        ...base,
+        type: 'video',
+        videoUrl: '',
+        posterUrl: '',
+        autoplay: false,
+        loop: false,
+        muted: false,
+        captions: [],
+      };
+    case 'audio':
+      return {
+        ...base,
+        type: 'audio',
+        audioUrl: '',
+        transcript: '',
+      };
+    case 'labeled-graphic':
+      return {
+        ...base,
+        type: 'labeled-graphic',
+        imageUrl: '',
+        imageType: 'fit',
+        markers: [],
+      };
+    case 'question-draw':
+      return {
+        ...base,
+        type: 'question-draw',
+        bankId: null,
+        drawCount: 3,
       };
   }
 }
@@ -0,0 +1,109 @@
+import type { ButtonAction, ButtonActionType, ButtonIcon, ButtonSize, ButtonVariant, Row } from '../types';
+import { isBlock } from './sections';
+import { LINK_PROTOCOLS, hasAllowedProtocol } from './urls';
+
+/**
+ * Button block helpers
+ *
+ * A button's action is run by the preview. Lessons in the library read as the pages of one
+ * course, ordered by title, so "next page" and "previous page" step through them - number the
+ * titles ("1. Welcome", "2. Safety") to set the order.
+ */
+
+export const BUTTON_ACTION_LABELS: Record<ButtonActionType, string> = {
+  none: 'No action',
+  url: 'Open a link',
+  anchor: 'Jump to a row',
+  'next-page': 'Next lesson page',
+  'previous-page': 'Previous lesson page',
+  'submit-quizzes': 'Submit all quizzes',
+  'reveal-row': 'Reveal a hidden row',
+};
+
+export const BUTTON_SIZE_LABELS: Record<ButtonSize, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large',
+};
+
+export const BUTTON_VARIANT_LABELS: Record<ButtonVariant, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  outline: 'Outline',
+};
+
+export const BUTTON_ICON_LABELS: Record<ButtonIcon, string> = {
+  none: 'None',
+  arrow: 'Arrow',
+  external: 'External link',
+  download: 'Download',
+  check: 'Check mark',
+};
+
+/**
+ * A new action of the given type, keeping the target of the current action where it fits
+ */
+export function createButtonAction(type: ButtonActionType, current?: ButtonAction): ButtonAction {
+  const rowId = current && 'rowId' in current ? current.rowId : null;
+  switch (type) {
+    case 'url':
+      return { type, url: current?.type === 'url' ? current.url : '', openInNewTab: true };
+    case 'anchor':
+    case 'reveal-row':
+      return { type, rowId };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Whether a button may open a URL - web, mail and phone links only, so a `javascript:` URL
+ * typed in or brought in by an import never runs
+ */
+export function isButtonUrlAllowed(url: string): boolean {
+  return hasAllowedProtocol(url, LINK_PROTOCOLS, false);
+}
+
+/**
+ * The URL a link action opens - null when it has none, or one that is not allowed
+ */
+export function getButtonActionUrl(action: ButtonAction): string | null {
+  return action.type === 'url' && action.url && isButtonUrlAllowed(action.url) ? action.url : null;
+}
+
+/**
+ * The row an action points at, when the action has one
+ */
+export function getButtonActionRowId(action: ButtonAction): string | null {
+  return action.type === 'anchor' || action.type === 'reveal-row' ? action.rowId : null;
+}
+
+/**
+ * Name of a row in pickers - its number and the start of its first text
+ */
+export function getRowLabel(row: Row, index: number): string {
+  for (const cell of row.cells) {
+    for (const resource of cell.resources) {
+      if (isBlock(resource) && (resource.type === 'header' || resource.type === 'text')) {
+        const text = resource.body.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+        if (text) return `Row ${index + 1}: ${text.length > 40 ? `${text.slice(0, 40)}…` : text}`;
+      }
+    }
+  }
+  return `Row ${index + 1}`;
+}
+
+/**
+ * The lesson before or after the current one in page order (by title, numbers compared as
+ * numbers) - null at either end of the library
+ */
+export function getAdjacentLessonId(
+  lessons: { id: string; title: string }[],
+  currentLessonId: string,
+  direction: 'next' | 'previous'
+): string | null {
+  const pages = [...lessons].sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+  const index = pages.findIndex((lesson) => lesson.id === currentLessonId);
+  if (index === -1) return null;
+  return pages[index + (direction === 'next' ? 1 : -1)]?.id ?? null;
+}
@@ -0,0 +1,234 @@
+import type { Block, Row, Cell, FlashcardSide, Resource, TableBlock } from '../types';
+import { isConstructor } from './sections';
+import { LESSON_SCHEMA_VERSION, migrateLessonRows } from './lessonFile';
+import { getPanelTitle } from './panels';
+import { getButtonActionUrl } from './buttons';
+import { getCoveredCells } from './tables';
+
+/**
+ * Lesson clipboard
+ *
+ * Copied blocks, cells and rows are written to the system clipboard in three formats:
+ * - CLIPBOARD_MIME_TYPE: the JSON payload, read back when pasting into any lesson or tab
+ * - text/html: a readable rendering for other apps, carrying the same payload in a
+ *   data attribute (some browsers only keep standard types between tabs)
+ * - text/plain: the text content
+ *
+ * Content keeps its props (including theme-specific `props.themes`) and its original IDs -
+ * the editor gives pasted content fresh IDs. Any page can put a payload on the clipboard, so
+ * pasted content is upgraded and cleaned up like an imported lesson file.
+ */
+
+export const CLIPBOARD_MIME_TYPE = 'application/x-livresq-content+json';
+const CLIPBOARD_FORMAT = 'livresq-clipboard';
+const CLIPBOARD_HTML_ATTRIBUTE = 'data-livresq-clipboard';
+
+export type ClipboardContent =
+  | { kind: 'block'; block: Block }
+  | { kind: 'cell'; cell: Cell }
+  | { kind: 'row'; row: Row };
+
+interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  schemaVersion: number;
+  content: ClipboardContent;
+}
+
+/**
+ * Write copied content to a copy/cut event's clipboard data
+ */
+export function writeClipboardContent(data: DataTransfer, content: ClipboardContent): void {
+  const payload: ClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    schemaVersion: LESSON_SCHEMA_VERSION,
+    content,
+  };
+  const json = JSON.stringify(payload);
+
+  const wrapper = document.createElement('div');
+  wrapper.setAttribute(CLIPBOARD_HTML_ATTRIBUTE, json);
+  wrapper.innerHTML = renderContentHtml(content);
+
+  data.setData(CLIPBOARD_MIME_TYPE, json);
+  data.setData('text/html', wrapper.outerHTML);
+  data.setData('text/plain', toPlainText(wrapper.innerHTML));
+}
+
+/**
+ * Read lesson content from a paste event's clipboard data - null when it holds something else
+ */
+export function readClipboardContent(data: DataTransfer): ClipboardContent | null {
+  const json = data.getData(CLIPBOARD_MIME_TYPE) || readPayloadFromHtml(data.getData('text/html'));
+  if (!json) return null;
+
+  try {
+    const payload = JSON.parse(json) as Partial<ClipboardPayload>;
+    if (payload.format !== CLIPBOARD_FORMAT || !payload.content) return null;
+    if (typeof payload.schemaVersion !== 'number' || payload.schemaVersion > LESSON_SCHEMA_VERSION) {
+      console.warn('Ignoring clipboard content from a newer version of the editor');
+      return null;
+    }
+    return isValidContent(payload.content) ? migrateContent(payload.content, payload.schemaVersion) : null;
+  } catch (error) {
+    console.error('Failed to read clipboard content:', error);
+    return null;
+  }
+}
+
+function readPayloadFromHtml(html: string): string | null {
+  if (!html) return null;
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  return parsed.querySelector(`[${CLIPBOARD_HTML_ATTRIBUTE}]`)?.getAttribute(CLIPBOARD_HTML_ATTRIBUTE) ?? null;
+}
+
+// Content of an older schema version in the current model, with its rich text cleaned up - run
+// through the lesson file migrations inside a stand-in row
+function migrateContent(content: ClipboardContent, schemaVersion: number): ClipboardContent {
+  switch (content.kind) {
+    case 'block': {
+      const [row] = migrateLessonRows([{ id: '', cells: [{ id: '', resources: [content.block] }] }], schemaVersion);
+      return { kind: 'block', block: row.cells[0].resources[0] as Block };
+    }
+    case 'cell': {
+      const [row] = migrateLessonRows([{ id: '', cells: [content.cell] }], schemaVersion);
+      return { kind: 'cell', cell: row.cells[0] };
+    }
+    case 'row':
+      return { kind: 'row', row: migrateLessonRows([content.row], schemaVersion)[0] };
+  }
+}
+
+function isValidContent(content: ClipboardContent): boolean {
+  switch (content.kind) {
+    case 'block':
+      return typeof content.block?.type === 'string';
+    case 'cell':
+      return Array.isArray(content.cell?.resources);
+    case 'row':
+      return Array.isArray(content.row?.cells);
+    default:
+      return false;
+  }
+}
+
+// Readable HTML for pasting into other apps
+function renderContentHtml(content: ClipboardContent): string {
+  switch (content.kind) {
+    case 'block':
+      return renderResourceHtml(content.block);
+    case 'cell':
+      return renderCellHtml(content.cell);
+    case 'row':
+      return renderRowHtml(content.row);
+  }
+}
+
+function renderRowHtml(row: Row): string {
+  return row.cells.map(renderCellHtml).join('');
+}
+
+function renderCellHtml(cell: Cell): string {
+  return `<div>${cell.resources.map(renderResourceHtml).join('')}</div>`;
+}
+
+function renderResourceHtml(resource: Resource): string {
+  if (isConstructor(resource)) return renderRowHtml(resource);
+
+  switch (resource.type) {
+    case 'text':
+    case 'header':
+      return resource.body; // Already HTML (rich text editor output)
+    case 'image':
+      return `<figure><img src="${escapeHtml(resource.imageUrl)}" alt="${escapeHtml(resource.altText || '')}">` +
+        (resource.caption ? `<figcaption>${escapeHtml(resource.caption)}</figcaption>` : '') +
+        '</figure>';
+    case 'video':
+      return resource.videoUrl && !resource.videoUrl.startsWith('data:')
+        ? `<p><a href="${escapeHtml(resource.videoUrl)}">${escapeHtml(resource.videoUrl)}</a></p>`
+        : '';
+    case 'audio':
+      return (resource.audioUrl && !resource.audioUrl.startsWith('data:')
+        ? `<p><a href="${escapeHtml(resource.audioUrl)}">${escapeHtml(resource.audioUrl)}</a></p>`
+        : '') + resource.transcript;
+    case 'labeled-graphic':
+      return `<figure><img src="${escapeHtml(resource.imageUrl)}" alt="${escapeHtml(resource.altText || '')}"></figure><ol>` +
+        resource.markers.map((marker) => `<li><strong>${escapeHtml(marker.title)}</strong> ${escapeHtml(marker.content)}</li>`).join('') +
+        '</ol>';
+    case 'question-draw':
+      return `<p>${resource.drawCount} random questions</p>`;
+    case 'table':
+      return renderTableHtml(resource);
+    case 'flashcards':
+      // Each card as a term (front) and its definition (back)
+      return '<dl>' +
+        resource.cards.map((card) => `<dt>${renderFlashcardSideHtml(card.front)}</dt><dd>${renderFlashcardSideHtml(card.back)}</dd>`).join('') +
+        '</dl>';
+    case 'quiz': {
+      if (resource.quizType === 'short-answer' || resource.quizType === 'hotspot') return `<p>${escapeHtml(resource.question)}</p>`;
+      if (resource.quizType === 'matching') {
+        return `<p>${escapeHtml(resource.question)}</p><ul>` +
+          resource.matchPairs.map((pair) => `<li>${escapeHtml(pair.prompt)} - ${escapeHtml(pair.match)}</li>`).join('') +
+          '</ul>';
+      }
+      if (resource.quizType === 'cloze') return `<p>${escapeHtml(resource.question)}</p>${resource.clozeText}`;
+      if (resource.quizType === 'ordering') {
+        return `<p>${escapeHtml(resource.question)}</p><ol>` +
+          resource.orderItems.map((item) => `<li>${escapeHtml(item.text)}</li>`).join('') +
+          '</ol>';
+      }
+      const options = resource.quizType === 'true-false' ? ['True', 'False'] : resource.options;
+      return `<p>${escapeHtml(resource.question)}</p><ol>` +
+        options.map((option) => `<li>${escapeHtml(option)}</li>`).join('') +
+        '</ol>';
+    }
+    case 'columns':
+      return renderRowHtml(resource.row);
+    case 'accordion':
+    case 'tabs':
+      // Panels become sections, each under its title
+      return resource.row.cells
+        .map((cell, index) => `<h3>${escapeHtml(getPanelTitle(resource, index))}</h3>${renderCellHtml(cell)}`)
+        .join('');
+    case 'button': {
+      const url = resource.action ? getButtonActionUrl(resource.action) : null;
+      return url
+        ? `<p><a href="${escapeHtml(url)}">${escapeHtml(resource.label)}</a></p>`
+        : `<p>${escapeHtml(resource.label)}</p>`;
+    }
+    default:
+      return '';
+  }
+}
+
+function renderTableHtml(table: TableBlock): string {
+  const covered = getCoveredCells(table.cells);
+  const rows = table.cells.map((row, rowIndex) =>
+    '<tr>' +
+    row.map((cell, columnIndex) => {
+      if (covered[rowIndex][columnIndex]) return '';
+      const tag = (table.hasHeaderRow && rowIndex === 0) || (table.hasHeaderColumn && columnIndex === 0) ? 'th' : 'td';
+      const spans = (cell.colSpan ? ` colspan="${cell.colSpan}"` : '') + (cell.rowSpan ? ` rowspan="${cell.rowSpan}"` : '');
+      return `<${tag}${spans}>${cell.body}</${tag}>`;
+    }).join('') +
+    '</tr>'
+  );
+  return '<table>' + (table.caption ? `<caption>${escapeHtml(table.caption)}</caption>` : '') + rows.join('') + '</table>';
+}
+
+function renderFlashcardSideHtml(side: FlashcardSide): string {
+  return (side.imageUrl ? `<img src="${escapeHtml(side.imageUrl)}" alt="${escapeHtml(side.altText || '')}">` : '') + side.body;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toPlainText(html: string): string {
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  parsed.querySelectorAll('p, h1, h2, h3, li, figcaption, div').forEach((element) => element.append('\n'));
+  return (parsed.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+}
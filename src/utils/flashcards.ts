@@ -0,0 +1,57 @@
+import { nanoid } from 'nanoid';
+import type { Flashcard, FlashcardBlock, FlashcardSide } from '../types';
+import { createRandom, shuffle } from './random';
+
+/**
+ * Flashcard deck helpers
+ *
+ * The preview deals a deck into a list of card IDs and walks through it one card at a time,
+ * recording how the learner rated each card. Missed cards can be dealt again as a new round.
+ */
+
+// How a learner rated themselves on a card
+export type FlashcardRating = 'known' | 'unknown';
+
+/**
+ * A new blank card
+ */
+export function createFlashcard(): Flashcard {
+  return { id: nanoid(), front: { body: '' }, back: { body: '' } };
+}
+
+/**
+ * Whether a card body has any text - bodies left empty by the editor still contain an empty paragraph
+ */
+export function hasFlashcardText(body: string): boolean {
+  return body.replace(/<[^>]*>/g, '').trim().length > 0;
+}
+
+/**
+ * Whether a side shows anything
+ */
+export function hasSideContent(side: FlashcardSide): boolean {
+  return !!side.imageUrl || hasFlashcardText(side.body);
+}
+
+/**
+ * IDs of the cards in the order they are dealt at the start of a session - shuffled from the
+ * session seed when the deck asks for it, so the same seed deals the same order
+ */
+export function dealFlashcards(block: FlashcardBlock, seed: string): string[] {
+  const ids = block.cards.map((card) => card.id);
+  return block.shuffleOnStart ? shuffle(ids, createRandom(seed, block.id)) : ids;
+}
+
+/**
+ * Reshuffle the cards of a round - `round` keeps each reshuffle of a session different
+ */
+export function reshuffleFlashcards(ids: string[], seed: string, blockId: string, round: number): string[] {
+  return shuffle(ids, createRandom(seed, `${blockId}:${round}`));
+}
+
+/**
+ * Cards of a round the learner did not know (unrated cards count as not known)
+ */
+export function getMissedFlashcards(ids: string[], ratings: Record<string, FlashcardRating>): string[] {
+  return ids.filter((id) => ratings[id] !== 'known');
+}
@@ -0,0 +1,102 @@
+import type { Row } from '../types';
+import { isConstructor } from './sections';
+
+/**
+ * Undo/redo history
+ *
+ * Pure helpers around a past/present/future stack. Every change is pushed with an optional
+ * coalesce key: consecutive changes with the same key that arrive within the coalesce window
+ * replace the newest entry instead of adding one, so a slider drag or a burst of typing
+ * undoes in a single step.
+ */
+
+const MAX_HISTORY_ENTRIES = 100;
+const DEFAULT_COALESCE_MS = 1000;
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Last recorded change, used to decide whether the next one coalesces with it
+  lastChange: { key: string; time: number } | null;
+}
+
+export interface HistoryChange {
+  key?: string | null; // null/undefined = never coalesce
+  time: number; // Epoch milliseconds of the change
+  coalesceMs?: number;
+}
+
+/**
+ * Start a new history with no undo/redo entries
+ */
+export function createHistory<T>(present: T): HistoryState<T> {
+  return { past: [], present, future: [], lastChange: null };
+}
+
+/**
+ * Record a new present value
+ */
+export function pushHistory<T>(history: HistoryState<T>, next: T, change: HistoryChange): HistoryState<T> {
+  if (next === history.present) return history;
+
+  const { key, time, coalesceMs = DEFAULT_COALESCE_MS } = change;
+  const shouldCoalesce =
+    !!key &&
+    history.lastChange?.key === key &&
+    time - history.lastChange.time <= coalesceMs &&
+    history.past.length > 0;
+
+  return {
+    past: shouldCoalesce
+      ? history.past
+      : [...history.past, history.present].slice(-MAX_HISTORY_ENTRIES),
+    present: next,
+    future: [],
+    lastChange: key ? { key, time } : null,
+  };
+}
+
+export function undoHistory<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastChange: null,
+  };
+}
+
+export function redoHistory<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastChange: null,
+  };
+}
+
+// Nested cell/resource IDs of a row - differs whenever content is added, removed or moved
+function getRowShape(row: Row): string {
+  return row.cells
+    .map((cell) => `${cell.id}[${cell.resources.map((r) => (isConstructor(r) ? getRowShape(r) : r.id)).join(',')}]`)
+    .join('|');
+}
+
+/**
+ * Coalesce key for a rows change: edits to the content or props of the same rows share a key,
+ * structural changes (anything added, removed or reordered) never coalesce
+ */
+export function getRowsChangeKey(prev: Row[], next: Row[]): string | null {
+  if (prev.length !== next.length) return null;
+
+  const changedRowIds: string[] = [];
+  for (let i = 0; i < next.length; i++) {
+    if (prev[i].id !== next[i].id) return null;
+    if (prev[i] === next[i]) continue;
+    if (getRowShape(prev[i]) !== getRowShape(next[i])) return null;
+    changedRowIds.push(next[i].id);
+  }
+  return changedRowIds.length > 0 ? `rows:${changedRowIds.join(',')}` : null;
+}
@@ -0,0 +1,140 @@
+import type { ImageBlock, ImagePoint } from '../types';
+
+/**
+ * Image geometry for markers placed on images
+ *
+ * Marker positions are stored as percentages of the image itself (not of the box it is shown
+ * in). The box always has the same aspect ratio, but `fill` crops the image, `fit` letterboxes
+ * it and `stretch` distorts it, so these helpers work out where the image actually sits in the
+ * box to convert between stored points and on-screen positions.
+ */
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect extends Size {
+  x: number;
+  y: number;
+}
+
+type ImageType = NonNullable<ImageBlock['imageType']>;
+type ImagePosition = NonNullable<ImageBlock['imagePosition']>;
+
+// Where the image is anchored in the box along each axis (0 = start, 1 = end)
+const POSITION_ANCHORS: Record<ImagePosition, [number, number]> = {
+  'center': [0.5, 0.5],
+  'top': [0.5, 0],
+  'bottom': [0.5, 1],
+  'left': [0, 0.5],
+  'right': [1, 0.5],
+  'top-left': [0, 0],
+  'top-right': [1, 0],
+  'bottom-left': [0, 1],
+  'bottom-right': [1, 1],
+};
+
+/**
+ * CSS object-fit for an image type
+ */
+export function getObjectFit(imageType: ImageType = 'fill'): 'cover' | 'contain' | 'fill' {
+  return imageType === 'fit' ? 'contain' : imageType === 'stretch' ? 'fill' : 'cover';
+}
+
+/**
+ * CSS object-position for an image position - as percentages, which every browser understands
+ * (keywords such as `top-left` are not valid CSS)
+ */
+export function getObjectPosition(position: ImagePosition = 'center'): string {
+  const [x, y] = POSITION_ANCHORS[position] ?? POSITION_ANCHORS.center;
+  return `${x * 100}% ${y * 100}%`;
+}
+
+/**
+ * The rectangle the image is drawn in, relative to its box - it extends past the box when
+ * `fill` crops it. Before the image has loaded (no natural size) the box itself is used.
+ */
+export function getRenderedImageRect(
+  box: Size,
+  natural: Size | null,
+  imageType: ImageType = 'fill',
+  position: ImagePosition = 'center'
+): Rect {
+  if (imageType === 'stretch' || !natural || natural.width <= 0 || natural.height <= 0) {
+    return { x: 0, y: 0, width: box.width, height: box.height };
+  }
+
+  const scaleX = box.width / natural.width;
+  const scaleY = box.height / natural.height;
+  const scale = imageType === 'fit' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const width = natural.width * scale;
+  const height = natural.height * scale;
+  const [anchorX, anchorY] = POSITION_ANCHORS[position] ?? POSITION_ANCHORS.center;
+
+  return {
+    x: (box.width - width) * anchorX,
+    y: (box.height - height) * anchorY,
+    width,
+    height,
+  };
+}
+
+/**
+ * Position of an image point in the box, in pixels
+ */
+export function imagePointToBox(point: ImagePoint, rect: Rect): { left: number; top: number } {
+  return {
+    left: rect.x + (point.x / 100) * rect.width,
+    top: rect.y + (point.y / 100) * rect.height,
+  };
+}
+
+/**
+ * Image point under a position in the box, in pixels - clamped to the image
+ */
+export function boxPointToImage(left: number, top: number, rect: Rect): ImagePoint {
+  const clamp = (value: number) => Math.min(100, Math.max(0, value));
+  return {
+    x: clamp(rect.width > 0 ? ((left - rect.x) / rect.width) * 100 : 0),
+    y: clamp(rect.height > 0 ? ((top - rect.y) / rect.height) * 100 : 0),
+  };
+}
+
+/**
+ * Whether a position in the box is inside it - points cropped away by `fill` are not
+ */
+export function isInsideBox(position: { left: number; top: number }, box: Size): boolean {
+  return position.left >= 0 && position.top >= 0 && position.left <= box.width && position.top <= box.height;
+}
+
+/**
+ * Whether an image point falls in a region centered on `center` (sizes in image percent)
+ */
+export function isPointInRegion(point: ImagePoint, center: ImagePoint, size: Size): boolean {
+  return Math.abs(point.x - center.x) <= size.width / 2 && Math.abs(point.y - center.y) <= size.height / 2;
+}
+
+// Arrow-key step for moving a point, in image percent (the large step is for Shift)
+const KEYBOARD_STEP = 1;
+const KEYBOARD_STEP_LARGE = 5;
+
+/**
+ * A point moved by an arrow key (keyboard alternative to dragging) - null for other keys
+ */
+export function getArrowKeyPoint(key: string, isLargeStep: boolean, point: ImagePoint): ImagePoint | null {
+  const step = isLargeStep ? KEYBOARD_STEP_LARGE : KEYBOARD_STEP;
+  const clamp = (value: number) => Math.min(100, Math.max(0, value));
+  switch (key) {
+    case 'ArrowLeft':
+      return { x: clamp(point.x - step), y: point.y };
+    case 'ArrowRight':
+      return { x: clamp(point.x + step), y: point.y };
+    case 'ArrowUp':
+      return { x: point.x, y: clamp(point.y - step) };
+    case 'ArrowDown':
+      return { x: point.x, y: clamp(point.y + step) };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,276 @@
+import type { Block, Section, Row, Cell, Resource, LessonPageProps, QuestionBank } from '../types';
+import { migrateBlocksToSections, migrateSectionsToRows, isConstructor } from './sections';
+import type { StoredLesson } from './lessonStorage';
+import { repairDuplicateIds } from '../document/ids';
+import { downloadFile } from '../export/download';
+import { addQuizClozeData, addQuizHotspotData, addQuizMatchingData, addQuizQuestionTypes, migrateQuizBlocks } from './quiz';
+import { getLessonQuestionBanks, normalizeQuestionBank } from './questionBanks';
+import { sanitizeBlockRichText, sanitizeRowsRichText } from './richText';
+
+/**
+ * Lesson file format (.livresq.json)
+ *
+ * Every exported file carries a `schemaVersion`. Importing runs the document through a
+ * chain of migrations, one per version step, until it reaches LESSON_SCHEMA_VERSION:
+ *
+ * 1. `blocks` - a flat list of blocks (the original Lesson shape)
+ * 2. `sections` - SimpleSection / TwoColumnSection
+ * 3. `rows` - the Row/Cell/Resource model, possibly with legacy flat Row.props / Cell.props
+ * 4. `rows` with styling stored only under `props.themes[themeId]`, plus `pageProps` and a title
+ * 5. quiz blocks with question types (`correctIndices` etc. instead of a single `correctIndex`)
+ * 6. quiz blocks with matching and ordering data (`matchPairs`, `matchDistractors`, `orderItems`)
+ * 7. quiz blocks with cloze data (`clozeText`, `clozeBlanks`)
+ * 8. quiz blocks with hotspot data (`hotspotImage`, `hotspots`)
+ * 9. `questionBanks` - copies of the question banks used by random-draw blocks
+ *
+ * Documents without a `schemaVersion` (e.g. a raw `Lesson` object) are detected from
+ * whichever structure they contain.
+ */
+
+export const LESSON_SCHEMA_VERSION = 9;
+export const LESSON_FILE_EXTENSION = '.livresq.json';
+const LESSON_FILE_FORMAT = 'livresq-lesson';
+
+export interface LessonFile {
+  format: typeof LESSON_FILE_FORMAT;
+  schemaVersion: number;
+  title: string;
+  rows: Row[];
+  pageProps: LessonPageProps;
+  questionBanks: QuestionBank[];
+  exportedAt: string; // ISO timestamp
+}
+
+// Lesson content as read from a file, ready to become a new stored lesson
+export interface ImportedLesson {
+  title?: string;
+  rows: Row[];
+  pageProps: LessonPageProps;
+  questionBanks: QuestionBank[]; // Banks the lesson draws from, as stored in the file
+}
+
+// A document part-way through migration - its shape depends on schemaVersion
+type LessonDocument = { schemaVersion: number } & Record<string, unknown>;
+
+// Legacy flat styling keys that now live under props.themes[themeId]
+const LEGACY_STYLE_KEYS = [
+  'verticalAlign',
+  'padding',
+  'backgroundColor',
+  'backgroundColorOpacity',
+  'backgroundImage',
+  'backgroundImageOpacity',
+  'border',
+  'borderRadius',
+] as const;
+
+// Legacy props applied to every theme - carry them over to the built-in themes
+const LEGACY_PROP_THEME_IDS = ['plain', 'neon'] as const;
+
+// Move legacy flat style props into theme-specific entries (existing theme entries win)
+function migrateLegacyStyleProps<P extends Row['props'] | Cell['props']>(props: P): P {
+  if (!props) return props;
+
+  const legacyStyle: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(props)) {
+    if ((LEGACY_STYLE_KEYS as readonly string[]).includes(key)) {
+      if (value !== undefined) legacyStyle[key] = value;
+    } else {
+      rest[key] = value;
+    }
+  }
+  if (Object.keys(legacyStyle).length === 0) return props;
+
+  const themes = { ...(rest.themes as Record<string, unknown> | undefined) };
+  for (const themeId of LEGACY_PROP_THEME_IDS) {
+    if (!themes[themeId]) themes[themeId] = { ...legacyStyle };
+  }
+  return { ...rest, themes } as P;
+}
+
+function migrateLegacyRow(row: Row): Row {
+  return {
+    ...row,
+    props: migrateLegacyStyleProps(row.props),
+    cells: row.cells.map((cell) => ({
+      ...cell,
+      props: migrateLegacyStyleProps(cell.props),
+      resources: cell.resources.map(migrateLegacyResource),
+    })),
+  };
+}
+
+function migrateLegacyResource(resource: Resource): Resource {
+  if (isConstructor(resource)) return migrateLegacyRow(resource);
+  if (resource.type === 'columns' && resource.row) {
+    return { ...resource, row: migrateLegacyRow(resource.row) };
+  }
+  return resource;
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM - each returns a version + 1 document
+ */
+const migrations: Record<number, (document: LessonDocument) => LessonDocument> = {
+  1: (document) => ({
+    ...document,
+    schemaVersion: 2,
+    sections: migrateBlocksToSections(requireArray<Block>(document, 'blocks')),
+  }),
+  2: (document) => ({
+    ...document,
+    schemaVersion: 3,
+    rows: migrateSectionsToRows(requireArray<Section>(document, 'sections')),
+  }),
+  3: (document) => ({
+    ...document,
+    schemaVersion: 4,
+    rows: requireArray<Row>(document, 'rows').map(migrateLegacyRow),
+    pageProps: document.pageProps ?? {},
+  }),
+  4: (document) => ({
+    ...document,
+    schemaVersion: 5,
+    rows: migrateQuizBlocks(requireArray<Row>(document, 'rows'), addQuizQuestionTypes),
+  }),
+  5: (document) => ({
+    ...document,
+    schemaVersion: 6,
+    rows: migrateQuizBlocks(requireArray<Row>(document, 'rows'), addQuizMatchingData),
+  }),
+  6: (document) => ({
+    ...document,
+    schemaVersion: 7,
+    rows: migrateQuizBlocks(requireArray<Row>(document, 'rows'), addQuizClozeData),
+  }),
+  7: (document) => ({
+    ...document,
+    schemaVersion: 8,
+    rows: migrateQuizBlocks(requireArray<Row>(document, 'rows'), addQuizHotspotData),
+  }),
+  8: (document) => ({
+    ...document,
+    schemaVersion: 9,
+    questionBanks: document.questionBanks ?? [],
+  }),
+};
+
+function requireArray<T>(document: LessonDocument, key: string): T[] {
+  const value = document[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid lesson file: expected "${key}" to be a list (schema version ${document.schemaVersion}).`);
+  }
+  return value as T[];
+}
+
+// Work out the version of a document saved before files carried a schemaVersion
+function detectLegacySchemaVersion(document: Record<string, unknown>): number {
+  if (Array.isArray(document.rows)) return 3;
+  if (Array.isArray(document.sections)) return 2;
+  if (Array.isArray(document.blocks)) return 1;
+  throw new Error('This file does not contain a lesson (no rows, sections or blocks were found).');
+}
+
+// Run the migrations from the document's version up to LESSON_SCHEMA_VERSION
+function runMigrations(document: LessonDocument): LessonDocument {
+  let migrated = document;
+  while (migrated.schemaVersion < LESSON_SCHEMA_VERSION) {
+    const migrate = migrations[migrated.schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration available from lesson schema version ${migrated.schemaVersion}.`);
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Upgrade rows of an older schema version (one with rows, 3 or later) to the current model,
+ * with their rich text cleaned up like an imported file's - for content pasted from elsewhere
+ */
+export function migrateLessonRows(rows: Row[], schemaVersion: number): Row[] {
+  if (schemaVersion < 3) throw new Error(`Lesson schema version ${schemaVersion} has no rows.`);
+  const document = runMigrations({ schemaVersion, rows, pageProps: {}, questionBanks: [] });
+  return sanitizeRowsRichText(requireArray<Row>(document, 'rows'));
+}
+
+/**
+ * Upgrade a parsed lesson document of any supported version to the current model, with its
+ * rich text cut down to what the editor writes (see utils/richText)
+ */
+export function migrateLessonDocument(data: unknown): ImportedLesson {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('This file does not contain a lesson.');
+  }
+
+  const raw = data as Record<string, unknown>;
+  if (raw.format !== undefined && raw.format !== LESSON_FILE_FORMAT) {
+    throw new Error(`This is not a lesson file (format "${String(raw.format)}").`);
+  }
+  const version = raw.schemaVersion === undefined ? detectLegacySchemaVersion(raw) : raw.schemaVersion;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Unknown lesson schema version: ${JSON.stringify(version)}.`);
+  }
+  if (version > LESSON_SCHEMA_VERSION) {
+    throw new Error(
+      `This lesson was exported by a newer version of the editor (schema version ${version}). ` +
+      `This editor supports schema versions up to ${LESSON_SCHEMA_VERSION}.`
+    );
+  }
+
+  const document = runMigrations({ ...raw, schemaVersion: version });
+  return {
+    title: typeof document.title === 'string' && document.title.trim() ? document.title : undefined,
+    rows: repairDuplicateIds(sanitizeRowsRichText(requireArray<Row>(document, 'rows').filter((row) => !row.isEmptyState))),
+    pageProps: (document.pageProps as LessonPageProps | undefined) ?? {},
+    questionBanks: requireArray<QuestionBank>(document, 'questionBanks')
+      .map(normalizeQuestionBank)
+      .map((bank) => ({ ...bank, questions: bank.questions.map(sanitizeBlockRichText) })),
+  };
+}
+
+/**
+ * Parse the text of a .livresq.json file
+ */
+export function parseLessonFile(text: string): ImportedLesson {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  return migrateLessonDocument(data);
+}
+
+/**
+ * Serialize a stored lesson to the current file format, with the banks its draws use
+ */
+export function serializeLesson(lesson: StoredLesson, questionBanks: QuestionBank[] = []): string {
+  const rows = lesson.rows.filter((row) => !row.isEmptyState);
+  const file: LessonFile = {
+    format: LESSON_FILE_FORMAT,
+    schemaVersion: LESSON_SCHEMA_VERSION,
+    title: lesson.title,
+    rows,
+    pageProps: lesson.pageProps,
+    questionBanks: getLessonQuestionBanks(rows, questionBanks),
+    exportedAt: new Date().toISOString(),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Download a lesson as a .livresq.json file
+ */
+export function downloadLessonFile(lesson: StoredLesson, questionBanks: QuestionBank[] = []): void {
+  const blob = new Blob([serializeLesson(lesson, questionBanks)], { type: 'application/json' });
+  downloadFile(blob, `${toFileName(lesson.title)}${LESSON_FILE_EXTENSION}`);
+}
+
+// Lesson title as a safe file name
+export function toFileName(title: string): string {
+  const name = title.trim().replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ');
+  return name || 'lesson';
+}
@@ -0,0 +1,293 @@
+import { nanoid } from 'nanoid';
+import type { Row, LessonPageProps, QuestionBank } from '../types';
+import { findDuplicateIds, repairDuplicateIds } from '../document/ids';
+import { migrateQuizBlocks } from './quiz';
+import { normalizeQuestionBank } from './questionBanks';
+
+/**
+ * Lesson persistence layer (IndexedDB)
+ *
+ * Lessons are stored in IndexedDB rather than localStorage because image fills are
+ * embedded as data URLs and quickly exceed the ~5MB localStorage quota.
+ *
+ * Three object stores are used:
+ * - lessons: the last autosaved copy of each lesson (the lesson library)
+ * - drafts: a more eagerly written snapshot used for crash recovery. A draft that is
+ *   newer than its saved lesson means the editor closed before autosave committed.
+ * - questionBanks: question banks, kept apart from lessons so they can be shared (version 2)
+ */
+
+const DB_NAME = 'livresq';
+const DB_VERSION = 2;
+const LESSONS_STORE = 'lessons';
+const DRAFTS_STORE = 'drafts';
+const QUESTION_BANKS_STORE = 'questionBanks';
+
+const LAST_LESSON_STORAGE_KEY = 'livresq-last-lesson-id';
+
+export const DEFAULT_LESSON_TITLE = 'Untitled lesson';
+
+export interface StoredLesson {
+  id: string;
+  title: string;
+  rows: Row[];
+  pageProps: LessonPageProps;
+  archived?: boolean; // Archived lessons are hidden from the main library list
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number; // Epoch milliseconds
+}
+
+// Lesson fields other than its content - what the editor tracks alongside rows/pageProps
+export type LessonMetadata = Pick<StoredLesson, 'id' | 'title' | 'archived' | 'createdAt'>;
+
+// Fill in fields missing from records written before the lesson library existed, upgrade
+// quiz blocks saved before question types, and give colliding row/cell/resource IDs (left
+// behind by older shallow duplication) fresh ones
+function normalizeStoredLesson(record: Partial<StoredLesson> & { id: string }): StoredLesson {
+  const rows = migrateQuizBlocks(record.rows || []);
+  const duplicateIds = findDuplicateIds(rows);
+  if (duplicateIds.length > 0) {
+    console.warn(`Lesson ${record.id} has duplicate IDs, repairing:`, duplicateIds);
+  }
+
+  return {
+    ...record,
+    id: record.id,
+    title: record.title || DEFAULT_LESSON_TITLE,
+    rows: duplicateIds.length > 0 ? repairDuplicateIds(rows) : rows,
+    pageProps: record.pageProps || {},
+    createdAt: record.createdAt ?? record.updatedAt ?? Date.now(),
+    updatedAt: record.updatedAt ?? Date.now(),
+  };
+}
+
+/**
+ * Create a new (not yet saved) lesson record
+ */
+export function createLessonRecord(
+  title: string = DEFAULT_LESSON_TITLE,
+  rows: Row[] = [],
+  pageProps: LessonPageProps = {}
+): StoredLesson {
+  const now = Date.now();
+  return { id: nanoid(), title, rows, pageProps, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Extract the metadata of a stored lesson
+ */
+export function getLessonMetadata(lesson: StoredLesson): LessonMetadata {
+  return {
+    id: lesson.id,
+    title: lesson.title,
+    archived: lesson.archived,
+    createdAt: lesson.createdAt,
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and upgrade if needed) the lesson database - the connection is shared
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LESSONS_STORE)) {
+        db.createObjectStore(LESSONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(QUESTION_BANKS_STORE)) {
+        db.createObjectStore(QUESTION_BANKS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a retry on the next call
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Read a single record by key
+async function getRecord<T>(storeName: string, id: string): Promise<T | null> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).get(id);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Write a record - resolves only once the transaction has committed, so quota
+// errors (which abort the transaction) are reported to the caller
+async function putRecord<T>(storeName: string, record: T): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Read every record in a store
+async function getAllRecords<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function deleteRecord(storeName: string, id: string): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Load the autosaved copy of a lesson
+ */
+export async function loadLesson(id: string): Promise<StoredLesson | null> {
+  const record = await getRecord<StoredLesson>(LESSONS_STORE, id);
+  return record ? normalizeStoredLesson(record) : null;
+}
+
+/**
+ * List all stored lessons, most recently updated first
+ */
+export async function listLessons(): Promise<StoredLesson[]> {
+  const records = await getAllRecords<StoredLesson>(LESSONS_STORE);
+  return records
+    .map(normalizeStoredLesson)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Find the lesson to open on startup: the last opened lesson, otherwise the most
+ * recently updated lesson in the library, otherwise a new blank lesson (saved right away)
+ */
+export async function loadInitialLesson(): Promise<StoredLesson> {
+  const lastOpenedId = getLastOpenedLessonId();
+  const lastOpened = lastOpenedId ? await loadLesson(lastOpenedId) : null;
+  if (lastOpened) return lastOpened;
+
+  const lessons = await listLessons();
+  const mostRecent = lessons.find((lesson) => !lesson.archived) || lessons[0];
+  if (mostRecent) return mostRecent;
+
+  const blankLesson = createLessonRecord();
+  await saveLesson(blankLesson);
+  return blankLesson;
+}
+
+/**
+ * Autosave a lesson
+ */
+export function saveLesson(lesson: StoredLesson): Promise<void> {
+  return putRecord(LESSONS_STORE, lesson);
+}
+
+/**
+ * Permanently delete a lesson and its recovery draft
+ */
+export async function deleteLesson(id: string): Promise<void> {
+  await deleteRecord(LESSONS_STORE, id);
+  await deleteRecord(DRAFTS_STORE, id);
+}
+
+/**
+ * Load the crash-recovery draft of a lesson
+ */
+export async function loadDraft(id: string): Promise<StoredLesson | null> {
+  const record = await getRecord<StoredLesson>(DRAFTS_STORE, id);
+  return record ? normalizeStoredLesson(record) : null;
+}
+
+/**
+ * Write the crash-recovery draft of a lesson
+ */
+export function saveDraft(lesson: StoredLesson): Promise<void> {
+  return putRecord(DRAFTS_STORE, lesson);
+}
+
+/**
+ * Remove the crash-recovery draft (after autosave committed or the user discarded it)
+ */
+export function deleteDraft(id: string): Promise<void> {
+  return deleteRecord(DRAFTS_STORE, id);
+}
+
+/**
+ * List every question bank - lesson banks and shared ones
+ */
+export async function listQuestionBanks(): Promise<QuestionBank[]> {
+  const records = await getAllRecords<QuestionBank>(QUESTION_BANKS_STORE);
+  return records.map(normalizeQuestionBank).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Save a question bank (created or edited)
+ */
+export function saveQuestionBank(bank: QuestionBank): Promise<void> {
+  return putRecord(QUESTION_BANKS_STORE, bank);
+}
+
+/**
+ * Permanently delete a question bank - draws that use it show no questions
+ */
+export function deleteQuestionBank(id: string): Promise<void> {
+  return deleteRecord(QUESTION_BANKS_STORE, id);
+}
+
+/**
+ * Check if an error was caused by the browser's storage quota being exceeded
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  // Firefox historically reported NS_ERROR_DOM_QUOTA_REACHED
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+/**
+ * Remember which lesson was open so it is reopened on the next visit
+ */
+export function getLastOpenedLessonId(): string | null {
+  try {
+    return localStorage.getItem(LAST_LESSON_STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to read last opened lesson:', error);
+    return null;
+  }
+}
+
+export function setLastOpenedLessonId(id: string): void {
+  try {
+    localStorage.setItem(LAST_LESSON_STORAGE_KEY, id);
+  } catch (error) {
+    console.error('Failed to remember last opened lesson:', error);
+  }
+}
@@ -0,0 +1,56 @@
+import type { BlockType, Row } from '../types';
+import { createSectionTemplate } from '../types';
+
+/**
+ * Lesson Template - a starting structure for a new lesson in the library
+ * Each entry in `sections` becomes one Row (via createSectionTemplate)
+ */
+export interface LessonTemplate {
+  id: string;
+  name: string;
+  description: string;
+  createRows: () => Row[]; // Fresh IDs on every call
+}
+
+function createLessonTemplate(
+  id: string,
+  name: string,
+  description: string,
+  sections: BlockType[][]
+): LessonTemplate {
+  return {
+    id,
+    name,
+    description,
+    createRows: () =>
+      sections.map((blockTypes, index) =>
+        createSectionTemplate(`${id}-${index}`, name, blockTypes).createSection()
+      ),
+  };
+}
+
+/**
+ * Get all predefined lesson templates
+ */
+export function getLessonTemplates(): LessonTemplate[] {
+  return [
+    createLessonTemplate(
+      'introduction',
+      'Introduction',
+      'Title, overview text and a hero image',
+      [['header', 'text'], ['image'], ['text', 'button']]
+    ),
+    createLessonTemplate(
+      'knowledge-check',
+      'Knowledge check',
+      'Short reading followed by quiz questions',
+      [['header', 'text'], ['quiz'], ['quiz']]
+    ),
+    createLessonTemplate(
+      'image-story',
+      'Image story',
+      'A sequence of captioned images',
+      [['header'], ['image', 'text'], ['image', 'text']]
+    ),
+  ];
+}
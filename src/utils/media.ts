@@ -0,0 +1,62 @@
+/**
+ * Media helpers for video/audio blocks
+ *
+ * Uploaded media is stored as data URLs, like uploaded images, so lessons stay self-contained
+ * in browser storage and exported files.
+ */
+
+/**
+ * Read a file as a data URL
+ */
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Read a WebVTT caption file as a data URL - rejects files that are not WebVTT
+ */
+export async function readWebVttFile(file: File): Promise<string> {
+  const text = await file.text();
+  // A WebVTT file starts with "WEBVTT" (optionally after a byte order mark), followed by whitespace
+  if (!/^\uFEFF?WEBVTT(\s|$)/.test(text)) {
+    throw new Error(`"${file.name}" is not a WebVTT caption file.`);
+  }
+  return `data:text/vtt;charset=utf-8,${encodeURIComponent(text)}`;
+}
+
+/**
+ * Add a media fragment (#t=start,end) so the browser only plays the trimmed range.
+ * Data URLs are returned unchanged - the player seeks to the range itself.
+ */
+export function getTrimmedMediaUrl(url: string, startTime?: number, endTime?: number): string {
+  if (!url || url.startsWith('data:') || (!startTime && endTime === undefined)) return url;
+
+  const start = startTime ?? 0;
+  const fragment = endTime !== undefined && endTime > start ? `#t=${start},${endTime}` : `#t=${start}`;
+  return `${url.split('#')[0]}${fragment}`;
+}
+
+/**
+ * Language code from a caption file name, e.g. "lecture.en.vtt" -> "en"
+ */
+export function getCaptionLanguageFromFileName(fileName: string): string | null {
+  const match = /\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*)\.vtt$/i.exec(fileName);
+  return match ? match[1] : null;
+}
+
+/**
+ * Format a playback position as m:ss (or h:mm:ss)
+ */
+export function formatMediaTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return '0:00';
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
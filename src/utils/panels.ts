@@ -0,0 +1,76 @@
+import { nanoid } from 'nanoid';
+import type { AccordionBlock, PanelsBlock } from '../types';
+
+/**
+ * Accordion and tabs helpers
+ *
+ * Both blocks own a row whose cells are their panels (so panels are drop targets and tree
+ * lookups find their content like any other cell), and keep the panel titles in `panels`, at
+ * the same index as the cell. Every change here updates both together.
+ */
+
+/**
+ * Title shown for a panel - a numbered default when the author left it empty
+ */
+export function getPanelTitle(block: PanelsBlock, index: number): string {
+  return block.panels[index]?.title.trim() || `${block.type === 'tabs' ? 'Tab' : 'Panel'} ${index + 1}`;
+}
+
+/**
+ * Append an empty panel
+ */
+export function addPanel(block: PanelsBlock): PanelsBlock {
+  const index = block.row.cells.length;
+  return {
+    ...block,
+    row: { ...block.row, cells: [...block.row.cells, { id: nanoid(), resources: [] }] },
+    panels: [...block.panels.slice(0, index), { title: `${block.type === 'tabs' ? 'Tab' : 'Panel'} ${index + 1}` }],
+  };
+}
+
+/**
+ * Remove a panel and its content - the last panel is never removed
+ */
+export function removePanel(block: PanelsBlock, index: number): PanelsBlock {
+  if (block.row.cells.length <= 1) return block;
+  const cells = block.row.cells.filter((_, i) => i !== index);
+  const panels = block.panels.filter((_, i) => i !== index);
+  if (block.type === 'tabs') {
+    const defaultPanelIndex = block.defaultPanelIndex > index ? block.defaultPanelIndex - 1 : block.defaultPanelIndex;
+    return { ...block, row: { ...block.row, cells }, panels, defaultPanelIndex: Math.min(defaultPanelIndex, cells.length - 1) };
+  }
+  return { ...block, row: { ...block.row, cells }, panels };
+}
+
+/**
+ * Move a panel one place up (-1) or down (1)
+ */
+export function movePanel(block: PanelsBlock, index: number, offset: -1 | 1): PanelsBlock {
+  const target = index + offset;
+  if (target < 0 || target >= block.row.cells.length) return block;
+  const swap = <T>(items: T[]): T[] => {
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  };
+  // Titles are padded first so a panel without an entry keeps its place
+  const panels = swap(block.row.cells.map((_, i) => block.panels[i] ?? { title: '' }));
+  if (block.type === 'tabs') {
+    const defaultPanelIndex = block.defaultPanelIndex === index ? target
+      : block.defaultPanelIndex === target ? index
+      : block.defaultPanelIndex;
+    return { ...block, row: { ...block.row, cells: swap(block.row.cells) }, panels, defaultPanelIndex };
+  }
+  return { ...block, row: { ...block.row, cells: swap(block.row.cells) }, panels };
+}
+
+/**
+ * Indices of the accordion panels that start expanded - only the first of them when a
+ * single panel may be open at a time
+ */
+export function getDefaultOpenPanels(block: AccordionBlock): number[] {
+  const open = block.row.cells
+    .map((_, index) => index)
+    .filter((index) => block.panels[index]?.isOpenByDefault);
+  return block.allowMultipleOpen ? open : open.slice(0, 1);
+}
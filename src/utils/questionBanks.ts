@@ -0,0 +1,109 @@
+import { nanoid } from 'nanoid';
+import type { QuestionBank, QuestionDrawBlock, QuizBlock, Row } from '../types';
+import { iterateRows, mapResources } from '../document/tree';
+import { isBlock } from './sections';
+import { migrateQuizBlock } from './quiz';
+import { createRandom, shuffle } from './random';
+
+/**
+ * Question bank helpers
+ *
+ * Banks are stored apart from lessons (see lessonStorage) so a shared bank can be used by any
+ * lesson. A QuestionDrawBlock only references its bank by ID; lesson files carry a copy of
+ * every bank their draws use, so they still work when imported elsewhere.
+ */
+
+export const DEFAULT_QUESTION_BANK_NAME = 'Untitled bank';
+
+/**
+ * Create a new (not yet saved) question bank
+ */
+export function createQuestionBank(
+  name: string = DEFAULT_QUESTION_BANK_NAME,
+  lessonId: string | null = null,
+  questions: QuizBlock[] = []
+): QuestionBank {
+  return { id: nanoid(), name, lessonId, questions, updatedAt: Date.now() };
+}
+
+/**
+ * Fill in missing fields of a stored or imported bank and upgrade its questions
+ */
+export function normalizeQuestionBank(record: Partial<QuestionBank> & { id: string }): QuestionBank {
+  return {
+    id: record.id,
+    name: record.name || DEFAULT_QUESTION_BANK_NAME,
+    lessonId: record.lessonId ?? null,
+    questions: (record.questions || []).map(migrateQuizBlock),
+    updatedAt: record.updatedAt ?? Date.now(),
+  };
+}
+
+/**
+ * Every random-draw block in a lesson, including those in nested rows
+ */
+export function collectQuestionDrawBlocks(rows: Row[]): QuestionDrawBlock[] {
+  const draws: QuestionDrawBlock[] = [];
+  for (const row of iterateRows(rows)) {
+    for (const cell of row.cells) {
+      for (const resource of cell.resources) {
+        if (isBlock(resource) && resource.type === 'question-draw') draws.push(resource);
+      }
+    }
+  }
+  return draws;
+}
+
+/**
+ * The banks a lesson draws questions from
+ */
+export function getLessonQuestionBanks(rows: Row[], banks: QuestionBank[]): QuestionBank[] {
+  const bankIds = new Set(collectQuestionDrawBlocks(rows).map((draw) => draw.bankId));
+  return banks.filter((bank) => bankIds.has(bank.id));
+}
+
+/**
+ * The questions a draw shows for a session seed - the same seed always gives the same
+ * questions in the same order. Drawn questions get IDs scoped to the draw block, so two
+ * draws from one bank never share quiz results.
+ */
+export function drawQuestions(block: QuestionDrawBlock, banks: QuestionBank[], seed: string): QuizBlock[] {
+  const bank = banks.find((b) => b.id === block.bankId);
+  if (!bank) return [];
+  const count = Math.max(0, Math.min(block.drawCount, bank.questions.length));
+  return shuffle(bank.questions, createRandom(seed, block.id))
+    .slice(0, count)
+    .map((question) => ({ ...question, id: `${block.id}:${question.id}` }));
+}
+
+/**
+ * Give a lesson copied from another (a duplicate or an imported file) its own copies of the
+ * lesson banks its draws use. Shared banks stay shared - they are only returned when not
+ * stored yet. Returns the rows with draws pointing at the copies and the banks to save.
+ */
+export function copyLessonQuestionBanks(
+  rows: Row[],
+  banks: QuestionBank[],
+  lessonId: string,
+  storedBankIds: ReadonlySet<string>
+): { rows: Row[]; banks: QuestionBank[] } {
+  const bankIdMap = new Map<string, string>();
+  const banksToSave: QuestionBank[] = [];
+
+  for (const bank of getLessonQuestionBanks(rows, banks)) {
+    if (bank.lessonId === null) {
+      if (!storedBankIds.has(bank.id)) banksToSave.push(bank);
+      continue;
+    }
+    const copy = createQuestionBank(bank.name, lessonId, bank.questions);
+    bankIdMap.set(bank.id, copy.id);
+    banksToSave.push(copy);
+  }
+
+  const mappedRows = mapResources(rows, (resource) => {
+    if (!isBlock(resource) || resource.type !== 'question-draw' || !resource.bankId) return resource;
+    const bankId = bankIdMap.get(resource.bankId);
+    return bankId ? { ...resource, bankId } : resource;
+  });
+  return { rows: mappedRows, banks: banksToSave };
+}
@@ -0,0 +1,435 @@
+import { nanoid } from 'nanoid';
+import type { ImagePoint, QuizBlock, QuizClozeBlank, QuizListItem, QuizType, Row } from '../types';
+import { iterateRows, mapResources } from '../document/tree';
+import { isBlock } from './sections';
+import { isPointInRegion } from './imageGeometry';
+import { shuffle } from './random';
+import type { RandomSource } from './random';
+
+/**
+ * Quiz question helpers
+ *
+ * A QuizBlock keeps the answer data of every quiz type side by side (options/correctIndices,
+ * trueFalseAnswer, acceptedAnswers), so switching the type in the editor never loses answers.
+ * Only the fields of the current `quizType` are used when rendering and checking answers.
+ */
+
+export const QUIZ_TYPE_LABELS: Record<QuizType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'multiple-select': 'Multiple select',
+  'true-false': 'True / false',
+  'short-answer': 'Short answer',
+  'matching': 'Matching',
+  'ordering': 'Ordering',
+  'cloze': 'Fill in the blanks',
+  'hotspot': 'Image hotspot',
+};
+
+export const QUIZ_TYPES = Object.keys(QUIZ_TYPE_LABELS) as QuizType[];
+
+// The fixed choices of a true/false question - index 0 is "True"
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+/**
+ * A learner's answer - chosen option indices for choice questions, typed text for short answer,
+ * item IDs in the learner's order for ordering and matching (see getMatchChoices), the
+ * value of each cloze blank by blank ID (typed text, or the chosen dropdown index), and the
+ * spot clicked on a hotspot image
+ */
+export interface QuizAnswer {
+  selectedIndices: number[];
+  text: string;
+  order: string[];
+  blanks: Record<string, string>;
+  point: ImagePoint | null;
+}
+
+// Quiz blocks saved before question types existed: a single `correctIndex` and an 'other' type
+// that had no behavior of its own. Fields of later quiz types may be missing too.
+export type LegacyQuizBlock = Omit<
+  QuizBlock,
+  | 'quizType'
+  | 'correctIndices'
+  | 'trueFalseAnswer'
+  | 'acceptedAnswers'
+  | 'matchPairs'
+  | 'matchDistractors'
+  | 'orderItems'
+  | 'clozeText'
+  | 'clozeBlanks'
+  | 'hotspotImage'
+  | 'hotspots'
+> & {
+  quizType?: QuizType | 'other';
+  correctIndex?: number;
+  correctIndices?: number[];
+  trueFalseAnswer?: boolean;
+  acceptedAnswers?: string[];
+  matchPairs?: QuizBlock['matchPairs'];
+  matchDistractors?: QuizListItem[];
+  orderItems?: QuizListItem[];
+  clozeText?: string;
+  clozeBlanks?: QuizClozeBlank[];
+  hotspotImage?: QuizBlock['hotspotImage'];
+  hotspots?: QuizBlock['hotspots'];
+};
+
+/**
+ * Question types - `correctIndices` instead of a single `correctIndex`, and the answers of
+ * true/false and short-answer questions
+ */
+export function addQuizQuestionTypes(block: LegacyQuizBlock): LegacyQuizBlock {
+  const { correctIndex, ...rest } = block;
+  const options = Array.isArray(rest.options) ? rest.options : [];
+  const correctIndices = Array.isArray(rest.correctIndices)
+    ? rest.correctIndices
+    : typeof correctIndex === 'number' && correctIndex >= 0 && correctIndex < options.length
+      ? [correctIndex]
+      : options.length > 0 ? [0] : [];
+
+  return {
+    ...rest,
+    quizType: !rest.quizType || rest.quizType === 'other' ? 'multiple-choice' : rest.quizType,
+    options,
+    correctIndices,
+    trueFalseAnswer: rest.trueFalseAnswer ?? true,
+    acceptedAnswers: rest.acceptedAnswers ?? [],
+    caseSensitive: rest.caseSensitive ?? false,
+    ignoreExtraWhitespace: rest.ignoreExtraWhitespace ?? true,
+  };
+}
+
+/**
+ * Answers of matching and ordering questions
+ */
+export function addQuizMatchingData(block: LegacyQuizBlock): LegacyQuizBlock {
+  return {
+    ...block,
+    matchPairs: block.matchPairs ?? [],
+    matchDistractors: block.matchDistractors ?? [],
+    orderItems: block.orderItems ?? [],
+  };
+}
+
+/**
+ * Text and blanks of cloze questions
+ */
+export function addQuizClozeData(block: LegacyQuizBlock): LegacyQuizBlock {
+  return { ...block, clozeText: block.clozeText ?? '', clozeBlanks: block.clozeBlanks ?? [] };
+}
+
+/**
+ * Image and regions of hotspot questions
+ */
+export function addQuizHotspotData(block: LegacyQuizBlock): LegacyQuizBlock {
+  return {
+    ...block,
+    hotspotImage: block.hotspotImage ?? { imageUrl: '', imageType: 'fit' },
+    hotspots: block.hotspots ?? [],
+  };
+}
+
+/**
+ * Upgrade a quiz block of any earlier shape, one step after the other - already upgraded
+ * blocks are returned as-is
+ */
+export function migrateQuizBlock(block: QuizBlock | LegacyQuizBlock): QuizBlock {
+  if (
+    Array.isArray(block.correctIndices) &&
+    block.quizType !== 'other' &&
+    block.quizType !== undefined &&
+    typeof block.trueFalseAnswer === 'boolean' &&
+    Array.isArray(block.acceptedAnswers) &&
+    Array.isArray(block.matchPairs) &&
+    Array.isArray(block.matchDistractors) &&
+    Array.isArray(block.orderItems) &&
+    typeof block.clozeText === 'string' &&
+    Array.isArray(block.clozeBlanks) &&
+    typeof block.hotspotImage === 'object' &&
+    block.hotspotImage !== null &&
+    Array.isArray(block.hotspots)
+  ) {
+    return block as QuizBlock;
+  }
+
+  const steps = [addQuizQuestionTypes, addQuizMatchingData, addQuizClozeData, addQuizHotspotData];
+  return steps.reduce((upgraded, step) => step(upgraded), block as LegacyQuizBlock) as QuizBlock;
+}
+
+/**
+ * Upgrade every quiz block in a lesson - fully (see migrateQuizBlock), or by one `step`
+ */
+export function migrateQuizBlocks(
+  rows: Row[],
+  step: (block: LegacyQuizBlock) => QuizBlock | LegacyQuizBlock = migrateQuizBlock
+): Row[] {
+  return mapResources(rows, (resource) =>
+    isBlock(resource) && resource.type === 'quiz' ? (step(resource) as QuizBlock) : resource
+  );
+}
+
+/**
+ * Every quiz block in a lesson, including those in nested rows
+ */
+export function collectQuizBlocks(rows: Row[]): QuizBlock[] {
+  const quizzes: QuizBlock[] = [];
+  for (const row of iterateRows(rows)) {
+    for (const cell of row.cells) {
+      for (const resource of cell.resources) {
+        if (isBlock(resource) && resource.type === 'quiz') quizzes.push(resource);
+      }
+    }
+  }
+  return quizzes;
+}
+
+/**
+ * Updates that switch a quiz to another type, keeping its answers valid for that type
+ */
+export function getQuizTypeUpdates(block: QuizBlock, quizType: QuizType): Partial<QuizBlock> {
+  // A single-answer question keeps the first of several correct options
+  if (quizType === 'multiple-choice' && block.correctIndices.length !== 1) {
+    return { quizType, correctIndices: block.options.length > 0 ? [block.correctIndices[0] ?? 0] : [] };
+  }
+  // Start new matching and ordering questions with something to fill in
+  if (quizType === 'matching' && block.matchPairs.length === 0) {
+    return {
+      quizType,
+      matchPairs: [
+        { id: nanoid(), prompt: '', match: '' },
+        { id: nanoid(), prompt: '', match: '' },
+      ],
+    };
+  }
+  if (quizType === 'ordering' && block.orderItems.length === 0) {
+    const steps = block.options.some((option) => option.trim() !== '') ? block.options : ['', '', ''];
+    return { quizType, orderItems: steps.map((text) => ({ id: nanoid(), text })) };
+  }
+  return { quizType };
+}
+
+/**
+ * Toggle (multiple-select) or set (multiple-choice) the correct option
+ */
+export function getCorrectOptionUpdates(block: QuizBlock, index: number): Partial<QuizBlock> {
+  if (block.quizType !== 'multiple-select') {
+    return { correctIndices: [index] };
+  }
+  const correctIndices = block.correctIndices.includes(index)
+    ? block.correctIndices.filter((i) => i !== index)
+    : [...block.correctIndices, index].sort((a, b) => a - b);
+  return { correctIndices };
+}
+
+/**
+ * Remove an option and shift the correct indices after it
+ */
+export function getDeleteOptionUpdates(block: QuizBlock, index: number): Partial<QuizBlock> {
+  const options = block.options.filter((_, i) => i !== index);
+  const optionFeedback = block.optionFeedback?.filter((_, i) => i !== index);
+  let correctIndices = block.correctIndices
+    .filter((i) => i !== index)
+    .map((i) => (i > index ? i - 1 : i));
+
+  // A multiple-choice question always has one correct option
+  if (block.quizType === 'multiple-choice' && correctIndices.length === 0 && options.length > 0) {
+    correctIndices = [0];
+  }
+  return { options, correctIndices, optionFeedback };
+}
+
+// Normalize an answer or pattern for comparison according to the block's options
+function normalizeAnswer(text: string, block: Pick<QuizBlock, 'caseSensitive' | 'ignoreExtraWhitespace'>): string {
+  let normalized = (block.ignoreExtraWhitespace ?? true) ? text.trim().replace(/\s+/g, ' ') : text;
+  if (!block.caseSensitive) normalized = normalized.toLocaleLowerCase();
+  return normalized;
+}
+
+/**
+ * Whether a typed answer matches an accepted-answer pattern (`*` matches any text)
+ */
+export function matchesAnswerPattern(
+  pattern: string,
+  answer: string,
+  block: Pick<QuizBlock, 'caseSensitive' | 'ignoreExtraWhitespace'>
+): boolean {
+  const normalizedPattern = normalizeAnswer(pattern, block);
+  const normalizedAnswer = normalizeAnswer(answer, block);
+  if (!normalizedPattern.includes('*')) return normalizedPattern === normalizedAnswer;
+
+  const source = normalizedPattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 's').test(normalizedAnswer);
+}
+
+/**
+ * Whether a short answer matches any of the block's accepted answers
+ */
+export function isShortAnswerCorrect(block: QuizBlock, answer: string): boolean {
+  return block.acceptedAnswers.some(
+    (pattern) => pattern.trim() !== '' && matchesAnswerPattern(pattern, answer, block)
+  );
+}
+
+/**
+ * Whether learners answer by picking options (multiple-choice, multiple-select, true/false)
+ */
+export function isChoiceQuiz(block: QuizBlock): boolean {
+  return block.quizType === 'multiple-choice' || block.quizType === 'multiple-select' || block.quizType === 'true-false';
+}
+
+/**
+ * The choices a learner picks from - the options, or True/False (empty for short answer)
+ */
+export function getQuizChoices(block: QuizBlock): string[] {
+  if (!isChoiceQuiz(block)) return [];
+  return block.quizType === 'true-false' ? TRUE_FALSE_OPTIONS : block.options;
+}
+
+/**
+ * Indices of the correct choices in getQuizChoices
+ */
+export function getCorrectChoiceIndices(block: QuizBlock): number[] {
+  if (!isChoiceQuiz(block)) return [];
+  if (block.quizType === 'true-false') return [block.trueFalseAnswer ? 0 : 1];
+  return block.correctIndices;
+}
+
+/**
+ * Indices of getQuizChoices in the order learners see them - shuffled when the question asks
+ * for it, with the last option left in place for choices like "All of the above"
+ */
+export function getChoiceOrder(block: QuizBlock, random: RandomSource): number[] {
+  const indices = getQuizChoices(block).map((_, index) => index);
+  if (block.quizType === 'true-false' || !block.shuffleOptions) return indices;
+  if (block.keepLastOptionInPlace && indices.length > 1) {
+    return [...shuffle(indices.slice(0, -1), random), indices[indices.length - 1]];
+  }
+  return shuffle(indices, random);
+}
+
+/**
+ * Whether an answer is correct - multiple-select needs exactly the correct options, no more
+ */
+export function isQuizAnswerCorrect(block: QuizBlock, answer: QuizAnswer): boolean {
+  if (block.quizType === 'short-answer') return isShortAnswerCorrect(block, answer.text);
+  if (block.quizType === 'ordering') {
+    return (
+      answer.order.length === block.orderItems.length &&
+      block.orderItems.every((item, index) => answer.order[index] === item.id)
+    );
+  }
+  if (block.quizType === 'hotspot') {
+    const { point } = answer;
+    return point !== null && block.hotspots.some((hotspot) => hotspot.isCorrect && isPointInRegion(point, hotspot, hotspot));
+  }
+  if (block.quizType === 'cloze') {
+    const blanks = getClozeBlanks(block);
+    return blanks.length > 0 && blanks.every((blank) => isClozeBlankCorrect(block, blank, answer.blanks[blank.id] ?? ''));
+  }
+  if (block.quizType === 'matching') {
+    // Compared by text, so pairs sharing the same answer can use either copy
+    const choices = getMatchChoices(block);
+    return block.matchPairs.every((pair, index) => {
+      const choice = choices.find((item) => item.id === answer.order[index]);
+      return choice !== undefined && choice.text.trim() === pair.match.trim();
+    });
+  }
+
+  const correctIndices = getCorrectChoiceIndices(block);
+  return (
+    answer.selectedIndices.length === correctIndices.length &&
+    correctIndices.every((index) => answer.selectedIndices.includes(index))
+  );
+}
+
+/**
+ * Whether a quiz allows another submission after `attempts` submissions
+ */
+export function hasAttemptsLeft(block: QuizBlock, attempts: number): boolean {
+  return !block.maxAttempts || attempts < block.maxAttempts;
+}
+
+/**
+ * The answers of a matching question - one per pair (with the pair's ID) plus the distractors.
+ * A learner matches the answer at position `i` of their order with prompt `i`.
+ */
+export function getMatchChoices(block: QuizBlock): QuizListItem[] {
+  return [
+    ...block.matchPairs.map((pair) => ({ id: pair.id, text: pair.match })),
+    ...block.matchDistractors,
+  ];
+}
+
+/**
+ * Item IDs in a shuffled starting order for an ordering or matching answer - never the correct order
+ */
+export function getShuffledAnswerOrder(block: QuizBlock, random: RandomSource): string[] {
+  const ids = (block.quizType === 'matching' ? getMatchChoices(block) : block.orderItems).map((item) => item.id);
+  const shuffled = shuffle(ids, random);
+  // A shuffle that lands on the answer would give it away - rotate it by one instead
+  if (shuffled.length > 1 && shuffled.every((id, index) => id === ids[index])) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+}
+
+/**
+ * Move an item of an answer order one place up or down (keyboard alternative to dragging)
+ */
+export function moveAnswerItem(order: string[], id: string, offset: -1 | 1): string[] {
+  const from = order.indexOf(id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= order.length) return order;
+  const next = [...order];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+/**
+ * IDs of the blanks marked in cloze text, in reading order
+ */
+export function getClozeBlankIds(clozeText: string): string[] {
+  const ids: string[] = [];
+  for (const match of clozeText.matchAll(/data-cloze-blank="([^"]+)"/g)) {
+    // A blank split by other formatting is rendered as several spans with the same ID
+    if (!ids.includes(match[1])) ids.push(match[1]);
+  }
+  return ids;
+}
+
+/**
+ * A new text blank that accepts the marked words
+ */
+export function createClozeBlank(id: string, answer: string): QuizClozeBlank {
+  return {
+    id,
+    mode: 'text',
+    acceptedAnswers: answer.trim() ? [answer.trim()] : [],
+    choices: [],
+    correctChoiceIndex: 0,
+  };
+}
+
+/**
+ * The blanks of a cloze question in reading order - blanks whose mark was deleted are left out
+ */
+export function getClozeBlanks(block: QuizBlock): QuizClozeBlank[] {
+  return getClozeBlankIds(block.clozeText)
+    .map((id) => block.clozeBlanks.find((blank) => blank.id === id))
+    .filter((blank): blank is QuizClozeBlank => blank !== undefined);
+}
+
+/**
+ * Whether the value given for a blank is correct - dropdown values are the chosen index
+ */
+export function isClozeBlankCorrect(block: QuizBlock, blank: QuizClozeBlank, value: string): boolean {
+  if (blank.mode === 'dropdown') {
+    return value !== '' && Number(value) === blank.correctChoiceIndex;
+  }
+  return blank.acceptedAnswers.some(
+    (pattern) => pattern.trim() !== '' && matchesAnswerPattern(pattern, value, block)
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Seeded random numbers for quiz draws and shuffles
+ *
+ * Everything random a learner sees (drawn questions, option and answer order) comes from a
+ * session seed, so an author who enters the same seed in preview gets exactly the same draw.
+ * Each use derives its own generator from the seed plus a key (usually a block ID), which
+ * keeps results independent of the order in which blocks happen to render.
+ */
+
+export type RandomSource = () => number; // Like Math.random - a number in [0, 1)
+
+const SEED_LENGTH = 6;
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No look-alikes (0/O, 1/I)
+
+/**
+ * A new short seed that is easy to read out and type
+ */
+export function createSeed(): string {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+}
+
+/**
+ * A seed as typed by an author - case and surrounding spaces don't matter
+ */
+export function normalizeSeed(seed: string): string {
+  return seed.trim().toUpperCase();
+}
+
+// 32-bit FNV-1a hash of a string
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A deterministic generator (mulberry32) for a seed and key
+ */
+export function createRandom(seed: string, key: string = ''): RandomSource {
+  let state = hashString(`${seed}:${key}`);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A shuffled copy of a list (Fisher-Yates)
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,165 @@
+import type { Block, Row } from '../types';
+import { mapResources } from '../document/tree';
+import { isBlock } from './sections';
+import { LINK_PROTOCOLS, hasAllowedProtocol, isAllowedImageUrl } from './urls';
+
+/**
+ * Rich text cleanup
+ *
+ * Rich text fields (text and header bodies, quiz questions, cloze text, transcripts, flashcard
+ * and table cells) are stored as HTML and rendered as-is. HTML from outside the editor - a
+ * lesson file someone shared - is cut down to the markup the editor itself writes, so it can't
+ * run script in the editor, the preview or exported lessons.
+ */
+
+// Elements kept, with the attributes each may carry on top of GLOBAL_ATTRIBUTES
+const ALLOWED_ELEMENTS: Record<string, string[]> = {
+  a: ['href', 'target', 'rel'],
+  b: [],
+  blockquote: [],
+  br: [],
+  caption: [],
+  code: [],
+  del: [],
+  div: [],
+  em: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ['src', 'alt', 'width', 'height'],
+  li: [],
+  mark: [],
+  ol: ['start'],
+  p: [],
+  pre: [],
+  s: [],
+  span: [],
+  strike: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['colspan', 'rowspan'],
+  tfoot: [],
+  th: ['colspan', 'rowspan', 'scope'],
+  thead: [],
+  tr: [],
+  u: [],
+  ul: [],
+};
+
+const GLOBAL_ATTRIBUTES = ['class', 'style', 'data-cloze-blank', 'data-ai-highlight'];
+
+// Inline styles the editor writes (text alignment, font size, text color)
+const ALLOWED_STYLES = ['text-align', 'font-size', 'font-weight', 'font-style', 'text-decoration', 'color', 'background-color'];
+
+// Elements removed with their content - everything else not allowed is replaced by its content
+const REMOVED_ELEMENTS = new Set([
+  'script', 'style', 'template', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'applet', 'link', 'meta', 'base', 'form', 'input', 'button', 'select', 'textarea', 'svg', 'math',
+]);
+
+function sanitizeStyle(style: string): string {
+  const declarations = style.split(';').map((declaration) => declaration.trim()).filter(Boolean);
+  return declarations
+    .filter((declaration) => {
+      const [property, ...value] = declaration.split(':');
+      return ALLOWED_STYLES.includes(property.trim().toLowerCase()) && !/url\(|expression\(/i.test(value.join(':'));
+    })
+    .join('; ');
+}
+
+function sanitizeElement(element: Element): void {
+  const allowedAttributes = [...GLOBAL_ATTRIBUTES, ...ALLOWED_ELEMENTS[element.localName]];
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase();
+    const isAllowed =
+      allowedAttributes.includes(name) &&
+      (name !== 'href' || hasAllowedProtocol(attribute.value, LINK_PROTOCOLS)) &&
+      (name !== 'src' || isAllowedImageUrl(attribute.value));
+    if (!isAllowed) {
+      element.removeAttribute(attribute.name);
+    } else if (name === 'style') {
+      const style = sanitizeStyle(attribute.value);
+      if (!style) element.removeAttribute(attribute.name);
+      else if (style !== attribute.value.trim().replace(/;$/, '')) element.setAttribute(attribute.name, style);
+    }
+  }
+}
+
+function sanitizeChildren(parent: Node): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove(); // Comments and processing instructions
+      continue;
+    }
+    const element = child as Element;
+    const name = element.localName;
+    if (REMOVED_ELEMENTS.has(name)) {
+      element.remove();
+      continue;
+    }
+    sanitizeChildren(element);
+    if (ALLOWED_ELEMENTS[name]) {
+      sanitizeElement(element);
+    } else {
+      element.replaceWith(...Array.from(element.childNodes));
+    }
+  }
+}
+
+/**
+ * Rich text (HTML) with only the elements, attributes, styles and URLs the editor writes
+ */
+export function sanitizeRichText(html: string): string {
+  if (!html.includes('<')) return html; // Plain text
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeChildren(parsed.body);
+  return parsed.body.innerHTML;
+}
+
+/**
+ * A block with its rich text fields cleaned up (see sanitizeRichText)
+ */
+export function sanitizeBlockRichText<B extends Block>(block: B): B {
+  const current = block as Block;
+  switch (current.type) {
+    case 'text':
+    case 'header':
+      return { ...block, body: sanitizeRichText(current.body ?? '') };
+    case 'quiz':
+      return { ...block, question: sanitizeRichText(current.question ?? ''), clozeText: sanitizeRichText(current.clozeText ?? '') };
+    case 'audio':
+      return { ...block, transcript: sanitizeRichText(current.transcript ?? '') };
+    case 'flashcards':
+      return {
+        ...block,
+        cards: (current.cards ?? []).map((card) => ({
+          ...card,
+          front: { ...card.front, body: sanitizeRichText(card.front?.body ?? '') },
+          back: { ...card.back, body: sanitizeRichText(card.back?.body ?? '') },
+        })),
+      };
+    case 'table':
+      return {
+        ...block,
+        cells: (current.cells ?? []).map((tableRow) => tableRow.map((cell) => ({ ...cell, body: sanitizeRichText(cell.body ?? '') }))),
+      };
+    default:
+      return block;
+  }
+}
+
+/**
+ * Every block of a lesson with its rich text cleaned up, at any nesting depth
+ */
+export function sanitizeRowsRichText(rows: Row[]): Row[] {
+  return mapResources(rows, (resource) => (isBlock(resource) ? sanitizeBlockRichText(resource) : resource));
+}
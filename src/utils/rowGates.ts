@@ -0,0 +1,42 @@
+import type { QuestionBank, Row, RowGate } from '../types';
+import type { QuizResult } from '../quiz/quizSession';
+import { collectQuizBlocks } from './quiz';
+import { collectQuestionDrawBlocks, drawQuestions } from './questionBanks';
+
+/**
+ * Knowledge-check gates
+ *
+ * A row with a gate holds back the rows after it in the preview until each quiz in the row
+ * is satisfied - answered correctly, attempted `attemptsToUnlock` times when that is set, or
+ * out of attempts (so a learner can never be locked out for good). Questions drawn from a bank count as quizzes of the row that holds the draw.
+ */
+
+export const DEFAULT_CONTINUE_LABEL = 'Continue';
+
+/**
+ * Gate settings for a row that is switched to gating
+ */
+export function createRowGate(): RowGate {
+  return { lockStyle: 'hide', continueButton: false, continueLabel: DEFAULT_CONTINUE_LABEL };
+}
+
+/**
+ * IDs of the quizzes a gate waits for, including the questions drawn for `seed`
+ */
+export function getGateQuizIds(row: Row, banks: QuestionBank[], seed: string): string[] {
+  return [
+    ...collectQuizBlocks([row]).map((quiz) => quiz.id),
+    ...collectQuestionDrawBlocks([row]).flatMap((draw) => drawQuestions(draw, banks, seed).map((question) => question.id)),
+  ];
+}
+
+/**
+ * Whether the learner has done what a gate asks for. A gate without quizzes never locks.
+ */
+export function isGateSatisfied(gate: RowGate, quizIds: string[], results: Record<string, QuizResult>): boolean {
+  return quizIds.every((id) => {
+    const result = results[id];
+    if (!result) return false;
+    return result.isFinal || result.isCorrect || (!!gate.attemptsToUnlock && result.attempts >= gate.attemptsToUnlock);
+  });
+}
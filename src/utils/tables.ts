@@ -0,0 +1,203 @@
+import { nanoid } from 'nanoid';
+import type { TableBlock, TableBlockCell } from '../types';
+import type { Theme } from '../theme/tokens';
+
+/**
+ * Table block helpers
+ *
+ * A table is a full grid of cells. A merged cell is the top-left cell of its range with a
+ * colSpan and/or rowSpan, and the cells it covers stay in the grid, empty, so rows always
+ * have one cell per column. Adding or removing a row or column splits the merges it cuts
+ * through, which keeps every span inside the grid.
+ */
+
+export interface TablePosition {
+  row: number;
+  column: number;
+}
+
+// A rectangle of cells, inclusive on every side
+export interface TableRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+/**
+ * A new empty cell
+ */
+export function createTableCell(): TableBlockCell {
+  return { id: nanoid(), body: '' };
+}
+
+export function getColumnCount(block: TableBlock): number {
+  return block.cells[0]?.length ?? 0;
+}
+
+function getRowSpan(cell: TableBlockCell): number {
+  return cell.rowSpan ?? 1;
+}
+
+function getColSpan(cell: TableBlockCell): number {
+  return cell.colSpan ?? 1;
+}
+
+/**
+ * For every grid position, whether it is hidden under a merged cell
+ */
+export function getCoveredCells(cells: TableBlockCell[][]): boolean[][] {
+  const covered = cells.map((row) => row.map(() => false));
+  cells.forEach((row, rowIndex) => {
+    row.forEach((cell, columnIndex) => {
+      if (covered[rowIndex][columnIndex]) return;
+      for (let r = rowIndex; r < rowIndex + getRowSpan(cell) && r < cells.length; r++) {
+        for (let c = columnIndex; c < columnIndex + getColSpan(cell) && c < row.length; c++) {
+          if (r !== rowIndex || c !== columnIndex) covered[r][c] = true;
+        }
+      }
+    });
+  });
+  return covered;
+}
+
+/**
+ * The range between two cells, grown until no merged cell sticks out of it
+ */
+export function getTableRange(cells: TableBlockCell[][], from: TablePosition, to: TablePosition): TableRange {
+  const range: TableRange = {
+    top: Math.min(from.row, to.row),
+    left: Math.min(from.column, to.column),
+    bottom: Math.max(from.row, to.row),
+    right: Math.max(from.column, to.column),
+  };
+  const covered = getCoveredCells(cells);
+  let isGrowing = true;
+  while (isGrowing) {
+    isGrowing = false;
+    cells.forEach((row, rowIndex) => {
+      row.forEach((cell, columnIndex) => {
+        if (covered[rowIndex][columnIndex]) return;
+        const bottom = rowIndex + getRowSpan(cell) - 1;
+        const right = columnIndex + getColSpan(cell) - 1;
+        const overlaps = rowIndex <= range.bottom && bottom >= range.top && columnIndex <= range.right && right >= range.left;
+        if (!overlaps) return;
+        if (rowIndex < range.top || bottom > range.bottom || columnIndex < range.left || right > range.right) {
+          range.top = Math.min(range.top, rowIndex);
+          range.left = Math.min(range.left, columnIndex);
+          range.bottom = Math.max(range.bottom, bottom);
+          range.right = Math.max(range.right, right);
+          isGrowing = true;
+        }
+      });
+    });
+  }
+  return range;
+}
+
+/**
+ * Merge a range into its top-left cell, which keeps the content of every merged cell
+ */
+export function mergeTableCells(block: TableBlock, range: TableRange): TableBlock {
+  if (range.top === range.bottom && range.left === range.right) return block;
+  const isInRange = (rowIndex: number, columnIndex: number) =>
+    rowIndex >= range.top && rowIndex <= range.bottom && columnIndex >= range.left && columnIndex <= range.right;
+  const body = block.cells
+    .flatMap((row, rowIndex) => row.filter((_, columnIndex) => isInRange(rowIndex, columnIndex)))
+    .map((cell) => cell.body)
+    .filter((cellBody) => cellBody.replace(/<[^>]*>/g, '').trim().length > 0)
+    .join('');
+
+  return {
+    ...block,
+    cells: block.cells.map((row, rowIndex) =>
+      row.map((cell, columnIndex) => {
+        if (!isInRange(rowIndex, columnIndex)) return cell;
+        if (rowIndex === range.top && columnIndex === range.left) {
+          return { id: cell.id, body, rowSpan: range.bottom - range.top + 1, colSpan: range.right - range.left + 1 };
+        }
+        return { id: cell.id, body: '' };
+      })
+    ),
+  };
+}
+
+/**
+ * Undo the merge a cell is the top-left cell of
+ */
+export function splitTableCell(block: TableBlock, position: TablePosition): TableBlock {
+  return {
+    ...block,
+    cells: block.cells.map((row, rowIndex) =>
+      row.map((cell, columnIndex) =>
+        rowIndex === position.row && columnIndex === position.column ? { id: cell.id, body: cell.body } : cell
+      )
+    ),
+  };
+}
+
+// Split the merges for which `cuts` (given the merge's range) is true
+function splitMerges(cells: TableBlockCell[][], cuts: (range: TableRange) => boolean): TableBlockCell[][] {
+  return cells.map((row, rowIndex) =>
+    row.map((cell, columnIndex) => {
+      if (getRowSpan(cell) === 1 && getColSpan(cell) === 1) return cell;
+      const range = {
+        top: rowIndex,
+        left: columnIndex,
+        bottom: rowIndex + getRowSpan(cell) - 1,
+        right: columnIndex + getColSpan(cell) - 1,
+      };
+      return cuts(range) ? { id: cell.id, body: cell.body } : cell;
+    })
+  );
+}
+
+/**
+ * Insert an empty row so it becomes row `index`
+ */
+export function insertTableRow(block: TableBlock, index: number): TableBlock {
+  const cells = splitMerges(block.cells, (range) => range.top < index && range.bottom >= index);
+  const newRow = Array.from({ length: getColumnCount(block) }, createTableCell);
+  return { ...block, cells: [...cells.slice(0, index), newRow, ...cells.slice(index)] };
+}
+
+/**
+ * Remove a row - the last row is never removed
+ */
+export function removeTableRow(block: TableBlock, index: number): TableBlock {
+  if (block.cells.length <= 1) return block;
+  const cells = splitMerges(block.cells, (range) => range.top <= index && range.bottom >= index);
+  return { ...block, cells: cells.filter((_, rowIndex) => rowIndex !== index) };
+}
+
+/**
+ * Insert an empty column so it becomes column `index`
+ */
+export function insertTableColumn(block: TableBlock, index: number): TableBlock {
+  const cells = splitMerges(block.cells, (range) => range.left < index && range.right >= index);
+  return {
+    ...block,
+    cells: cells.map((row) => [...row.slice(0, index), createTableCell(), ...row.slice(index)]),
+  };
+}
+
+/**
+ * Remove a column - the last column is never removed
+ */
+export function removeTableColumn(block: TableBlock, index: number): TableBlock {
+  if (getColumnCount(block) <= 1) return block;
+  const cells = splitMerges(block.cells, (range) => range.left <= index && range.right >= index);
+  return { ...block, cells: cells.map((row) => row.filter((_, columnIndex) => columnIndex !== index)) };
+}
+
+/**
+ * CSS border of table cells from the theme's default cell border - a hairline in the border
+ * color when the theme gives cells no border of their own
+ */
+export function getTableBorder(theme: Theme): string {
+  const border = theme.cellBorder;
+  const width = border?.width?.mode === 'individual'
+    ? Math.max(border.width.top ?? 0, border.width.right ?? 0, border.width.bottom ?? 0, border.width.left ?? 0)
+    : border?.width?.uniform ?? 0;
+  return `${width > 0 ? width : 1}px ${border?.style ?? 'solid'} ${border?.color ?? theme.colors.border}`;
+}
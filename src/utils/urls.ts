@@ -0,0 +1,40 @@
+/**
+ * URL checks
+ *
+ * Links and images come from authors, lesson files and imports, and end up in the editor, the
+ * preview and exported pages. A `javascript:` URL would run script in whichever of those shows
+ * it, so only URLs with a protocol on the caller's list are kept.
+ */
+
+// Protocols a link may open
+export const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Protocols an image may load from - data URLs only as far as they hold an image
+export const IMAGE_PROTOCOLS = ['http:', 'https:', 'data:'];
+
+/**
+ * The protocol of a URL in lower case (such as 'https:') - null for a relative URL. Browsers
+ * skip spaces, tabs and newlines when reading a protocol, so they are skipped here too.
+ */
+export function getUrlProtocol(url: string): string | null {
+  // eslint-disable-next-line no-control-regex
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000- ]/g, ''));
+  return match ? `${match[1].toLowerCase()}:` : null;
+}
+
+/**
+ * Whether a URL uses one of `protocols` (relative URLs count when `allowRelative` is set)
+ */
+export function hasAllowedProtocol(url: string, protocols: string[], allowRelative = true): boolean {
+  const protocol = getUrlProtocol(url);
+  if (protocol === null) return allowRelative;
+  return protocols.includes(protocol);
+}
+
+/**
+ * Whether an image URL is safe to load - data URLs must hold an image
+ */
+export function isAllowedImageUrl(url: string): boolean {
+  if (!hasAllowedProtocol(url, IMAGE_PROTOCOLS)) return false;
+  return getUrlProtocol(url) !== 'data:' || /^data:image\//i.test(url.trim());
+}
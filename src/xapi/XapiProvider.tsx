@@ -0,0 +1,62 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import { XapiContext } from './xapiContext';
+import type { XapiSettings } from './lrs';
+import { loadXapiSettings, saveXapiSettings, sendStatements } from './lrs';
+import { createMemoryLrs } from './memoryLrs';
+import { createStatementQueue } from './statementQueue';
+import type { XapiStatement } from './statements';
+
+interface XapiProviderProps {
+  children: ReactNode;
+}
+
+const QUEUE_STORAGE_KEY = 'livresq-xapi-queue';
+const MAX_DELIVERED = 200;
+
+// xAPI settings and the statement queue - above the editor and preview so queued statements
+// keep being retried after leaving the preview
+export function XapiProvider({ children }: XapiProviderProps) {
+  const [settings, setSettings] = useState(loadXapiSettings);
+  const [delivered, setDelivered] = useState<XapiStatement[]>([]);
+  const [testLrs] = useState(createMemoryLrs);
+  const [queue] = useState(() =>
+    createStatementQueue({
+      storageKey: QUEUE_STORAGE_KEY,
+      // Settings are read from storage when a send starts, so changes apply to queued statements
+      send: (statements) => sendStatements(loadXapiSettings(), testLrs, statements),
+      onDelivered: (statements) => {
+        setDelivered((prev) => [...[...statements].reverse(), ...prev].slice(0, MAX_DELIVERED));
+      },
+    })
+  );
+  const queueState = useSyncExternalStore(queue.subscribe, queue.getState);
+
+  useEffect(() => queue.connect(), [queue]);
+
+  const updateSettings = (updates: Partial<XapiSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    saveXapiSettings(next);
+  };
+
+  return (
+    <XapiContext.Provider
+      value={{
+        settings,
+        updateSettings,
+        send: queue.enqueue,
+        retry: queue.flush,
+        queueState,
+        delivered,
+        clearDelivered: () => {
+          setDelivered([]);
+          testLrs.clear();
+        },
+        testLrs,
+      }}
+    >
+      {children}
+    </XapiContext.Provider>
+  );
+}
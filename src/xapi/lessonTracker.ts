@@ -0,0 +1,100 @@
+import type { AudioBlock, ButtonBlock, QuizBlock, VideoBlock } from '../types';
+import type { QuizAnswer } from '../utils/quiz';
+import type { XapiActivity, XapiActor, XapiResult, XapiStatement, XapiVerb } from './statements';
+import { XAPI_ACTIVITY_TYPES, XAPI_TIME_EXTENSION, XAPI_VERBS, getQuizActivityDefinition, getQuizResponse } from './statements';
+
+/**
+ * What a learner does in a lesson, as xAPI statements
+ *
+ * One tracker covers one run through a lesson - its statements share a registration, and
+ * those about blocks name the lesson as their parent activity. A run is launched and completed
+ * once; repeated calls send nothing.
+ */
+
+export interface LessonTracker {
+  launched: () => void;
+  completed: (correct: number, total: number) => void; // Score from the lesson's quizzes
+  quizAnswered: (block: QuizBlock, answer: QuizAnswer, isCorrect: boolean) => void;
+  mediaPlayed: (block: VideoBlock | AudioBlock, time: number) => void; // Position in seconds
+  buttonClicked: (block: ButtonBlock) => void;
+}
+
+interface LessonTrackerOptions {
+  lesson: { id: string; title: string };
+  actor: XapiActor;
+  activityBaseIri: string;
+  send: (statement: XapiStatement) => void;
+}
+
+export function createLessonTracker({ lesson, actor, activityBaseIri, send }: LessonTrackerOptions): LessonTracker {
+  const registration = crypto.randomUUID();
+  const lessonId = `${activityBaseIri.replace(/\/+$/, '')}/lessons/${encodeURIComponent(lesson.id)}`;
+  const lessonActivity: XapiActivity = {
+    objectType: 'Activity',
+    id: lessonId,
+    definition: { type: XAPI_ACTIVITY_TYPES.lesson, name: { 'en-US': lesson.title || 'Untitled lesson' } },
+  };
+
+  let hasLaunched = false;
+  let hasCompleted = false;
+
+  const getBlockActivity = (blockId: string, definition: XapiActivity['definition']): XapiActivity => ({
+    objectType: 'Activity',
+    id: `${lessonId}/blocks/${encodeURIComponent(blockId)}`,
+    definition,
+  });
+
+  const record = (verb: XapiVerb, object: XapiActivity, result?: XapiResult) => {
+    send({
+      id: crypto.randomUUID(),
+      actor,
+      verb,
+      object,
+      ...(result ? { result } : {}),
+      context: {
+        registration,
+        ...(object !== lessonActivity ? { contextActivities: { parent: [{ objectType: 'Activity', id: lessonId }] } } : {}),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  return {
+    launched: () => {
+      if (hasLaunched) return;
+      hasLaunched = true;
+      record(XAPI_VERBS.launched, lessonActivity);
+    },
+    completed: (correct, total) => {
+      if (hasCompleted) return;
+      hasCompleted = true;
+      record(XAPI_VERBS.completed, lessonActivity, {
+        completion: true,
+        ...(total > 0 ? { score: { scaled: correct / total, raw: correct, min: 0, max: total } } : {}),
+      });
+    },
+    quizAnswered: (block, answer, isCorrect) => {
+      record(XAPI_VERBS.answered, getBlockActivity(block.id, getQuizActivityDefinition(block)), {
+        success: isCorrect,
+        response: getQuizResponse(block, answer),
+      });
+    },
+    mediaPlayed: (block, time) => {
+      const isVideo = block.type === 'video';
+      record(
+        XAPI_VERBS.played,
+        getBlockActivity(block.id, {
+          type: isVideo ? XAPI_ACTIVITY_TYPES.video : XAPI_ACTIVITY_TYPES.audio,
+          name: { 'en-US': block.title || (isVideo ? 'Video' : 'Audio') },
+        }),
+        { extensions: { [XAPI_TIME_EXTENSION]: Math.round(time * 1000) / 1000 } }
+      );
+    },
+    buttonClicked: (block) => {
+      record(
+        XAPI_VERBS.interacted,
+        getBlockActivity(block.id, { type: XAPI_ACTIVITY_TYPES.button, name: { 'en-US': block.label || 'Button' } })
+      );
+    },
+  };
+}
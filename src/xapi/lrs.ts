@@ -0,0 +1,135 @@
+import type { XapiActor, XapiStatement } from './statements';
+import { XAPI_VERSION } from './statements';
+import type { MemoryLrs } from './memoryLrs';
+
+/**
+ * Where xAPI statements go
+ *
+ * Settings are kept in this browser (they belong to whoever previews, not to the lesson) -
+ * except the LRS secret, which any script on the page could read from storage, so it is kept
+ * in memory only until the page is closed. Statements either go to the built-in test LRS
+ * (memoryLrs.ts) or are posted to a real LRS's statements resource with Basic authentication.
+ */
+
+export type LrsTarget = 'test' | 'remote';
+
+export interface XapiSettings {
+  isEnabled: boolean;
+  target: LrsTarget;
+  endpoint: string; // Remote LRS: the xAPI endpoint, e.g. https://lrs.example.com/xapi/
+  username: string; // Remote LRS: key of its Basic authentication credentials
+  password: string; // Remote LRS: secret - never stored (see sessionPassword)
+  actorName: string;
+  actorEmail: string;
+  activityBaseIri: string; // Lessons are `${activityBaseIri}/lessons/${lessonId}`
+}
+
+export const DEFAULT_XAPI_SETTINGS: XapiSettings = {
+  isEnabled: false,
+  target: 'test',
+  endpoint: '',
+  username: '',
+  password: '',
+  actorName: 'Test Learner',
+  actorEmail: 'learner@example.com',
+  activityBaseIri: 'https://livresq.example',
+};
+
+const STORAGE_KEY = 'livresq-xapi-settings';
+
+// The remote LRS secret for this page session
+let sessionPassword = '';
+
+// A failed request to an LRS - retrying only helps when the LRS could not be reached or was
+// busy, not when it refused the statements
+export class LrsRequestError extends Error {
+  readonly isRetryable: boolean;
+
+  constructor(message: string, isRetryable: boolean) {
+    super(message);
+    this.name = 'LrsRequestError';
+    this.isRetryable = isRetryable;
+  }
+}
+
+export function loadXapiSettings(): XapiSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const { password, ...settings } = { ...DEFAULT_XAPI_SETTINGS, ...JSON.parse(stored) } as XapiSettings;
+      // Settings saved while the secret was still stored - move it out of storage into memory
+      if (password) {
+        sessionPassword ||= password;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+      }
+      return { ...settings, password: sessionPassword };
+    }
+  } catch (error) {
+    console.error('Failed to load xAPI settings:', error);
+  }
+  return { ...DEFAULT_XAPI_SETTINGS, password: sessionPassword };
+}
+
+export function saveXapiSettings(settings: XapiSettings): void {
+  const { password, ...stored } = settings;
+  sessionPassword = password;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to save xAPI settings:', error);
+  }
+}
+
+export function getXapiActor(settings: XapiSettings): XapiActor {
+  return {
+    objectType: 'Agent',
+    name: settings.actorName.trim() || DEFAULT_XAPI_SETTINGS.actorName,
+    mbox: `mailto:${settings.actorEmail.trim() || DEFAULT_XAPI_SETTINGS.actorEmail}`,
+  };
+}
+
+// Basic credentials, encoding non-ASCII characters as UTF-8
+function toBasicAuthorization(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+async function postStatements(settings: XapiSettings, statements: XapiStatement[]): Promise<void> {
+  const endpoint = settings.endpoint.trim().replace(/\/+$/, '');
+  if (!endpoint) throw new LrsRequestError('No LRS endpoint is set', false);
+  // The secret is not stored, so after a reload statements wait until it is entered again
+  if (settings.username && !settings.password) throw new LrsRequestError('Enter the LRS secret to send statements', true);
+
+  let response: Response;
+  try {
+    response = await fetch(`${endpoint}/statements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': XAPI_VERSION,
+        ...(settings.username ? { Authorization: toBasicAuthorization(settings.username, settings.password) } : {}),
+      },
+      body: JSON.stringify(statements),
+    });
+  } catch {
+    throw new LrsRequestError('The LRS could not be reached', true);
+  }
+
+  if (!response.ok) {
+    // Timeouts, rate limits and server errors may pass - anything else will fail again
+    const isRetryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    throw new LrsRequestError(`The LRS answered ${response.status} ${response.statusText}`.trim(), isRetryable);
+  }
+}
+
+/**
+ * Send statements to the LRS the settings point to
+ */
+export async function sendStatements(settings: XapiSettings, testLrs: MemoryLrs, statements: XapiStatement[]): Promise<void> {
+  if (settings.target === 'remote') return postStatements(settings, statements);
+  try {
+    await testLrs.storeStatements(statements);
+  } catch (error) {
+    throw new LrsRequestError(error instanceof Error ? error.message : String(error), testLrs.isOffline());
+  }
+}
@@ -0,0 +1,66 @@
+import type { XapiStatement } from './statements';
+
+/**
+ * In-memory LRS
+ *
+ * Stand-in for a Learning Record Store, for checking what the lesson runtime sends without a
+ * real one. It accepts statements the way an LRS's statements resource does - checking the
+ * required properties and ignoring statements it already has - and keeps them until the page
+ * is reloaded. It can also play offline, to try out how statements queue up and are retried.
+ */
+
+export interface MemoryLrs {
+  storeStatements: (statements: XapiStatement[]) => Promise<void>; // Rejects like a failed request
+  getStatements: () => XapiStatement[]; // Newest first
+  clear: () => void;
+  isOffline: () => boolean;
+  setOffline: (isOffline: boolean) => void;
+  subscribe: (listener: () => void) => () => void; // Returns the unsubscribe function
+}
+
+// Why a statement is not a valid xAPI statement, or null when it is
+function getStatementProblem(statement: XapiStatement): string | null {
+  if (!statement.id) return 'a statement has no id';
+  if (!statement.actor?.mbox?.startsWith('mailto:')) return `statement ${statement.id} has no actor mbox`;
+  if (!statement.verb?.id) return `statement ${statement.id} has no verb`;
+  if (!statement.object?.id) return `statement ${statement.id} has no object`;
+  return null;
+}
+
+export function createMemoryLrs(): MemoryLrs {
+  let statements: XapiStatement[] = [];
+  let isOffline = false;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    storeStatements: async (received) => {
+      if (isOffline) throw new Error('The test LRS is offline');
+      const problem = received.map(getStatementProblem).find((found) => found !== null);
+      if (problem) throw new Error(`The test LRS rejected the statements: ${problem}`);
+
+      const storedIds = new Set(statements.map((statement) => statement.id));
+      const added = received.filter((statement) => !storedIds.has(statement.id));
+      if (added.length === 0) return;
+      statements = [...added.reverse(), ...statements];
+      notify();
+    },
+    getStatements: () => statements,
+    clear: () => {
+      statements = [];
+      notify();
+    },
+    isOffline: () => isOffline,
+    setOffline: (nextIsOffline) => {
+      isOffline = nextIsOffline;
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
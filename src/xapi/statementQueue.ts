@@ -0,0 +1,131 @@
+import type { XapiStatement } from './statements';
+import { LrsRequestError } from './lrs';
+
+/**
+ * Outgoing xAPI statements
+ *
+ * Statements wait in a queue kept in localStorage until the LRS accepts them, so none are lost
+ * while offline or when the page is closed. Failed sends are retried with a growing delay, and
+ * straight away when the browser comes back online. Statements the LRS refuses are dropped -
+ * sending them again would fail the same way.
+ */
+
+export interface StatementQueueState {
+  pending: XapiStatement[]; // Oldest first
+  lastError: string | null; // Why the last send failed, until one succeeds
+  retryAt: number | null; // Timestamp of the next retry, while one is scheduled
+}
+
+export interface StatementQueue {
+  enqueue: (statement: XapiStatement) => void;
+  flush: () => void; // Send now, without waiting for a scheduled retry
+  getState: () => StatementQueueState; // Same object until the state changes
+  subscribe: (listener: () => void) => () => void; // Returns the unsubscribe function
+  connect: () => () => void; // Retry when the browser comes online - returns the disconnect function
+}
+
+interface StatementQueueOptions {
+  storageKey: string;
+  send: (statements: XapiStatement[]) => Promise<void>;
+  onDelivered?: (statements: XapiStatement[]) => void;
+}
+
+const BATCH_SIZE = 50;
+const FIRST_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 60000;
+
+function loadPending(storageKey: string): XapiStatement[] {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Failed to load queued xAPI statements:', error);
+  }
+  return [];
+}
+
+export function createStatementQueue({ storageKey, send, onDelivered }: StatementQueueOptions): StatementQueue {
+  let state: StatementQueueState = { pending: loadPending(storageKey), lastError: null, retryAt: null };
+  let isSending = false;
+  let retryDelay = FIRST_RETRY_DELAY;
+  let retryTimer: number | undefined;
+  const listeners = new Set<() => void>();
+
+  const update = (changes: Partial<StatementQueueState>) => {
+    const hasPendingChanged = changes.pending !== undefined && changes.pending !== state.pending;
+    state = { ...state, ...changes };
+    if (hasPendingChanged) {
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(state.pending));
+      } catch (error) {
+        console.error('Failed to store queued xAPI statements:', error);
+      }
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const cancelRetry = () => {
+    window.clearTimeout(retryTimer);
+    retryTimer = undefined;
+  };
+
+  const flush = async () => {
+    cancelRetry();
+    if (isSending) return;
+    isSending = true;
+
+    while (state.pending.length > 0) {
+      const batch = state.pending.slice(0, BATCH_SIZE);
+      const removeBatch = () => state.pending.filter((statement) => !batch.includes(statement));
+      try {
+        await send(batch);
+        retryDelay = FIRST_RETRY_DELAY;
+        update({ pending: removeBatch(), lastError: null, retryAt: null });
+        onDelivered?.(batch);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof LrsRequestError && !error.isRetryable) {
+          update({ pending: removeBatch(), lastError: `${message} - ${batch.length} statement(s) dropped` });
+          continue;
+        }
+        retryTimer = window.setTimeout(flush, retryDelay);
+        update({ lastError: message, retryAt: Date.now() + retryDelay });
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+        break;
+      }
+    }
+
+    isSending = false;
+  };
+
+  const handleOnline = () => {
+    retryDelay = FIRST_RETRY_DELAY;
+    flush();
+  };
+
+  return {
+    enqueue: (statement) => {
+      update({ pending: [...state.pending, statement] });
+      // While a retry is scheduled the new statement waits for it
+      if (retryTimer === undefined) flush();
+    },
+    flush: () => {
+      flush();
+    },
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    connect: () => {
+      window.addEventListener('online', handleOnline);
+      flush(); // Statements left from an earlier visit
+      return () => {
+        cancelRetry();
+        window.removeEventListener('online', handleOnline);
+      };
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import type { QuizBlock } from '../types';
+import type { QuizAnswer } from '../utils/quiz';
+import { getClozeBlanks, getMatchChoices, getQuizChoices, getCorrectChoiceIndices } from '../utils/quiz';
+
+/**
+ * xAPI (Tin Can) statements
+ *
+ * The subset of the xAPI 1.0.3 statement format the lesson runtime sends: who (actor) did
+ * what (verb) to which activity (object), with a result for answers and a context tying the
+ * statements of one run through a lesson together (registration).
+ * See https://github.com/adlnet/xAPI-Spec/blob/master/xAPI-Data.md
+ */
+
+export const XAPI_VERSION = '1.0.3';
+
+export interface XapiActor {
+  objectType: 'Agent';
+  name: string;
+  mbox: string; // mailto: IRI
+}
+
+export interface XapiVerb {
+  id: string;
+  display: Record<string, string>; // By language
+}
+
+export type XapiInteractionType = 'choice' | 'fill-in' | 'matching' | 'sequencing' | 'other';
+
+export interface XapiInteractionComponent {
+  id: string;
+  description: Record<string, string>;
+}
+
+export interface XapiActivityDefinition {
+  type: string;
+  name: Record<string, string>;
+  interactionType?: XapiInteractionType;
+  correctResponsesPattern?: string[];
+  choices?: XapiInteractionComponent[];
+  source?: XapiInteractionComponent[];
+  target?: XapiInteractionComponent[];
+}
+
+export interface XapiActivity {
+  objectType: 'Activity';
+  id: string; // IRI
+  definition: XapiActivityDefinition;
+}
+
+export interface XapiResult {
+  success?: boolean;
+  completion?: boolean;
+  response?: string;
+  score?: { scaled: number; raw: number; min: number; max: number };
+  extensions?: Record<string, unknown>;
+}
+
+export interface XapiStatement {
+  id: string; // UUID - an LRS ignores a statement it already has, so resending is safe
+  actor: XapiActor;
+  verb: XapiVerb;
+  object: XapiActivity;
+  result?: XapiResult;
+  context?: {
+    registration: string; // UUID of one run through the lesson
+    contextActivities?: { parent: { objectType: 'Activity'; id: string }[] };
+  };
+  timestamp: string; // ISO timestamp
+}
+
+function createVerb(id: string, display: string): XapiVerb {
+  return { id, display: { 'en-US': display } };
+}
+
+export const XAPI_VERBS = {
+  launched: createVerb('http://adlnet.gov/expapi/verbs/launched', 'launched'),
+  completed: createVerb('http://adlnet.gov/expapi/verbs/completed', 'completed'),
+  answered: createVerb('http://adlnet.gov/expapi/verbs/answered', 'answered'),
+  played: createVerb('https://w3id.org/xapi/video/verbs/played', 'played'),
+  interacted: createVerb('http://adlnet.gov/expapi/verbs/interacted', 'interacted'),
+};
+
+export const XAPI_ACTIVITY_TYPES = {
+  lesson: 'http://adlnet.gov/expapi/activities/lesson',
+  question: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+  video: 'https://w3id.org/xapi/video/activity-type/video',
+  audio: 'http://adlnet.gov/expapi/activities/media',
+  button: 'http://adlnet.gov/expapi/activities/interaction',
+};
+
+// Playback position of a played statement, in seconds
+export const XAPI_TIME_EXTENSION = 'https://w3id.org/xapi/video/extensions/time';
+
+// Separators of the xAPI response and pattern formats
+const LIST_SEPARATOR = '[,]';
+const PAIR_SEPARATOR = '[.]';
+
+function toLanguageMap(text: string): Record<string, string> {
+  return { 'en-US': text };
+}
+
+/**
+ * Activity definition of a quiz block, with its choices and correct answer pattern
+ */
+export function getQuizActivityDefinition(block: QuizBlock): XapiActivityDefinition {
+  const name = toLanguageMap(block.question.trim() || 'Question');
+  const type = XAPI_ACTIVITY_TYPES.question;
+
+  switch (block.quizType) {
+    case 'multiple-choice':
+    case 'multiple-select':
+    case 'true-false':
+      return {
+        type,
+        name,
+        interactionType: 'choice',
+        choices: getQuizChoices(block).map((choice, index) => ({ id: `choice-${index}`, description: toLanguageMap(choice) })),
+        correctResponsesPattern: [getCorrectChoiceIndices(block).map((index) => `choice-${index}`).join(LIST_SEPARATOR)],
+      };
+    case 'short-answer':
+      return { type, name, interactionType: 'fill-in', correctResponsesPattern: block.acceptedAnswers.slice(0, 1) };
+    case 'cloze':
+      return {
+        type,
+        name,
+        interactionType: 'fill-in',
+        correctResponsesPattern: [
+          getClozeBlanks(block)
+            .map((blank) => (blank.mode === 'dropdown' ? blank.choices[blank.correctChoiceIndex] : blank.acceptedAnswers[0]) ?? '')
+            .join(LIST_SEPARATOR),
+        ],
+      };
+    case 'matching':
+      return {
+        type,
+        name,
+        interactionType: 'matching',
+        source: block.matchPairs.map((pair) => ({ id: pair.id, description: toLanguageMap(pair.prompt) })),
+        target: getMatchChoices(block).map((choice) => ({ id: choice.id, description: toLanguageMap(choice.text) })),
+        correctResponsesPattern: [block.matchPairs.map((pair) => `${pair.id}${PAIR_SEPARATOR}${pair.id}`).join(LIST_SEPARATOR)],
+      };
+    case 'ordering':
+      return {
+        type,
+        name,
+        interactionType: 'sequencing',
+        choices: block.orderItems.map((item) => ({ id: item.id, description: toLanguageMap(item.text) })),
+        correctResponsesPattern: [block.orderItems.map((item) => item.id).join(LIST_SEPARATOR)],
+      };
+    case 'hotspot':
+      return { type, name, interactionType: 'other' };
+  }
+}
+
+/**
+ * A learner's answer in the xAPI response format of the quiz's interaction type
+ */
+export function getQuizResponse(block: QuizBlock, answer: QuizAnswer): string {
+  switch (block.quizType) {
+    case 'multiple-choice':
+    case 'multiple-select':
+    case 'true-false':
+      return [...answer.selectedIndices].sort((a, b) => a - b).map((index) => `choice-${index}`).join(LIST_SEPARATOR);
+    case 'short-answer':
+      return answer.text.trim();
+    case 'cloze':
+      // Dropdown values are the index of the chosen choice
+      return getClozeBlanks(block)
+        .map((blank) => {
+          const value = answer.blanks[blank.id] ?? '';
+          return blank.mode === 'dropdown' ? blank.choices[Number(value)] ?? '' : value.trim();
+        })
+        .join(LIST_SEPARATOR);
+    case 'matching':
+      return block.matchPairs
+        .map((pair, index) => `${pair.id}${PAIR_SEPARATOR}${answer.order[index] ?? ''}`)
+        .join(LIST_SEPARATOR);
+    case 'ordering':
+      return answer.order.join(LIST_SEPARATOR);
+    case 'hotspot':
+      // Where the learner clicked, in percent of the image
+      return answer.point ? `${Math.round(answer.point.x * 10) / 10},${Math.round(answer.point.y * 10) / 10}` : '';
+  }
+}
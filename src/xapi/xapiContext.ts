@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { XapiSettings } from './lrs';
+import type { MemoryLrs } from './memoryLrs';
+import type { StatementQueueState } from './statementQueue';
+import type { XapiStatement } from './statements';
+
+export interface XapiContextValue {
+  settings: XapiSettings;
+  updateSettings: (updates: Partial<XapiSettings>) => void;
+  send: (statement: XapiStatement) => void; // Queue a statement for the LRS
+  retry: () => void; // Send queued statements now
+  queueState: StatementQueueState;
+  delivered: XapiStatement[]; // Statements the LRS accepted since the page loaded, newest first
+  clearDelivered: () => void; // Also empties the test LRS
+  testLrs: MemoryLrs;
+}
+
+export const XapiContext = createContext<XapiContextValue | undefined>(undefined);
+
+export function useXapi(): XapiContextValue {
+  const context = useContext(XapiContext);
+  if (!context) {
+    throw new Error('useXapi must be used within an XapiProvider');
+  }
+  return context;
+}